@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // 학습플랜 PDF — 폰트/이미지를 파일 경로로 읽으므로 번들하지 않는다
+  serverExternalPackages: ["@react-pdf/renderer"],
 };
 
 export default nextConfig;
@@ -4,10 +4,12 @@ import { useRouter, usePathname } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { createClient } from '@/lib/supabase/client';
+import { ROLE_LABELS } from '@/lib/userRoles';
+import { canAccessRoute } from '@/lib/routeAccess';
 import type { Profile } from '@/types';
 import styles from './layout.module.css';
 
-// NAV_ITEMS는 DashboardLayoutClient 내부에서 profile.role 기반으로 동적 생성됨
+// 메뉴는 routeAccess 의 경로별 권한으로 표시 여부를 정한다
 
 export default function DashboardLayoutClient({
   children,
@@ -27,7 +29,7 @@ export default function DashboardLayoutClient({
   }
 
   const initials = profile?.name?.slice(0, 2) ?? '관리';
-  const roleLabel = profile?.role === 'super_admin' ? '최상위관리자' : '관리자';
+  const roleLabel = profile ? ROLE_LABELS[profile.role] : '관리자';
 
   return (
     <div className={styles.root}>
@@ -61,18 +63,42 @@ export default function DashboardLayoutClient({
             href="/students"
             className={`${styles.nav_item} ${pathname.startsWith('/students') ? styles.nav_item_active : ''}`}
           >학생관리</Link>
-          {profile?.role === 'super_admin' && (
+          {canAccessRoute(profile?.role, '/admin/subjects') && (
             <Link
               href="/admin/subjects"
               className={`${styles.nav_item} ${pathname.startsWith('/admin/subjects') ? styles.nav_item_active : ''}`}
             >과목관리</Link>
           )}
-          {profile?.role === 'super_admin' && (
+          {canAccessRoute(profile?.role, '/admin/plan-rules') && (
+            <Link
+              href="/admin/plan-rules"
+              className={`${styles.nav_item} ${pathname.startsWith('/admin/plan-rules') ? styles.nav_item_active : ''}`}
+            >플랜 규칙</Link>
+          )}
+          {canAccessRoute(profile?.role, '/admin/cohorts') && (
+            <Link
+              href="/admin/cohorts"
+              className={`${styles.nav_item} ${pathname.startsWith('/admin/cohorts') ? styles.nav_item_active : ''}`}
+            >기수 일정</Link>
+          )}
+          {canAccessRoute(profile?.role, '/admin/managers') && (
             <Link
               href="/admin/managers"
               className={`${styles.nav_item} ${pathname.startsWith('/admin/managers') ? styles.nav_item_active : ''}`}
             >담당자 관리</Link>
           )}
+          {canAccessRoute(profile?.role, '/admin/users') && (
+            <Link
+              href="/admin/users"
+              className={`${styles.nav_item} ${pathname.startsWith('/admin/users') ? styles.nav_item_active : ''}`}
+            >계정 관리</Link>
+          )}
+          {canAccessRoute(profile?.role, '/admin/student-merge') && (
+            <Link
+              href="/admin/student-merge"
+              className={`${styles.nav_item} ${pathname.startsWith('/admin/student-merge') ? styles.nav_item_active : ''}`}
+            >중복 학생</Link>
+          )}
         </div>
       </nav>
 
@@ -0,0 +1,342 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { logActivity } from '@/lib/logger';
+import { diffSnapshots } from '@/lib/activityLog';
+import { getDefaultSemesterDates } from '@/lib/autoPlanner';
+import { fetchCohortSchedules, formatScheduleDate, isRegistrationOpen } from '@/lib/cohortCalendar';
+import { formatCohort } from '@/lib/studentRelations';
+import type { CohortSchedule, EducationCenter } from '@/types';
+import styles from './page.module.css';
+
+type DateField = 'registration_open' | 'registration_close' | 'class_start' | 'class_end' | 'exam_date';
+
+interface CohortForm extends Record<DateField, string> {
+  center_id: number | '';
+  year: string;
+  term: number;
+  batch: string;
+}
+
+const DATE_FIELDS: DateField[] = ['registration_open', 'registration_close', 'class_start', 'class_end', 'exam_date'];
+
+// 로그용 — 날짜를 화면 표기 그대로
+function cohortSnapshot(c: Pick<CohortSchedule, DateField>) {
+  return {
+    registration: `${formatScheduleDate(c.registration_open)} ~ ${formatScheduleDate(c.registration_close)}`,
+    class_period: `${formatScheduleDate(c.class_start)} ~ ${formatScheduleDate(c.class_end)}`,
+    exam_date: formatScheduleDate(c.exam_date),
+  };
+}
+
+function emptyForm(centerId: number | ''): CohortForm {
+  const year = String(new Date().getFullYear() + 1);
+  const defaults = getDefaultSemesterDates(year, 1);
+  return {
+    center_id: centerId,
+    year,
+    term: 1,
+    batch: '1',
+    registration_open: '',
+    registration_close: '',
+    class_start: defaults.start,
+    class_end: defaults.end,
+    exam_date: '',
+  };
+}
+
+export default function AdminCohortsPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [cohorts, setCohorts] = useState<CohortSchedule[]>([]);
+  const [centers, setCenters] = useState<EducationCenter[]>([]);
+  const [filterCenter, setFilterCenter] = useState<number | ''>('');
+  const [filterYear, setFilterYear] = useState('');
+
+  const [showModal, setShowModal] = useState(false);
+  const [editTarget, setEditTarget] = useState<CohortSchedule | null>(null);
+  const [form, setForm] = useState<CohortForm>(emptyForm(''));
+  const [saving, setSaving] = useState(false);
+  const savingRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const supabase = createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (cancelled) return;
+      if (!user) { router.push('/login'); return; }
+
+      const [schedules, centersRes] = await Promise.all([
+        fetchCohortSchedules(supabase),
+        supabase.from('education_centers').select('*').order('id'),
+      ]);
+      if (!cancelled) {
+        setCohorts(schedules);
+        setCenters((centersRes.data ?? []) as EducationCenter[]);
+        setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [router]);
+
+  const centerName = (id: number) => centers.find((c) => c.id === id)?.name ?? '-';
+  const years = Array.from(new Set(cohorts.map((c) => c.year))).sort((a, b) => b - a);
+  const visible = cohorts.filter((c) =>
+    (filterCenter === '' || c.center_id === filterCenter) && (!filterYear || c.year === Number(filterYear)));
+
+  function set<K extends keyof CohortForm>(key: K, value: CohortForm[K]) {
+    setForm((f) => ({ ...f, [key]: value }));
+  }
+
+  // 새 기수는 연도 · 학기에 맞춰 개강 · 종강일을 기본 기간으로 채운다
+  function setTermKey(year: string, term: number) {
+    setForm((f) => {
+      const defaults = !editTarget && /^\d{4}$/.test(year) ? getDefaultSemesterDates(year, term) : null;
+      return {
+        ...f,
+        year,
+        term,
+        class_start: defaults?.start ?? f.class_start,
+        class_end: defaults?.end ?? f.class_end,
+      };
+    });
+  }
+
+  function openAdd() {
+    setEditTarget(null);
+    setForm(emptyForm(filterCenter || (centers[0]?.id ?? '')));
+    setShowModal(true);
+  }
+
+  function openEdit(c: CohortSchedule) {
+    setEditTarget(c);
+    setForm({
+      center_id: c.center_id,
+      year: String(c.year),
+      term: c.term,
+      batch: String(c.batch),
+      registration_open: c.registration_open ?? '',
+      registration_close: c.registration_close ?? '',
+      class_start: c.class_start ?? '',
+      class_end: c.class_end ?? '',
+      exam_date: c.exam_date ?? '',
+    });
+    setShowModal(true);
+  }
+
+  async function handleSave() {
+    if (savingRef.current) return;
+    if (!form.center_id) { alert('교육원을 선택해주세요.'); return; }
+    if (!/^\d{4}$/.test(form.year) || !(Number(form.batch) > 0)) { alert('연도와 기수를 확인해주세요.'); return; }
+    if (form.class_start && form.class_end && form.class_start > form.class_end) { alert('종강일이 개강일보다 빠릅니다.'); return; }
+    if (form.registration_open && form.registration_close && form.registration_open > form.registration_close) {
+      alert('모집 마감일이 모집 시작일보다 빠릅니다.'); return;
+    }
+
+    const supabase = createClient();
+    const payload = {
+      center_id: form.center_id,
+      year: Number(form.year),
+      term: form.term,
+      batch: Number(form.batch),
+      ...Object.fromEntries(DATE_FIELDS.map((f) => [f, form[f] || null])),
+      updated_at: new Date().toISOString(),
+    };
+    const label = `${centerName(form.center_id)} ${formatCohort(payload)}`;
+
+    // 날짜가 바뀌면 연결된 플랜 학기도 모두 바뀐다
+    if (editTarget && (editTarget.class_start !== (form.class_start || null) || editTarget.class_end !== (form.class_end || null))) {
+      const { count } = await supabase.from('plan_semesters').select('id', { count: 'exact', head: true }).eq('cohort_id', editTarget.id);
+      if (count && !confirm(`이 기수를 사용하는 플랜 학기 ${count}개의 날짜가 함께 바뀝니다. 저장하시겠습니까?`)) return;
+    }
+
+    savingRef.current = true;
+    setSaving(true);
+    const { data, error } = editTarget
+      ? await supabase.from('cohorts').update(payload).eq('id', editTarget.id).select().single()
+      : await supabase.from('cohorts').insert(payload).select().single();
+    savingRef.current = false;
+    setSaving(false);
+    if (error) {
+      alert(error.code === '23505' ? '이미 등록된 기수입니다.' : `저장 실패: ${error.message}`);
+      return;
+    }
+
+    const saved = data as CohortSchedule;
+    setCohorts((prev) => [...prev.filter((c) => c.id !== saved.id), saved]
+      .sort((a, b) => b.year - a.year || b.term - a.term || a.batch - b.batch || a.center_id - b.center_id));
+    const changes = editTarget
+      ? diffSnapshots(cohortSnapshot(editTarget), cohortSnapshot(saved))
+      : { before: null, after: cohortSnapshot(saved) };
+    logActivity({
+      action: editTarget ? '기수 일정 수정' : '기수 일정 추가',
+      action_type: editTarget ? 'update' : 'create',
+      target_type: 'cohort',
+      target_id: saved.id,
+      target_name: label,
+      detail: `개강 ${formatScheduleDate(saved.class_start)} ~ 종강 ${formatScheduleDate(saved.class_end)}`,
+      before: changes?.before,
+      after: changes?.after,
+    });
+    setShowModal(false);
+  }
+
+  async function handleDelete(c: CohortSchedule) {
+    const label = `${centerName(c.center_id)} ${formatCohort(c)}`;
+    if (!confirm(`"${label}" 일정을 삭제하시겠습니까?\n연결된 플랜의 날짜는 그대로 남습니다.`)) return;
+    const supabase = createClient();
+    const { error } = await supabase.from('cohorts').delete().eq('id', c.id);
+    if (error) { alert(`삭제 실패: ${error.message}`); return; }
+    setCohorts((prev) => prev.filter((x) => x.id !== c.id));
+    logActivity({ action: '기수 일정 삭제', action_type: 'delete', target_type: 'cohort', target_id: c.id, target_name: label, before: cohortSnapshot(c) });
+  }
+
+  if (loading) return <div className={styles.loading}>불러오는 중...</div>;
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.header}>
+        <div>
+          <div className={styles.title}>기수 일정</div>
+          <div className={styles.sub}>교육원별 모집 · 개강 · 종강 · 시험 일정 {cohorts.length}건</div>
+        </div>
+        <div className={styles.header_actions}>
+          <select
+            className={styles.filter_select}
+            value={filterCenter}
+            onChange={(e) => setFilterCenter(e.target.value ? Number(e.target.value) : '')}
+          >
+            <option value="">전체 교육원</option>
+            {centers.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <select className={styles.filter_select} value={filterYear} onChange={(e) => setFilterYear(e.target.value)}>
+            <option value="">전체 연도</option>
+            {years.map((y) => <option key={y} value={y}>{y}년</option>)}
+          </select>
+          <button className={styles.add_btn} onClick={openAdd}>+ 기수 추가</button>
+        </div>
+      </div>
+
+      <div className={styles.table_wrap}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>교육원</th>
+              <th>기수</th>
+              <th>모집 기간</th>
+              <th>개강 ~ 종강</th>
+              <th>시험일</th>
+              <th>관리</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 ? (
+              <tr><td colSpan={6} className={styles.empty}>등록된 기수 일정이 없습니다.</td></tr>
+            ) : visible.map((c) => (
+              <tr key={c.id}>
+                <td className={styles.center_name}>{centerName(c.center_id)}</td>
+                <td className={styles.cohort_label}>{formatCohort(c)}</td>
+                <td className={styles.date_range}>
+                  {formatScheduleDate(c.registration_open)} ~ {formatScheduleDate(c.registration_close)}
+                  {isRegistrationOpen(c) && <span className={styles.badge_open}>모집 중</span>}
+                </td>
+                <td className={styles.date_range}>{formatScheduleDate(c.class_start)} ~ {formatScheduleDate(c.class_end)}</td>
+                <td className={styles.date_range}>{formatScheduleDate(c.exam_date)}</td>
+                <td>
+                  <div className={styles.row_actions}>
+                    <button className={styles.edit_btn} onClick={() => openEdit(c)}>수정</button>
+                    <button className={styles.delete_btn} onClick={() => handleDelete(c)}>삭제</button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {showModal && (
+        <div className={styles.overlay} onClick={() => setShowModal(false)}>
+          <div className={styles.modal} onClick={e => e.stopPropagation()}>
+            <div className={styles.modal_header}>
+              <span className={styles.modal_title}>{editTarget ? '기수 일정 수정' : '기수 일정 추가'}</span>
+              <button className={styles.modal_close} onClick={() => setShowModal(false)}>✕</button>
+            </div>
+            <div className={styles.modal_body}>
+              <div className={styles.field}>
+                <label className={styles.label}>교육원</label>
+                <select
+                  className={styles.input}
+                  value={form.center_id}
+                  onChange={(e) => set('center_id', e.target.value ? Number(e.target.value) : '')}
+                >
+                  <option value="">선택</option>
+                  {centers.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+              </div>
+              <div className={styles.field_row}>
+                <div className={styles.field}>
+                  <label className={styles.label}>연도</label>
+                  <input className={styles.input} inputMode="numeric" maxLength={4}
+                    value={form.year} onChange={(e) => setTermKey(e.target.value.replace(/\D/g, ''), form.term)} />
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>학기</label>
+                  <select className={styles.input} value={form.term} onChange={(e) => setTermKey(form.year, Number(e.target.value))}>
+                    <option value={1}>1학기</option>
+                    <option value={2}>2학기</option>
+                  </select>
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>기수</label>
+                  <input className={styles.input} type="number" min={1}
+                    value={form.batch} onChange={(e) => set('batch', e.target.value)} />
+                </div>
+              </div>
+              <div className={styles.field_pair}>
+                <div className={styles.field}>
+                  <label className={styles.label}>모집 시작</label>
+                  <input className={styles.input} type="date" value={form.registration_open}
+                    onChange={(e) => set('registration_open', e.target.value)} />
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>모집 마감</label>
+                  <input className={styles.input} type="date" value={form.registration_close}
+                    onChange={(e) => set('registration_close', e.target.value)} />
+                </div>
+              </div>
+              <div className={styles.field_pair}>
+                <div className={styles.field}>
+                  <label className={styles.label}>개강일</label>
+                  <input className={styles.input} type="date" value={form.class_start}
+                    onChange={(e) => set('class_start', e.target.value)} />
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>종강일</label>
+                  <input className={styles.input} type="date" value={form.class_end}
+                    onChange={(e) => set('class_end', e.target.value)} />
+                </div>
+              </div>
+              <div className={styles.field}>
+                <label className={styles.label}>시험일</label>
+                <input className={styles.input} type="date" value={form.exam_date}
+                  onChange={(e) => set('exam_date', e.target.value)} />
+              </div>
+              <div className={styles.hint}>
+                개강 · 종강일은 이 기수를 쓰는 학생 플랜의 학기 기간으로 사용되며, 수정하면 연결된 플랜에 바로 반영됩니다.
+              </div>
+            </div>
+            <div className={styles.modal_footer}>
+              <button className={styles.cancel_btn} onClick={() => setShowModal(false)}>취소</button>
+              <button className={styles.confirm_btn} onClick={handleSave} disabled={saving}>
+                {saving ? '저장 중...' : editTarget ? '수정' : '추가'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,23 +4,26 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { logActivity } from '@/lib/logger';
+import { diffSnapshots } from '@/lib/activityLog';
+import { ROLE_LABELS } from '@/lib/userRoles';
+import type { Manager, Profile } from '@/types';
 import styles from './page.module.css';
 
-interface Manager {
-  id: number;
-  name: string;
-  sort_order: number;
-  created_at: string;
+interface ManagerRow extends Manager {
+  student_count: number;
 }
 
+type Account = Pick<Profile, 'id' | 'name' | 'role' | 'manager_id'>;
+
 export default function AdminManagersPage() {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
-  const [managers, setManagers] = useState<Manager[]>([]);
+  const [managers, setManagers] = useState<ManagerRow[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
 
   const [showModal, setShowModal] = useState(false);
-  const [editTarget, setEditTarget] = useState<Manager | null>(null);
-  const [form, setForm] = useState({ name: '', sort_order: 0 });
+  const [editTarget, setEditTarget] = useState<ManagerRow | null>(null);
+  const [form, setForm] = useState({ name: '', sort_order: 0, profile_id: '' });
   const [saving, setSaving] = useState(false);
   const savingRef = useRef(false);
 
@@ -31,12 +34,17 @@ export default function AdminManagersPage() {
       const { data: { user } } = await supabase.auth.getUser();
       if (cancelled) return;
       if (!user) { router.push('/login'); return; }
-      const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).single();
-      if (profile?.role !== 'super_admin') { router.push('/students'); return; }
 
-      const { data } = await supabase.from('managers').select('*').order('sort_order');
+      const [managersRes, accountsRes] = await Promise.all([
+        supabase.from('managers').select('*, students(count)').order('sort_order'),
+        supabase.from('profiles').select('id, name, role, manager_id').order('name'),
+      ]);
       if (!cancelled) {
-        setManagers((data ?? []) as Manager[]);
+        setManagers((managersRes.data ?? []).map(({ students, ...m }) => ({
+          ...(m as Manager),
+          student_count: (students as { count: number }[] | null)?.[0]?.count ?? 0,
+        })));
+        setAccounts((accountsRes.data ?? []) as Account[]);
         setLoading(false);
       }
     })();
@@ -46,43 +54,114 @@ export default function AdminManagersPage() {
   function openAdd() {
     setEditTarget(null);
     const nextOrder = managers.length > 0 ? Math.max(...managers.map(m => m.sort_order)) + 1 : 1;
-    setForm({ name: '', sort_order: nextOrder });
+    setForm({ name: '', sort_order: nextOrder, profile_id: '' });
     setShowModal(true);
   }
 
-  function openEdit(m: Manager) {
+  function openEdit(m: ManagerRow) {
     setEditTarget(m);
-    setForm({ name: m.name, sort_order: m.sort_order });
+    setForm({ name: m.name, sort_order: m.sort_order, profile_id: linkedAccount(m.id)?.id ?? '' });
     setShowModal(true);
   }
 
+  const linkedAccount = (managerId: number) => accounts.find(a => a.manager_id === managerId);
+
   async function handleSave() {
     if (savingRef.current || !form.name.trim()) return;
     savingRef.current = true;
     setSaving(true);
     const supabase = createClient();
+    const name = form.name.trim();
+    const finish = () => { savingRef.current = false; setSaving(false); };
 
+    // 학생은 manager_id 로 연결되어 있어 이름을 바꿔도 그대로 따라간다
+    let managerId = editTarget?.id;
     if (editTarget) {
-      await supabase.from('managers').update({ name: form.name.trim(), sort_order: form.sort_order }).eq('id', editTarget.id);
-      setManagers(prev => prev.map(m => m.id === editTarget.id ? { ...m, name: form.name.trim(), sort_order: form.sort_order } : m).sort((a, b) => a.sort_order - b.sort_order));
-      logActivity({ action: '담당자 수정', target_type: 'manager', target_name: form.name.trim() });
+      const { error } = await supabase.from('managers').update({ name, sort_order: form.sort_order }).eq('id', editTarget.id);
+      if (error) { alert(`수정 실패: ${error.message}`); finish(); return; }
+      setManagers(prev => prev.map(m => m.id === editTarget.id ? { ...m, name, sort_order: form.sort_order } : m).sort((a, b) => a.sort_order - b.sort_order));
+      const changes = diffSnapshots(
+        { name: editTarget.name, sort_order: editTarget.sort_order },
+        { name, sort_order: form.sort_order },
+      );
+      logActivity({
+        action: '담당자 수정',
+        action_type: 'update',
+        target_type: 'manager',
+        target_id: editTarget.id,
+        target_name: name,
+        before: changes?.before,
+        after: changes?.after,
+      });
     } else {
-      const { data } = await supabase.from('managers').insert({ name: form.name.trim(), sort_order: form.sort_order }).select().single();
-      if (data) setManagers(prev => [...prev, data as Manager].sort((a, b) => a.sort_order - b.sort_order));
-      logActivity({ action: '담당자 추가', target_type: 'manager', target_name: form.name.trim() });
+      const { data, error } = await supabase.from('managers').insert({ name, sort_order: form.sort_order }).select().single();
+      if (error) { alert(`추가 실패: ${error.message}`); finish(); return; }
+      managerId = data.id;
+      setManagers(prev => [...prev, { ...(data as Manager), student_count: 0 }].sort((a, b) => a.sort_order - b.sort_order));
+      logActivity({ action: '담당자 추가', action_type: 'create', target_type: 'manager', target_id: data.id, target_name: name, after: { name, sort_order: form.sort_order } });
     }
 
-    savingRef.current = false;
-    setSaving(false);
+    // 계정 연결이 바뀐 경우만
+    const prevProfileId = editTarget ? linkedAccount(editTarget.id)?.id ?? '' : '';
+    if (managerId !== undefined && form.profile_id !== prevProfileId) {
+      const { error } = await supabase.rpc('link_manager_profile', { p_manager_id: managerId, p_profile_id: form.profile_id || null });
+      if (error) {
+        alert(`계정 연결 실패: ${error.message}`);
+      } else {
+        setAccounts(prev => prev.map(a => (
+          a.id === form.profile_id ? { ...a, manager_id: managerId! }
+            : a.manager_id === managerId ? { ...a, manager_id: null }
+            : a
+        )));
+        const account = accounts.find(a => a.id === form.profile_id);
+        const prevAccount = accounts.find(a => a.id === prevProfileId);
+        logActivity({
+          action: account ? '담당자 계정 연결' : '담당자 계정 연결 해제',
+          action_type: 'update',
+          target_type: 'manager',
+          target_id: managerId,
+          target_name: name,
+          detail: account ? `${account.name} (${ROLE_LABELS[account.role]})` : undefined,
+          before: { account: prevAccount?.name ?? null },
+          after: { account: account?.name ?? null },
+        });
+      }
+    }
+
+    finish();
     setShowModal(false);
   }
 
-  async function handleDelete(m: Manager) {
+  // 비활성화: 담당 학생은 그대로 두고, 새 배정과 연결된 상담사 계정의 학생 접근만 막힌다
+  async function handleToggleActive(m: ManagerRow) {
+    if (m.active && !confirm(
+      `"${m.name}" 담당자를 비활성화하시겠습니까?\n담당 학생 ${m.student_count}명은 그대로 유지되며, 연결된 상담사 계정은 학생을 볼 수 없게 됩니다.`,
+    )) return;
+    const supabase = createClient();
+    const { error } = await supabase.from('managers').update({ active: !m.active }).eq('id', m.id);
+    if (error) { alert(`변경 실패: ${error.message}`); return; }
+    setManagers(prev => prev.map(x => x.id === m.id ? { ...x, active: !m.active } : x));
+    logActivity({
+      action: m.active ? '담당자 비활성화' : '담당자 활성화', action_type: 'update', target_type: 'manager', target_id: m.id, target_name: m.name,
+      before: { active: m.active }, after: { active: !m.active },
+    });
+  }
+
+  async function handleDelete(m: ManagerRow) {
+    if (m.student_count > 0) {
+      alert(`담당 학생이 ${m.student_count}명 있어 삭제할 수 없습니다.\n학생을 다른 담당자로 옮기거나 비활성화해주세요.`);
+      return;
+    }
     if (!confirm(`"${m.name}" 담당자를 삭제하시겠습니까?`)) return;
     const supabase = createClient();
-    await supabase.from('managers').delete().eq('id', m.id);
+    const { error } = await supabase.from('managers').delete().eq('id', m.id);
+    if (error) {
+      alert(error.code === '23503' ? '담당 학생이 있어 삭제할 수 없습니다. 비활성화해주세요.' : `삭제 실패: ${error.message}`);
+      return;
+    }
     setManagers(prev => prev.filter(x => x.id !== m.id));
-    logActivity({ action: '담당자 삭제', target_type: 'manager', target_name: m.name });
+    setAccounts(prev => prev.map(a => a.manager_id === m.id ? { ...a, manager_id: null } : a));
+    logActivity({ action: '담당자 삭제', action_type: 'delete', target_type: 'manager', target_id: m.id, target_name: m.name });
   }
 
   if (loading) return <div className={styles.loading}>불러오는 중...</div>;
@@ -92,7 +171,7 @@ export default function AdminManagersPage() {
       <div className={styles.header}>
         <div>
           <div className={styles.title}>담당자 관리</div>
-          <div className={styles.sub}>담당자 {managers.length}명</div>
+          <div className={styles.sub}>담당자 {managers.filter(m => m.active).length}명{managers.some(m => !m.active) && ` · 비활성 ${managers.filter(m => !m.active).length}명`}</div>
         </div>
         <button className={styles.add_btn} onClick={openAdd}>+ 담당자 추가</button>
       </div>
@@ -103,24 +182,38 @@ export default function AdminManagersPage() {
             <tr>
               <th>순서</th>
               <th>이름</th>
+              <th>연결 계정</th>
+              <th>담당 학생</th>
+              <th>상태</th>
               <th>관리</th>
             </tr>
           </thead>
           <tbody>
             {managers.length === 0 ? (
-              <tr><td colSpan={3} className={styles.empty}>등록된 담당자가 없습니다.</td></tr>
-            ) : managers.map(m => (
-              <tr key={m.id}>
-                <td className={styles.sort_order}>{m.sort_order}</td>
-                <td className={styles.manager_name}>{m.name}</td>
-                <td>
-                  <div className={styles.row_actions}>
-                    <button className={styles.edit_btn} onClick={() => openEdit(m)}>수정</button>
-                    <button className={styles.delete_btn} onClick={() => handleDelete(m)}>삭제</button>
-                  </div>
-                </td>
-              </tr>
-            ))}
+              <tr><td colSpan={6} className={styles.empty}>등록된 담당자가 없습니다.</td></tr>
+            ) : managers.map(m => {
+              const account = linkedAccount(m.id);
+              return (
+                <tr key={m.id} className={m.active ? '' : styles.row_inactive}>
+                  <td className={styles.sort_order}>{m.sort_order}</td>
+                  <td className={styles.manager_name}>{m.name}</td>
+                  <td className={styles.account}>{account ? `${account.name} (${ROLE_LABELS[account.role]})` : '-'}</td>
+                  <td>{m.student_count}명</td>
+                  <td>
+                    <span className={`${styles.status_badge} ${m.active ? styles.status_active : styles.status_inactive}`}>
+                      {m.active ? '활성' : '비활성'}
+                    </span>
+                  </td>
+                  <td>
+                    <div className={styles.row_actions}>
+                      <button className={styles.edit_btn} onClick={() => openEdit(m)}>수정</button>
+                      <button className={styles.edit_btn} onClick={() => handleToggleActive(m)}>{m.active ? '비활성화' : '활성화'}</button>
+                      <button className={styles.delete_btn} onClick={() => handleDelete(m)}>삭제</button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -154,6 +247,20 @@ export default function AdminManagersPage() {
                   min={1}
                 />
               </div>
+              <div className={styles.field}>
+                <label className={styles.label}>연결 계정</label>
+                <select
+                  className={styles.input}
+                  value={form.profile_id}
+                  onChange={e => setForm(f => ({ ...f, profile_id: e.target.value }))}
+                >
+                  <option value="">연결 안 함</option>
+                  {accounts
+                    .filter(a => a.manager_id === null || a.manager_id === editTarget?.id)
+                    .map(a => <option key={a.id} value={a.id}>{a.name} ({ROLE_LABELS[a.role]})</option>)}
+                </select>
+                <span className={styles.hint}>상담사 계정은 연결된 담당자의 학생만 볼 수 있습니다.</span>
+              </div>
             </div>
             <div className={styles.modal_footer}>
               <button className={styles.cancel_btn} onClick={() => setShowModal(false)}>취소</button>
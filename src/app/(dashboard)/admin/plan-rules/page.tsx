@@ -0,0 +1,500 @@
+'use client';
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { logActivity } from '@/lib/logger';
+import { diffSnapshots } from '@/lib/activityLog';
+import { findPlanRule, matchesPlanRule } from '@/lib/planRules';
+import type { PlanRuleSet, PlanTarget, EducationLevel, DesiredDegree, SubjectCategory } from '@/types';
+import styles from './page.module.css';
+
+interface PreviewStudent {
+  id: string;
+  name: string;
+  education_level: string | null;
+  desired_degree: string | null;
+  courses: { name: string } | null;
+}
+
+const EDUCATION_LEVELS: EducationLevel[] = [
+  '고졸', '2년제중퇴', '2년제졸업', '3년제중퇴', '3년제졸업', '4년제중퇴', '4년제졸업',
+];
+const DESIRED_DEGREES: DesiredDegree[] = ['없음', '전문학사', '학사'];
+const CATEGORIES: SubjectCategory[] = ['전공', '교양', '일반'];
+const TARGET_COLORS: Record<SubjectCategory, string> = { 전공: '#3182F6', 교양: '#059669', 일반: '#D97706' };
+
+// 편집 중인 규칙 (신규는 id = -1)
+const DRAFT_ID = -1;
+
+type RuleForm = Omit<PlanRuleSet, 'id' | 'created_at'>;
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  sort_order: 0,
+  education_levels: [],
+  course_keyword: null,
+  desired_degrees: [],
+  is_high_school: false,
+  total_target: 51,
+  subject_target: 8,
+  targets: [{ label: '전공', categories: ['전공'], target: 51, color: TARGET_COLORS['전공'] }],
+  practice_required: null,
+  practice_elective: null,
+  show_prev_subjects: false,
+};
+
+function describeCondition(rule: Pick<PlanRuleSet, 'education_levels' | 'course_keyword' | 'desired_degrees'>) {
+  const parts = [
+    rule.education_levels.length > 0 ? rule.education_levels.join('·') : '모든 학력',
+    rule.course_keyword ? `과정 "${rule.course_keyword}"` : '모든 과정',
+    rule.desired_degrees.length > 0 ? `희망 ${rule.desired_degrees.join('·')}` : '모든 희망학위',
+  ];
+  return parts.join(' / ');
+}
+
+// 로그용 — 적용 조건 · 목표학점만
+function ruleSnapshot(rule: Pick<PlanRuleSet, 'name' | 'education_levels' | 'course_keyword' | 'desired_degrees' | 'total_target' | 'targets'>) {
+  return {
+    name: rule.name,
+    condition: describeCondition(rule),
+    total_target: rule.total_target,
+    targets: rule.targets.map((t) => `${t.label} ${t.target}`),
+  };
+}
+
+function toggleItem<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter((x) => x !== item) : [...list, item];
+}
+
+export default function AdminPlanRulesPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [rules, setRules] = useState<PlanRuleSet[]>([]);
+  const [students, setStudents] = useState<PreviewStudent[]>([]);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editTarget, setEditTarget] = useState<PlanRuleSet | null>(null);
+  const [form, setForm] = useState<RuleForm>({ ...EMPTY_FORM });
+  const [saving, setSaving] = useState(false);
+  const savingRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const supabase = createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (cancelled) return;
+      if (!user) { router.push('/login'); return; }
+
+      const [rulesRes, studentsRes] = await Promise.all([
+        supabase.from('plan_rule_sets').select('*').order('sort_order'),
+        supabase.from('students')
+          .select('id, name, education_level, desired_degree, courses(name)')
+          .neq('status', '삭제예정')
+          .order('name'),
+      ]);
+      if (cancelled) return;
+      setRules((rulesRes.data ?? []) as PlanRuleSet[]);
+      setStudents((studentsRes.data ?? []) as unknown as PreviewStudent[]);
+      setLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [router]);
+
+  // 규칙별 실제 적용 학생 수 (우선순위 반영)
+  const appliedCounts = useMemo(() => {
+    const counts: Record<number, number> = {};
+    students.forEach((s) => {
+      const rule = findPlanRule(rules, s.education_level, s.courses?.name, s.desired_degree);
+      if (rule) counts[rule.id] = (counts[rule.id] ?? 0) + 1;
+    });
+    return counts;
+  }, [rules, students]);
+
+  const unmatchedCount = students.length - Object.values(appliedCounts).reduce((a, b) => a + b, 0);
+
+  // 편집 중인 규칙 미리보기 — 이 규칙이 적용될 학생 / 조건은 맞지만 앞선 규칙에 가려지는 학생
+  const preview = useMemo(() => {
+    if (!showModal) return { applied: [] as PreviewStudent[], shadowed: [] as PreviewStudent[] };
+    const draftId = editTarget?.id ?? DRAFT_ID;
+    const draft: PlanRuleSet = { ...form, id: draftId, created_at: '' };
+    const draftRules = [...rules.filter((r) => r.id !== draftId), draft];
+    const applied: PreviewStudent[] = [];
+    const shadowed: PreviewStudent[] = [];
+    students.forEach((s) => {
+      if (!matchesPlanRule(draft, s.education_level, s.courses?.name, s.desired_degree)) return;
+      const winner = findPlanRule(draftRules, s.education_level, s.courses?.name, s.desired_degree);
+      if (winner?.id === draftId) applied.push(s);
+      else shadowed.push(s);
+    });
+    return { applied, shadowed };
+  }, [showModal, editTarget, form, rules, students]);
+
+  function openAdd() {
+    setEditTarget(null);
+    const nextOrder = rules.length > 0 ? Math.max(...rules.map(r => r.sort_order)) + 1 : 1;
+    setForm({ ...EMPTY_FORM, sort_order: nextOrder });
+    setShowModal(true);
+  }
+
+  function openEdit(r: PlanRuleSet) {
+    setEditTarget(r);
+    setForm({
+      name: r.name,
+      sort_order: r.sort_order,
+      education_levels: [...r.education_levels],
+      course_keyword: r.course_keyword,
+      desired_degrees: [...r.desired_degrees],
+      is_high_school: r.is_high_school,
+      total_target: r.total_target,
+      subject_target: r.subject_target,
+      targets: r.targets.map(t => ({ ...t, categories: [...t.categories] })),
+      practice_required: r.practice_required,
+      practice_elective: r.practice_elective,
+      show_prev_subjects: r.show_prev_subjects,
+    });
+    setShowModal(true);
+  }
+
+  function updateTarget(idx: number, patch: Partial<PlanTarget>) {
+    setForm(f => ({ ...f, targets: f.targets.map((t, i) => i === idx ? { ...t, ...patch } : t) }));
+  }
+
+  function addTarget() {
+    const unused = CATEGORIES.find(c => !form.targets.some(t => t.categories.includes(c))) ?? '일반';
+    setForm(f => ({ ...f, targets: [...f.targets, { label: unused, categories: [unused], target: 0, color: TARGET_COLORS[unused] }] }));
+  }
+
+  function removeTarget(idx: number) {
+    setForm(f => ({ ...f, targets: f.targets.filter((_, i) => i !== idx) }));
+  }
+
+  const targetSum = form.targets.reduce((sum, t) => sum + (t.target || 0), 0);
+  const hasPractice = form.practice_required !== null || form.practice_elective !== null;
+  const canSave = !!form.name.trim() && form.total_target > 0 && form.targets.length > 0
+    && form.targets.every(t => t.label.trim() && t.categories.length > 0);
+
+  async function handleSave() {
+    if (savingRef.current || !canSave) return;
+    savingRef.current = true;
+    setSaving(true);
+    const supabase = createClient();
+    const payload = {
+      ...form,
+      name: form.name.trim(),
+      course_keyword: form.course_keyword?.trim() || null,
+      targets: form.targets.map(t => ({ ...t, label: t.label.trim() })),
+    };
+
+    if (editTarget) {
+      const { data, error } = await supabase.from('plan_rule_sets').update(payload).eq('id', editTarget.id).select().single();
+      if (error) { alert(`수정 실패: ${error.message}`); savingRef.current = false; setSaving(false); return; }
+      setRules(prev => prev.map(r => r.id === editTarget.id ? data as PlanRuleSet : r).sort((a, b) => a.sort_order - b.sort_order));
+      const changes = diffSnapshots(ruleSnapshot(editTarget), ruleSnapshot(payload));
+      logActivity({
+        action: '플랜규칙 수정', action_type: 'update', target_type: 'plan_rule', target_id: editTarget.id, target_name: payload.name,
+        detail: describeCondition(payload), before: changes?.before, after: changes?.after,
+      });
+    } else {
+      const { data, error } = await supabase.from('plan_rule_sets').insert(payload).select().single();
+      if (error) { alert(`추가 실패: ${error.message}`); savingRef.current = false; setSaving(false); return; }
+      setRules(prev => [...prev, data as PlanRuleSet].sort((a, b) => a.sort_order - b.sort_order));
+      logActivity({
+        action: '플랜규칙 추가', action_type: 'create', target_type: 'plan_rule', target_id: data.id, target_name: payload.name,
+        detail: describeCondition(payload), after: ruleSnapshot(payload),
+      });
+    }
+
+    savingRef.current = false;
+    setSaving(false);
+    setShowModal(false);
+  }
+
+  async function handleDelete(r: PlanRuleSet) {
+    const count = appliedCounts[r.id] ?? 0;
+    const warn = count > 0 ? `\n현재 ${count}명의 학생에게 적용 중입니다.` : '';
+    if (!confirm(`"${r.name}" 규칙을 삭제하시겠습니까?${warn}`)) return;
+    const supabase = createClient();
+    const { error } = await supabase.from('plan_rule_sets').delete().eq('id', r.id);
+    if (error) { alert(`삭제 실패: ${error.message}`); return; }
+    setRules(prev => prev.filter(x => x.id !== r.id));
+    logActivity({ action: '플랜규칙 삭제', action_type: 'delete', target_type: 'plan_rule', target_id: r.id, target_name: r.name, before: ruleSnapshot(r) });
+  }
+
+  if (loading) return <div className={styles.loading}>불러오는 중...</div>;
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.header}>
+        <div>
+          <div className={styles.title}>플랜 규칙 관리</div>
+          <div className={styles.sub}>
+            규칙 {rules.length}개 · 위에서부터 처음 일치하는 규칙이 적용됩니다
+            {unmatchedCount > 0 && <> · 기본값(전공 51학점) 적용 {unmatchedCount}명</>}
+          </div>
+        </div>
+        <button className={styles.add_btn} onClick={openAdd}>+ 규칙 추가</button>
+      </div>
+
+      <div className={styles.table_wrap}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>순서</th>
+              <th>규칙</th>
+              <th>목표</th>
+              <th>적용 학생</th>
+              <th>관리</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.length === 0 ? (
+              <tr><td colSpan={5} className={styles.empty}>등록된 규칙이 없습니다.</td></tr>
+            ) : rules.map(r => (
+              <tr key={r.id}>
+                <td className={styles.sort_order}>{r.sort_order}</td>
+                <td>
+                  <div className={styles.rule_name}>{r.name}</div>
+                  <div className={styles.rule_cond}>{describeCondition(r)}</div>
+                </td>
+                <td>
+                  <div className={styles.target_chips}>
+                    {r.targets.map(t => (
+                      <span key={t.label} className={styles.target_chip} style={{ color: t.color, background: `${t.color}14` }}>
+                        {t.label} {t.target}
+                      </span>
+                    ))}
+                    <span className={styles.target_total}>총 {r.total_target}학점</span>
+                  </div>
+                  <div className={styles.rule_flags}>
+                    {r.is_high_school && <span className={styles.flag}>학위과정</span>}
+                    {r.subject_target !== null && <span className={styles.flag}>{r.subject_target}과목</span>}
+                    {(r.practice_required !== null || r.practice_elective !== null) && (
+                      <span className={styles.flag}>실습 필수 {r.practice_required ?? 0} · 선택 {r.practice_elective ?? 0}</span>
+                    )}
+                    {r.show_prev_subjects && <span className={styles.flag}>전적대 표시</span>}
+                  </div>
+                </td>
+                <td className={styles.applied_count}>{appliedCounts[r.id] ?? 0}명</td>
+                <td>
+                  <div className={styles.row_actions}>
+                    <button className={styles.edit_btn} onClick={() => openEdit(r)}>수정</button>
+                    <button className={styles.delete_btn} onClick={() => handleDelete(r)}>삭제</button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {showModal && (
+        <div className={styles.overlay} onClick={() => setShowModal(false)}>
+          <div className={styles.modal} onClick={e => e.stopPropagation()}>
+            <div className={styles.modal_header}>
+              <span className={styles.modal_title}>{editTarget ? '규칙 수정' : '규칙 추가'}</span>
+              <button className={styles.modal_close} onClick={() => setShowModal(false)}>✕</button>
+            </div>
+            <div className={styles.modal_content}>
+              <div className={styles.modal_body}>
+                <div className={styles.field_row}>
+                  <div className={styles.field} style={{ flex: 1 }}>
+                    <label className={styles.label}>규칙 이름</label>
+                    <input
+                      className={styles.input}
+                      value={form.name}
+                      onChange={e => setForm(f => ({ ...f, name: e.target.value }))}
+                      placeholder="예: 중퇴군 + 학사"
+                      autoFocus
+                    />
+                  </div>
+                  <div className={styles.field} style={{ width: 90 }}>
+                    <label className={styles.label}>순서</label>
+                    <input
+                      type="number"
+                      className={styles.input}
+                      value={form.sort_order}
+                      onChange={e => setForm(f => ({ ...f, sort_order: Number(e.target.value) }))}
+                      min={1}
+                    />
+                  </div>
+                </div>
+
+                <div className={styles.section_title}>적용 조건</div>
+                <div className={styles.field}>
+                  <label className={styles.label}>최종학력 <span className={styles.label_sub}>· 선택 안 하면 전체</span></label>
+                  <div className={styles.chip_group}>
+                    {EDUCATION_LEVELS.map(l => (
+                      <button key={l} type="button"
+                        className={`${styles.chip} ${form.education_levels.includes(l) ? styles.chip_active : ''}`}
+                        onClick={() => setForm(f => ({ ...f, education_levels: toggleItem(f.education_levels, l) }))}
+                      >{l}</button>
+                    ))}
+                  </div>
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>과정명 포함 문자열 <span className={styles.label_sub}>· 비우면 전체</span></label>
+                  <input
+                    className={styles.input}
+                    value={form.course_keyword ?? ''}
+                    onChange={e => setForm(f => ({ ...f, course_keyword: e.target.value }))}
+                    placeholder="예: 신법, 구법, 실습"
+                  />
+                </div>
+                <div className={styles.field}>
+                  <label className={styles.label}>희망학위 <span className={styles.label_sub}>· 선택 안 하면 전체</span></label>
+                  <div className={styles.chip_group}>
+                    {DESIRED_DEGREES.map(d => (
+                      <button key={d} type="button"
+                        className={`${styles.chip} ${form.desired_degrees.includes(d) ? styles.chip_active : ''}`}
+                        onClick={() => setForm(f => ({ ...f, desired_degrees: toggleItem(f.desired_degrees, d) }))}
+                      >{d}</button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className={styles.section_title}>목표</div>
+                <div className={styles.field_row}>
+                  <div className={styles.field} style={{ flex: 1 }}>
+                    <label className={styles.label}>총 목표 학점</label>
+                    <input
+                      type="number"
+                      className={styles.input}
+                      value={form.total_target}
+                      onChange={e => setForm(f => ({ ...f, total_target: Number(e.target.value) }))}
+                      min={1}
+                    />
+                  </div>
+                  <div className={styles.field} style={{ flex: 1 }}>
+                    <label className={styles.label}>목표 과목 수 <span className={styles.label_sub}>· 선택</span></label>
+                    <input
+                      type="number"
+                      className={styles.input}
+                      value={form.subject_target ?? ''}
+                      onChange={e => setForm(f => ({ ...f, subject_target: e.target.value === '' ? null : Number(e.target.value) }))}
+                      min={1}
+                    />
+                  </div>
+                </div>
+
+                <div className={styles.field}>
+                  <label className={styles.label}>
+                    영역별 목표
+                    {targetSum !== form.total_target && (
+                      <span className={styles.label_warn}> · 합계 {targetSum}학점 (총 목표와 다름)</span>
+                    )}
+                  </label>
+                  <div className={styles.target_rows}>
+                    {form.targets.map((t, idx) => (
+                      <div key={idx} className={styles.target_row}>
+                        <input
+                          type="color"
+                          className={styles.color_input}
+                          value={t.color}
+                          onChange={e => updateTarget(idx, { color: e.target.value })}
+                        />
+                        <input
+                          className={`${styles.input} ${styles.target_label_input}`}
+                          value={t.label}
+                          onChange={e => updateTarget(idx, { label: e.target.value })}
+                          placeholder="표시명"
+                        />
+                        <div className={styles.chip_group}>
+                          {CATEGORIES.map(c => (
+                            <button key={c} type="button"
+                              className={`${styles.chip} ${styles.chip_small} ${t.categories.includes(c) ? styles.chip_active : ''}`}
+                              onClick={() => updateTarget(idx, { categories: toggleItem(t.categories, c) })}
+                            >{c}</button>
+                          ))}
+                        </div>
+                        <input
+                          type="number"
+                          className={`${styles.input} ${styles.target_num_input}`}
+                          value={t.target}
+                          onChange={e => updateTarget(idx, { target: Number(e.target.value) })}
+                          min={0}
+                        />
+                        <button type="button" className={styles.target_remove} onClick={() => removeTarget(idx)}
+                          disabled={form.targets.length <= 1} aria-label="영역 삭제">✕</button>
+                      </div>
+                    ))}
+                  </div>
+                  <button type="button" className={styles.target_add} onClick={addTarget}>+ 영역 추가</button>
+                </div>
+
+                <div className={styles.section_title}>표시 옵션</div>
+                <label className={styles.check_row}>
+                  <input type="checkbox" checked={form.is_high_school}
+                    onChange={e => setForm(f => ({ ...f, is_high_school: e.target.checked }))} />
+                  학위과정 (영역별 진행률 · 학점인정 자격증 · 독학사 표시)
+                </label>
+                <label className={styles.check_row}>
+                  <input type="checkbox" checked={form.show_prev_subjects}
+                    onChange={e => setForm(f => ({ ...f, show_prev_subjects: e.target.checked }))} />
+                  전적대 이수과목 표시
+                </label>
+                <label className={styles.check_row}>
+                  <input type="checkbox" checked={hasPractice}
+                    onChange={e => setForm(f => e.target.checked
+                      ? { ...f, practice_required: 4, practice_elective: 2 }
+                      : { ...f, practice_required: null, practice_elective: null })} />
+                  실습 이수 요건 사용
+                </label>
+                {hasPractice && (
+                  <div className={styles.field_row}>
+                    <div className={styles.field} style={{ flex: 1 }}>
+                      <label className={styles.label}>필수 최소 과목 수</label>
+                      <input type="number" className={styles.input} min={0}
+                        value={form.practice_required ?? 0}
+                        onChange={e => setForm(f => ({ ...f, practice_required: Number(e.target.value) }))} />
+                    </div>
+                    <div className={styles.field} style={{ flex: 1 }}>
+                      <label className={styles.label}>선택 최소 과목 수</label>
+                      <input type="number" className={styles.input} min={0}
+                        value={form.practice_elective ?? 0}
+                        onChange={e => setForm(f => ({ ...f, practice_elective: Number(e.target.value) }))} />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* 미리보기 */}
+              <div className={styles.preview}>
+                <div className={styles.preview_title}>
+                  적용 학생 미리보기
+                  <span className={styles.preview_count}>{preview.applied.length}명</span>
+                </div>
+                {preview.applied.length === 0 ? (
+                  <div className={styles.preview_empty}>이 규칙이 적용될 학생이 없습니다.</div>
+                ) : (
+                  <div className={styles.preview_list}>
+                    {preview.applied.map(s => (
+                      <div key={s.id} className={styles.preview_item}>
+                        <span className={styles.preview_name}>{s.name}</span>
+                        <span className={styles.preview_meta}>
+                          {[s.education_level, s.courses?.name, s.desired_degree].filter(Boolean).join(' · ')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {preview.shadowed.length > 0 && (
+                  <div className={styles.preview_shadowed}>
+                    조건은 맞지만 앞선 규칙이 먼저 적용되는 학생 {preview.shadowed.length}명
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className={styles.modal_footer}>
+              <button className={styles.cancel_btn} onClick={() => setShowModal(false)}>취소</button>
+              <button className={styles.confirm_btn} onClick={handleSave} disabled={saving || !canSave}>
+                {saving ? '저장 중...' : editTarget ? '수정' : '추가'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { logActivity } from '@/lib/logger';
+import { diffSnapshots, studentLogInput, studentSnapshot } from '@/lib/activityLog';
+import { findDuplicatePairs } from '@/lib/studentDuplicates';
+import { STUDENT_RELATIONS, sameCohort, studentCenterNames, studentCohorts } from '@/lib/studentRelations';
+import type { Student, Course } from '@/types';
+import styles from './page.module.css';
+
+// 학생별 연결 데이터 — merge_students 가 옮기는 테이블
+const RELATED: { table: string; label: string; key: string }[] = [
+  { table: 'student_memos',          label: '메모',     key: 'memos' },
+  { table: 'student_contacts',       label: '연락기록', key: 'contacts' },
+  { table: 'student_credit_certs',   label: '자격증',   key: 'certs' },
+  { table: 'student_dokaksa',        label: '독학사',   key: 'dokaksa' },
+  { table: 'student_prev_subjects',  label: '전적대',   key: 'prev_subjects' },
+  { table: 'student_documents',      label: '문서',     key: 'documents' },
+  { table: 'plan_semester_subjects', label: '플랜 과목', key: 'plan_subjects' },
+];
+
+// 병합 시 둘 중 하나를 고르는 필드
+type PickField = 'name' | 'phone' | 'education_level' | 'major' | 'desired_degree' | 'status'
+  | 'course_id' | 'manager_id' | 'cost' | 'target_completion_date' | 'all_care';
+
+const PICK_FIELDS: { key: PickField; label: string }[] = [
+  { key: 'name',                   label: '이름' },
+  { key: 'phone',                  label: '연락처' },
+  { key: 'education_level',        label: '최종학력' },
+  { key: 'major',                  label: '전공' },
+  { key: 'desired_degree',         label: '희망학위' },
+  { key: 'status',                 label: '상태' },
+  { key: 'course_id',              label: '과정' },
+  { key: 'manager_id',             label: '담당자' },
+  { key: 'cost',                   label: '비용' },
+  { key: 'target_completion_date', label: '목표취득예정일' },
+  { key: 'all_care',               label: '올케어' },
+];
+
+// 개강반 · 등록교육원은 합친다 (남길 학생 것이 앞)
+function unionCohorts(keep: Student, drop: Student) {
+  const merged = studentCohorts(keep);
+  studentCohorts(drop).forEach((c) => { if (!merged.some((m) => sameCohort(m, c))) merged.push(c); });
+  return merged;
+}
+
+const unionCenters = (keep: Student, drop: Student) =>
+  Array.from(new Set([...studentCenterNames(keep), ...studentCenterNames(drop)]));
+
+function formatDate(iso: string) {
+  const d = new Date(iso);
+  return `${d.getFullYear()}.${String(d.getMonth() + 1).padStart(2, '0')}.${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export default function AdminStudentMergePage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [search, setSearch] = useState('');
+
+  // 병합 모달
+  const [target, setTarget] = useState<{ a: Student; b: Student } | null>(null);
+  const [keepId, setKeepId] = useState('');
+  const [picks, setPicks] = useState<Partial<Record<PickField, string>>>({});   // 필드 → 값을 가져올 학생 id
+  const [counts, setCounts] = useState<Record<string, Record<string, number>>>({});
+  const [merging, setMerging] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const supabase = createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (cancelled) return;
+      if (!user) { router.push('/login'); return; }
+
+      const [s, c] = await Promise.all([
+        supabase.from('students').select(`*, courses(*), ${STUDENT_RELATIONS}`).neq('status', '삭제예정').order('created_at'),
+        supabase.from('courses').select('*').order('id'),
+      ]);
+      if (!cancelled) {
+        setStudents((s.data ?? []) as Student[]);
+        setCourses((c.data ?? []) as Course[]);
+        setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [router]);
+
+  const pairs = useMemo(() => findDuplicatePairs(students), [students]);
+  const visiblePairs = pairs.filter(({ a, b }) => {
+    const q = search.trim();
+    return !q || [a.name, b.name, a.phone ?? '', b.phone ?? ''].some((v) => v.includes(q));
+  });
+
+  async function openMerge(a: Student, b: Student) {
+    setTarget({ a, b });
+    setKeepId(a.id);    // 먼저 등록된 학생을 기본으로 남김
+    setPicks({});
+    setCounts({});
+    const supabase = createClient();
+    const entries = await Promise.all([a, b].map(async (s) => {
+      const res = await Promise.all(RELATED.map((r) =>
+        supabase.from(r.table).select('id', { count: 'exact', head: true }).eq('student_id', s.id),
+      ));
+      return [s.id, Object.fromEntries(RELATED.map((r, i) => [r.key, res[i].count ?? 0]))] as const;
+    }));
+    setCounts(Object.fromEntries(entries));
+  }
+
+  function displayValue(s: Student, key: PickField) {
+    const v = s[key];
+    if (key === 'course_id') return courses.find((c) => c.id === v)?.name ?? '-';
+    if (key === 'manager_id') return s.managers?.name ?? '-';
+    if (key === 'all_care') return v ? 'O' : 'X';
+    if (key === 'cost') return v != null ? `${Number(v).toLocaleString()}원` : '-';
+    return v === null || v === '' ? '-' : String(v);
+  }
+
+  async function handleMerge() {
+    if (!target || merging) return;
+    const keep = target.a.id === keepId ? target.a : target.b;
+    const drop = target.a.id === keepId ? target.b : target.a;
+    if (!confirm(`"${drop.name}" 학생의 기록을 "${keep.name}" 학생으로 옮기고 삭제합니다.\n되돌릴 수 없습니다. 병합하시겠습니까?`)) return;
+
+    setMerging(true);
+    const supabase = createClient();
+    const { data: moved, error } = await supabase.rpc('merge_students', { p_keep: keep.id, p_merge: drop.id });
+    if (error) {
+      setMerging(false);
+      alert(`병합 실패: ${error.message}`);
+      return;
+    }
+
+    // 고른 필드 값으로 남길 학생 정보 갱신 (개강반 · 교육원은 merge_students 가 합친다)
+    const updates: Record<string, unknown> = {
+      notes: [keep.notes, drop.notes].filter(Boolean).join('\n') || null,
+      updated_at: new Date().toISOString(),
+    };
+    PICK_FIELDS.forEach(({ key }) => {
+      const from = picks[key] === drop.id ? drop : keep;
+      updates[key] = from[key];
+    });
+    const { error: updateError } = await supabase.from('students').update(updates).eq('id', keep.id);
+    if (updateError) alert(`기록은 병합되었지만 학생 정보 수정에 실패했습니다: ${updateError.message}`);
+
+    const summary = RELATED.map((r) => `${r.label} ${(moved as Record<string, number> | null)?.[r.key] ?? 0}`).join(', ');
+    const lookups = { courses, managers: [keep.managers, drop.managers].filter((m) => !!m) };
+    const changes = diffSnapshots(
+      studentSnapshot(studentLogInput(keep), lookups),
+      studentSnapshot({ ...studentLogInput(keep), ...updates, cohorts: unionCohorts(keep, drop), centers: unionCenters(keep, drop) }, lookups),
+    );
+    logActivity({
+      action: '학생 병합',
+      action_type: 'update',
+      target_type: 'student',
+      target_id: keep.id,
+      student_id: keep.id,
+      target_name: keep.name,
+      detail: `${drop.name}(${drop.phone ?? '-'}) → ${keep.name}(${keep.phone ?? '-'}) · ${summary}`,
+      before: changes?.before,
+      after: changes?.after,
+    });
+
+    const { data: refreshed } = await supabase.from('students').select(`*, courses(*), ${STUDENT_RELATIONS}`).eq('id', keep.id).single();
+    setStudents((prev) => prev
+      .filter((s) => s.id !== drop.id)
+      .map((s) => (s.id === keep.id && refreshed ? (refreshed as Student) : s)));
+    setMerging(false);
+    setTarget(null);
+  }
+
+  if (loading) return <div className={styles.loading}>불러오는 중...</div>;
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.header}>
+        <div>
+          <div className={styles.title}>중복 학생 병합</div>
+          <div className={styles.sub}>연락처 · 이름이 비슷한 후보 {pairs.length}쌍</div>
+        </div>
+        <input
+          className={styles.search}
+          placeholder="이름 또는 연락처 검색"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <div className={styles.table_wrap}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>학생 A</th>
+              <th>학생 B</th>
+              <th>근거</th>
+              <th>관리</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visiblePairs.length === 0 ? (
+              <tr><td colSpan={4} className={styles.empty}>중복으로 보이는 학생이 없습니다.</td></tr>
+            ) : visiblePairs.map(({ a, b, reasons }) => (
+              <tr key={`${a.id}:${b.id}`}>
+                {[a, b].map((s) => (
+                  <td key={s.id}>
+                    <div className={styles.student_name}>{s.name}</div>
+                    <div className={styles.student_meta}>
+                      {s.phone ?? '연락처 없음'} · {s.courses?.name ?? '과정 없음'} · {formatDate(s.created_at)} 등록
+                    </div>
+                  </td>
+                ))}
+                <td>
+                  <div className={styles.reasons}>
+                    {reasons.map((r) => <span key={r} className={styles.reason}>{r}</span>)}
+                  </div>
+                </td>
+                <td>
+                  <button className={styles.merge_btn} onClick={() => openMerge(a, b)}>병합</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {target && (
+        <div className={styles.overlay} onClick={() => !merging && setTarget(null)}>
+          <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+            <div className={styles.modal_header}>
+              <span className={styles.modal_title}>학생 병합</span>
+              <button className={styles.modal_close} onClick={() => setTarget(null)} disabled={merging}>✕</button>
+            </div>
+            <div className={styles.modal_body}>
+              <div className={styles.hint}>
+                남길 학생을 고르고, 값이 다른 항목은 사용할 값을 선택하세요. 개강반 · 교육원은 합치고 메모는 이어 붙입니다.
+              </div>
+              <table className={styles.compare}>
+                <thead>
+                  <tr>
+                    <th />
+                    {[target.a, target.b].map((s) => (
+                      <th key={s.id}>
+                        <label className={styles.keep_label}>
+                          <input type="radio" checked={keepId === s.id} onChange={() => setKeepId(s.id)} />
+                          {keepId === s.id ? '남길 학생' : '병합 후 삭제'}
+                        </label>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {PICK_FIELDS.map(({ key, label }) => {
+                    const differs = displayValue(target.a, key) !== displayValue(target.b, key);
+                    const chosen = picks[key] ?? keepId;
+                    return (
+                      <tr key={key} className={differs ? styles.row_diff : ''}>
+                        <td className={styles.field_label}>{label}</td>
+                        {[target.a, target.b].map((s) => (
+                          <td key={s.id}>
+                            {differs ? (
+                              <label className={styles.pick}>
+                                <input
+                                  type="radio"
+                                  name={`pick-${key}`}
+                                  checked={chosen === s.id}
+                                  onChange={() => setPicks((p) => ({ ...p, [key]: s.id }))}
+                                />
+                                {displayValue(s, key)}
+                              </label>
+                            ) : displayValue(s, key)}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                  <tr>
+                    <td className={styles.field_label}>연결 기록</td>
+                    {[target.a, target.b].map((s) => (
+                      <td key={s.id} className={styles.counts}>
+                        {counts[s.id]
+                          ? RELATED.map((r) => `${r.label} ${counts[s.id][r.key]}`).join(' · ')
+                          : '불러오는 중...'}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <div className={styles.modal_footer}>
+              <button className={styles.cancel_btn} onClick={() => setTarget(null)} disabled={merging}>취소</button>
+              <button className={styles.confirm_btn} onClick={handleMerge} disabled={merging}>
+                {merging ? '병합 중...' : '병합하기'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { logActivity } from '@/lib/logger';
+import { diffSnapshots } from '@/lib/activityLog';
 import type { Course } from '@/types';
 import styles from './page.module.css';
 
@@ -46,7 +47,7 @@ export default function AdminSubjectsPage() {
   const [saving, setSaving] = useState(false);
   const savingRef = useRef(false); // 더블클릭 방지용 동기 플래그
 
-  // super_admin 체크 + 데이터 로드
+  // 데이터 로드 (권한은 proxy 가 확인)
   useEffect(() => {
     let cancelled = false;
     (async () => {
@@ -54,8 +55,6 @@ export default function AdminSubjectsPage() {
       const { data: { user } } = await supabase.auth.getUser();
       if (cancelled) return;
       if (!user) { router.push('/login'); return; }
-      const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).single();
-      if (profile?.role !== 'super_admin') { router.push('/students'); return; }
 
       const [coursesRes, presetsRes] = await Promise.all([
         supabase.from('courses').select('*').order('id'),
@@ -96,14 +95,17 @@ export default function AdminSubjectsPage() {
     if (editCourse) {
       await supabase.from('courses').update({ name: courseForm.name.trim() }).eq('id', editCourse.id);
       setCourses(prev => prev.map(c => c.id === editCourse.id ? { ...c, name: courseForm.name.trim() } : c));
-      logActivity({ action: '과정 수정', target_type: 'course', target_name: courseForm.name.trim() });
+      logActivity({
+        action: '과정 수정', action_type: 'update', target_type: 'course', target_id: editCourse.id, target_name: courseForm.name.trim(),
+        before: { name: editCourse.name }, after: { name: courseForm.name.trim() },
+      });
     } else {
       const { data } = await supabase.from('courses').insert({ name: courseForm.name.trim() }).select().single();
       if (data) {
         setCourses(prev => [...prev, data as Course]);
         setSelectedCourseId((data as Course).id);
       }
-      logActivity({ action: '과정 추가', target_type: 'course', target_name: courseForm.name.trim() });
+      logActivity({ action: '과정 추가', action_type: 'create', target_type: 'course', target_id: data?.id, target_name: courseForm.name.trim() });
     }
     savingRef.current = false;
     setSaving(false);
@@ -120,7 +122,7 @@ export default function AdminSubjectsPage() {
     const remaining = courses.filter(x => x.id !== c.id);
     setCourses(remaining);
     setSelectedCourseId(remaining[0]?.id ?? null);
-    logActivity({ action: '과정 삭제', target_type: 'course', target_name: c.name });
+    logActivity({ action: '과정 삭제', action_type: 'delete', target_type: 'course', target_id: c.id, target_name: c.name });
   }
 
   // ── 과목 CRUD ────────────────────────────────────────────────
@@ -151,7 +153,14 @@ export default function AdminSubjectsPage() {
       }).eq('id', editPreset.id);
       if (error) { alert(`수정 실패: ${error.message}`); savingRef.current = false; setSaving(false); return; }
       setPresets(prev => prev.map(p => p.id === editPreset.id ? { ...p, ...presetForm, name: presetForm.name.trim() } : p));
-      logActivity({ action: '과목 수정', target_type: 'subject_preset', target_name: presetForm.name.trim() });
+      const changes = diffSnapshots(
+        { name: editPreset.name, credits: editPreset.credits, subject_type: editPreset.subject_type, sort_order: editPreset.sort_order },
+        { ...presetForm, name: presetForm.name.trim() },
+      );
+      logActivity({
+        action: '과목 수정', action_type: 'update', target_type: 'subject_preset', target_id: editPreset.id, target_name: presetForm.name.trim(),
+        before: changes?.before, after: changes?.after,
+      });
     } else {
       const { data, error } = await supabase.from('subject_presets').insert({
         course_type: courseType,
@@ -162,7 +171,10 @@ export default function AdminSubjectsPage() {
       }).select().single();
       if (error) { alert(`추가 실패: ${error.message}`); savingRef.current = false; setSaving(false); return; }
       if (data) setPresets(prev => [...prev, data as SubjectPreset]);
-      logActivity({ action: '과목 추가', target_type: 'subject_preset', target_name: presetForm.name.trim() });
+      logActivity({
+        action: '과목 추가', action_type: 'create', target_type: 'subject_preset', target_id: data?.id, target_name: presetForm.name.trim(),
+        after: { ...presetForm, name: presetForm.name.trim() },
+      });
     }
     savingRef.current = false;
     setSaving(false);
@@ -174,7 +186,10 @@ export default function AdminSubjectsPage() {
     const supabase = createClient();
     await supabase.from('subject_presets').delete().eq('id', p.id);
     setPresets(prev => prev.filter(x => x.id !== p.id));
-    logActivity({ action: '과목 삭제', target_type: 'subject_preset', target_name: p.name });
+    logActivity({
+      action: '과목 삭제', action_type: 'delete', target_type: 'subject_preset', target_id: p.id, target_name: p.name,
+      before: { name: p.name, credits: p.credits, subject_type: p.subject_type },
+    });
   }
 
   if (loading) return <div className={styles.loading}>불러오는 중...</div>;
@@ -0,0 +1,279 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { ROLE_LABELS, USER_ROLES } from '@/lib/userRoles';
+import type { AdminUser, Manager, UserRole } from '@/types';
+import styles from './page.module.css';
+
+interface UserForm {
+  email: string;
+  name: string;
+  role: UserRole;
+  manager_id: string;
+}
+
+const EMPTY_FORM: UserForm = { email: '', name: '', role: 'counselor', manager_id: '' };
+
+function formatDateTime(iso: string | null) {
+  if (!iso) return '-';
+  return new Date(iso).toLocaleString('ko-KR', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+}
+
+// 계정 관리 API 호출 — 실패 시 서버가 준 메시지를 돌려준다
+async function callUsersApi<T>(url: string, method: string, body?: unknown): Promise<{ data: T | null; error: string | null }> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) return { data: null, error: json.error ?? `요청 실패 (${res.status})` };
+  return { data: json as T, error: null };
+}
+
+export default function AdminUsersPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [myId, setMyId] = useState('');
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [managers, setManagers] = useState<Manager[]>([]);
+
+  const [showModal, setShowModal] = useState(false);
+  const [editTarget, setEditTarget] = useState<AdminUser | null>(null);
+  const [form, setForm] = useState<UserForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const savingRef = useRef(false);
+
+  const fetchUsers = useCallback(async () => {
+    const { data, error } = await callUsersApi<{ users: AdminUser[] }>('/api/admin/users', 'GET');
+    if (error) { alert(`계정 목록 조회 실패: ${error}`); return; }
+    setUsers(data?.users ?? []);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const supabase = createClient();
+      const { data: { user } } = await supabase.auth.getUser();
+      if (cancelled) return;
+      if (!user) { router.push('/login'); return; }
+      setMyId(user.id);
+
+      const [{ data: managerRows }] = await Promise.all([
+        supabase.from('managers').select('*').order('sort_order'),
+        fetchUsers(),
+      ]);
+      if (!cancelled) {
+        setManagers((managerRows ?? []) as Manager[]);
+        setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [router, fetchUsers]);
+
+  const managerName = (id: number | null) => managers.find(m => m.id === id)?.name ?? null;
+
+  // 다른 계정에 연결되지 않은 활성 담당자 (+ 수정 중인 계정의 담당자)
+  const managerOptions = managers.filter(m =>
+    m.id === editTarget?.manager_id || (m.active && !users.some(u => u.manager_id === m.id)),
+  );
+
+  function openInvite() {
+    setEditTarget(null);
+    setForm(EMPTY_FORM);
+    setShowModal(true);
+  }
+
+  function openEdit(u: AdminUser) {
+    setEditTarget(u);
+    setForm({ email: u.email, name: u.name, role: u.role, manager_id: u.manager_id ? String(u.manager_id) : '' });
+    setShowModal(true);
+  }
+
+  async function handleSave() {
+    if (savingRef.current || !form.name.trim()) return;
+    if (!editTarget && !form.email.trim()) return;
+    if (form.role === 'counselor' && !form.manager_id
+      && !confirm('담당자가 연결되지 않은 상담사는 학생을 볼 수 없습니다. 계속하시겠습니까?')) return;
+    savingRef.current = true;
+    setSaving(true);
+
+    const payload = {
+      name: form.name.trim(),
+      role: form.role,
+      manager_id: form.manager_id ? Number(form.manager_id) : null,
+    };
+
+    if (editTarget) {
+      const { error } = await callUsersApi(`/api/admin/users/${editTarget.id}`, 'PATCH', payload);
+      if (error) {
+        alert(`수정 실패: ${error}`);
+      } else {
+        setShowModal(false);
+      }
+    } else {
+      const { error } = await callUsersApi('/api/admin/users', 'POST', { ...payload, email: form.email.trim() });
+      if (error) {
+        alert(`초대 실패: ${error}`);
+      } else {
+        setShowModal(false);
+      }
+    }
+
+    await fetchUsers();
+    savingRef.current = false;
+    setSaving(false);
+  }
+
+  async function handleToggleActive(u: AdminUser) {
+    if (u.active && !confirm(`"${u.name}" 계정을 비활성화하시겠습니까?\n로그인할 수 없고, 학생 정보에도 접근할 수 없게 됩니다.`)) return;
+    const { error } = await callUsersApi(`/api/admin/users/${u.id}`, 'PATCH', { active: !u.active });
+    if (error) { alert(`변경 실패: ${error}`); return; }
+    setUsers(prev => prev.map(x => x.id === u.id ? { ...x, active: !u.active } : x));
+  }
+
+  async function handleResetPassword(u: AdminUser) {
+    const label = u.confirmed ? '비밀번호 재설정 메일' : '초대 메일';
+    if (!confirm(`${u.email} 로 ${label}을 보내시겠습니까?`)) return;
+    const { error } = await callUsersApi(`/api/admin/users/${u.id}/reset-password`, 'POST');
+    if (error) { alert(`발송 실패: ${error}`); return; }
+    alert(`${label}을 보냈습니다.`);
+  }
+
+  if (loading) return <div className={styles.loading}>불러오는 중...</div>;
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.header}>
+        <div>
+          <div className={styles.title}>계정 관리</div>
+          <div className={styles.sub}>
+            계정 {users.filter(u => u.active).length}개{users.some(u => !u.active) && ` · 비활성 ${users.filter(u => !u.active).length}개`}
+          </div>
+        </div>
+        <button className={styles.add_btn} onClick={openInvite}>+ 사용자 초대</button>
+      </div>
+
+      <div className={styles.table_wrap}>
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>이름</th>
+              <th>이메일</th>
+              <th>역할</th>
+              <th>담당자</th>
+              <th>마지막 로그인</th>
+              <th>상태</th>
+              <th>관리</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.length === 0 ? (
+              <tr><td colSpan={7} className={styles.empty}>등록된 계정이 없습니다.</td></tr>
+            ) : users.map(u => (
+              <tr key={u.id} className={u.active ? '' : styles.row_inactive}>
+                <td className={styles.user_name}>{u.name}{u.id === myId && <span className={styles.muted}> (나)</span>}</td>
+                <td className={styles.email}>{u.email || '-'}</td>
+                <td>{ROLE_LABELS[u.role]}</td>
+                <td>{managerName(u.manager_id) ?? '-'}</td>
+                <td className={styles.muted}>{formatDateTime(u.last_sign_in_at)}</td>
+                <td>
+                  {!u.active ? (
+                    <span className={`${styles.status_badge} ${styles.status_inactive}`}>비활성</span>
+                  ) : !u.confirmed ? (
+                    <span className={`${styles.status_badge} ${styles.status_invited}`} title={`초대: ${formatDateTime(u.invited_at)}`}>초대됨</span>
+                  ) : (
+                    <span className={`${styles.status_badge} ${styles.status_active}`}>활성</span>
+                  )}
+                </td>
+                <td>
+                  <div className={styles.row_actions}>
+                    <button className={styles.edit_btn} onClick={() => openEdit(u)}>수정</button>
+                    <button className={styles.edit_btn} onClick={() => handleResetPassword(u)} disabled={!u.active}>
+                      {u.confirmed ? '비밀번호 재설정' : '초대 재발송'}
+                    </button>
+                    {u.id !== myId && (
+                      <button className={u.active ? styles.delete_btn : styles.edit_btn} onClick={() => handleToggleActive(u)}>
+                        {u.active ? '비활성화' : '활성화'}
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {showModal && (
+        <div className={styles.overlay} onClick={() => setShowModal(false)}>
+          <div className={styles.modal} onClick={e => e.stopPropagation()}>
+            <div className={styles.modal_header}>
+              <span className={styles.modal_title}>{editTarget ? '계정 수정' : '사용자 초대'}</span>
+              <button className={styles.modal_close} onClick={() => setShowModal(false)}>✕</button>
+            </div>
+            <div className={styles.modal_body}>
+              <div className={styles.field}>
+                <label className={styles.label}>이메일</label>
+                <input
+                  type="email"
+                  className={styles.input}
+                  value={form.email}
+                  onChange={e => setForm(f => ({ ...f, email: e.target.value }))}
+                  placeholder="name@example.com"
+                  disabled={!!editTarget}
+                  autoFocus={!editTarget}
+                />
+                {!editTarget && <span className={styles.hint}>비밀번호 설정 링크가 이 주소로 발송됩니다.</span>}
+              </div>
+              <div className={styles.field}>
+                <label className={styles.label}>이름</label>
+                <input
+                  className={styles.input}
+                  value={form.name}
+                  onChange={e => setForm(f => ({ ...f, name: e.target.value }))}
+                  placeholder="이름"
+                />
+              </div>
+              <div className={styles.field}>
+                <label className={styles.label}>역할</label>
+                <select
+                  className={styles.input}
+                  value={form.role}
+                  onChange={e => setForm(f => ({ ...f, role: e.target.value as UserRole }))}
+                  disabled={editTarget?.id === myId}
+                >
+                  {USER_ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+              </div>
+              <div className={styles.field}>
+                <label className={styles.label}>담당자</label>
+                <select
+                  className={styles.input}
+                  value={form.manager_id}
+                  onChange={e => setForm(f => ({ ...f, manager_id: e.target.value }))}
+                >
+                  <option value="">연결 안 함</option>
+                  {managerOptions.map(m => <option key={m.id} value={m.id}>{m.name}{m.active ? '' : ' (비활성)'}</option>)}
+                </select>
+                <span className={styles.hint}>상담사는 연결된 담당자의 학생만 볼 수 있습니다.</span>
+              </div>
+            </div>
+            <div className={styles.modal_footer}>
+              <button className={styles.cancel_btn} onClick={() => setShowModal(false)}>취소</button>
+              <button
+                className={styles.confirm_btn}
+                onClick={handleSave}
+                disabled={saving || !form.name.trim() || (!editTarget && !form.email.trim())}
+              >
+                {saving ? '저장 중...' : editTarget ? '수정' : '초대'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
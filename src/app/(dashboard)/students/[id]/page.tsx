@@ -1,42 +1,19 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { logActivity } from '@/lib/logger';
-import type { Student, Course, EducationCenter } from '@/types';
+import { LOG_SOURCES, diffSnapshots, studentLogInput, studentSnapshot } from '@/lib/activityLog';
+import { TIMELINE_KINDS, buildStudentTimeline, type TimelineKind } from '@/lib/studentTimeline';
+import { ALLCARE_STATUS_LABELS, allcareMismatch } from '@/lib/allcare';
+import { STUDENT_RELATIONS, formatCohort, saveStudentRelations, studentCenterNames, studentCohorts } from '@/lib/studentRelations';
+import type { ActivityLog, Student, StudentContact, StudentMemo, Course, EducationCenter, Manager } from '@/types';
 import StudentModal from '@/components/StudentModal';
+import LogChanges from '@/components/LogChanges';
 import styles from './page.module.css';
 
 // ── 타입 ───────────────────────────────────────────────────────
-interface StudentMemo {
-  id: string;
-  student_id: string;
-  content: string;
-  created_by: string;
-  created_at: string;
-}
-
-interface StudentContact {
-  id: string;
-  student_id: string;
-  contact_type: string;
-  content: string;
-  contacted_at: string;
-  created_by: string;
-  created_at: string;
-}
-
-interface ActivityLog {
-  id: string;
-  user_name: string;
-  action: string;
-  target_type: string | null;
-  target_name: string | null;
-  detail: string | null;
-  created_at: string;
-}
-
 type DetailTab = '메모' | '연락기록' | '변경이력';
 
 const CONTACT_TYPES = ['전화', '문자', '이메일', '방문'];
@@ -79,7 +56,8 @@ export default function StudentDetailPage() {
   const [student,    setStudent]    = useState<Student | null>(null);
   const [courses,    setCourses]    = useState<Course[]>([]);
   const [centers,    setCenters]    = useState<EducationCenter[]>([]);
-  const [managersDb, setManagersDb] = useState<string[]>([]);
+  const [managersDb, setManagersDb] = useState<Manager[]>([]);
+  const [otherStudents, setOtherStudents] = useState<Pick<Student, 'id' | 'name' | 'phone'>[]>([]);
   const [modalOpen,  setModalOpen]  = useState(false);
 
   const [activeTab, setActiveTab] = useState<DetailTab>('메모');
@@ -102,26 +80,35 @@ export default function StudentDetailPage() {
   // 변경이력
   const [logs,        setLogs]        = useState<ActivityLog[]>([]);
   const [logsLoading, setLogsLoading] = useState(false);
+  const [timelineFilter, setTimelineFilter] = useState<TimelineKind | ''>('');
+  const [showDbChanges,  setShowDbChanges]  = useState(false);   // 화면 기록과 겹치는 DB 트리거 기록은 기본 숨김
 
   // 현재 사용자 이름
   const [myName, setMyName] = useState('');
 
+  // 수정 모달 열 때 중복 확인용 학생 목록을 함께 불러온다
+  async function openEditModal() {
+    setModalOpen(true);
+    const { data } = await createClient().from('students').select('id, name, phone').neq('status', '삭제예정');
+    setOtherStudents(data ?? []);
+  }
+
   useEffect(() => {
     let cancelled = false;
     const supabase = createClient();
     (async () => {
       const [s, c, e, mgr, { data: { user } }] = await Promise.all([
-        supabase.from('students').select('*, courses(*)').eq('id', id).single(),
+        supabase.from('students').select(`*, courses(*), ${STUDENT_RELATIONS}`).eq('id', id).single(),
         supabase.from('courses').select('*').order('id'),
         supabase.from('education_centers').select('*').order('id'),
-        supabase.from('managers').select('name').order('sort_order'),
+        supabase.from('managers').select('*').order('sort_order'),
         supabase.auth.getUser(),
       ]);
       if (cancelled) return;
       setStudent(s.data as Student);
       setCourses((c.data as Course[]) ?? []);
       setCenters((e.data as EducationCenter[]) ?? []);
-      setManagersDb((mgr.data ?? []).map((m: { name: string }) => m.name));
+      setManagersDb((mgr.data as Manager[]) ?? []);
 
       if (user) {
         const { data: profile } = await supabase.from('profiles').select('name').eq('id', user.id).single();
@@ -140,7 +127,7 @@ export default function StudentDetailPage() {
     return () => { cancelled = true; };
   }, [id]);
 
-  // 변경이력 — 탭 진입 시 로드
+  // 변경이력 — 탭 진입 시 로드 (학생 id 로 — 이름이 같거나 바뀌어도 섞이지 않는다)
   useEffect(() => {
     if (activeTab !== '변경이력' || !student) return;
     let cancelled = false;
@@ -148,9 +135,9 @@ export default function StudentDetailPage() {
     const supabase = createClient();
     supabase.from('activity_logs')
       .select('*')
-      .eq('target_name', student.name)
+      .eq('student_id', id)
       .order('created_at', { ascending: false })
-      .limit(50)
+      .limit(200)
       .then(({ data }) => {
         if (!cancelled) {
           setLogs((data as ActivityLog[]) ?? []);
@@ -158,7 +145,19 @@ export default function StudentDetailPage() {
         }
       });
     return () => { cancelled = true; };
-  }, [activeTab, student]);
+  }, [activeTab, id, student]);
+
+  // 메모 · 연락기록 · 활동 로그를 합친 타임라인
+  const timeline = useMemo(
+    () => buildStudentTimeline(memos, contacts, showDbChanges ? logs : logs.filter(l => l.source !== 'trigger')),
+    [memos, contacts, logs, showDbChanges],
+  );
+  const timelineCounts = useMemo(() => {
+    const counts: Partial<Record<TimelineKind, number>> = {};
+    timeline.forEach(item => { counts[item.kind] = (counts[item.kind] ?? 0) + 1; });
+    return counts;
+  }, [timeline]);
+  const visibleTimeline = timelineFilter ? timeline.filter(item => item.kind === timelineFilter) : timeline;
 
   async function handleSubmit(data: import('@/types').StudentFormData) {
     const supabase = createClient();
@@ -166,17 +165,27 @@ export default function StudentDetailPage() {
       name: data.name, phone: data.phone || null,
       education_level: data.education_level || null, major: data.major || null,
       desired_degree: data.desired_degree || null, status: data.status,
-      course_id: data.course_id || null, manager_name: data.manager_name || null,
-      cost: data.cost ? Number(data.cost) : null, class_start: data.class_start || null,
+      course_id: data.course_id || null, manager_id: data.manager_id || null,
+      cost: data.cost ? Number(data.cost) : null,
       target_completion_date: data.target_completion_date || null,
-      education_center_name: data.education_center_name || null,
       all_care: data.all_care, notes: data.notes || null,
       updated_at: new Date().toISOString(),
     };
     const { error } = await supabase.from('students').update(payload).eq('id', id);
     if (error) { alert(`수정 실패: ${error.message}`); return; }
-    logActivity({ action: '학생 수정', target_type: 'student', target_name: data.name });
-    const { data: updated } = await supabase.from('students').select('*, courses(*)').eq('id', id).single();
+    const relError = await saveStudentRelations(supabase, [{ student_id: id, cohorts: data.cohorts, centers: data.centers }]);
+    if (relError) alert(`개강반 · 교육원 저장 실패: ${relError}`);
+    const lookups = { courses, managers: managersDb };
+    const changes = student && diffSnapshots(
+      studentSnapshot(studentLogInput(student), lookups),
+      studentSnapshot({ ...payload, cohorts: data.cohorts, centers: data.centers }, lookups),
+    );
+    logActivity({
+      action: '학생 수정', action_type: 'update', target_type: 'student', target_id: id, student_id: id, target_name: data.name,
+      detail: changes ? `${Object.keys(changes.after).length}개 항목 변경` : '변경 없음',
+      before: changes?.before, after: changes?.after,
+    });
+    const { data: updated } = await supabase.from('students').select(`*, courses(*), ${STUDENT_RELATIONS}`).eq('id', id).single();
     setStudent(updated as Student);
   }
 
@@ -248,6 +257,7 @@ export default function StudentDetailPage() {
   }
 
   const status = STATUS_STYLE[student.status];
+  const centerNames = studentCenterNames(student);
 
   return (
     <div className={styles.page_wrap}>
@@ -270,15 +280,15 @@ export default function StudentDetailPage() {
           <div className={styles.meta_row}>
             <span>{formatPhone(student.phone)}</span>
             {student.courses?.name && <><span className={styles.meta_dot} /><span>{student.courses.name}</span></>}
-            {student.education_center_name && <><span className={styles.meta_dot} /><span>{student.education_center_name}</span></>}
-            {student.manager_name && <><span className={styles.meta_dot} /><span>{student.manager_name}</span></>}
+            {centerNames.length > 0 && <><span className={styles.meta_dot} /><span>{centerNames.join(', ')}</span></>}
+            {student.managers && <><span className={styles.meta_dot} /><span>{student.managers.name}</span></>}
           </div>
         </div>
         <div className={styles.header_actions}>
           <button className={styles.plan_btn} onClick={() => router.push(`/students/${id}/plan`)}>
             학습플랜 설계
           </button>
-          <button className={styles.edit_btn} onClick={() => setModalOpen(true)}>
+          <button className={styles.edit_btn} onClick={openEditModal}>
             수정
           </button>
         </div>
@@ -289,10 +299,10 @@ export default function StudentDetailPage() {
         <div className={styles.info_card}>
           <div className={styles.card_title}>기본 정보</div>
           <div className={styles.info_list}>
-            <InfoRow label="담당자"   value={student.manager_name} />
-            <InfoRow label="교육원"   value={student.education_center_name} />
+            <InfoRow label="담당자"   value={student.managers?.name} />
+            <InfoRow label="교육원"   value={centerNames.join(', ') || null} />
             <InfoRow label="과정"     value={student.courses?.name} />
-            <InfoRow label="개강반"   value={student.class_start} />
+            <InfoRow label="개강반"   value={studentCohorts(student).map(formatCohort).join(', ') || null} />
             <InfoRow label="최종학력" value={student.education_level} />
             <InfoRow label="등록일"   value={formatDate(student.registered_at)} />
           </div>
@@ -303,6 +313,14 @@ export default function StudentDetailPage() {
             <InfoRow label="목표취득일" value={formatDate(student.target_completion_date)} />
             <InfoRow label="비용"       value={student.cost ? `${student.cost.toLocaleString()}원` : null} />
             <InfoRow label="올케어"     value={student.all_care ? 'O' : 'X'} />
+            <InfoRow
+              label="올케어 구독"
+              value={student.allcare_status
+                ? `${ALLCARE_STATUS_LABELS[student.allcare_status]}${student.allcare_plan ? ` (${student.allcare_plan})` : ''}`
+                  + `${student.allcare_next_billing_date ? ` · 다음 결제 ${formatDate(student.allcare_next_billing_date)}` : ''}`
+                  + `${allcareMismatch(student) ? ' · 수동 체크와 다름' : ''}`
+                : '미확인'}
+            />
             <InfoRow label="전공"       value={student.major} />
             <InfoRow label="희망학위"   value={student.desired_degree} />
             {student.notes && <InfoRow label="메모" value={student.notes} />}
@@ -485,24 +503,90 @@ export default function StudentDetailPage() {
         {/* ── 변경이력 탭 ── */}
         {activeTab === '변경이력' && (
           <div className={styles.tab_body}>
+            {/* 종류 필터 */}
+            <div className={styles.timeline_filters}>
+              {(['', ...Object.keys(TIMELINE_KINDS)] as (TimelineKind | '')[]).map(kind => {
+                const cfg = kind ? TIMELINE_KINDS[kind] : null;
+                const active = timelineFilter === kind;
+                return (
+                  <button
+                    key={kind || 'all'}
+                    className={`${styles.contact_type_btn} ${active ? styles.contact_type_btn_active : ''}`}
+                    style={active && cfg ? { background: cfg.bg, color: cfg.color, borderColor: cfg.color } : {}}
+                    onClick={() => setTimelineFilter(kind)}
+                  >
+                    {cfg?.label ?? '전체'} {kind ? timelineCounts[kind] ?? 0 : timeline.length}
+                  </button>
+                );
+              })}
+              <label className={styles.timeline_toggle}>
+                <input type="checkbox" checked={showDbChanges} onChange={e => setShowDbChanges(e.target.checked)} />
+                {LOG_SOURCES.trigger} 기록 포함
+              </label>
+            </div>
+
             {logsLoading ? (
               <div className={styles.empty}>불러오는 중...</div>
-            ) : logs.length === 0 ? (
+            ) : visibleTimeline.length === 0 ? (
               <div className={styles.empty}>변경 이력이 없습니다.</div>
             ) : (
               <div className={styles.log_list}>
-                {logs.map(log => (
-                  <div key={log.id} className={styles.log_row}>
-                    <div className={styles.log_row_left}>
-                      <span className={styles.log_action}>{log.action}</span>
-                      {log.detail && <span className={styles.log_detail}>{log.detail}</span>}
-                    </div>
-                    <div className={styles.log_row_right}>
-                      <span className={styles.log_user}>{log.user_name}</span>
-                      <span className={styles.log_time}>{formatDateTime(log.created_at)}</span>
+                {visibleTimeline.map(item => {
+                  const kind = TIMELINE_KINDS[item.kind];
+                  const badge = <span className={styles.log_type} style={{ color: kind.color, background: kind.bg }}>{kind.label}</span>;
+
+                  if (item.kind === 'memo') {
+                    return (
+                      <div key={`memo-${item.memo.id}`} className={styles.log_row}>
+                        <div className={styles.log_row_main}>
+                          <div className={styles.log_row_left}>{badge}</div>
+                          <div className={styles.log_content}>{item.memo.content}</div>
+                        </div>
+                        <div className={styles.log_row_right}>
+                          <span className={styles.log_user}>{item.memo.created_by}</span>
+                          <span className={styles.log_time}>{formatDateTime(item.memo.created_at)}</span>
+                        </div>
+                      </div>
+                    );
+                  }
+
+                  if (item.kind === 'contact') {
+                    return (
+                      <div key={`contact-${item.contact.id}`} className={styles.log_row}>
+                        <div className={styles.log_row_main}>
+                          <div className={styles.log_row_left}>
+                            {badge}
+                            <span className={styles.log_action}>{item.contact.contact_type}</span>
+                          </div>
+                          <div className={styles.log_content}>{item.contact.content}</div>
+                        </div>
+                        <div className={styles.log_row_right}>
+                          <span className={styles.log_user}>{item.contact.created_by}</span>
+                          <span className={styles.log_time}>{formatDate(item.contact.contacted_at)}</span>
+                        </div>
+                      </div>
+                    );
+                  }
+
+                  const { log } = item;
+                  return (
+                    <div key={log.id} className={styles.log_row}>
+                      <div className={styles.log_row_main}>
+                        <div className={styles.log_row_left}>
+                          {badge}
+                          <span className={styles.log_action}>{log.action}</span>
+                          {log.source === 'trigger' && <span className={styles.log_source}>{LOG_SOURCES.trigger}</span>}
+                          {log.detail && <span className={styles.log_detail}>{log.detail}</span>}
+                        </div>
+                        <LogChanges log={log} />
+                      </div>
+                      <div className={styles.log_row_right}>
+                        <span className={styles.log_user}>{log.user_name}</span>
+                        <span className={styles.log_time}>{formatDateTime(log.created_at)}</span>
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
@@ -515,6 +599,7 @@ export default function StudentDetailPage() {
           courses={courses}
           centers={centers}
           managers={managersDb}
+          students={otherStudents}
           onClose={() => setModalOpen(false)}
           onSubmit={handleSubmit}
         />
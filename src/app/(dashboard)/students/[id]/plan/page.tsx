@@ -4,13 +4,27 @@ import { useState, useEffect, useMemo, useRef, Fragment } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { logActivity } from '@/lib/logger';
-import type { Student } from '@/types';
+import { diffSnapshots } from '@/lib/activityLog';
+import { getPlanConfig } from '@/lib/planRules';
+import {
+  validatePlan, getCenterCreditLimit,
+  MAX_PER_SEMESTER, MAX_PER_YEAR, CENTER_ADD_THRESHOLD,
+  type PlanViolation, type PlanValidationInput,
+} from '@/lib/planValidation';
+import { autoPlan, getDefaultSemesterDates, type AutoPlanResult } from '@/lib/autoPlanner';
+import { PLAN_SEMESTER_SELECT, fromPlanRows, fromPlanPayload, toPlanPayload, type PlanSemesterRow, type PlanSnapshot } from '@/lib/planStore';
+import { savePlanVersion, diffPlanSnapshots, mergePlanSnapshots, type PlanVersion } from '@/lib/planHistory';
+import PlanHistoryDrawer from '@/components/PlanHistoryDrawer';
+import { FV_COLUMNS, ORDINALS_KR, getColumnCredits, getMonthRange as formatMonthRange, fetchPlanReport } from '@/lib/planReport';
+import { downloadPlanExcel } from '@/lib/planExcel';
+import type { CbSubject } from '@/lib/creditBank';
+import { STUDENT_RELATIONS, saveStudentRelations, studentCenterIds, studentCenterNames, studentCohorts } from '@/lib/studentRelations';
+import { fetchCohortSchedules, findCohortSchedule, formatScheduleDate, scheduleDates } from '@/lib/cohortCalendar';
+import type { Student, StudentCenter, SubjectCategory, PlanRuleSet, CohortSchedule } from '@/types';
 import styles from './page.module.css';
 
 // ── 타입 ──────────────────────────────────────────────────────
 
-type SubjectCategory = '전공' | '교양' | '일반';
-
 interface Subject {
   id: number;
   category: SubjectCategory;
@@ -85,7 +99,6 @@ interface SemesterDates {
 const SUBJECT_CATEGORIES: SubjectCategory[] = ['전공', '교양', '일반'];
 const CREDIT_OPTIONS = [1, 2, 3, 4, 5] as const;
 const DEFAULT_CENTERS = ['한평생교육', '서사평', '올티칭'];
-const CENTER_ADD_THRESHOLD = 60;
 const DOKAKSA_STAGES = ['1단계', '2단계', '3단계', '4단계'] as const;
 
 const YEAR_OPTIONS = Array.from({ length: 8 }, (_, i) => String(2023 + i)); // 2023~2030
@@ -96,160 +109,12 @@ const INITIAL_SEMESTERS: Semester[] = [
   { id: 1, year: '2025', term: 2, class_number: 1, label: '', months: '' },
 ];
 
+// 마지막 저장 후 이 시간이 지나면 새 편집 세션(새 버전)으로 기록
+const VERSION_SESSION_IDLE_MS = 30 * 60 * 1000;
+
 const TARGET_CREDITS  = 51;
 const TARGET_SUBJECTS = 8;
 
-// ── 학력별 플랜 설정 ─────────────────────────────────────────
-
-interface PlanTarget {
-  label: string;
-  categories: SubjectCategory[];
-  target: number;
-  color: string;
-}
-
-interface PracticeRequirement {
-  required: number; // 필수 최소 이수 과목 수
-  elective: number; // 선택 최소 이수 과목 수
-}
-
-interface PlanConfig {
-  isHighSchool: boolean;
-  totalTarget: number;
-  subjectTarget: number | null;
-  targets: PlanTarget[];
-  practice?: PracticeRequirement;
-  showPrevSubjects?: boolean;
-}
-
-const JUNGTAE_GROUP = ['고졸', '2년제중퇴', '3년제중퇴', '4년제중퇴'];
-const TWOTHREE_GRAD = ['2년제졸업', '3년제졸업'];
-const GRAD_ALL = ['2년제졸업', '3년제졸업', '4년제졸업'];
-
-function getPlanConfig(
-  educationLevel: string | null,
-  courseName?: string | null,
-  desiredDegree?: string | null,
-): PlanConfig {
-  // 실습 과정은 학력과 무관하게 별도 레이아웃
-  if (courseName?.includes('실습')) {
-    return {
-      isHighSchool: false,
-      totalTarget: 6,
-      subjectTarget: 6,
-      targets: [
-        { label: '전공', categories: ['전공'], target: 6, color: '#3182F6' },
-      ],
-      practice: { required: 4, elective: 2 },
-    };
-  }
-
-  const level = educationLevel ?? '';
-
-  // 중퇴군 + 학사 → 140학점
-  if (JUNGTAE_GROUP.includes(level) && desiredDegree === '학사') {
-    return {
-      isHighSchool: true,
-      totalTarget: 140,
-      subjectTarget: null,
-      targets: [
-        { label: '전공', categories: ['전공'], target: 60, color: '#3182F6' },
-        { label: '교양', categories: ['교양'], target: 30, color: '#059669' },
-        { label: '일반', categories: ['일반'], target: 50, color: '#D97706' },
-      ],
-    };
-  }
-
-  // 중퇴군 → 없음/전문학사 → 80학점
-  if (JUNGTAE_GROUP.includes(level)) {
-    return {
-      isHighSchool: true,
-      totalTarget: 80,
-      subjectTarget: null,
-      targets: [
-        { label: '전공', categories: ['전공'], target: 45, color: '#3182F6' },
-        { label: '교양', categories: ['교양'], target: 15, color: '#059669' },
-        { label: '일반', categories: ['일반'], target: 20, color: '#D97706' },
-      ],
-    };
-  }
-
-  // 2년제/3년제 졸업 + 학사 → 140학점
-  if (TWOTHREE_GRAD.includes(level) && desiredDegree === '학사') {
-    return {
-      isHighSchool: true,
-      totalTarget: 140,
-      subjectTarget: null,
-      targets: [
-        { label: '전공', categories: ['전공'], target: 60, color: '#3182F6' },
-        { label: '교양', categories: ['교양'], target: 30, color: '#059669' },
-        { label: '일반', categories: ['일반'], target: 50, color: '#D97706' },
-      ],
-    };
-  }
-
-  // 2년제졸업 + 구법 → 42학점 전공 + 전적대이수과목 표시
-  if (level === '2년제졸업' && courseName?.includes('구법')) {
-    return {
-      isHighSchool: false,
-      totalTarget: 42,
-      subjectTarget: 8,
-      targets: [
-        { label: '전공', categories: ['전공'], target: 42, color: '#3182F6' },
-      ],
-      showPrevSubjects: true,
-    };
-  }
-
-  // 2년제졸업 + 신법 → 51학점 전공 + 전적대이수과목 표시
-  if (level === '2년제졸업' && courseName?.includes('신법')) {
-    return {
-      isHighSchool: false,
-      totalTarget: 51,
-      subjectTarget: 8,
-      targets: [
-        { label: '전공', categories: ['전공'], target: 51, color: '#3182F6' },
-      ],
-      showPrevSubjects: true,
-    };
-  }
-
-  // 4년제졸업 + 신법 → 51학점 전공 + 전적대이수과목 표시
-  if (level === '4년제졸업' && courseName?.includes('신법')) {
-    return {
-      isHighSchool: false,
-      totalTarget: 51,
-      subjectTarget: 8,
-      targets: [
-        { label: '전공', categories: ['전공'], target: 51, color: '#3182F6' },
-      ],
-      showPrevSubjects: true,
-    };
-  }
-
-  // 졸업군 → 없음 → 51학점 전공만 (전적대 불필요)
-  if (GRAD_ALL.includes(level)) {
-    return {
-      isHighSchool: false,
-      totalTarget: 51,
-      subjectTarget: 8,
-      targets: [
-        { label: '전공', categories: ['전공'], target: 51, color: '#3182F6' },
-      ],
-    };
-  }
-
-  // 기본값
-  return {
-    isHighSchool: false,
-    totalTarget: 51,
-    subjectTarget: 8,
-    targets: [
-      { label: '전공', categories: ['전공'], target: 51, color: '#3182F6' },
-    ],
-  };
-}
-
 // ── 메인 컴포넌트 ─────────────────────────────────────────────
 
 export default function PlanPage() {
@@ -259,10 +124,21 @@ export default function PlanPage() {
   // 기본 데이터
   const [student,    setStudent]    = useState<Student | null>(null);
   const [subjects,   setSubjects]   = useState<Subject[]>([]);
+  const [planRules,  setPlanRules]  = useState<PlanRuleSet[]>([]);
   const [loading,    setLoading]    = useState(true);
   const [saving,     setSaving]     = useState(false);
   const isInitialized = useRef(false);
   const saveTimer     = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const versionSession = useRef<{ id: string; lastSavedAt: number } | null>(null);
+  const [showHistory,  setShowHistory]  = useState(false);
+  // 동시 편집 보호 — 마지막으로 서버와 맞춘 revision · 스냅샷, 저장 요청 직렬화
+  const revisionRef     = useRef(0);
+  const baseSnapshotRef = useRef<PlanSnapshot>([]);
+  const saveChain       = useRef<Promise<void>>(Promise.resolve());
+  const conflictRef     = useRef(false);
+  const [planConflict, setPlanConflict] = useState<{ theirs: PlanSnapshot; revision: number; editorName: string } | null>(null);
+  const [otherEditors, setOtherEditors] = useState<string[]>([]);
+  const [historyKey,   setHistoryKey]   = useState(0);
 
   // 학점 인정 데이터 (각각 즉시 DB 저장)
   const [prevSubjects, setPrevSubjects] = useState<PrevSubject[]>([]);
@@ -275,6 +151,8 @@ export default function PlanPage() {
   const [semesterDates,    setSemesterDates]    = useState<Record<number, SemesterDates>>({});
   // semesterId → subjectId → 점수
   const [semesterScores,   setSemesterScores]   = useState<Record<number, Record<number, number>>>({});
+  // 기수 일정 (관리자 등록 공식 개강 · 종강일)
+  const [cohortSchedules,  setCohortSchedules]  = useState<CohortSchedule[]>([]);
 
   // UI 상태
   const [selectedCategory, setSelectedCategory] = useState('전체');
@@ -294,8 +172,9 @@ export default function PlanPage() {
   const [gubupPresets,    setGubupPresets]    = useState<{ name: string; credits: number; subject_type: '필수' | '선택' }[]>([]);
   const [prevForm, setPrevForm] = useState({ category: '전공' as SubjectCategory, name: '', credits: 3 });
   const [cbQuery,      setCbQuery]      = useState('');
-  const [cbResults,    setCbResults]    = useState<{ id: string; name: string }[]>([]);
+  const [cbResults,    setCbResults]    = useState<CbSubject[]>([]);
   const [cbSearching,  setCbSearching]  = useState(false);
+  const [cbUnavailable, setCbUnavailable] = useState<string | null>(null);   // 학점은행 검색 불가 안내
   const cbTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const [showCertPopup, setShowCertPopup] = useState(false);
@@ -320,6 +199,18 @@ export default function PlanPage() {
   const [showCenterLimitPopup, setShowCenterLimitPopup] = useState(false);
   const [centerLimitInfo, setCenterLimitInfo] = useState<{ name: string; limit: number } | null>(null);
   const centerLimitAlertedRef = useRef<Set<string>>(new Set());
+  // 과목·자격증 추가 시 막힌 검증 결과 (인라인 표시)
+  const [blockedViolations, setBlockedViolations] = useState<PlanViolation[]>([]);
+  const [certViolations,    setCertViolations]    = useState<PlanViolation[]>([]);
+  // 서버가 저장을 거부한 규칙 위반 (이번 변경으로 생긴 오류)
+  const [saveViolations,    setSaveViolations]    = useState<PlanViolation[]>([]);
+  // 자동 플랜 검토 중에는 자동 저장을 멈추고 적용 전 상태를 보관
+  const [autoPlanResult, setAutoPlanResult] = useState<AutoPlanResult | null>(null);
+  const [autoPlanBackup, setAutoPlanBackup] = useState<{
+    semesters: Semester[];
+    semesterSubjects: Record<number, number[]>;
+    semesterDates: Record<number, SemesterDates>;
+  } | null>(null);
 
   // 교육원 추가 드롭다운
   const [showAddCenterSelect, setShowAddCenterSelect] = useState(false);
@@ -340,11 +231,12 @@ export default function PlanPage() {
 
   const planConfig = useMemo(
     () => getPlanConfig(
+      planRules,
       student?.education_level ?? null,
       student?.courses?.name ?? null,
       student?.desired_degree ?? null,
     ),
-    [student?.education_level, student?.courses?.name, student?.desired_degree],
+    [planRules, student?.education_level, student?.courses?.name, student?.desired_degree],
   );
 
   const hideCenterCredits = (
@@ -354,7 +246,7 @@ export default function PlanPage() {
 
   // ── 팝업 열림 시 배경 스크롤 잠금 ───────────────────────────
   const anyPopupOpen = showSubjectPopup || showEditSubjectPopup || showGubupPopup || showPrevPopup
-    || showCertPopup || showDokaksaPopup || showAddSemesterPopup || !!previewDoc || !!docModal;
+    || showCertPopup || showDokaksaPopup || showAddSemesterPopup || !!previewDoc || !!docModal || showHistory;
 
   useEffect(() => {
     document.body.style.overflow = anyPopupOpen ? 'hidden' : '';
@@ -366,14 +258,17 @@ export default function PlanPage() {
     let cancelled = false;
     const supabase = createClient();
     Promise.all([
-      supabase.from('students').select('*, courses(*)').eq('id', id).single(),
+      supabase.from('students').select(`*, courses(*), ${STUDENT_RELATIONS}`).eq('id', id).single(),
       supabase.from('subjects').select('*').or(`student_id.is.null,student_id.eq.${id}`).order('id'),
       supabase.from('student_prev_subjects').select('*').eq('student_id', id).order('created_at'),
       supabase.from('student_credit_certs').select('*').eq('student_id', id).order('created_at'),
       supabase.from('student_dokaksa').select('*').eq('student_id', id).order('created_at'),
-      supabase.from('student_plans').select('*').eq('student_id', id).maybeSingle(),
+      supabase.from('plan_semesters').select(PLAN_SEMESTER_SELECT).eq('student_id', id).order('sort_order'),
       supabase.from('student_documents').select('*').eq('student_id', id).order('created_at', { ascending: false }),
-    ]).then(async ([studentRes, subjectsRes, prevRes, certsRes, dokaksaRes, planRes, documentsRes]) => {
+      supabase.from('plan_rule_sets').select('*').order('sort_order'),
+      supabase.from('student_plans').select('revision').eq('student_id', id).maybeSingle(),
+      fetchCohortSchedules(supabase),
+    ]).then(async ([studentRes, subjectsRes, prevRes, certsRes, dokaksaRes, planRes, documentsRes, rulesRes, headRes, schedules]) => {
       if (cancelled) return;
       const studentData = studentRes.data as Student;
       setStudent(studentData);
@@ -410,38 +305,33 @@ export default function PlanPage() {
       if (certsRes.data?.length)     setCreditCerts(certsRes.data as CreditCert[]);
       if (dokaksaRes.data?.length)   setDokaksaList(dokaksaRes.data as DokaksaEntry[]);
       if (documentsRes.data?.length) setDocuments(documentsRes.data as StudentDocument[]);
+      if (rulesRes.data?.length)     setPlanRules(rulesRes.data as PlanRuleSet[]);
 
-      // class_start (쉼표 구분 다중 기수) → Semester 목록으로 파싱
-      function parseClassStart(classStart: string | null): Semester[] {
-        if (!classStart) return [];
-        return classStart.split(',').map(v => v.trim()).filter(Boolean).flatMap((val, idx) => {
-          const m = val.match(/(\d{4})년\s*(\d+)학기\s*(\d+)기/);
-          if (!m) return [];
-          return [{ id: idx, year: m[1], term: parseInt(m[2]), class_number: parseInt(m[3]), label: '', months: '' }];
-        });
-      }
-
-      // 저장된 플랜 또는 class_start 기반 학기 초기화
+      // 저장된 플랜 또는 개강반(student_cohorts) 기반 학기 초기화
       let finalSemesters: Semester[] = INITIAL_SEMESTERS;
-      if (planRes.data) {
-        const p = planRes.data;
-        if (p.semesters?.length) {
-          finalSemesters = (p.semesters as Semester[]).map((s) => ({ ...s, class_number: s.class_number ?? 1 }));
-        }
-        if (p.semester_subjects) setSemesterSubjects(p.semester_subjects);
-        if (p.semester_dates)    setSemesterDates(p.semester_dates);
-        if (p.semester_scores)   setSemesterScores(p.semester_scores);
+      const planRows = (planRes.data ?? []) as unknown as PlanSemesterRow[];
+      const hasSavedPlan = planRows.length > 0;
+      revisionRef.current = headRes.data?.revision ?? 0;
+      if (hasSavedPlan) {
+        const p = fromPlanRows(planRows);
+        baseSnapshotRef.current = toPlanPayload(p);
+        finalSemesters = p.semesters.map((s) => ({ ...s, label: '', months: '' }));
+        setSemesterSubjects(p.semesterSubjects);
+        setSemesterDates(p.semesterDates);
+        setSemesterScores(p.semesterScores);
       }
 
-      // class_start에 있는 기수 중 finalSemesters에 없는 것 추가
-      const csItems = parseClassStart(studentData?.class_start ?? null);
+      // 개강반 중 finalSemesters에 없는 것 추가
+      const csItems: Semester[] = studentCohorts(studentData).map((c, idx) => ({
+        id: idx, year: String(c.year), term: c.term, class_number: c.batch, label: '', months: '',
+      }));
       if (csItems.length > 0) {
-        // class_start 기반이 하나도 반영 안 된 상태면 (저장된 플랜 없음) 교체
+        // 개강반 기반이 하나도 반영 안 된 상태면 (저장된 플랜 없음) 교체
         const hasAnyMatch = csItems.some(cs =>
           finalSemesters.some(s => s.year === cs.year && s.term === cs.term && s.class_number === cs.class_number)
         );
-        if (!hasAnyMatch && !planRes.data) {
-          // 저장된 플랜 없음 → class_start로 완전히 초기화
+        if (!hasAnyMatch && !hasSavedPlan) {
+          // 저장된 플랜 없음 → 개강반으로 완전히 초기화
           finalSemesters = csItems.map((cs, i) => ({ ...cs, id: i }));
         } else {
           // 저장된 플랜 있음 → 누락된 기수만 추가
@@ -454,6 +344,17 @@ export default function PlanPage() {
           }
         }
       }
+      // 기수 일정이 있는 학기는 공식 개강 · 종강일 사용
+      const centerIds = studentCenterIds(studentData);
+      setCohortSchedules(schedules);
+      setSemesterDates((prev) => {
+        const next = { ...prev };
+        finalSemesters.forEach((s) => {
+          const official = scheduleDates(findCohortSchedule(schedules, centerIds, { year: Number(s.year), term: s.term, batch: s.class_number }));
+          if (official) next[s.id] = official;
+        });
+        return next;
+      });
       setSemesters(finalSemesters);
       setLoading(false);
       setTimeout(() => { isInitialized.current = true; }, 0);
@@ -508,7 +409,7 @@ export default function PlanPage() {
   // ── 교육원별 학점 분배 ────────────────────────────────────────
   const centerCreditsList = useMemo(() => {
     if (!student) return [] as { name: string; used: number; limit: number | null }[];
-    const centers = (student.education_center_name ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+    const centers = studentCenterNames(student);
     const limit = getCenterCreditLimit(student.education_level);
     if (centers.length === 0) return [] as { name: string; used: number; limit: number | null }[];
     let remaining = totalCredits;
@@ -519,6 +420,23 @@ export default function PlanPage() {
     });
   }, [student, totalCredits]);
 
+  // ── 플랜 검증 ────────────────────────────────────────────────
+  const validationInput = useMemo<PlanValidationInput>(() => ({
+    semesters,
+    semesterSubjects,
+    subjects,
+    certs: creditCerts,
+    educationLevel: student?.education_level ?? null,
+    desiredDegree: student?.desired_degree ?? null,
+    centerNames: studentCenterNames(student),
+    totalCredits,
+  }), [semesters, semesterSubjects, subjects, creditCerts, student, totalCredits]);
+
+  const planViolations = useMemo(
+    () => validatePlan(validationInput).filter((v) => !(hideCenterCredits && v.code === 'center_credit_limit')),
+    [validationInput, hideCenterCredits],
+  );
+
   // ── 과목 필터/그룹 ───────────────────────────────────────────
   const filteredSubjects = useMemo(() => {
     const byCategory = selectedCategory === '전체' ? subjects : subjects.filter((s) => s.category === selectedCategory);
@@ -537,36 +455,28 @@ export default function PlanPage() {
   }, [filteredSubjects]);
 
   // ── 핸들러: 수강 계획 ────────────────────────────────────────
-  const MAX_PER_SEMESTER = 8;
-  const MAX_PER_YEAR     = 14;
-
-  function getCenterCreditLimit(educationLevel: string | null | undefined): number | null {
-    if (!educationLevel) return null;
-    if (educationLevel.startsWith('4년제')) return 105;
-    if (educationLevel.startsWith('3년제')) return 90;
-    if (educationLevel.startsWith('2년제')) return 60;
-    return null;
+  // 등록교육원 저장 후 student_centers 를 다시 불러온다 (새 교육원 id 반영)
+  async function saveCenters(names: string[]) {
+    const supabase = createClient();
+    const error = await saveStudentRelations(supabase, [{ student_id: id, centers: names }]);
+    if (error) { alert(`교육원 저장 실패: ${error}`); return false; }
+    const { data } = await supabase.from('student_centers').select('*, education_centers(*)').eq('student_id', id);
+    setStudent(prev => prev ? { ...prev, student_centers: (data ?? []) as StudentCenter[] } : prev);
+    return true;
   }
 
   async function handleAddCenter(centerName: string) {
     if (!student || !centerName) return;
-    const current = (student.education_center_name ?? '').split(',').map(s => s.trim()).filter(Boolean);
+    const current = studentCenterNames(student);
     if (current.includes(centerName)) return;
-    const updated = [...current, centerName].join(',');
-    const supabase = createClient();
-    await supabase.from('students').update({ education_center_name: updated }).eq('id', id);
-    setStudent(prev => prev ? { ...prev, education_center_name: updated } : prev);
-    setShowAddCenterSelect(false);
+    if (await saveCenters([...current, centerName])) setShowAddCenterSelect(false);
   }
 
   async function handleRemoveCenter(centerName: string) {
     if (!student) return;
-    const current = (student.education_center_name ?? '').split(',').map(s => s.trim()).filter(Boolean);
+    const current = studentCenterNames(student);
     if (current.length <= 1) { alert('최소 1개 교육원은 유지해야 합니다.'); return; }
-    const updated = current.filter(c => c !== centerName).join(',');
-    const supabase = createClient();
-    await supabase.from('students').update({ education_center_name: updated }).eq('id', id);
-    setStudent(prev => prev ? { ...prev, education_center_name: updated } : prev);
+    await saveCenters(current.filter(c => c !== centerName));
   }
 
   function getYearSubjectCount(year: string): number {
@@ -584,26 +494,18 @@ export default function PlanPage() {
     const current     = semesterSubjects[targetSemId] ?? [];
     const curSem      = semesters.find((s) => s.id === targetSemId);
 
-    // 같은 학기 그룹(1기+2기+... 합산) 과목 수
-    const groupKey    = curSem ? `${curSem.year}-${curSem.term}` : '';
-    const groupSems   = semesters.filter((s) => `${s.year}-${s.term}` === groupKey);
-    const groupCount  = groupSems.reduce((sum, s) => sum + (semesterSubjects[s.id] ?? []).length, 0);
-
-    // 연간 과목 수
-    const yearCount   = curSem ? getYearSubjectCount(curSem.year) : 0;
-
-    if (groupCount >= MAX_PER_SEMESTER) {
-      alert(`${curSem?.term}학기 최대 ${MAX_PER_SEMESTER}과목까지 수강 가능합니다.\n(기수 합산 기준)`);
-      return;
-    }
-    if (yearCount >= MAX_PER_YEAR) {
-      alert(`${curSem?.year}년도 최대 ${MAX_PER_YEAR}과목까지 수강 가능합니다.\n(1학기+2학기 합산 기준)`);
+    // 추가 후 상태로 검증 — 이 학기 그룹(기수 합산)·연도의 과목 수 제한에 걸리면 막는다
+    const groupKey = curSem ? `${curSem.year}-${curSem.term}` : '';
+    const next     = { ...semesterSubjects, [targetSemId]: [...current, subjectId] };
+    const blocked  = validatePlan({ ...validationInput, semesterSubjects: next }).filter((v) =>
+      (v.code === 'semester_subject_limit' && v.semesterKey === groupKey) ||
+      (v.code === 'year_subject_limit' && v.year === curSem?.year));
+    if (blocked.length > 0) {
+      setBlockedViolations(blocked);
       return;
     }
-    setSemesterSubjects((prev) => ({
-      ...prev,
-      [targetSemId]: [...current, subjectId],
-    }));
+    setBlockedViolations([]);
+    setSemesterSubjects(next);
   }
 
   function handleRemoveAssigned(_semesterId: number, subjectId: number) {
@@ -642,19 +544,23 @@ export default function PlanPage() {
     setShowAddSemesterPopup(true);
   }
 
-  // 학기별 기본 날짜: 1학기 11월 중순~5월 초 / 2학기 5월 중순~11월 초
-  function getDefaultDates(year: string, term: number): SemesterDates {
-    const y = parseInt(year);
-    if (term === 1) return { start: `${y - 1}-11-15`, end: `${y}-05-05` };
-    return { start: `${y}-05-15`, end: `${y}-11-05` };
+  // 학생 등록교육원 기준 기수 일정 (없으면 null)
+  function getSemesterSchedule(sem: { year: string; term: number; class_number: number }) {
+    return findCohortSchedule(cohortSchedules, studentCenterIds(student), { year: Number(sem.year), term: sem.term, batch: sem.class_number });
+  }
+
+  // 학기별 기본 날짜: 기수 일정이 있으면 공식 개강 · 종강일,
+  // 없으면 1학기 11월 중순~5월 초 / 2학기 5월 중순~11월 초
+  function getDefaultDates(year: string, term: number, classNumber: number): SemesterDates {
+    return scheduleDates(getSemesterSchedule({ year, term, class_number: classNumber })) ?? getDefaultSemesterDates(year, term);
   }
 
   function handleConfirmAddSemester() {
-    const newId = (semesters[semesters.length - 1]?.id ?? -1) + 1;
+    const newId = semesters.reduce((max, s) => Math.max(max, s.id), -1) + 1;
     const sameGroup = semesters.filter(s => s.year === newSemesterForm.year && s.term === newSemesterForm.term);
     const classNumber = sameGroup.length + 1;
     setSemesters((prev) => [...prev, { id: newId, year: newSemesterForm.year, term: newSemesterForm.term, class_number: classNumber, label: '', months: '' }]);
-    setSemesterDates((prev) => ({ ...prev, [newId]: getDefaultDates(newSemesterForm.year, newSemesterForm.term) }));
+    setSemesterDates((prev) => ({ ...prev, [newId]: getDefaultDates(newSemesterForm.year, newSemesterForm.term, classNumber) }));
     setSelectedSemester(newId);
     setShowAddSemesterPopup(false);
   }
@@ -682,6 +588,85 @@ export default function PlanPage() {
     }
   }
 
+  // ── 핸들러: 자동 플랜 ────────────────────────────────────────
+  function handleAutoPlan() {
+    if (autoPlanBackup) return;
+    const result = autoPlan({
+      config: planConfig,
+      subjects,
+      semesters,
+      semesterSubjects,
+      currentCredits: creditsByCategory,
+      practiceDone: practiceCount,
+      targetCompletionDate: student?.target_completion_date ?? null,
+    });
+    setAutoPlanResult(result);
+    if (result.addedSubjectIds.length === 0) return;
+
+    setAutoPlanBackup({ semesters, semesterSubjects, semesterDates });
+    setSemesters(result.semesters.map((s) => semesters.find((x) => x.id === s.id) ?? { ...s, label: '', months: '' }));
+    setSemesterSubjects(result.semesterSubjects);
+    setSemesterDates((prev) => {
+      const next = { ...prev };
+      result.semesters
+        .filter((s) => result.addedSemesterIds.includes(s.id))
+        .forEach((s) => { next[s.id] = getDefaultDates(s.year, s.term, s.class_number); });
+      return next;
+    });
+    setBlockedViolations([]);
+  }
+
+  function handleConfirmAutoPlan() {
+    if (autoPlanBackup) {
+      logActivity({ action: '자동 플랜 적용', action_type: 'update', target_type: 'plan', target_id: id, student_id: id, target_name: student?.name, detail: `${autoPlanResult?.addedSubjectIds.length ?? 0}과목` });
+    }
+    setAutoPlanBackup(null);
+    setAutoPlanResult(null);
+  }
+
+  function handleCancelAutoPlan() {
+    if (autoPlanBackup) {
+      setSemesters(autoPlanBackup.semesters);
+      setSemesterSubjects(autoPlanBackup.semesterSubjects);
+      setSemesterDates(autoPlanBackup.semesterDates);
+      if (!autoPlanBackup.semesters.some((s) => s.id === selectedSemester)) {
+        setSelectedSemester(autoPlanBackup.semesters[0]?.id ?? 0);
+      }
+    }
+    setAutoPlanBackup(null);
+    setAutoPlanResult(null);
+  }
+
+  // 스냅샷(버전 · 병합 결과)을 화면 상태로 반영 — 자동 저장이 이어서 저장한다
+  function applySnapshot(snapshot: PlanSnapshot) {
+    const next = fromPlanPayload(snapshot);
+    const nextSemesters = next.semesters.map((s) => ({ ...s, label: '', months: '' }));
+    setSemesters(nextSemesters.length ? nextSemesters : INITIAL_SEMESTERS);
+    setSemesterSubjects(next.semesterSubjects);
+    setSemesterDates(next.semesterDates);
+    setSemesterScores(next.semesterScores);
+    if (!nextSemesters.some((s) => s.id === selectedSemester)) setSelectedSemester(nextSemesters[0]?.id ?? 0);
+    setBlockedViolations([]);
+  }
+
+  // ── 핸들러: 버전 복원 ───────────────────────────────────────
+  function handleRestoreVersion(snapshot: PlanSnapshot, version: PlanVersion) {
+    if (!confirm(`${new Date(version.updated_at).toLocaleString('ko-KR')} 버전으로 복원하시겠습니까?\n현재 플랜은 이력에 남아 있어 다시 되돌릴 수 있습니다.`)) return;
+    setAutoPlanBackup(null);
+    setAutoPlanResult(null);
+    applySnapshot(snapshot);
+    setShowHistory(false);
+    logActivity({ action: '플랜 복원', action_type: 'restore', target_type: 'plan', target_id: id, student_id: id, target_name: student?.name, detail: `${version.user_name} · ${version.updated_at}` });
+  }
+
+  // ── 핸들러: 엑셀 내보내기 (저장된 플랜 기준) ────────────────
+  async function handleExcelDownload() {
+    const report = await fetchPlanReport(createClient(), id);
+    if (!report) { alert('플랜을 불러오지 못했습니다.'); return; }
+    await downloadPlanExcel(report);
+    logActivity({ action: '플랜 다운로드', action_type: 'export', target_type: 'plan', target_id: id, student_id: id, target_name: report.student.name, detail: 'xlsx' });
+  }
+
   function handleAddKisu() {
     const curSem = semesters.find((s) => s.id === selectedSemester) ?? semesters[0];
     const sameGroup = semesters.filter((s) => s.year === curSem.year && s.term === curSem.term);
@@ -694,7 +679,7 @@ export default function PlanPage() {
     const kisuNum = parseInt(newKisuNumber, 10);
     if (!kisuNum || kisuNum < 1) return;
     const curSem = semesters.find((s) => s.id === selectedSemester) ?? semesters[0];
-    const newId = (semesters[semesters.length - 1]?.id ?? -1) + 1;
+    const newId = semesters.reduce((max, s) => Math.max(max, s.id), -1) + 1;
     setSemesters((prev) => [...prev, {
       id: newId,
       year: curSem.year,
@@ -703,7 +688,7 @@ export default function PlanPage() {
       label: '',
       months: '',
     }]);
-    setSemesterDates((prev) => ({ ...prev, [newId]: getDefaultDates(curSem.year, curSem.term) }));
+    setSemesterDates((prev) => ({ ...prev, [newId]: getDefaultDates(curSem.year, curSem.term, kisuNum) }));
     setSelectedSemester(newId);
     setShowKisuPopup(false);
     setNewKisuNumber('');
@@ -747,7 +732,10 @@ export default function PlanPage() {
     }).select().single();
     if (error) { alert(`추가 실패: ${error.message}`); return; }
     setPrevSubjects((prev) => [...prev, data as PrevSubject]);
-    logActivity({ action: `${gubupCourseType} 과목 추가`, target_type: 'prev_subject', target_name: subj.name, detail: student?.name });
+    logActivity({
+      action: `${gubupCourseType} 과목 추가`, action_type: 'create', target_type: 'prev_subject', target_id: data.id, student_id: id, target_name: subj.name, detail: student?.name,
+      after: { category: '전공', name: subj.name, credits: subj.credits },
+    });
   }
 
   // ── 핸들러: 과목 수기 추가 (DB) ─────────────────────────────
@@ -763,17 +751,23 @@ export default function PlanPage() {
     }).select().single();
     if (error) { alert(`추가 실패: ${error.message}`); return; }
     setSubjects((prev) => [...prev, data as Subject]);
-    logActivity({ action: '과목 추가', target_type: 'subject', target_name: subjectForm.name, detail: student?.name });
+    logActivity({
+      action: '과목 추가', action_type: 'create', target_type: 'subject', target_id: data.id, student_id: id, target_name: subjectForm.name, detail: student?.name,
+      after: { ...subjectForm, name: subjectForm.name.trim() },
+    });
     setSubjectForm({ category: '전공', name: '', credits: 3, type: '이론' });
     setShowSubjectPopup(false);
   }
 
   async function handleDeleteSubject(subjectId: number) {
     const supabase = createClient();
-    const deletedSubjectName = subjects.find((s) => s.id === subjectId)?.name;
+    const deleted = subjects.find((s) => s.id === subjectId);
     const { error } = await supabase.from('subjects').delete().eq('id', subjectId).eq('student_id', id);
     if (error) { alert(`삭제 실패: ${error.message}`); return; }
-    logActivity({ action: '과목 삭제', target_type: 'subject', target_name: deletedSubjectName, detail: student?.name });
+    logActivity({
+      action: '과목 삭제', action_type: 'delete', target_type: 'subject', target_id: subjectId, student_id: id, target_name: deleted?.name, detail: student?.name,
+      before: deleted ? { category: deleted.category, name: deleted.name, credits: deleted.credits, type: deleted.type } : null,
+    });
     setSubjects((prev) => prev.filter((s) => s.id !== subjectId));
     // 학기 배정에서도 제거
     setSemesterSubjects((prev) => {
@@ -790,8 +784,13 @@ export default function PlanPage() {
     const supabase = createClient();
     const { error } = await supabase.from('subjects').update({ name: name.trim(), credits, type }).eq('id', subjectId).eq('student_id', id);
     if (error) { alert(`수정 실패: ${error.message}`); return; }
+    const old = subjects.find((s) => s.id === subjectId);
+    const changes = old && diffSnapshots({ name: old.name, credits: old.credits, type: old.type }, { name: name.trim(), credits, type });
     setSubjects((prev) => prev.map((s) => s.id === subjectId ? { ...s, name: name.trim(), credits, type } : s));
-    logActivity({ action: '과목 수정', target_type: 'subject', target_name: name.trim(), detail: student?.name });
+    logActivity({
+      action: '과목 수정', action_type: 'update', target_type: 'subject', target_id: subjectId, student_id: id, target_name: name.trim(), detail: student?.name,
+      before: changes?.before, after: changes?.after,
+    });
     setShowEditSubjectPopup(false);
     setEditSubjectForm(null);
   }
@@ -805,9 +804,10 @@ export default function PlanPage() {
     cbTimer.current = setTimeout(async () => {
       setCbSearching(true);
       try {
-        const res = await fetch(`/api/cb-search?q=${encodeURIComponent(q)}`);
+        const res = await fetch(`/api/cb-subjects?q=${encodeURIComponent(q)}`);
         const data = await res.json();
         setCbResults(data.subjects ?? []);
+        setCbUnavailable(data.error && !data.subjects?.length ? data.message ?? '학점은행 검색 일시 불가' : null);
       } catch {
         setCbResults([]);
       } finally {
@@ -816,8 +816,14 @@ export default function PlanPage() {
     }, 400);
   }
 
-  function handleCbSelect(name: string) {
-    setPrevForm((f) => ({ ...f, name }));
+  // 학점은행에 이수구분 · 학점이 있으면 함께 채운다
+  function handleCbSelect(subject: CbSubject) {
+    setPrevForm((f) => ({
+      ...f,
+      name: subject.name,
+      category: subject.category ?? f.category,
+      credits: subject.credits && (CREDIT_OPTIONS as readonly number[]).includes(subject.credits) ? subject.credits : f.credits,
+    }));
     setCbQuery('');
     setCbResults([]);
   }
@@ -831,7 +837,10 @@ export default function PlanPage() {
     }).select().single();
     if (error) { alert(`추가 실패: ${error.message}`); return; }
     setPrevSubjects((prev) => [...prev, data as PrevSubject]);
-    logActivity({ action: '전적대 과목 추가', target_type: 'prev_subject', target_name: prevForm.name, detail: student?.name });
+    logActivity({
+      action: '전적대 과목 추가', action_type: 'create', target_type: 'prev_subject', target_id: data.id, student_id: id, target_name: prevForm.name, detail: student?.name,
+      after: { ...prevForm, name: prevForm.name.trim() },
+    });
     setPrevForm({ category: '전공', name: '', credits: 3 });
     setShowPrevPopup(false);
     setCbQuery(''); setCbResults([]);
@@ -839,9 +848,14 @@ export default function PlanPage() {
 
   async function handleDeletePrevSubject(entryId: string) {
     const supabase = createClient();
+    const deleted = prevSubjects.find((s) => s.id === entryId);
     const { error } = await supabase.from('student_prev_subjects').delete().eq('id', entryId);
     if (error) { alert(`삭제 실패: ${error.message}`); return; }
     setPrevSubjects((prev) => prev.filter((s) => s.id !== entryId));
+    logActivity({
+      action: '전적대 과목 삭제', action_type: 'delete', target_type: 'prev_subject', target_id: entryId, student_id: id, target_name: deleted?.name, detail: student?.name,
+      before: deleted ? { category: deleted.category, name: deleted.name, credits: deleted.credits } : null,
+    });
   }
 
   async function handleUpdatePrevSubject() {
@@ -854,8 +868,16 @@ export default function PlanPage() {
       .select()
       .single();
     if (error) { alert(`수정 실패: ${error.message}`); return; }
+    const old = prevSubjects.find((s) => s.id === editingPrevId);
+    const changes = old && diffSnapshots(
+      { category: old.category, name: old.name, credits: old.credits },
+      { ...prevForm, name: prevForm.name.trim() },
+    );
     setPrevSubjects((prev) => prev.map((s) => s.id === editingPrevId ? data as PrevSubject : s));
-    logActivity({ action: '전적대 과목 수정', target_type: 'prev_subject', target_name: prevForm.name, detail: student?.name });
+    logActivity({
+      action: '전적대 과목 수정', action_type: 'update', target_type: 'prev_subject', target_id: editingPrevId, student_id: id, target_name: prevForm.name, detail: student?.name,
+      before: changes?.before, after: changes?.after,
+    });
     setEditingPrevId(null);
     setShowPrevPopup(false);
     setPrevForm({ category: '전공', name: '', credits: 3 });
@@ -881,20 +903,8 @@ export default function PlanPage() {
     }
 
     // ── 자격증 개수 제한 검증 ──────────────────────────────────
-    const desiredDegree = student?.desired_degree;
-    const maxTotal = desiredDegree === '학사' ? 3 : 2; // 학사 3개, 전문학사 2개
-    const currentTotal = creditCerts.length;
-    const currentIlban = creditCerts.filter((c) => c.credit_type === '일반').length;
-
-    if (currentTotal >= maxTotal) {
-      alert(`학점인정 자격증은 최대 ${maxTotal}개까지 추가할 수 있습니다.\n(${desiredDegree === '학사' ? '일반학사' : '전문학사'} 기준)`);
-      return;
-    }
-    if (certForm.credit_type === '일반' && currentIlban >= 1) {
-      alert('일반 학점 자격증은 최대 1개까지만 추가할 수 있습니다.');
-      return;
-    }
-    // ─────────────────────────────────────────────────────────
+    const blocked = getCertViolations([...creditCerts, { id: '', credit_type: certForm.credit_type }]);
+    if (blocked.length > 0) { setCertViolations(blocked); return; }
 
     const supabase = createClient();
     const { data, error } = await supabase.from('student_credit_certs').insert({
@@ -906,7 +916,10 @@ export default function PlanPage() {
     }).select().single();
     if (error) { alert(`추가 실패: ${error.message}`); return; }
     setCreditCerts((prev) => [...prev, data as CreditCert]);
-    logActivity({ action: '자격증 추가', target_type: 'cert', target_name: certForm.name, detail: `${certForm.credit_type} / ${student?.name}` });
+    logActivity({
+      action: '자격증 추가', action_type: 'create', target_type: 'cert', target_id: data.id, student_id: id, target_name: certForm.name, detail: `${certForm.credit_type} / ${student?.name}`,
+      after: { ...certForm, name: certForm.name.trim(), acquired_date: certForm.acquired_date || null },
+    });
     setCertForm({ name: '', credits: 3, acquired_date: '', credit_type: '일반' });
     setCertPresetQuery('');
     setCertPresetResults([]);
@@ -915,6 +928,8 @@ export default function PlanPage() {
 
   async function handleUpdateCert() {
     if (!editCertId || !certForm.name.trim()) return;
+    const blocked = getCertViolations(creditCerts.map((c) => c.id === editCertId ? { ...c, credit_type: certForm.credit_type } : c));
+    if (blocked.length > 0) { setCertViolations(blocked); return; }
     const supabase = createClient();
     const { data, error } = await supabase.from('student_credit_certs').update({
       name: certForm.name.trim(),
@@ -923,8 +938,16 @@ export default function PlanPage() {
       credit_type: certForm.credit_type,
     }).eq('id', editCertId).select().single();
     if (error) { alert(`수정 실패: ${error.message}`); return; }
+    const old = creditCerts.find((c) => c.id === editCertId);
+    const changes = old && diffSnapshots(
+      { name: old.name, credits: old.credits, acquired_date: old.acquired_date, credit_type: old.credit_type },
+      { ...certForm, name: certForm.name.trim(), acquired_date: certForm.acquired_date || null },
+    );
     setCreditCerts((prev) => prev.map((c) => c.id === editCertId ? data as CreditCert : c));
-    logActivity({ action: '자격증 수정', target_type: 'cert', target_name: certForm.name, detail: `${certForm.credit_type} / ${student?.name}` });
+    logActivity({
+      action: '자격증 수정', action_type: 'update', target_type: 'cert', target_id: editCertId, student_id: id, target_name: certForm.name, detail: `${certForm.credit_type} / ${student?.name}`,
+      before: changes?.before, after: changes?.after,
+    });
     setCertForm({ name: '', credits: 3, acquired_date: '', credit_type: '일반' });
     setCertPresetQuery('');
     setCertPresetResults([]);
@@ -932,6 +955,11 @@ export default function PlanPage() {
     setShowCertPopup(false);
   }
 
+  function getCertViolations(nextCerts: PlanValidationInput['certs']): PlanViolation[] {
+    return validatePlan({ ...validationInput, certs: nextCerts })
+      .filter((v) => v.code === 'cert_total_limit' || v.code === 'cert_ilban_limit');
+  }
+
   function handleCertPresetSearch(query: string) {
     setCertPresetQuery(query);
     setCertForm((f) => ({ ...f, name: query }));
@@ -1011,7 +1039,10 @@ export default function PlanPage() {
     }).select().single();
     if (error) { alert(`추가 실패: ${error.message}`); return; }
     setDokaksaList((prev) => [...prev, data as DokaksaEntry]);
-    logActivity({ action: '독학사 추가', target_type: 'dokaksa', target_name: preset.name, detail: `${dokaksaForm.stage} ${credit_type} / ${student?.name}` });
+    logActivity({
+      action: '독학사 추가', action_type: 'create', target_type: 'dokaksa', target_id: data.id, student_id: id, target_name: preset.name, detail: `${dokaksaForm.stage} ${credit_type} / ${student?.name}`,
+      after: { stage: dokaksaForm.stage, name: preset.name, credits: preset.credits, credit_type },
+    });
   }
 
   // ── 핸들러: 독학사 (DB) ─────────────────────────────────────
@@ -1027,7 +1058,10 @@ export default function PlanPage() {
     }).select().single();
     if (error) { alert(`추가 실패: ${error.message}`); return; }
     setDokaksaList((prev) => [...prev, data as DokaksaEntry]);
-    logActivity({ action: '독학사 추가', target_type: 'dokaksa', target_name: subjectName, detail: student?.name });
+    logActivity({
+      action: '독학사 추가', action_type: 'create', target_type: 'dokaksa', target_id: data.id, student_id: id, target_name: subjectName, detail: student?.name,
+      after: { stage: dokaksaForm.stage, name: subjectName, credits: dokaksaForm.credits },
+    });
     setDokaksaForm((f) => ({ ...f, subject_name: '' }));
     setDokaksaSearch('');
     setShowDokaksaPopup(false);
@@ -1035,9 +1069,14 @@ export default function PlanPage() {
 
   async function handleDeleteDokaksa(entryId: string) {
     const supabase = createClient();
+    const deleted = dokaksaList.find((d) => d.id === entryId);
     const { error } = await supabase.from('student_dokaksa').delete().eq('id', entryId);
     if (error) { alert(`삭제 실패: ${error.message}`); return; }
     setDokaksaList((prev) => prev.filter((d) => d.id !== entryId));
+    logActivity({
+      action: '독학사 삭제', action_type: 'delete', target_type: 'dokaksa', target_id: entryId, student_id: id, target_name: deleted?.subject_name, detail: student?.name,
+      before: deleted ? { stage: deleted.stage, name: deleted.subject_name, credits: deleted.credits } : null,
+    });
   }
 
   // ── 핸들러: 파일 업로드 (공통) ──────────────────────────────
@@ -1064,7 +1103,7 @@ export default function PlanPage() {
     }).select().single();
     if (dbError) { alert(`저장 실패: ${dbError.message}`); setUploading(false); return; }
     setDocuments((prev) => [data as StudentDocument, ...prev]);
-    logActivity({ action: '파일 업로드', target_type: docType, target_name: file.name, detail: student?.name });
+    logActivity({ action: '파일 업로드', action_type: 'create', target_type: docType, target_id: data.id, student_id: id, target_name: file.name, detail: student?.name });
     setUploading(false);
     if (fileInputRef.current) fileInputRef.current.value = '';
   }
@@ -1076,6 +1115,7 @@ export default function PlanPage() {
     const { error } = await supabase.from('student_documents').delete().eq('id', doc.id);
     if (error) { alert(`삭제 실패: ${error.message}`); return; }
     setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+    logActivity({ action: '파일 삭제', action_type: 'delete', target_type: doc.doc_type, target_id: doc.id, student_id: id, target_name: doc.file_name, detail: student?.name });
   }
 
   const creditHistoryDocs = documents.filter((d) => d.doc_type === 'credit_history');
@@ -1110,9 +1150,20 @@ export default function PlanPage() {
     return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
   }
 
+  // ── 학점은행 검색 가능 여부 (전적대 과목 추가 팝업) ──────────
+  useEffect(() => {
+    if (!showPrevPopup || editingPrevId) return;
+    let cancelled = false;
+    fetch('/api/cb-subjects/health')
+      .then((res) => res.json())
+      .then((health) => { if (!cancelled) setCbUnavailable(health.status === 'down' ? '학점은행 검색 일시 불가' : null); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [showPrevPopup, editingPrevId]);
+
   // ── 교육원 학점 초과 감지 (현재 교육원 수 × 60 기준) ──────────
   useEffect(() => {
-    const currentCenters = (student?.education_center_name ?? '').split(',').map(s => s.trim()).filter(Boolean);
+    const currentCenters = studentCenterNames(student);
     const centerCount = Math.max(currentCenters.length, 1);
     const thresholdKey = `threshold_${centerCount}`;
 
@@ -1136,21 +1187,104 @@ export default function PlanPage() {
 
   // ── 자동 저장 (debounce 800ms) ──────────────────────────────
   useEffect(() => {
-    if (!isInitialized.current) return;
+    if (!isInitialized.current || autoPlanBackup || planConflict) return;
     if (saveTimer.current) clearTimeout(saveTimer.current);
-    saveTimer.current = setTimeout(async () => {
-      setSaving(true);
-      const supabase = createClient();
-      await supabase.from('student_plans').upsert({
-        student_id: id, semesters, semester_subjects: semesterSubjects,
-        semester_dates: semesterDates, semester_scores: semesterScores,
-        updated_at: new Date().toISOString(),
-      }, { onConflict: 'student_id' });
-      logActivity({ action: '플랜 저장', target_type: 'plan', target_name: student?.name });
-      setSaving(false);
+    saveTimer.current = setTimeout(() => {
+      const snapshot = toPlanPayload({ semesters, semesterSubjects, semesterDates, semesterScores });
+      // 이전 저장이 끝난 뒤 순서대로 저장 (같은 revision 으로 두 번 저장해 스스로 충돌하지 않도록)
+      saveChain.current = saveChain.current.then(() => persistPlan(snapshot));
     }, 800);
     return () => { if (saveTimer.current) clearTimeout(saveTimer.current); };
-  }, [semesters, semesterSubjects, semesterDates, semesterScores]);
+  }, [semesters, semesterSubjects, semesterDates, semesterScores, autoPlanBackup, planConflict]);
+
+  async function persistPlan(snapshot: PlanSnapshot) {
+    if (conflictRef.current) return;
+    setSaving(true);
+    const res = await fetch(`/api/plans/${id}/save`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ semesters: snapshot, expected_revision: revisionRef.current }),
+    });
+    const result = await res.json().catch(() => ({}));
+    setSaving(false);
+    if (res.status === 409) { await openPlanConflict(); return; }
+    // 규칙 위반은 검증 목록에 표시 — 고치면 다음 자동 저장에서 다시 저장된다
+    if (res.status === 422) { setSaveViolations(result.violations ?? []); return; }
+    if (!res.ok) { alert(`저장 실패: ${result.error ?? res.status}`); return; }
+    setSaveViolations([]);
+    revisionRef.current = result.revision as number;
+    baseSnapshotRef.current = snapshot;
+
+    // 편집 세션 단위 버전 기록
+    const now = Date.now();
+    if (!versionSession.current || now - versionSession.current.lastSavedAt > VERSION_SESSION_IDLE_MS) {
+      versionSession.current = { id: crypto.randomUUID(), lastSavedAt: now };
+    }
+    versionSession.current.lastSavedAt = now;
+    await savePlanVersion(id, versionSession.current.id, snapshot);
+    setHistoryKey((k) => k + 1);
+    logActivity({ action: '플랜 저장', action_type: 'save', target_type: 'plan', target_id: id, student_id: id, target_name: student?.name });
+  }
+
+  // 다른 사용자가 먼저 저장해 revision 이 달라진 경우 — 서버 플랜을 불러와 병합 팝업 표시
+  async function openPlanConflict() {
+    conflictRef.current = true;
+    const supabase = createClient();
+    const [rowsRes, headRes, versionRes] = await Promise.all([
+      supabase.from('plan_semesters').select(PLAN_SEMESTER_SELECT).eq('student_id', id).order('sort_order'),
+      supabase.from('student_plans').select('revision').eq('student_id', id).maybeSingle(),
+      supabase.from('plan_versions').select('user_name').eq('student_id', id)
+        .order('updated_at', { ascending: false }).limit(1).maybeSingle(),
+    ]);
+    setPlanConflict({
+      theirs: toPlanPayload(fromPlanRows((rowsRes.data ?? []) as unknown as PlanSemesterRow[])),
+      revision: headRes.data?.revision ?? 0,
+      editorName: versionRes.data?.user_name || '다른 사용자',
+    });
+  }
+
+  function handleResolveConflict(mode: 'merge' | 'mine' | 'theirs') {
+    if (!planConflict) return;
+    const mine = toPlanPayload({ semesters, semesterSubjects, semesterDates, semesterScores });
+    const base = baseSnapshotRef.current;
+    revisionRef.current = planConflict.revision;
+    baseSnapshotRef.current = planConflict.theirs;
+    conflictRef.current = false;
+    if (mode === 'theirs') applySnapshot(planConflict.theirs);
+    if (mode === 'merge') applySnapshot(mergePlanSnapshots(base, mine, planConflict.theirs));
+    // 'mine' 은 현재 상태 그대로 — planConflict 해제로 자동 저장이 다시 실행된다
+    setPlanConflict(null);
+    const modeLabel = { merge: '병합', mine: '내 변경 유지', theirs: '상대 변경 적용' }[mode];
+    logActivity({ action: '플랜 충돌 해결', action_type: 'save', target_type: 'plan', target_id: id, student_id: id, target_name: student?.name, detail: `${modeLabel} · ${planConflict.editorName}` });
+  }
+
+  // ── 동시 편집자 표시 (Realtime presence) ─────────────────────
+  useEffect(() => {
+    const supabase = createClient();
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let cancelled = false;
+    (async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || cancelled) return;
+      const { data: profile } = await supabase.from('profiles').select('name').eq('id', user.id).single();
+      if (cancelled) return;
+      const ch = supabase.channel(`plan-editors:${id}`, { config: { presence: { key: user.id } } });
+      channel = ch;
+      ch.on('presence', { event: 'sync' }, () => {
+        const state = ch.presenceState<{ name: string }>();
+        setOtherEditors(Object.entries(state)
+          .filter(([key]) => key !== user.id)
+          .map(([, metas]) => metas[0]?.name)
+          .filter((name): name is string => !!name));
+      }).subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') await ch.track({ name: profile?.name ?? user.email ?? '' });
+      });
+    })();
+    return () => {
+      cancelled = true;
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [id]);
 
   // ── 점수 핸들러 ─────────────────────────────────────────────
   function handleScoreChange(semId: number, subjectId: number, value: string) {
@@ -1195,7 +1329,6 @@ export default function PlanPage() {
   const currentSemesterSubjectIds = selectedGroupSemesters.flatMap((s) => semesterSubjects[s.id] ?? []);
 
   // ── 전체보기 ────────────────────────────────────────────────
-  const ORDINALS_KR = ['첫', '두번째', '세번째', '네번째', '다섯번째', '여섯번째', '일곱번째', '여덟번째', '아홉번째', '열번째'];
   const SEM_COLORS = [
     { bg: '#EEF2FF', border: '#C7D2FE', label: '#4338CA' },
     { bg: '#ECFDF5', border: '#A7F3D0', label: '#065F46' },
@@ -1209,30 +1342,20 @@ export default function PlanPage() {
     { bg: '#ECFEFF', border: '#A5F3FC', label: '#0E7490' },
   ];
   // 전체보기 고정 컬럼: 전공(category), 교양(category), 실습(type)
-  const FV_COLUMNS = ['전공', '교양', '실습'] as const;
-
-  function getSemCreditByCol(semId: number, col: string) {
+  function getSemCreditByCol(semId: number, col: typeof FV_COLUMNS[number]) {
     const ids = semesterSubjects[semId] ?? (semesterSubjects as Record<string, number[]>)[String(semId)] ?? [];
     return ids.reduce((sum, sid) => {
       const s = subjects.find((sub) => sub.id === sid || sub.id === Number(sid));
-      if (!s) return sum;
-      if (col === '전공') return s.category === '전공' ? sum + s.credits : sum;
-      if (col === '교양') return s.category === '교양' ? sum + s.credits : sum;
-      if (col === '실습') return s.type === '실습' ? sum + s.credits : sum;
-      return sum;
+      return s ? sum + getColumnCredits(s, col) : sum;
     }, 0);
   }
 
-  function getTotalCreditByCol(col: string) {
+  function getTotalCreditByCol(col: typeof FV_COLUMNS[number]) {
     return semesters.reduce((sum, sem) => sum + getSemCreditByCol(sem.id, col), 0);
   }
 
   function getMonthRange(semId: number) {
-    const d = semesterDates[semId];
-    if (!d?.start && !d?.end) return '';
-    const fmt = (s: string) => `${new Date(s).getMonth() + 1}월`;
-    if (d.start && d.end) return `${fmt(d.start)}~${fmt(d.end)}`;
-    return d.start ? `${fmt(d.start)}~` : '';
+    return formatMonthRange(semesterDates[semId]);
   }
 
   if (showFullView) {
@@ -1241,16 +1364,24 @@ export default function PlanPage() {
         {/* 전체보기 헤더 */}
         <div className={styles.fv_top}>
           <h2 className={styles.fv_title}>학습플랜 전체보기</h2>
-          <button className={styles.fv_back_btn} onClick={() => setShowFullView(false)}>
-            ← 돌아가기
-          </button>
+          <div className={styles.fv_top_actions}>
+            <a className={styles.fv_pdf_btn} href={`/api/plans/${id}/pdf`} target="_blank" rel="noreferrer">
+              PDF 다운로드
+            </a>
+            <button className={styles.fv_excel_btn} onClick={handleExcelDownload}>
+              엑셀 다운로드
+            </button>
+            <button className={styles.fv_back_btn} onClick={() => setShowFullView(false)}>
+              ← 돌아가기
+            </button>
+          </div>
         </div>
 
         {/* 학생 정보 */}
         <div className={styles.fv_info_bar}>
           <span>성명: {student.name}</span>
           <span>과정: {student.courses?.name ?? '-'}</span>
-          <span>담당자: {student.manager_name ?? '-'}</span>
+          <span>담당자: {student.managers?.name ?? '-'}</span>
         </div>
 
         {/* 메인 테이블 */}
@@ -1332,13 +1463,9 @@ export default function PlanPage() {
                         result.push(
                           <tr key={`subj-${sem.id}-${subject.id}`}>
                             <td className={styles.fv_td}>{subject.name}</td>
-                            {FV_COLUMNS.map((col) => {
-                              const credits = col === '전공' && subject.category === '전공' ? subject.credits
-                                : col === '교양' && subject.category === '교양' ? subject.credits
-                                : col === '실습' && subject.type === '실습' ? subject.credits
-                                : 0;
-                              return <td key={col} className={styles.fv_credit_td}>{credits}</td>;
-                            })}
+                            {FV_COLUMNS.map((col) => (
+                              <td key={col} className={styles.fv_credit_td}>{getColumnCredits(subject, col)}</td>
+                            ))}
                           </tr>
                         );
                       });
@@ -1359,13 +1486,9 @@ export default function PlanPage() {
                           <tr key={`subj-${sem.id}-${subject.id}`}>
                             {subjIdx === 0 && !leftCellPlaced && leftCell}
                             <td className={styles.fv_td}>{subject.name}</td>
-                            {FV_COLUMNS.map((col) => {
-                              const credits = col === '전공' && subject.category === '전공' ? subject.credits
-                                : col === '교양' && subject.category === '교양' ? subject.credits
-                                : col === '실습' && subject.type === '실습' ? subject.credits
-                                : 0;
-                              return <td key={col} className={styles.fv_credit_td}>{credits}</td>;
-                            })}
+                            {FV_COLUMNS.map((col) => (
+                              <td key={col} className={styles.fv_credit_td}>{getColumnCredits(subject, col)}</td>
+                            ))}
                           </tr>
                         );
                         if (subjIdx === 0) leftCellPlaced = true;
@@ -1422,7 +1545,7 @@ export default function PlanPage() {
           <div className={styles.course_name}>{student.name}</div>
           <div className={styles.student_meta}>
             {student.courses?.name ?? '과정 미배정'}
-            {student.manager_name && <><span className={styles.meta_sep}>|</span>담당자 {student.manager_name}</>}
+            {student.managers && <><span className={styles.meta_sep}>|</span>담당자 {student.managers.name}</>}
           </div>
         </div>
         <div className={styles.header_right_group}>
@@ -1432,9 +1555,18 @@ export default function PlanPage() {
           <button className={styles.header_doc_btn} onClick={() => setDocModal('transcript')}>
             성적 증명서{transcriptDocs.length > 0 && <span className={styles.header_doc_count}>{transcriptDocs.length}</span>}
           </button>
+          <button className={styles.fullview_btn} onClick={() => setShowHistory(true)}>
+            변경 이력
+          </button>
           <button className={styles.fullview_btn} onClick={() => setShowFullView(true)}>
             전체보기
           </button>
+          {otherEditors.length > 0 && (
+            <div className={styles.editors_badge} title={otherEditors.join(', ')}>
+              <span className={styles.editors_dot} />
+              {otherEditors.join(', ')}님 편집 중
+            </div>
+          )}
           <div className={styles.save_indicator}>
             {saving ? (
               <><span className={styles.save_dot_saving} />저장 중...</>
@@ -1530,7 +1662,7 @@ export default function PlanPage() {
           <>
             {/* 등록 교육원별 학점 카드 */}
             {!hideCenterCredits && (() => {
-              const centers = (student.education_center_name ?? '').split(',').map(s => s.trim()).filter(Boolean);
+              const centers = studentCenterNames(student);
               const limit = getCenterCreditLimit(student.education_level);
               if (centers.length === 0) return null;
               let remaining = totalCredits;
@@ -1662,6 +1794,7 @@ export default function PlanPage() {
             setCertForm({ name: '', credits: 3, acquired_date: '', credit_type: '일반' });
             setCertPresetQuery('');
             setCertPresetResults([]);
+            setCertViolations([]);
             setShowCertPopup(true);
           }}>+ 추가</button>
         </div>
@@ -1681,6 +1814,7 @@ export default function PlanPage() {
                   setCertForm({ name: c.name, credits: c.credits, acquired_date: c.acquired_date ?? '', credit_type: c.credit_type });
                   setCertPresetQuery(c.name);
                   setCertPresetResults([]);
+                  setCertViolations([]);
                   setShowCertPopup(true);
                 }} aria-label="수정">
                   <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -1988,14 +2122,51 @@ export default function PlanPage() {
           <div className={styles.semester_panel_header}>
             <div className={styles.panel_title}>학기별 수강 계획</div>
             <div className={styles.semester_header_right}>
-              <span className={styles.semester_count_badge}>{currentSemesterSubjectIds.length} / 8과목</span>
+              <span className={styles.semester_count_badge}>{currentSemesterSubjectIds.length} / {MAX_PER_SEMESTER}과목</span>
               <span className={`${styles.semester_count_badge} ${getYearSubjectCount(currentSemester.year) >= MAX_PER_YEAR ? styles.semester_count_badge_full : ''}`}>
-                {currentSemester.year}년 {getYearSubjectCount(currentSemester.year)} / 14과목
+                {currentSemester.year}년 {getYearSubjectCount(currentSemester.year)} / {MAX_PER_YEAR}과목
               </span>
+              <button className={styles.semester_auto_btn} onClick={handleAutoPlan} disabled={!!autoPlanBackup}>자동 플랜</button>
               <button className={styles.semester_add_btn} onClick={handleAddSemester}>+ 수강계획 추가</button>
             </div>
           </div>
 
+          {/* 자동 플랜 검토 */}
+          {autoPlanResult && (
+            <div className={styles.auto_plan_banner}>
+              <div className={styles.auto_plan_text}>
+                {autoPlanResult.addedSubjectIds.length === 0 ? (
+                  <div>추가로 배정할 과목이 없습니다.</div>
+                ) : (
+                  <>
+                    <div className={styles.auto_plan_title}>
+                      자동 플랜 검토 중 — {autoPlanResult.addedSubjectIds.length}과목 배정
+                      {autoPlanResult.addedSemesterIds.length > 0 && ` · 학기 ${autoPlanResult.addedSemesterIds.length}개 추가`}
+                      {autoPlanResult.finishTerm && ` · ${autoPlanResult.finishTerm.year}년 ${autoPlanResult.finishTerm.term}학기 완료 예정`}
+                    </div>
+                    <div>확인 후 적용하면 저장됩니다. 적용 전에 과목을 추가·삭제해 조정할 수 있습니다.</div>
+                  </>
+                )}
+                {autoPlanResult.meetsTargetDate === false && (
+                  <div className={styles.auto_plan_warn}>목표취득예정일({student.target_completion_date})보다 늦게 완료됩니다.</div>
+                )}
+                {autoPlanResult.shortfall.map((s) => (
+                  <div key={s.label} className={styles.auto_plan_warn}>{s.label} {s.credits}학점은 배정할 과목이 없어 채우지 못했습니다.</div>
+                ))}
+              </div>
+              <div className={styles.auto_plan_actions}>
+                {autoPlanBackup ? (
+                  <>
+                    <button className={styles.auto_plan_cancel} onClick={handleCancelAutoPlan}>되돌리기</button>
+                    <button className={styles.auto_plan_confirm} onClick={handleConfirmAutoPlan}>적용</button>
+                  </>
+                ) : (
+                  <button className={styles.auto_plan_cancel} onClick={handleConfirmAutoPlan}>닫기</button>
+                )}
+              </div>
+            </div>
+          )}
+
           <div className={styles.semester_tabs}>
             {/* 탭: year+term별로 그룹화하여 ONE 탭 */}
             {(() => {
@@ -2008,8 +2179,7 @@ export default function PlanPage() {
               });
 
               // ── 교육원 귀속 계산 ──
-              const eduCenters = (student.education_center_name ?? '')
-                .split(',').map(s => s.trim()).filter(Boolean);
+              const eduCenters = studentCenterNames(student);
               const centerLimit = getCenterCreditLimit(student.education_level);
               const CENTER_COLORS = ['#3182F6', '#059669', '#D97706', '#7C3AED'];
 
@@ -2046,6 +2216,8 @@ export default function PlanPage() {
                 const prevCenter = i > 0 ? groupCenterMap.get(groupEntries[i - 1][0]) : null;
                 const centerChanged = showCenterBadge && prevCenter != null && prevCenter.idx !== centerInfo?.idx;
                 const color = centerInfo ? (CENTER_COLORS[centerInfo.idx] ?? '#3182F6') : '#3182F6';
+                const hasViolation = planViolations.some((v) => v.severity === 'error' &&
+                  (v.semesterKey === groupKey || (v.code === 'year_subject_limit' && v.year === rep.year)));
 
                 return (
                   <Fragment key={groupKey}>
@@ -2059,7 +2231,7 @@ export default function PlanPage() {
                     )}
                     <div className={`${styles.semester_tab_wrap} ${isActive ? styles.semester_tab_wrap_active : ''}`}>
                       <button
-                        className={`${styles.semester_tab} ${isActive ? styles.semester_tab_active : ''}`}
+                        className={`${styles.semester_tab} ${isActive ? styles.semester_tab_active : ''} ${hasViolation ? styles.semester_tab_invalid : ''}`}
                         onClick={() => setSelectedSemester(groupSems.find(s => s.id === selectedSemester) ? selectedSemester : groupSems[0].id)}
                       >
                         <div className={styles.tab_top_row}>
@@ -2094,11 +2266,41 @@ export default function PlanPage() {
             })()}
           </div>
 
+          {/* 플랜 검증 결과 */}
+          {(saveViolations.length > 0 || blockedViolations.length > 0 || planViolations.length > 0) && (
+            <div className={styles.violation_list}>
+              {saveViolations.map((v, i) => (
+                <div key={`save-${v.code}-${i}`} className={`${styles.violation_item} ${styles.violation_error}`}>
+                  <span>저장되지 않았습니다 — {v.message}</span>
+                </div>
+              ))}
+              {blockedViolations.map((v) => (
+                <div key={`blocked-${v.code}`} className={`${styles.violation_item} ${styles.violation_error}`}>
+                  <span>과목을 추가할 수 없습니다 — {v.message}</span>
+                  <button className={styles.violation_dismiss} onClick={() => setBlockedViolations([])} aria-label="닫기">✕</button>
+                </div>
+              ))}
+              {planViolations.map((v, i) => (
+                <div
+                  key={`${v.code}-${i}`}
+                  className={`${styles.violation_item} ${v.severity === 'error' ? styles.violation_error : styles.violation_warning}`}
+                >
+                  <span>{v.message}</span>
+                  {v.semesterId !== undefined && semesters.some((s) => s.id === v.semesterId) && (
+                    <button className={styles.violation_link} onClick={() => setSelectedSemester(v.semesterId!)}>학기 보기</button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className={styles.semester_detail}>
             <div className={styles.semester_title_big}>{currentSemester.year}년 {currentSemester.term}학기</div>
 
             {selectedGroupSemesters.map((sem) => {
               const dates = semesterDates[sem.id] ?? { start: '', end: '' };
+              const schedule = getSemesterSchedule(sem);
+              const official = !!scheduleDates(schedule);
               const isActivKisu = selectedSemester === sem.id;
               const multiKisu = selectedGroupSemesters.length > 1;
               return (
@@ -2130,15 +2332,20 @@ export default function PlanPage() {
                   <div className={styles.date_row} onClick={(e) => e.stopPropagation()}>
                     <div className={styles.date_field}>
                       <label className={styles.date_label} htmlFor={`start-${sem.id}`}>학기 시작일</label>
-                      <input id={`start-${sem.id}`} className={styles.date_input} type="date"
+                      <input id={`start-${sem.id}`} className={styles.date_input} type="date" disabled={official}
                         value={dates.start} onChange={(e) => handleDateChange(sem.id, 'start', e.target.value)} />
                     </div>
                     <div className={styles.date_field}>
                       <label className={styles.date_label} htmlFor={`end-${sem.id}`}>학기 종료일</label>
-                      <input id={`end-${sem.id}`} className={styles.date_input} type="date"
+                      <input id={`end-${sem.id}`} className={styles.date_input} type="date" disabled={official}
                         value={dates.end} onChange={(e) => handleDateChange(sem.id, 'end', e.target.value)} />
                     </div>
                   </div>
+                  {schedule && (
+                    <div className={styles.date_official}>
+                      기수 일정 기준{schedule.exam_date ? ` · 시험일 ${formatScheduleDate(schedule.exam_date)}` : ''}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -2415,15 +2622,20 @@ export default function PlanPage() {
                   {cbResults.length > 0 && (
                     <div className={styles.cb_results}>
                       {cbResults.map((r) => (
-                        <div key={r.id} className={styles.cb_result_item} onClick={() => handleCbSelect(r.name)}>
+                        <div key={r.id} className={styles.cb_result_item} onClick={() => handleCbSelect(r)}>
                           {r.name}
+                          {(r.category_detail || r.credits) && (
+                            <span className={styles.cb_result_meta}>
+                              {[r.category_detail, r.credits && `${r.credits}학점`].filter(Boolean).join(' · ')}
+                            </span>
+                          )}
                         </div>
                       ))}
                     </div>
                   )}
-                  {!cbSearching && cbQuery.trim() && cbResults.length === 0 && (
+                  {!cbSearching && (cbUnavailable || (cbQuery.trim() && cbResults.length === 0)) && (
                     <div className={styles.cb_no_result}>
-                      검색 결과가 없습니다.{' '}
+                      {cbUnavailable ? `${cbUnavailable}.` : '검색 결과가 없습니다.'}{' '}
                       <a
                         href="https://www.cb.or.kr/creditbank/stuHelp/nStuHelp7_1.do"
                         target="_blank"
@@ -2542,6 +2754,13 @@ export default function PlanPage() {
                   ))}
                 </div>
               </div>
+              {certViolations.length > 0 && (
+                <div className={styles.violation_list}>
+                  {certViolations.map((v) => (
+                    <div key={v.code} className={`${styles.violation_item} ${styles.violation_error}`}>{v.message}</div>
+                  ))}
+                </div>
+              )}
             </div>
             <div className={styles.popup_footer}>
               <button className={styles.popup_cancel} onClick={() => { setShowCertPopup(false); setEditCertId(null); }}>취소</button>
@@ -2795,7 +3014,7 @@ export default function PlanPage() {
 
       {/* ── 교육원 학점 초과 알림 팝업 ── */}
       {showCenterLimitPopup && centerLimitInfo && (() => {
-        const registeredCenters = (student?.education_center_name ?? '').split(',').map(s => s.trim()).filter(Boolean);
+        const registeredCenters = studentCenterNames(student);
         const availableCenters = DEFAULT_CENTERS.filter(c => !registeredCenters.includes(c));
         return (
           <div className={styles.popup_overlay} onClick={() => setShowCenterLimitPopup(false)}>
@@ -2888,6 +3107,62 @@ export default function PlanPage() {
         </div>
       )}
 
+      {/* ── 팝업: 저장 충돌 병합 ── */}
+      {planConflict && (() => {
+        const subjectName = (sid: number) => subjects.find((s) => s.id === sid)?.name ?? `과목 #${sid}`;
+        const mine = toPlanPayload({ semesters, semesterSubjects, semesterDates, semesterScores });
+        const mineChanges = diffPlanSnapshots(baseSnapshotRef.current, mine, subjectName);
+        const theirChanges = diffPlanSnapshots(baseSnapshotRef.current, planConflict.theirs, subjectName);
+        return (
+          <div className={styles.popup_overlay}>
+            <div className={`${styles.popup} ${styles.popup_wide}`}>
+              <div className={styles.popup_header}>
+                <span className={styles.popup_title}>저장 충돌</span>
+              </div>
+              <div className={styles.popup_body}>
+                <div className={styles.conflict_desc}>
+                  {planConflict.editorName}님이 이 플랜을 먼저 저장했습니다. 두 변경을 병합하거나 한쪽을 선택해 주세요.
+                  <br />같은 과목을 양쪽에서 바꾼 경우 병합 시 내 변경이 우선합니다.
+                </div>
+                <div className={styles.conflict_cols}>
+                  {[
+                    { title: '내 변경', changes: mineChanges },
+                    { title: `${planConflict.editorName}님 변경`, changes: theirChanges },
+                  ].map((col) => (
+                    <div key={col.title} className={styles.conflict_col}>
+                      <div className={styles.conflict_col_title}>{col.title}</div>
+                      {col.changes.length === 0 ? (
+                        <div className={styles.conflict_none}>변경 없음</div>
+                      ) : (
+                        <ul className={styles.conflict_changes}>
+                          {col.changes.map((c, i) => (
+                            <li key={i} className={styles[`conflict_${c.kind}`]}>{c.text}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className={styles.popup_footer}>
+                <button className={styles.popup_cancel} onClick={() => handleResolveConflict('theirs')}>상대 변경 불러오기</button>
+                <button className={styles.popup_cancel} onClick={() => handleResolveConflict('mine')}>내 변경으로 덮어쓰기</button>
+                <button className={styles.popup_confirm} onClick={() => handleResolveConflict('merge')}>병합</button>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
+      <PlanHistoryDrawer
+        studentId={id}
+        open={showHistory}
+        refreshKey={historyKey}
+        subjectName={(sid) => subjects.find((s) => s.id === sid)?.name ?? `과목 #${sid}`}
+        onRestore={handleRestoreVersion}
+        onClose={() => setShowHistory(false)}
+      />
+
     </div>
   );
 }
@@ -1,33 +1,27 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback, useMemo, useRef, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import { logActivity } from '@/lib/logger';
+import { compactSnapshot, diffSnapshots, studentLogInput, studentSnapshot, type StudentLogInput } from '@/lib/activityLog';
+import { fetchPlanReports } from '@/lib/planReport';
+import { downloadPlansExcel } from '@/lib/planExcel';
+import { normalizePhone } from '@/lib/studentImport';
+import { cohortKey, formatCohort, sameCohort, saveStudentRelations, studentCenterNames } from '@/lib/studentRelations';
+import { earliestClassStart, fetchCohortSchedules, formatScheduleDate } from '@/lib/cohortCalendar';
+import { ALLCARE_FILTERS, ALLCARE_STATUS_LABELS, allcareMismatch } from '@/lib/allcare';
+import {
+  DEFAULT_STUDENT_QUERY, parseStudentQuery, studentQueryToString, searchStudents, fetchStudentSummary,
+  type StudentQuery, type StudentSort, type StudentSummary,
+} from '@/lib/studentQuery';
 import StudentModal from '@/components/StudentModal';
+import StudentImportModal from '@/components/StudentImportModal';
+import ActivityLogViewer from '@/components/ActivityLogViewer';
 import FilterDropdown from '@/components/FilterDropdown';
-import type { Student, Course, EducationCenter, StudentFormData, MonthlyEnrollment } from '@/types';
+import type { AllcareStatus, Student, Course, EducationCenter, StudentFormData, Cohort, CohortSchedule, Manager } from '@/types';
 import styles from './page.module.css';
 
-interface ActivityLog {
-  id: string;
-  user_name: string;
-  action: string;
-  target_type: string | null;
-  target_name: string | null;
-  detail: string | null;
-  created_at: string;
-}
-
-// ── 활동로그 헬퍼 ─────────────────────────────────────────────
-function getLogActionType(action: string): { label: string; color: string; bg: string } {
-  if (action.includes('삭제')) return { label: '삭제', color: '#EF4444', bg: '#FFF5F5' };
-  if (action.includes('수정')) return { label: '수정', color: '#3182F6', bg: '#EEF5FF' };
-  if (action.includes('추가') || action.includes('등록')) return { label: '추가', color: '#059669', bg: '#ECFDF5' };
-  if (action.includes('저장')) return { label: '저장', color: '#7C3AED', bg: '#F5F3FF' };
-  return { label: '기타', color: '#6B7684', bg: '#F2F4F6' };
-}
-
 type Tab = '학생관리' | '활동로그' | '환불목록' | '삭제목록';
 
 const STATUS_MAP: Record<string, { label: string; cls: string }> = {
@@ -38,6 +32,13 @@ const STATUS_MAP: Record<string, { label: string; cls: string }> = {
   삭제예정:           { label: '삭제예정', cls: styles.badge_refund    },
 };
 
+const ALLCARE_BADGE: Record<AllcareStatus, string> = {
+  active:           styles.badge_completed,
+  cancel_scheduled: styles.badge_practice,
+  none:             styles.badge_muted,
+  not_found:        styles.badge_muted,
+};
+
 function formatDate(dateStr: string | null) {
   if (!dateStr) return '-';
   return new Date(dateStr).toLocaleDateString('ko-KR', { year: 'numeric', month: '2-digit', day: '2-digit' });
@@ -48,130 +49,207 @@ function formatPhone(phone: string | null) {
   return phone.replace(/(\d{3})(\d{3,4})(\d{4})/, '$1-$2-$3');
 }
 
+function toStudentPayload(data: StudentFormData) {
+  return {
+    name: data.name,
+    phone: data.phone || null,
+    education_level: data.education_level || null,
+    major: data.major || null,
+    desired_degree: data.desired_degree || null,
+    status: data.status,
+    course_id: data.course_id || null,
+    manager_id: data.manager_id || null,
+    cost: data.cost ? Number(data.cost) : null,
+    target_completion_date: data.target_completion_date || null,
+    all_care: data.all_care,
+    notes: data.notes || null,
+  };
+}
+
+// 폼 값 → 로그 스냅샷 입력
+function formLogInput(data: StudentFormData): StudentLogInput {
+  return { ...toStudentPayload(data), cohorts: data.cohorts, centers: data.centers };
+}
+
+const IMPORT_CHUNK = 500;
+
+const STATUS_FILTERS = ['등록', '사회복지사-실습예정', '수료'];
+
 export default function StudentsPage() {
-  const supabase = createClient();
+  // useSearchParams 는 Suspense 경계 안에서 사용
+  return (
+    <Suspense fallback={null}>
+      <StudentsPageContent />
+    </Suspense>
+  );
+}
+
+function StudentsPageContent() {
+  const supabase = useMemo(() => createClient(), []);
   const router = useRouter();
+  const searchParams = useSearchParams();
 
-  const [students, setStudents] = useState<Student[]>([]);
+  // 목록 조건은 URL 쿼리에 보관 (새로고침 · 링크 공유 · 뒤로가기 유지)
+  const query = useMemo(() => parseStudentQuery(searchParams), [searchParams]);
+
+  const [rows, setRows] = useState<Student[]>([]);
+  const [totalFiltered, setTotalFiltered] = useState(0);
+  const [summary, setSummary] = useState<StudentSummary | null>(null);
+  const [scopeRows, setScopeRows] = useState<Student[]>([]);      // 환불 / 삭제목록 탭
+  const [duplicateCandidates, setDuplicateCandidates] = useState<Pick<Student, 'id' | 'name' | 'phone'>[]>([]);
   const [courses, setCourses] = useState<Course[]>([]);
   const [centers, setCenters] = useState<EducationCenter[]>([]);
-  const [managersDb, setManagersDb] = useState<string[]>([]);
-  const [monthly, setMonthly] = useState<MonthlyEnrollment[]>([]);
+  const [managersDb, setManagersDb] = useState<Manager[]>([]);
+  const [schedules, setSchedules] = useState<CohortSchedule[]>([]);
   const [loading, setLoading] = useState(true);
   const [isSuperAdmin, setIsSuperAdmin] = useState(false);
 
   const [activeTab, setActiveTab] = useState<Tab>('학생관리');
-  const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
-  const [logsLoading, setLogsLoading] = useState(false);
-  const [logSearch, setLogSearch] = useState('');
-  const [logActionType, setLogActionType] = useState('');
-  const [logDateFrom, setLogDateFrom] = useState('');
-  const [logDateTo, setLogDateTo] = useState('');
-  const [logPage, setLogPage] = useState(1);
-  const LOG_PAGE_SIZE = 10;
-  const [studentPage, setStudentPage] = useState(1);
   const STUDENT_PAGE_SIZE = 10;
 
+  const [planExporting, setPlanExporting] = useState(false);
+  const [allcareSyncing, setAllcareSyncing] = useState(false);
   const [modalOpen, setModalOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [editTarget, setEditTarget] = useState<Student | null>(null);
 
-  const [search, setSearch] = useState('');
-  const [filterStatus, setFilterStatus] = useState('');
-  const [filterCenter, setFilterCenter] = useState('');
-  const [filterBatch, setFilterBatch] = useState('');
-  const [filterManager, setFilterManager] = useState('');
-  const [filterCourse, setFilterCourse] = useState('');
+  // 담당자 일괄 변경 (슈퍼관리자)
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [reassignTo, setReassignTo] = useState('');
+  const [reassigning, setReassigning] = useState(false);
 
-  const fetchAll = useCallback(async () => {
+  const [searchInput, setSearchInput] = useState(query.search);
+  const listRequest = useRef(0);
+
+  const updateQuery = useCallback((patch: Partial<StudentQuery>) => {
+    // 조건이 바뀌면 선택 해제 (페이지 이동은 유지)
+    if (Object.keys(patch).some((key) => key !== 'page')) setSelectedIds([]);
+    const qs = studentQueryToString({ ...query, page: 1, ...patch });
+    router.replace(qs ? `/students?${qs}` : '/students', { scroll: false });
+  }, [query, router]);
+
+  // 검색어는 입력이 멈춘 뒤 반영
+  useEffect(() => {
+    if (searchInput === query.search) return;
+    const timer = setTimeout(() => updateQuery({ search: searchInput }), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, query.search, updateQuery]);
+
+  useEffect(() => {
+    (async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).single();
+        setIsSuperAdmin(profile?.role === 'super_admin');
+      }
+      const [coursesRes, centersRes, managersRes, schedulesRes] = await Promise.all([
+        supabase.from('courses').select('*').order('id'),
+        supabase.from('education_centers').select('*').order('id'),
+        supabase.from('managers').select('*').order('sort_order'),
+        fetchCohortSchedules(supabase),
+      ]);
+      setCourses((coursesRes.data as Course[]) ?? []);
+      setSchedules(schedulesRes);
+      setCenters((centersRes.data as EducationCenter[]) ?? []);
+      setManagersDb((managersRes.data as Manager[]) ?? []);
+    })();
+  }, [supabase]);
+
+  const fetchStudents = useCallback(async () => {
+    const requestId = ++listRequest.current;
     setLoading(true);
-    const { data: { user } } = await supabase.auth.getUser();
-    if (user) {
-      const { data: profile } = await supabase.from('profiles').select('role').eq('id', user.id).single();
-      setIsSuperAdmin(profile?.role === 'super_admin');
-    }
-    const [studentsRes, coursesRes, centersRes, managersRes] = await Promise.all([
-      supabase.from('students').select('*, courses(*)').order('registered_at', { ascending: false }),
-      supabase.from('courses').select('*').order('id'),
-      supabase.from('education_centers').select('*').order('id'),
-      supabase.from('managers').select('name').order('sort_order'),
-    ]);
-
-    if (studentsRes.error) console.error('학생 조회 에러:', studentsRes.error.message, studentsRes.error.code, studentsRes.error.details, studentsRes.error.hint);
-
-    const data = (studentsRes.data as Student[]) ?? [];
-    setStudents(data);
-    setCourses((coursesRes.data as Course[]) ?? []);
-    setCenters((centersRes.data as EducationCenter[]) ?? []);
-    setManagersDb((managersRes.data ?? []).map((m: { name: string }) => m.name));
-
-    const monthMap: Record<string, number> = {};
-    data.forEach((s) => {
-      const d = new Date(s.registered_at);
-      const key = `${d.getFullYear()}년 ${String(d.getMonth() + 1).padStart(2, '0')}월`;
-      monthMap[key] = (monthMap[key] ?? 0) + 1;
+    const res = await searchStudents(supabase, query, {
+      limit: STUDENT_PAGE_SIZE,
+      offset: (query.page - 1) * STUDENT_PAGE_SIZE,
     });
-    setMonthly(
-      Object.entries(monthMap)
-        .map(([month, count]) => ({ month, count }))
-        .sort((a, b) => b.month.localeCompare(a.month))
-    );
+    if (requestId !== listRequest.current) return;   // 더 최근 조건의 응답이 우선
+    if (res.error) console.error('학생 조회 에러:', res.error);
+    setRows(res.rows);
+    setTotalFiltered(res.total);
     setLoading(false);
-  }, []);
+  }, [supabase, query]);
 
-  useEffect(() => { fetchAll(); }, [fetchAll]);
+  const fetchScope = useCallback(async () => {
+    if (activeTab !== '환불목록' && activeTab !== '삭제목록') return;
+    const res = await searchStudents(supabase, DEFAULT_STUDENT_QUERY, {
+      scope: activeTab === '환불목록' ? 'refund' : 'deleted',
+      limit: null,
+    });
+    setScopeRows(res.rows);
+  }, [supabase, activeTab]);
 
-  const fetchLogs = useCallback(async () => {
-    setLogsLoading(true);
-    const { data } = await supabase.from('activity_logs').select('*').order('created_at', { ascending: false }).limit(200);
-    setActivityLogs((data as ActivityLog[]) ?? []);
-    setLogsLoading(false);
-  }, []);
+  const fetchSummary = useCallback(async () => {
+    setSummary(await fetchStudentSummary(supabase));
+  }, [supabase]);
 
-  useEffect(() => {
-    if (activeTab === '활동로그' && isSuperAdmin) fetchLogs();
-  }, [activeTab, isSuperAdmin, fetchLogs]);
-
-  useEffect(() => { setStudentPage(1); }, [search, filterStatus, filterCenter, filterBatch, filterManager, filterCourse]);
-
-  const batches = Array.from(new Set(
-    students.flatMap((s) => s.class_start?.split(',').map((v) => v.trim()).filter(Boolean) ?? [])
-  )) as string[];
-  const managers = Array.from(new Set(students.map((s) => s.manager_name).filter(Boolean))) as string[];
-  const centerNames = Array.from(new Set(
-    students.flatMap((s) => s.education_center_name?.split(',').map((v) => v.trim()).filter(Boolean) ?? [])
-  )) as string[];
-
-  // 상태별 분리
-  const activeStudents  = students.filter((s) => s.status !== '환불' && s.status !== '삭제예정');
-  const refundStudents  = students.filter((s) => s.status === '환불');
-  const deleteStudents  = students.filter((s) => s.status === '삭제예정');
-
-  const filtered = activeStudents.filter((s) => {
-    const q = search.toLowerCase();
-    if (q && !s.name.toLowerCase().includes(q) && !(s.phone ?? '').includes(q)) return false;
-    if (filterStatus && s.status !== filterStatus) return false;
-    if (filterCenter && !s.education_center_name?.split(',').map((v) => v.trim()).includes(filterCenter)) return false;
-    if (filterBatch && !s.class_start?.split(',').map((v) => v.trim()).includes(filterBatch)) return false;
-    if (filterManager && s.manager_name !== filterManager) return false;
-    if (filterCourse && String(s.course_id) !== filterCourse) return false;
-    return true;
-  });
-
-  const total    = activeStudents.length;
-  const enrolled  = activeStudents.filter((s) => s.status === '등록').length;
-  const completed = activeStudents.filter((s) => s.status === '수료').length;
-
-  const totalStudentPages = Math.ceil(filtered.length / STUDENT_PAGE_SIZE);
-  const pagedStudents = filtered.slice((studentPage - 1) * STUDENT_PAGE_SIZE, studentPage * STUDENT_PAGE_SIZE);
+  useEffect(() => { fetchStudents(); }, [fetchStudents]);
+  useEffect(() => { fetchSummary(); }, [fetchSummary]);
+  useEffect(() => { fetchScope(); }, [fetchScope]);
+
+  // 학생 추가 · 수정 · 삭제 후 목록과 요약을 다시 불러온다
+  const fetchAll = useCallback(async () => {
+    await Promise.all([fetchStudents(), fetchSummary(), fetchScope()]);
+  }, [fetchStudents, fetchSummary, fetchScope]);
+
+  // 중복 확인 · 일괄 등록용 (이름 · 연락처만)
+  async function loadDuplicateCandidates() {
+    const { data } = await supabase.from('students').select('id, name, phone').neq('status', '삭제예정');
+    setDuplicateCandidates(data ?? []);
+  }
+
+  function openStudentModal(target: Student | null) {
+    setEditTarget(target);
+    setModalOpen(true);
+    loadDuplicateCandidates();
+  }
+
+  function openImportModal() {
+    setImportOpen(true);
+    loadDuplicateCandidates();
+  }
+
+  // 기수 필터 — 학생이 있는 기수 + 기수 일정에 등록된 기수 (최신순, 개강일 표시)
+  const cohortOptions = useMemo(() => {
+    const list: Cohort[] = [...(summary?.cohorts ?? [])];
+    schedules.forEach((sc) => { if (!list.some((c) => sameCohort(c, sc))) list.push(sc); });
+    return list
+      .sort((a, b) => b.year - a.year || b.term - a.term || b.batch - a.batch)
+      .map((c) => {
+        const start = earliestClassStart(schedules, c);
+        return { value: cohortKey(c), label: start ? `${formatCohort(c)} · ${formatScheduleDate(start)} 개강` : formatCohort(c) };
+      });
+  }, [summary, schedules]);
+
+  const totalStudentPages = Math.ceil(totalFiltered / STUDENT_PAGE_SIZE);
+  const studentPage = query.page;
+  const setStudentPage = (page: number) => updateQuery({ page });
+
+  function toggleSort(sort: StudentSort) {
+    if (query.sort === sort) updateQuery({ desc: !query.desc });
+    else updateQuery({ sort, desc: sort === 'registered_at' });
+  }
+
+  function sortMark(sort: StudentSort) {
+    if (query.sort !== sort) return null;
+    return <span className={styles.sort_mark}>{query.desc ? '▼' : '▲'}</span>;
+  }
+
+  // 엑셀 내보내기는 현재 조건의 전체 학생 (페이지 무관)
+  async function fetchAllFiltered() {
+    const res = await searchStudents(supabase, query, { limit: null });
+    if (res.error) alert(`학생 조회 실패: ${res.error}`);
+    return res.rows;
+  }
 
   async function handleExcelDownload() {
     const XLSX = await import('xlsx');
+    const filtered = await fetchAllFiltered();
     const data = [
       ['이름', '연락처', '담당자'],
       ...filtered.map((s) => [
         s.name ?? '',
         formatPhone(s.phone),
-        s.manager_name ?? '',
+        s.managers?.name ?? '',
       ]),
     ];
     const ws = XLSX.utils.aoa_to_sheet(data);
@@ -181,61 +259,159 @@ export default function StudentsPage() {
     XLSX.utils.book_append_sheet(wb, ws, '학생목록');
     const today = new Date().toISOString().slice(0, 10);
     XLSX.writeFile(wb, `학생목록_${today}.xlsx`);
-    logActivity({ action: '학생 목록 다운로드', target_type: 'student', detail: `${filtered.length}명 (xlsx)` });
+    logActivity({ action: '학생 목록 다운로드', action_type: 'export', target_type: 'student', detail: `${filtered.length}명 (xlsx)` });
+  }
+
+  // 현재 필터에 걸린 학생 전체의 학습플랜을 한 파일로
+  async function handlePlanExcelDownload() {
+    if (totalFiltered === 0 || planExporting) return;
+    setPlanExporting(true);
+    try {
+      const filtered = await fetchAllFiltered();
+      const reports = await fetchPlanReports(supabase, filtered.map((s) => s.id));
+      const today = new Date().toISOString().slice(0, 10);
+      await downloadPlansExcel(reports, `학습플랜_${today}.xlsx`);
+      logActivity({ action: '플랜 일괄 다운로드', action_type: 'export', target_type: 'plan', detail: `${reports.length}명 (xlsx)` });
+    } catch {
+      alert('학습플랜 다운로드 중 오류가 발생했습니다.');
+    } finally {
+      setPlanExporting(false);
+    }
+  }
+
+  // 전체 학생의 올케어 구독 상태를 지금 동기화 (매일 새벽 자동 실행과 같은 작업)
+  async function handleAllcareSync() {
+    if (allcareSyncing) return;
+    setAllcareSyncing(true);
+    const res = await fetch('/api/cron/allcare-sync', { method: 'POST' });
+    const json = await res.json().catch(() => ({}));
+    setAllcareSyncing(false);
+    if (!res.ok) { alert(`올케어 동기화 실패: ${json.error ?? res.status}`); return; }
+    alert(`${json.checked}명 확인 — 구독 ${json.subscribed}명, 수동 체크 불일치 ${json.mismatched}명`);
+    await fetchAll();
   }
 
   async function handleSubmit(data: StudentFormData) {
-    const payload = {
-      name: data.name,
-      phone: data.phone || null,
-      education_level: data.education_level || null,
-      major: data.major || null,
-      desired_degree: data.desired_degree || null,
-      status: data.status,
-      course_id: data.course_id || null,
-      manager_name: data.manager_name || null,
-      cost: data.cost ? Number(data.cost) : null,
-      class_start: data.class_start || null,
-      target_completion_date: data.target_completion_date || null,
-      education_center_name: data.education_center_name || null,
-      all_care: data.all_care,
-      notes: data.notes || null,
-      updated_at: new Date().toISOString(),
-    };
+    const payload = { ...toStudentPayload(data), updated_at: new Date().toISOString() };
+    const lookups = { courses, managers: managersDb };
+    const after = studentSnapshot(formLogInput(data), lookups);
+    let studentId = editTarget?.id;
     if (editTarget) {
       const { error } = await supabase.from('students').update(payload).eq('id', editTarget.id);
       if (error) { alert(`수정 실패: ${error.message}`); return; }
-      logActivity({ action: '학생 수정', target_type: 'student', target_name: data.name, detail: `상태: ${data.status}` });
+      const changes = diffSnapshots(studentSnapshot(studentLogInput(editTarget), lookups), after);
+      logActivity({
+        action: '학생 수정', action_type: 'update', target_type: 'student', target_id: editTarget.id, student_id: editTarget.id, target_name: data.name,
+        detail: changes ? `${Object.keys(changes.after).length}개 항목 변경` : '변경 없음',
+        before: changes?.before, after: changes?.after,
+      });
     } else {
-      const { error } = await supabase.from('students').insert(payload);
+      const { data: created, error } = await supabase.from('students').insert(payload).select('id').single();
       if (error) { alert(`등록 실패: ${error.message}`); return; }
-      logActivity({ action: '학생 추가', target_type: 'student', target_name: data.name, detail: `과정ID: ${data.course_id}, 담당자: ${data.manager_name}` });
+      studentId = created.id;
+      logActivity({ action: '학생 추가', action_type: 'create', target_type: 'student', target_id: created.id, student_id: created.id, target_name: data.name, after: compactSnapshot(after) });
     }
+    const relError = await saveStudentRelations(supabase, [{ student_id: studentId!, cohorts: data.cohorts, centers: data.centers }]);
+    if (relError) alert(`개강반 · 교육원 저장 실패: ${relError}`);
+    await fetchAll();
+  }
+
+  // 엑셀/CSV 일괄 등록 — 검증을 통과한 행만 넘어온다
+  async function handleImport(rows: StudentFormData[], fileName: string, skipped: number) {
+    let inserted = 0;
+    for (let i = 0; i < rows.length; i += IMPORT_CHUNK) {
+      const chunk = rows.slice(i, i + IMPORT_CHUNK);
+      const { data: created, error } = await supabase.from('students').insert(chunk.map(toStudentPayload)).select('id');
+      if (error) { alert(`등록 실패 (${inserted}명 등록 후 중단): ${error.message}`); break; }
+      inserted += chunk.length;
+      // insert 결과는 넣은 순서대로 돌아온다
+      const relError = await saveStudentRelations(supabase, (created ?? []).map((c, idx) => ({
+        student_id: c.id, cohorts: chunk[idx].cohorts, centers: chunk[idx].centers,
+      })));
+      if (relError) alert(`개강반 · 교육원 저장 실패: ${relError}`);
+    }
+    logActivity({
+      action: '학생 일괄 등록',
+      action_type: 'import',
+      target_type: 'student',
+      target_name: fileName,
+      detail: `${inserted}명 등록${skipped > 0 ? `, 오류 ${skipped}행 제외` : ''}${inserted < rows.length ? `, ${rows.length - inserted}명 실패` : ''}`,
+    });
+    await fetchAll();
+  }
+
+  function toggleSelected(id: string) {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((v) => v !== id) : [...prev, id]));
+  }
+
+  function togglePageSelected() {
+    const pageIds = rows.map((s) => s.id);
+    const allSelected = pageIds.every((id) => selectedIds.includes(id));
+    setSelectedIds((prev) => (allSelected
+      ? prev.filter((id) => !pageIds.includes(id))
+      : [...prev, ...pageIds.filter((id) => !prev.includes(id))]));
+  }
+
+  async function selectAllFiltered() {
+    const filtered = await fetchAllFiltered();
+    setSelectedIds(filtered.map((s) => s.id));
+  }
+
+  async function handleReassign() {
+    const manager = managersDb.find((m) => String(m.id) === reassignTo);
+    if (!manager || selectedIds.length === 0 || reassigning) return;
+    if (!confirm(`선택한 ${selectedIds.length}명의 담당자를 ${manager.name}(으)로 변경합니다.`)) return;
+    setReassigning(true);
+    const { data: changed, error } = await supabase.rpc('reassign_students', {
+      p_student_ids: selectedIds,
+      p_manager_id: manager.id,
+    });
+    setReassigning(false);
+    if (error) { alert(`담당자 변경 실패: ${error.message}`); return; }
+    logActivity({
+      action: '담당자 일괄 변경',
+      action_type: 'update',
+      target_type: 'student',
+      target_name: manager.name,
+      detail: `${selectedIds.length}명 선택, ${changed ?? 0}명 변경`,
+      after: { manager: manager.name },
+    });
+    setSelectedIds([]);
+    setReassignTo('');
     await fetchAll();
   }
 
   async function handleDelete(id: string) {
-    const targetName = students.find((s) => s.id === id)?.name ?? id;
+    const target = [...rows, ...scopeRows].find((s) => s.id === id);
     const { error } = await supabase.from('students').update({ status: '삭제예정', updated_at: new Date().toISOString() }).eq('id', id);
     if (error) { alert(`삭제 실패: ${error.message}`); return; }
-    logActivity({ action: '삭제 요청', target_type: 'student', target_name: targetName });
+    logActivity({
+      action: '삭제 요청', action_type: 'delete', target_type: 'student', target_id: id, student_id: id, target_name: target?.name ?? id,
+      before: { status: target?.status ?? null }, after: { status: '삭제예정' },
+    });
     await fetchAll();
   }
 
   async function handlePermanentDelete(id: string) {
     if (!confirm('완전히 삭제합니다. 복구할 수 없습니다.')) return;
-    const targetName = students.find((s) => s.id === id)?.name ?? id;
+    const target = [...rows, ...scopeRows].find((s) => s.id === id);
     const { error } = await supabase.from('students').delete().eq('id', id);
     if (error) { alert(`삭제 실패: ${error.message}`); return; }
-    logActivity({ action: '학생 완전삭제', target_type: 'student', target_name: targetName });
+    logActivity({
+      action: '학생 완전삭제', action_type: 'delete', target_type: 'student', target_id: id, student_id: id, target_name: target?.name ?? id,
+      before: target ? compactSnapshot(studentSnapshot(studentLogInput(target), { courses, managers: managersDb })) : null,
+    });
     await fetchAll();
   }
 
   async function handleRestore(id: string) {
-    const targetName = students.find((s) => s.id === id)?.name ?? id;
+    const targetName = [...rows, ...scopeRows].find((s) => s.id === id)?.name ?? id;
     const { error } = await supabase.from('students').update({ status: '등록', updated_at: new Date().toISOString() }).eq('id', id);
     if (error) { alert(`복구 실패: ${error.message}`); return; }
-    logActivity({ action: '삭제 복구', target_type: 'student', target_name: targetName });
+    logActivity({
+      action: '삭제 복구', action_type: 'restore', target_type: 'student', target_id: id, student_id: id, target_name: targetName,
+      before: { status: '삭제예정' }, after: { status: '등록' },
+    });
     await fetchAll();
   }
 
@@ -256,11 +432,11 @@ export default function StudentsPage() {
               onClick={() => setActiveTab(tab)}
             >
               {tab}
-              {tab === '환불목록' && refundStudents.length > 0 && (
-                <span className={styles.tab_badge}>{refundStudents.length}</span>
+              {tab === '환불목록' && !!summary?.refund && (
+                <span className={styles.tab_badge}>{summary.refund}</span>
               )}
-              {tab === '삭제목록' && deleteStudents.length > 0 && (
-                <span className={styles.tab_badge}>{deleteStudents.length}</span>
+              {tab === '삭제목록' && !!summary?.deleted && (
+                <span className={styles.tab_badge}>{summary.deleted}</span>
               )}
             </button>
           ))}
@@ -274,11 +450,11 @@ export default function StudentsPage() {
         <div className={styles.monthly_card}>
           <div className={styles.monthly_card_title}>월별 등록 현황</div>
           <div className={styles.monthly_list}>
-            {monthly.length === 0 ? (
+            {!summary?.monthly.length ? (
               <div className={styles.monthly_empty}>데이터 없음</div>
             ) : (() => {
-              const max = Math.max(...monthly.map((m) => m.count));
-              return monthly.map((m) => (
+              const max = Math.max(...summary.monthly.map((m) => m.count));
+              return summary.monthly.map((m) => (
                 <div key={m.month} className={styles.monthly_item}>
                   <span className={styles.monthly_month}>{m.month}</span>
                   <div className={styles.monthly_bar_wrap}>
@@ -297,15 +473,15 @@ export default function StudentsPage() {
         <div className={styles.stats_grid}>
           <div className={styles.stat_card}>
             <div className={styles.stat_card_label}>전체 학생</div>
-            <div className={styles.stat_card_value}>{total}</div>
+            <div className={styles.stat_card_value}>{summary?.total ?? 0}</div>
           </div>
           <div className={`${styles.stat_card} ${styles.stat_card_enrolled}`}>
             <div className={styles.stat_card_label}>등록 학생</div>
-            <div className={styles.stat_card_value}>{enrolled}</div>
+            <div className={styles.stat_card_value}>{summary?.enrolled ?? 0}</div>
           </div>
           <div className={`${styles.stat_card} ${styles.stat_card_completed}`}>
             <div className={styles.stat_card_label}>수료 학생</div>
-            <div className={styles.stat_card_value}>{completed}</div>
+            <div className={styles.stat_card_value}>{summary?.completed ?? 0}</div>
           </div>
         </div>
       </div>
@@ -317,51 +493,109 @@ export default function StudentsPage() {
             <circle cx="11" cy="11" r="8"/><path d="m21 21-4.35-4.35"/>
           </svg>
           <input className={styles.filter_search} placeholder="이름 또는 전화번호로 검색..."
-            value={search} onChange={(e) => setSearch(e.target.value)} />
+            value={searchInput} onChange={(e) => setSearchInput(e.target.value)} />
         </div>
 
         <FilterDropdown
-          value={filterCenter}
-          onChange={setFilterCenter}
+          value={query.status}
+          onChange={(v) => updateQuery({ status: v })}
+          placeholder="전체 상태"
+          options={STATUS_FILTERS.map((v) => ({ value: v, label: STATUS_MAP[v]?.label ?? v }))}
+        />
+
+        <FilterDropdown
+          value={query.center}
+          onChange={(v) => updateQuery({ center: v })}
           placeholder="전체 교육원"
-          options={centerNames.map((n) => ({ value: n, label: n }))}
+          options={(summary?.centers ?? []).map((c) => ({ value: String(c.id), label: c.name }))}
         />
 
         <FilterDropdown
-          value={filterBatch}
-          onChange={setFilterBatch}
+          value={query.cohort}
+          onChange={(v) => updateQuery({ cohort: v })}
           placeholder="전체 기수"
-          options={batches.map((b) => ({ value: b, label: b }))}
+          options={cohortOptions}
         />
 
         <FilterDropdown
-          value={filterManager}
-          onChange={setFilterManager}
+          value={query.manager}
+          onChange={(v) => updateQuery({ manager: v })}
           placeholder="전체 담당자"
-          options={managers.map((m) => ({ value: m, label: m }))}
+          options={(summary?.managers ?? []).map((m) => ({ value: String(m.id), label: m.active ? m.name : `${m.name} (비활성)` }))}
         />
 
         <FilterDropdown
-          value={filterCourse}
-          onChange={setFilterCourse}
+          value={query.course}
+          onChange={(v) => updateQuery({ course: v })}
           placeholder="전체 과정"
           options={courses.map((c) => ({ value: String(c.id), label: c.name }))}
         />
 
-        <button className={styles.add_btn} onClick={() => { setEditTarget(null); setModalOpen(true); }}>
+        <FilterDropdown
+          value={query.allcare}
+          onChange={(v) => updateQuery({ allcare: v })}
+          placeholder="전체 올케어"
+          options={ALLCARE_FILTERS.map((f) => ({
+            value: f.value,
+            label: f.value === 'mismatch' && summary?.allcare_mismatch ? `${f.label} (${summary.allcare_mismatch})` : f.label,
+          }))}
+        />
+
+        <button className={styles.add_btn} onClick={() => openStudentModal(null)}>
           + 학생 추가
         </button>
 
+        <button className={styles.import_btn} onClick={openImportModal}>
+          일괄 등록
+        </button>
+
         <button className={styles.excel_btn} onClick={handleExcelDownload}>
           엑셀 다운로드
         </button>
+
+        <button className={styles.excel_btn} onClick={handlePlanExcelDownload} disabled={planExporting || totalFiltered === 0}>
+          {planExporting ? '플랜 내보내는 중...' : '플랜 일괄 다운로드'}
+        </button>
+
+        {isSuperAdmin && (
+          <button
+            className={styles.import_btn}
+            onClick={handleAllcareSync}
+            disabled={allcareSyncing}
+            title={summary?.allcare_synced_at ? `마지막 동기화: ${formatLogDate(summary.allcare_synced_at)}` : '아직 동기화하지 않았습니다'}
+          >
+            {allcareSyncing ? '동기화 중...' : '올케어 동기화'}
+          </button>
+        )}
       </div>
 
+      {/* 담당자 일괄 변경 */}
+      {isSuperAdmin && selectedIds.length > 0 && (
+        <div className={styles.bulk_bar}>
+          <span className={styles.bulk_count}>{selectedIds.length}명 선택</span>
+          {selectedIds.length < totalFiltered && (
+            <button className={styles.bulk_link} onClick={selectAllFiltered}>조건에 맞는 {totalFiltered}명 모두 선택</button>
+          )}
+          <button className={styles.bulk_link} onClick={() => setSelectedIds([])}>선택 해제</button>
+          <div className={styles.bulk_actions}>
+            <FilterDropdown
+              value={reassignTo}
+              onChange={setReassignTo}
+              placeholder="변경할 담당자"
+              options={managersDb.filter((m) => m.active).map((m) => ({ value: String(m.id), label: m.name }))}
+            />
+            <button className={styles.import_btn} onClick={handleReassign} disabled={!reassignTo || reassigning}>
+              {reassigning ? '변경 중...' : '담당자 변경'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 테이블 */}
       <div className={styles.table_wrap}>
         {loading ? (
           <div className={styles.empty_state}><div className={styles.empty_text}>불러오는 중...</div></div>
-        ) : filtered.length === 0 ? (
+        ) : rows.length === 0 ? (
           <div className={styles.empty_state}>
             <div className={styles.empty_text}>등록된 학생이 없습니다</div>
             <div className={styles.empty_sub}>+ 학생 추가 버튼을 눌러 첫 학생을 등록해보세요</div>
@@ -371,21 +605,32 @@ export default function StudentsPage() {
             <table className={styles.table}>
               <thead className={styles.table_head}>
                 <tr>
-                  <th className={styles.table_th}>이름</th>
+                  {isSuperAdmin && (
+                    <th className={`${styles.table_th} ${styles.table_check}`}>
+                      <input type="checkbox" checked={rows.every((s) => selectedIds.includes(s.id))} onChange={togglePageSelected} />
+                    </th>
+                  )}
+                  <th className={`${styles.table_th} ${styles.table_th_sort}`} onClick={() => toggleSort('name')}>이름{sortMark('name')}</th>
                   <th className={styles.table_th}>연락처</th>
                   <th className={styles.table_th}>과정</th>
-                  <th className={styles.table_th}>상태</th>
-                  <th className={styles.table_th}>담당자</th>
+                  <th className={`${styles.table_th} ${styles.table_th_sort}`} onClick={() => toggleSort('status')}>상태{sortMark('status')}</th>
+                  <th className={`${styles.table_th} ${styles.table_th_sort}`} onClick={() => toggleSort('manager_name')}>담당자{sortMark('manager_name')}</th>
                   <th className={styles.table_th}>교육원</th>
-                  <th className={styles.table_th}>등록일</th>
+                  <th className={styles.table_th}>올케어</th>
+                  <th className={`${styles.table_th} ${styles.table_th_sort}`} onClick={() => toggleSort('registered_at')}>등록일{sortMark('registered_at')}</th>
                   <th className={styles.table_th}>관리</th>
                 </tr>
               </thead>
               <tbody>
-                {pagedStudents.map((s) => {
+                {rows.map((s) => {
                   const status = STATUS_MAP[s.status];
                   return (
                     <tr key={s.id} className={styles.table_row}>
+                      {isSuperAdmin && (
+                        <td className={`${styles.table_td} ${styles.table_check}`}>
+                          <input type="checkbox" checked={selectedIds.includes(s.id)} onChange={() => toggleSelected(s.id)} />
+                        </td>
+                      )}
                       <td className={`${styles.table_td} ${styles.table_name}`}>
                         <span
                           className={styles.name_link}
@@ -399,15 +644,32 @@ export default function StudentsPage() {
                       <td className={styles.table_td}>
                         <span className={`${styles.badge} ${status?.cls ?? ''}`}>{status?.label ?? s.status}</span>
                       </td>
-                      <td className={`${styles.table_td} ${styles.table_manager}`}>{s.manager_name ?? '-'}</td>
-                      <td className={`${styles.table_td} ${styles.table_manager}`}>{s.education_center_name ?? '-'}</td>
+                      <td className={`${styles.table_td} ${styles.table_manager}`}>{s.managers?.name ?? '-'}</td>
+                      <td className={`${styles.table_td} ${styles.table_manager}`}>{studentCenterNames(s).join(', ') || '-'}</td>
+                      <td className={styles.table_td}>
+                        <div className={styles.allcare_cell}>
+                          {s.allcare_status ? (
+                            <span
+                              className={`${styles.badge} ${ALLCARE_BADGE[s.allcare_status]}`}
+                              title={s.allcare_next_billing_date ? `${s.allcare_plan ?? ''} · 다음 결제 ${formatDate(s.allcare_next_billing_date)}` : undefined}
+                            >
+                              {ALLCARE_STATUS_LABELS[s.allcare_status]}
+                            </span>
+                          ) : (
+                            <span className={styles.allcare_unchecked}>미확인</span>
+                          )}
+                          {allcareMismatch(s) && (
+                            <span className={styles.allcare_mismatch} title={`수동 체크(${s.all_care ? 'O' : 'X'})와 올케어 구독 상태가 다릅니다`}>불일치</span>
+                          )}
+                        </div>
+                      </td>
                       <td className={`${styles.table_td} ${styles.table_date}`}>{formatDate(s.registered_at)}</td>
                       <td className={styles.table_td}>
                         <div className={styles.action_group}>
                           <button className={`${styles.action_btn} ${styles.action_btn_plan}`}
                             onClick={() => router.push(`/students/${s.id}/plan`)}>플랜설계</button>
                           <button className={`${styles.action_btn} ${styles.action_btn_edit}`}
-                            onClick={() => { setEditTarget(s); setModalOpen(true); }}>수정</button>
+                            onClick={() => openStudentModal(s)}>수정</button>
                           <button className={`${styles.action_btn} ${styles.action_btn_delete}`}
                             onClick={() => handleDelete(s.id)}>삭제</button>
                         </div>
@@ -418,10 +680,10 @@ export default function StudentsPage() {
               </tbody>
             </table>
             <div className={styles.table_footer}>
-              <span className={styles.table_count}>전체 {total}명 중 {filtered.length}명 ({studentPage}/{totalStudentPages} 페이지)</span>
+              <span className={styles.table_count}>전체 {summary?.total ?? 0}명 중 {totalFiltered}명 ({studentPage}/{totalStudentPages} 페이지)</span>
               {totalStudentPages > 1 && (
                 <div className={styles.student_pagination}>
-                  <button className={styles.log_page_btn} disabled={studentPage === 1} onClick={() => setStudentPage(p => p - 1)}>이전</button>
+                  <button className={styles.log_page_btn} disabled={studentPage === 1} onClick={() => setStudentPage(studentPage - 1)}>이전</button>
                   {Array.from({ length: totalStudentPages }, (_, i) => i + 1)
                     .filter(p => p === 1 || p === totalStudentPages || Math.abs(p - studentPage) <= 2)
                     .reduce<(number | '...')[]>((acc, p, idx, arr) => {
@@ -433,7 +695,7 @@ export default function StudentsPage() {
                     ) : (
                       <button key={p} className={`${styles.log_page_btn} ${studentPage === p ? styles.log_page_btn_active : ''}`} onClick={() => setStudentPage(p as number)}>{p}</button>
                     ))}
-                  <button className={styles.log_page_btn} disabled={studentPage === totalStudentPages} onClick={() => setStudentPage(p => p + 1)}>다음</button>
+                  <button className={styles.log_page_btn} disabled={studentPage === totalStudentPages} onClick={() => setStudentPage(studentPage + 1)}>다음</button>
                 </div>
               )}
             </div>
@@ -444,190 +706,12 @@ export default function StudentsPage() {
       </> /* end 학생관리 tab */}
 
       {/* ── 활동로그 탭 ── */}
-      {activeTab === '활동로그' && isSuperAdmin && (() => {
-        const filteredLogs = activityLogs.filter(l => {
-          if (logSearch) {
-            const q = logSearch.toLowerCase();
-            if (!l.user_name.toLowerCase().includes(q) && !l.action.toLowerCase().includes(q) && !(l.target_name ?? '').toLowerCase().includes(q)) return false;
-          }
-          if (logActionType && getLogActionType(l.action).label !== logActionType) return false;
-          if (logDateFrom && l.created_at.slice(0, 10) < logDateFrom) return false;
-          if (logDateTo && l.created_at.slice(0, 10) > logDateTo) return false;
-          return true;
-        });
-
-        const totalPages = Math.ceil(filteredLogs.length / LOG_PAGE_SIZE);
-        const pagedLogs = filteredLogs.slice((logPage - 1) * LOG_PAGE_SIZE, logPage * LOG_PAGE_SIZE);
-
-        // 통계
-        const todayStr = new Date().toDateString();
-        const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-        const todayCount = activityLogs.filter(l => new Date(l.created_at).toDateString() === todayStr).length;
-        const weekCount  = activityLogs.filter(l => new Date(l.created_at) >= weekAgo).length;
-        const actionTypeStats = [
-          { label: '추가', color: '#059669', bg: '#ECFDF5' },
-          { label: '수정', color: '#3182F6', bg: '#EEF5FF' },
-          { label: '삭제', color: '#EF4444', bg: '#FFF5F5' },
-          { label: '저장', color: '#7C3AED', bg: '#F5F3FF' },
-        ].map(t => ({ ...t, count: activityLogs.filter(l => getLogActionType(l.action).label === t.label).length }));
-        const userStats = Array.from(new Set(activityLogs.map(l => l.user_name)))
-          .map(u => ({ name: u, count: activityLogs.filter(l => l.user_name === u).length }))
-          .sort((a, b) => b.count - a.count);
-
-        const resetFilters = () => { setLogSearch(''); setLogActionType(''); setLogDateFrom(''); setLogDateTo(''); setLogPage(1); };
-
-        return (
-          <div className={styles.log_layout}>
-            {/* ── 왼쪽: 로그 목록 ── */}
-            <div className={styles.log_main}>
-              <div className={styles.log_header}>
-                <span className={styles.log_header_title}>로그 관리</span>
-                <span className={styles.log_header_count}>전체 로그: {activityLogs.length}개</span>
-              </div>
-
-              <div className={styles.log_filters}>
-                <div className={styles.log_search_row}>
-                  <div className={styles.log_search_wrap}>
-                    <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" className={styles.log_search_icon}>
-                      <circle cx="11" cy="11" r="8"/><path d="m21 21-4.35-4.35"/>
-                    </svg>
-                    <input className={styles.log_search} placeholder="관리자명 검색..." value={logSearch} onChange={e => { setLogSearch(e.target.value); setLogPage(1); }} />
-                  </div>
-                  <button className={styles.log_reset_btn} onClick={resetFilters}>초기화</button>
-                </div>
-                <div className={styles.log_filter_row}>
-                  <div className={styles.log_filter_group}>
-                    <label className={styles.log_filter_label}>액션 타입</label>
-                    <select className={styles.log_filter_select} value={logActionType} onChange={e => { setLogActionType(e.target.value); setLogPage(1); }}>
-                      <option value="">전체 타입</option>
-                      <option value="추가">추가</option>
-                      <option value="수정">수정</option>
-                      <option value="삭제">삭제</option>
-                      <option value="저장">저장</option>
-                    </select>
-                  </div>
-                  <div className={styles.log_filter_group}>
-                    <label className={styles.log_filter_label}>시작일</label>
-                    <input type="date" className={styles.log_filter_date} value={logDateFrom} onChange={e => { setLogDateFrom(e.target.value); setLogPage(1); }} />
-                  </div>
-                  <div className={styles.log_filter_group}>
-                    <label className={styles.log_filter_label}>종료일</label>
-                    <input type="date" className={styles.log_filter_date} value={logDateTo} onChange={e => { setLogDateTo(e.target.value); setLogPage(1); }} />
-                  </div>
-                </div>
-              </div>
-
-              {logsLoading ? (
-                <div className={styles.empty_state}><div className={styles.empty_text}>불러오는 중...</div></div>
-              ) : filteredLogs.length === 0 ? (
-                <div className={styles.empty_state}><div className={styles.empty_text}>활동 로그가 없습니다</div></div>
-              ) : (
-                <>
-                  <div className={styles.log_cards}>
-                    {pagedLogs.map(log => {
-                      const atype = getLogActionType(log.action);
-                      const detailLines = log.detail ? log.detail.split(',').map(s => s.trim()).filter(Boolean) : [];
-                      return (
-                        <div key={log.id} className={styles.log_card}>
-                          <div className={styles.log_card_top}>
-                            <div className={styles.log_card_left}>
-                              <span className={styles.log_card_badge} style={{ color: atype.color, background: atype.bg }}>{atype.label}</span>
-                              <span className={styles.log_card_user}>{log.user_name}</span>
-                            </div>
-                            <span className={styles.log_card_time}>
-                              {new Date(log.created_at).toLocaleString('ko-KR', { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' })}
-                            </span>
-                          </div>
-                          <div className={styles.log_card_action}>{log.action}</div>
-                          {(log.target_type || log.target_name) && (
-                            <div className={styles.log_card_meta}>
-                              {log.target_type && <span>테이블: {log.target_type}</span>}
-                              {log.target_name && <span>대상: {log.target_name}</span>}
-                            </div>
-                          )}
-                          {detailLines.length > 0 && (
-                            <div className={styles.log_card_detail}>
-                              <div className={styles.log_card_detail_title}>변경된 항목:</div>
-                              {detailLines.map((line, i) => (
-                                <div key={i} className={styles.log_card_detail_line}>{line}</div>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      );
-                    })}
-                  </div>
-
-                  {totalPages > 1 && (
-                    <div className={styles.log_pagination}>
-                      <button className={styles.log_page_btn} disabled={logPage === 1} onClick={() => setLogPage(p => p - 1)}>이전</button>
-                      {Array.from({ length: totalPages }, (_, i) => i + 1)
-                        .filter(p => p === 1 || p === totalPages || Math.abs(p - logPage) <= 2)
-                        .reduce<(number | '...')[]>((acc, p, idx, arr) => {
-                          if (idx > 0 && p - (arr[idx - 1] as number) > 1) acc.push('...');
-                          acc.push(p); return acc;
-                        }, [])
-                        .map((p, i) => p === '...' ? (
-                          <span key={`el-${i}`} className={styles.log_page_ellipsis}>…</span>
-                        ) : (
-                          <button key={p} className={`${styles.log_page_btn} ${logPage === p ? styles.log_page_btn_active : ''}`} onClick={() => setLogPage(p as number)}>{p}</button>
-                        ))}
-                      <button className={styles.log_page_btn} disabled={logPage === totalPages} onClick={() => setLogPage(p => p + 1)}>다음</button>
-                    </div>
-                  )}
-                </>
-              )}
-            </div>
-
-            {/* ── 오른쪽: 통계 사이드바 ── */}
-            <div className={styles.log_sidebar}>
-              <div className={styles.log_stat_section}>
-                <div className={styles.log_stat_section_title}>활동 통계</div>
-                <div className={styles.log_stat_grid}>
-                  <div className={styles.log_stat_today}>
-                    <div className={styles.log_stat_label}>오늘 활동</div>
-                    <div className={styles.log_stat_value}>{todayCount}</div>
-                  </div>
-                  <div className={styles.log_stat_week}>
-                    <div className={styles.log_stat_label}>이번 주 활동</div>
-                    <div className={styles.log_stat_value}>{weekCount}</div>
-                  </div>
-                </div>
-              </div>
-
-              <div className={styles.log_stat_section}>
-                <div className={styles.log_stat_section_title}>액션 타입별 통계</div>
-                <div className={styles.log_type_stats}>
-                  {actionTypeStats.map(s => (
-                    <div key={s.label} className={styles.log_type_stat_row} style={{ background: s.bg }}>
-                      <span className={styles.log_type_stat_dot} style={{ background: s.color }} />
-                      <span className={styles.log_type_stat_label}>{s.label}</span>
-                      <span className={styles.log_type_stat_count} style={{ color: s.color }}>{s.count}</span>
-                    </div>
-                  ))}
-                </div>
-              </div>
-
-              <div className={styles.log_stat_section}>
-                <div className={styles.log_stat_section_title}>관리자별 활동</div>
-                <div className={styles.log_user_stats}>
-                  {userStats.map(u => (
-                    <div key={u.name} className={styles.log_user_stat_row}>
-                      <span className={styles.log_user_stat_name}>{u.name}</span>
-                      <span className={styles.log_user_stat_count}>{u.count}회</span>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </div>
-          </div>
-        );
-      })()}
+      {activeTab === '활동로그' && isSuperAdmin && <ActivityLogViewer />}
 
       {/* ── 환불목록 탭 ── */}
       {activeTab === '환불목록' && isSuperAdmin && (
         <div className={styles.table_wrap}>
-          {refundStudents.length === 0 ? (
+          {scopeRows.length === 0 ? (
             <div className={styles.empty_state}><div className={styles.empty_text}>환불 학생이 없습니다</div></div>
           ) : (
             <table className={styles.table}>
@@ -643,7 +727,7 @@ export default function StudentsPage() {
                 </tr>
               </thead>
               <tbody>
-                {refundStudents.map((s) => (
+                {scopeRows.map((s) => (
                   <tr key={s.id} className={styles.table_row}>
                     <td className={`${styles.table_td} ${styles.table_name}`}>
                       <span className={styles.name_link} onClick={() => router.push(`/students/${s.id}`)}>
@@ -652,13 +736,13 @@ export default function StudentsPage() {
                     </td>
                     <td className={`${styles.table_td} ${styles.table_phone}`}>{formatPhone(s.phone)}</td>
                     <td className={`${styles.table_td} ${styles.table_course}`}>{s.courses?.name ?? '-'}</td>
-                    <td className={`${styles.table_td} ${styles.table_manager}`}>{s.manager_name ?? '-'}</td>
-                    <td className={`${styles.table_td} ${styles.table_manager}`}>{s.education_center_name ?? '-'}</td>
+                    <td className={`${styles.table_td} ${styles.table_manager}`}>{s.managers?.name ?? '-'}</td>
+                    <td className={`${styles.table_td} ${styles.table_manager}`}>{studentCenterNames(s).join(', ') || '-'}</td>
                     <td className={`${styles.table_td} ${styles.table_date}`}>{formatDate(s.registered_at)}</td>
                     <td className={styles.table_td}>
                       <div className={styles.action_group}>
                         <button className={`${styles.action_btn} ${styles.action_btn_edit}`}
-                          onClick={() => { setEditTarget(s); setModalOpen(true); }}>수정</button>
+                          onClick={() => openStudentModal(s)}>수정</button>
                         <button className={`${styles.action_btn} ${styles.action_btn_delete}`}
                           onClick={() => handleDelete(s.id)}>삭제</button>
                       </div>
@@ -674,7 +758,7 @@ export default function StudentsPage() {
       {/* ── 삭제목록 탭 ── */}
       {activeTab === '삭제목록' && isSuperAdmin && (
         <div className={styles.table_wrap}>
-          {deleteStudents.length === 0 ? (
+          {scopeRows.length === 0 ? (
             <div className={styles.empty_state}><div className={styles.empty_text}>삭제 요청된 학생이 없습니다</div></div>
           ) : (
             <table className={styles.table}>
@@ -690,7 +774,7 @@ export default function StudentsPage() {
                 </tr>
               </thead>
               <tbody>
-                {deleteStudents.map((s) => (
+                {scopeRows.map((s) => (
                   <tr key={s.id} className={styles.table_row}>
                     <td className={`${styles.table_td} ${styles.table_name}`}>
                       <span className={styles.name_link} onClick={() => router.push(`/students/${s.id}`)}>
@@ -699,8 +783,8 @@ export default function StudentsPage() {
                     </td>
                     <td className={`${styles.table_td} ${styles.table_phone}`}>{formatPhone(s.phone)}</td>
                     <td className={`${styles.table_td} ${styles.table_course}`}>{s.courses?.name ?? '-'}</td>
-                    <td className={`${styles.table_td} ${styles.table_manager}`}>{s.manager_name ?? '-'}</td>
-                    <td className={`${styles.table_td} ${styles.table_manager}`}>{s.education_center_name ?? '-'}</td>
+                    <td className={`${styles.table_td} ${styles.table_manager}`}>{s.managers?.name ?? '-'}</td>
+                    <td className={`${styles.table_td} ${styles.table_manager}`}>{studentCenterNames(s).join(', ') || '-'}</td>
                     <td className={`${styles.table_td} ${styles.table_date}`}>{formatDate(s.registered_at)}</td>
                     <td className={styles.table_td}>
                       <div className={styles.action_group}>
@@ -724,10 +808,21 @@ export default function StudentsPage() {
           courses={courses}
           centers={centers}
           managers={managersDb}
+          students={duplicateCandidates}
           onClose={() => setModalOpen(false)}
           onSubmit={handleSubmit}
         />
       )}
+
+      {importOpen && (
+        <StudentImportModal
+          courses={courses}
+          managers={managersDb}
+          existingPhones={new Set(duplicateCandidates.map((s) => normalizePhone(s.phone ?? '')).filter((p): p is string => !!p))}
+          onClose={() => setImportOpen(false)}
+          onSubmit={handleImport}
+        />
+      )}
     </>
   );
 }
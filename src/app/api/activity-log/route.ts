@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ACTION_TYPES, type ActivityLogInput } from '@/lib/activityLog';
+import { logServerActivity } from '@/lib/serverLogger';
+
+const TEXT_FIELDS = ['target_type', 'target_name', 'detail'] as const;
+
+function isLogInput(body: unknown): body is ActivityLogInput {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return false;
+  const log = body as Record<string, unknown>;
+  const isSnapshot = (v: unknown) => v == null || (typeof v === 'object' && !Array.isArray(v));
+  return typeof log.action === 'string' && log.action.trim() !== ''
+    && typeof log.action_type === 'string' && Object.hasOwn(ACTION_TYPES, log.action_type)
+    && TEXT_FIELDS.every((k) => log[k] == null || typeof log[k] === 'string')
+    && (log.target_id == null || typeof log.target_id === 'string' || typeof log.target_id === 'number')
+    && (log.student_id == null || typeof log.student_id === 'string')
+    && isSnapshot(log.before) && isSnapshot(log.after);
+}
+
+// 화면에서 남기는 활동 로그 — log_activity 는 service role 전용이므로 여기서 검사한 뒤 대신 기록한다
+// 기록자는 세션 사용자, 학생 id 는 그 사용자가 볼 수 있는 학생일 때만 (완전삭제된 학생은 슈퍼관리자만)
+export async function POST(req: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: profile } = await supabase.from('profiles').select('role, active').eq('id', user.id).single();
+  if (!profile?.active) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+  const body: unknown = await req.json().catch(() => null);
+  if (!isLogInput(body)) return NextResponse.json({ error: 'Invalid log' }, { status: 400 });
+
+  if (body.student_id && profile.role !== 'super_admin') {
+    const { data: student } = await supabase.from('students').select('id').eq('id', body.student_id).maybeSingle();
+    if (!student) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const admin = createAdminClient();
+  if (!admin) return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY not configured' }, { status: 500 });
+  await logServerActivity(admin, user.id, body);
+  return NextResponse.json({ ok: true });
+}
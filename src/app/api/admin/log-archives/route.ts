@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { requireSuperAdmin } from '@/lib/supabase/admin';
+import { LOG_ARCHIVE_BUCKET, type LogArchive } from '@/lib/logQuery';
+
+const LINK_SECONDS = 300;
+
+// 보관된 활동 로그 파일 목록 (최신 달부터) — 다운로드 링크를 함께 준다
+export async function GET() {
+  const auth = await requireSuperAdmin();
+  if (auth.error !== undefined) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const bucket = auth.admin.storage.from(LOG_ARCHIVE_BUCKET);
+
+  const { data: files, error } = await bucket.list('', { limit: 1000, sortBy: { column: 'name', order: 'desc' } });
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  const archiveFiles = (files ?? []).filter((f) => /^\d{4}-\d{2}\.jsonl\.gz$/.test(f.name));
+  const { data: links } = archiveFiles.length
+    ? await bucket.createSignedUrls(archiveFiles.map((f) => f.name), LINK_SECONDS)
+    : { data: [] };
+
+  const archives: LogArchive[] = archiveFiles.map((f) => ({
+    month: f.name.slice(0, 7),
+    size: (f.metadata?.size as number | undefined) ?? 0,
+    updated_at: f.updated_at ?? null,
+    url: links?.find((l) => l.path === f.name)?.signedUrl ?? null,
+  }));
+  return NextResponse.json({ archives });
+}
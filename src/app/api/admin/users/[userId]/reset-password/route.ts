@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSuperAdmin } from '@/lib/supabase/admin';
+import { setPasswordUrl } from '@/lib/adminUsers';
+import { logServerActivity } from '@/lib/serverLogger';
+
+type Params = { params: Promise<{ userId: string }> };
+
+// 비밀번호 재설정 메일 발송 (초대를 아직 수락하지 않은 계정은 초대 메일을 다시 보냄)
+export async function POST(req: NextRequest, { params }: Params) {
+  const { userId } = await params;
+  const auth = await requireSuperAdmin();
+  if (auth.error !== undefined) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { admin } = auth;
+
+  const { data, error } = await admin.auth.admin.getUserById(userId);
+  if (error || !data.user.email) return NextResponse.json({ error: error?.message ?? 'User not found' }, { status: 404 });
+
+  const redirectTo = setPasswordUrl(req.nextUrl.origin);
+  const { error: sendError } = data.user.email_confirmed_at
+    ? await admin.auth.resetPasswordForEmail(data.user.email, { redirectTo })
+    : await admin.auth.admin.inviteUserByEmail(data.user.email, { redirectTo });
+  if (sendError) return NextResponse.json({ error: sendError.message }, { status: sendError.status ?? 500 });
+
+  const confirmed = !!data.user.email_confirmed_at;
+  const { data: profile } = await admin.from('profiles').select('name').eq('id', userId).maybeSingle();
+  await logServerActivity(admin, auth.userId, {
+    action: confirmed ? '비밀번호 재설정 메일 발송' : '초대 메일 재발송', action_type: 'send', target_type: 'user', target_id: userId,
+    target_name: profile?.name ? `${profile.name} (${data.user.email})` : data.user.email,
+  });
+  return NextResponse.json({ ok: true, type: confirmed ? 'recovery' : 'invite' });
+}
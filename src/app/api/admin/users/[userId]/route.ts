@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSuperAdmin } from '@/lib/supabase/admin';
+import { parseUserProfileInput, profileErrorMessage, userSnapshot } from '@/lib/adminUsers';
+import { diffSnapshots } from '@/lib/activityLog';
+import { logServerActivity } from '@/lib/serverLogger';
+
+type Params = { params: Promise<{ userId: string }> };
+
+// 약 100년 — 비활성화는 auth 로그인 차단(ban)으로 처리
+const BAN_FOREVER = '876000h';
+
+// 이름 · 역할 · 담당자 수정, 활성/비활성 전환
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const { userId } = await params;
+  const auth = await requireSuperAdmin();
+  if (auth.error !== undefined) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { admin } = auth;
+
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  if (!body) return NextResponse.json({ error: 'Invalid body' }, { status: 400 });
+  const { input, error: inputError } = parseUserProfileInput(body);
+  if (inputError) return NextResponse.json({ error: inputError }, { status: 400 });
+  const active = typeof body.active === 'boolean' ? body.active : undefined;
+
+  if (userId === auth.userId && ((input.role && input.role !== 'super_admin') || active === false)) {
+    return NextResponse.json({ error: '본인 계정의 권한을 낮추거나 비활성화할 수 없습니다.' }, { status: 400 });
+  }
+
+  const { data: before } = await admin.from('profiles').select('name, role, manager_id, active').eq('id', userId).maybeSingle();
+  if (!before) return NextResponse.json({ error: 'User not found' }, { status: 404 });
+
+  if (active !== undefined) {
+    const { error } = await admin.auth.admin.updateUserById(userId, { ban_duration: active ? 'none' : BAN_FOREVER });
+    if (error) return NextResponse.json({ error: error.message }, { status: error.status ?? 500 });
+  }
+
+  const updates = active === undefined ? input : { ...input, active };
+  if (Object.keys(updates).length > 0) {
+    const { error } = await admin.from('profiles').update(updates).eq('id', userId);
+    if (error) return NextResponse.json({ error: profileErrorMessage(error) }, { status: 500 });
+  }
+
+  const after = { ...before, ...updates };
+  const changes = diffSnapshots(await userSnapshot(admin, before), await userSnapshot(admin, after));
+  if (changes) {
+    const onlyActive = Object.keys(changes.after).every((k) => k === 'active');
+    await logServerActivity(admin, auth.userId, {
+      action: onlyActive ? (after.active ? '사용자 활성화' : '사용자 비활성화') : '사용자 수정',
+      action_type: 'update', target_type: 'user', target_id: userId, target_name: after.name,
+      before: changes.before, after: changes.after,
+    });
+  }
+  return NextResponse.json({ ok: true });
+}
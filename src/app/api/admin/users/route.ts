@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { requireSuperAdmin } from '@/lib/supabase/admin';
+import { EMAIL_RE, parseUserProfileInput, profileErrorMessage, setPasswordUrl, userSnapshot } from '@/lib/adminUsers';
+import { compactSnapshot } from '@/lib/activityLog';
+import { logServerActivity } from '@/lib/serverLogger';
+import type { AdminUser, Profile } from '@/types';
+
+const PAGE_SIZE = 1000;
+
+// 계정 목록 — profiles 에 auth.users 의 이메일 · 마지막 로그인 · 초대 상태를 붙인다
+export async function GET() {
+  const auth = await requireSuperAdmin();
+  if (auth.error !== undefined) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { admin } = auth;
+
+  const authUsers: User[] = [];
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.auth.admin.listUsers({ page, perPage: PAGE_SIZE });
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    authUsers.push(...data.users);
+    if (data.users.length < PAGE_SIZE) break;
+  }
+
+  const { data: profiles, error } = await admin.from('profiles').select('*').order('created_at');
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  const byId = new Map(authUsers.map((u) => [u.id, u]));
+  const users: AdminUser[] = (profiles as Profile[]).map((p) => {
+    const u = byId.get(p.id);
+    return {
+      ...p,
+      email: u?.email ?? '',
+      last_sign_in_at: u?.last_sign_in_at ?? null,
+      invited_at: u?.invited_at ?? null,
+      confirmed: !!u?.email_confirmed_at,
+    };
+  });
+  return NextResponse.json({ users });
+}
+
+// 초대: 메일로 비밀번호 설정 링크를 보내고, 트리거가 만든 profiles 행에 이름 · 역할 · 담당자를 저장
+export async function POST(req: NextRequest) {
+  const auth = await requireSuperAdmin();
+  if (auth.error !== undefined) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { admin } = auth;
+
+  const body = (await req.json().catch(() => null)) as Record<string, unknown> | null;
+  const email = String(body?.email ?? '').trim().toLowerCase();
+  if (!EMAIL_RE.test(email)) return NextResponse.json({ error: '이메일 형식이 올바르지 않습니다.' }, { status: 400 });
+  const { input, error: inputError } = parseUserProfileInput({
+    name: body?.name, role: body?.role, manager_id: body?.manager_id ?? null,
+  });
+  if (inputError) return NextResponse.json({ error: inputError }, { status: 400 });
+
+  const { data, error } = await admin.auth.admin.inviteUserByEmail(email, {
+    data: { name: input.name },
+    redirectTo: setPasswordUrl(req.nextUrl.origin),
+  });
+  if (error) {
+    const exists = error.code === 'email_exists';
+    return NextResponse.json({ error: exists ? '이미 등록된 이메일입니다.' : error.message }, { status: exists ? 409 : 500 });
+  }
+
+  const { data: profile, error: profileError } = await admin.from('profiles').update(input).eq('id', data.user.id)
+    .select('name, role, manager_id').single();
+  if (profileError) return NextResponse.json({ error: profileErrorMessage(profileError) }, { status: 500 });
+
+  await logServerActivity(admin, auth.userId, {
+    action: '사용자 초대', action_type: 'create', target_type: 'user', target_id: data.user.id, target_name: `${profile.name} (${email})`,
+    after: compactSnapshot(await userSnapshot(admin, profile)),
+  });
+  return NextResponse.json({ id: data.user.id });
+}
@@ -1,59 +1,84 @@
-import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createAllcareClient } from '@/lib/supabase/allcare';
+import { ALLCARE_STATUS_LABELS, findAllcareResult, isAllcareSubscribed, lookupAllcare } from '@/lib/allcare';
+import { logServerActivity } from '@/lib/serverLogger';
+import { normalizePhone } from '@/lib/studentImport';
+
+// 사용자당 1분에 30회까지 (모달 입력 디바운스 기준으로 충분한 여유)
+const RATE_LIMIT = 30;
+const RATE_WINDOW_SECONDS = 60;
 
 export async function GET(req: NextRequest) {
+  // 로그인한 활성 계정만 조회 가능
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { data: profile } = await supabase.from('profiles').select('active').eq('id', user.id).single();
+  if (!profile?.active) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
   const { searchParams } = new URL(req.url);
   const name = searchParams.get('name')?.trim();
-  const phone = searchParams.get('phone')?.trim();
+  const phone = normalizePhone(searchParams.get('phone') ?? '');
+  const studentIdParam = searchParams.get('student_id');
 
   if (!name || !phone) {
-    return NextResponse.json({ subscribed: false });
+    return NextResponse.json({ error: '이름과 올바른 휴대폰 번호가 필요합니다.' }, { status: 400 });
   }
 
-  const url = process.env.ALLCARE_SUPABASE_URL;
-  const key = process.env.ALLCARE_SUPABASE_SERVICE_ROLE_KEY;
+  const { data: allowed, error: limitError } = await supabase.rpc('hit_rate_limit', {
+    p_bucket: 'allcare-check',
+    p_limit: RATE_LIMIT,
+    p_window_seconds: RATE_WINDOW_SECONDS,
+  });
+  if (limitError) {
+    return NextResponse.json({ error: limitError.message }, { status: 500 });
+  }
+  if (!allowed) {
+    return NextResponse.json(
+      { error: '조회 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.' },
+      { status: 429, headers: { 'Retry-After': String(RATE_WINDOW_SECONDS) } },
+    );
+  }
 
-  if (!url || !key) {
+  const allcare = createAllcareClient();
+  if (!allcare) {
     return NextResponse.json({ error: 'ALLCARE env not configured' }, { status: 500 });
   }
 
-  const supabase = createClient(url, key);
-
-  // 전화번호 포맷 정규화 (하이픈 제거)
-  const phoneRaw = phone.replace(/-/g, '');
-  const phoneFormatted = phone.includes('-') ? phone : phone.replace(/(\d{3})(\d{4})(\d{4})/, '$1-$2-$3');
-
-  // 이름 + 전화번호로 users 조회
-  const { data: user } = await supabase
-    .from('users')
-    .select('id')
-    .eq('name', name)
-    .or(`phone.eq.${phoneRaw},phone.eq.${phoneFormatted}`)
-    .maybeSingle();
-
-  if (!user) {
-    return NextResponse.json({ subscribed: false, found: false });
+  const { results, error } = await lookupAllcare(allcare, [{ name, phone }]);
+  if (error) {
+    return NextResponse.json({ error }, { status: 502 });
   }
+  const result = findAllcareResult(results, { name, phone });
+  const subscribed = isAllcareSubscribed(result.status);
 
-  // 활성 구독 조회
-  const { data: subscription } = await supabase
-    .from('subscriptions')
-    .select('status, plan, next_billing_date')
-    .eq('user_id', user.id)
-    .in('status', ['active', 'cancel_scheduled'])
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (!subscription) {
-    return NextResponse.json({ subscribed: false, found: true });
-  }
+  // 조회 기록 — 번호는 뒷자리만 남긴다. 학생 id 는 볼 수 있는 학생일 때만 (RLS)
+  const { data: student } = studentIdParam
+    ? await supabase.from('students').select('id').eq('id', studentIdParam).maybeSingle()
+    : { data: null };
+  const admin = createAdminClient();
+  if (admin) await logServerActivity(admin, user.id, {
+    action: '올케어 조회',
+    action_type: 'view',
+    target_type: 'allcare',
+    target_name: name,
+    student_id: student?.id ?? null,
+    detail: `전화번호: ***-${phone.slice(-4)}, 결과: ${ALLCARE_STATUS_LABELS[result.status]}${result.plan ? ` (${result.plan})` : ''}`,
+  });
 
   return NextResponse.json({
-    subscribed: true,
-    found: true,
-    status: subscription.status,
-    plan: subscription.plan,
-    next_billing_date: subscription.next_billing_date,
+    subscribed,
+    found: result.status !== 'not_found',
+    ...(subscribed && {
+      status: result.status,
+      plan: result.plan,
+      next_billing_date: result.next_billing_date,
+    }),
   });
 }
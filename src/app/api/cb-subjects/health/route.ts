@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { creditBankHealth, probeCreditBank } from '@/lib/creditBankClient';
+
+// 학점은행 검색 가능 여부 — 전적대 과목 팝업이 열릴 때 확인한다
+export async function GET() {
+  await probeCreditBank();
+  return NextResponse.json(creditBankHealth());
+}
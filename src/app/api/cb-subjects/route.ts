@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { CB_CODE_RE, DEFAULT_CB_MAJOR, type CbSubject } from '@/lib/creditBank';
+import { CB_ERROR_MESSAGES, searchCreditBank } from '@/lib/creditBankClient';
+
+// 학점은행 과목 검색 — cb_subjects 캐시에서 먼저 찾고, 처음 보는 검색어만 사이트에 묻는다
+// ?q=과목명&major=AGAE&grade=A  →  { subjects: [{ id, name, category, category_detail, credits }], cached }
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const query = (searchParams.get('q') ?? '').trim();
+  const major = searchParams.get('major') ?? DEFAULT_CB_MAJOR.major;
+  const grade = searchParams.get('grade') ?? DEFAULT_CB_MAJOR.grade;
+
+  if (!query) return NextResponse.json({ subjects: [], cached: true });
+  if (!CB_CODE_RE.test(major) || !CB_CODE_RE.test(grade)) {
+    return NextResponse.json({ error: '전공 코드 형식이 올바르지 않습니다.' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: cache, error: cacheError } = await supabase.rpc('search_cb_subjects', {
+    p_grade: grade, p_major: major, p_query: query,
+  });
+  if (cacheError) return NextResponse.json({ error: cacheError.message }, { status: 500 });
+  const cachedSubjects = (cache?.subjects ?? []) as CbSubject[];
+  if (cache?.cached) return NextResponse.json({ subjects: cachedSubjects, cached: true });
+
+  const { subjects, error: cbError } = await searchCreditBank(query, { grade, major });
+  if (cbError) {
+    // 사이트가 응답하지 않으면 캐시에 있는 만큼이라도 돌려준다
+    return NextResponse.json(
+      { subjects: cachedSubjects, cached: true, error: cbError, message: CB_ERROR_MESSAGES[cbError] },
+      { status: cachedSubjects.length > 0 ? 200 : cbError === 'circuit_open' ? 503 : 502 },
+    );
+  }
+
+  // 공용 과목 목록은 서버에서만 쓴다 (save_cb_subjects 는 service role 전용)
+  // 저장에 실패해도 검색 결과는 돌려주고, 다음 검색 때 사이트에 다시 묻는다
+  const admin = createAdminClient();
+  const { error } = admin
+    ? await admin.rpc('save_cb_subjects', { p_grade: grade, p_major: major, p_query: query, p_rows: subjects })
+    : { error: { message: 'SUPABASE_SERVICE_ROLE_KEY not configured' } };
+  return NextResponse.json({ subjects, cached: false, ...(error ? { cache_error: error.message } : {}) });
+}
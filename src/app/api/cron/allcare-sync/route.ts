@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient, requireSuperAdmin } from '@/lib/supabase/admin';
+import { createAllcareClient } from '@/lib/supabase/allcare';
+import { findAllcareResult, isAllcareSubscribed, lookupAllcare } from '@/lib/allcare';
+import { logServerActivity } from '@/lib/serverLogger';
+
+// 전체 학생의 올케어 구독 상태를 올케어 DB 와 맞춘다
+//   GET  — 예약 작업 (vercel.json crons, 매일 03:00 KST). Authorization: Bearer ${CRON_SECRET}
+//   POST — 학생 목록의 "올케어 동기화" 버튼 (슈퍼관리자)
+
+const PAGE_SIZE = 1000;
+const SAVE_CHUNK = 500;
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const admin = createAdminClient();
+  if (!admin) return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY not configured' }, { status: 500 });
+  return syncAllcare(admin, null);
+}
+
+export async function POST() {
+  const auth = await requireSuperAdmin();
+  if (auth.error !== undefined) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  return syncAllcare(auth.admin, auth.userId);
+}
+
+async function syncAllcare(admin: SupabaseClient, userId: string | null) {
+  const allcare = createAllcareClient();
+  if (!allcare) return NextResponse.json({ error: 'ALLCARE env not configured' }, { status: 500 });
+
+  const students: { id: string; name: string; phone: string | null; all_care: boolean }[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from('students')
+      .select('id, name, phone, all_care')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    students.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const { results, error: lookupError } = await lookupAllcare(allcare, students);
+  if (lookupError) return NextResponse.json({ error: `올케어 조회 실패: ${lookupError}` }, { status: 502 });
+
+  const rows = students.map((s) => ({ id: s.id, ...findAllcareResult(results, s) }));
+  let saved = 0;
+  for (let i = 0; i < rows.length; i += SAVE_CHUNK) {
+    const { data, error } = await admin.rpc('save_allcare_sync', { p_rows: rows.slice(i, i + SAVE_CHUNK) });
+    if (error) return NextResponse.json({ error: `저장 실패 (${saved}명 저장 후 중단): ${error.message}` }, { status: 500 });
+    saved += data ?? 0;
+  }
+
+  const subscribed = rows.filter((r) => isAllcareSubscribed(r.status)).length;
+  const mismatched = rows.filter((r, i) => students[i].all_care !== isAllcareSubscribed(r.status)).length;
+
+  await logServerActivity(admin, userId, {
+    action: '올케어 동기화',
+    action_type: 'sync',
+    target_type: 'allcare',
+    detail: `${saved}명 확인, 구독 ${subscribed}명, 수동 체크 불일치 ${mismatched}명`,
+  });
+
+  return NextResponse.json({ checked: saved, subscribed, mismatched });
+}
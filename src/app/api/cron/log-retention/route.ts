@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { gunzipSync, gzipSync } from 'zlib';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient, requireSuperAdmin } from '@/lib/supabase/admin';
+import { LOG_ARCHIVE_BUCKET } from '@/lib/logQuery';
+import { logServerActivity } from '@/lib/serverLogger';
+
+// 보관 기간이 지난 활동 로그를 월별 압축 파일(activity-log-archive/YYYY-MM.jsonl.gz)로 옮기고 테이블에서 지운다
+//   GET  — 예약 작업 (vercel.json crons, 매월 2일 04:00 KST). Authorization: Bearer ${CRON_SECRET}
+//   POST — 활동로그 화면의 "지금 보관" 버튼 (슈퍼관리자)
+// 보관 기간은 LOG_RETENTION_MONTHS (기본 12) — 이번 달을 포함해 그만큼의 달은 남긴다
+// 같은 달 파일이 이미 있으면 합쳐서 다시 올린다 (중간에 실패해도 다시 돌리면 이어진다)
+
+const DEFAULT_RETENTION_MONTHS = 12;
+const PAGE_SIZE = 1000;
+const DELETE_CHUNK = 500;
+const KST_OFFSET = 9 * 60 * 60 * 1000;
+
+const LOG_COLUMNS =
+  'id, user_id, user_name, action, action_type, target_type, target_id, target_name, student_id, detail, before_data, after_data, source, created_at';
+
+type ArchivedLog = { id: string; created_at: string } & Record<string, unknown>;
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const admin = createAdminClient();
+  if (!admin) return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY not configured' }, { status: 500 });
+  return archiveLogs(admin, null);
+}
+
+export async function POST() {
+  const auth = await requireSuperAdmin();
+  if (auth.error !== undefined) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  return archiveLogs(auth.admin, auth.userId);
+}
+
+function retentionMonths() {
+  const months = Number(process.env.LOG_RETENTION_MONTHS);
+  return Number.isInteger(months) && months > 0 ? months : DEFAULT_RETENTION_MONTHS;
+}
+
+// 한국 시간 기준 달의 시작 (month 는 0부터, 넘치면 Date.UTC 가 연도를 넘긴다)
+function kstMonthStart(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 1) - KST_OFFSET);
+}
+
+function kstMonthKey(date: Date) {
+  return new Date(date.getTime() + KST_OFFSET).toISOString().slice(0, 7);
+}
+
+async function archiveLogs(admin: SupabaseClient, userId: string | null) {
+  const months = retentionMonths();
+  const now = new Date(Date.now() + KST_OFFSET);
+  const cutoff = kstMonthStart(now.getUTCFullYear(), now.getUTCMonth() - (months - 1));
+
+  const { data: oldest, error: oldestError } = await admin
+    .from('activity_logs')
+    .select('created_at')
+    .lt('created_at', cutoff.toISOString())
+    .order('created_at')
+    .limit(1);
+  if (oldestError) return NextResponse.json({ error: oldestError.message }, { status: 500 });
+  if (!oldest?.length) return NextResponse.json({ retention_months: months, archived: 0, months: [] });
+
+  const { data: files, error: listError } = await admin.storage.from(LOG_ARCHIVE_BUCKET).list('', { limit: 1000 });
+  if (listError) return NextResponse.json({ error: `보관 파일 목록 실패: ${listError.message}` }, { status: 500 });
+  const existing = new Set((files ?? []).map((f) => f.name));
+
+  const done: { month: string; count: number }[] = [];
+  const first = new Date(new Date(oldest[0].created_at).getTime() + KST_OFFSET);
+  for (let start = kstMonthStart(first.getUTCFullYear(), first.getUTCMonth()); start < cutoff; ) {
+    const startKst = new Date(start.getTime() + KST_OFFSET);
+    const end = kstMonthStart(startKst.getUTCFullYear(), startKst.getUTCMonth() + 1);
+    const month = kstMonthKey(start);
+
+    const rows: ArchivedLog[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await admin
+        .from('activity_logs')
+        .select(LOG_COLUMNS)
+        .gte('created_at', start.toISOString())
+        .lt('created_at', end.toISOString())
+        .order('created_at')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) return NextResponse.json({ error: `${month} 조회 실패: ${error.message}` }, { status: 500 });
+      rows.push(...((data ?? []) as ArchivedLog[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    if (rows.length > 0) {
+      const fileName = `${month}.jsonl.gz`;
+      let lines: string[] = [];
+      if (existing.has(fileName)) {
+        const { data: blob, error } = await admin.storage.from(LOG_ARCHIVE_BUCKET).download(fileName);
+        if (error || !blob) return NextResponse.json({ error: `${fileName} 읽기 실패: ${error?.message ?? ''}` }, { status: 500 });
+        lines = gunzipSync(Buffer.from(await blob.arrayBuffer())).toString('utf8').split('\n').filter(Boolean);
+      }
+      const archivedIds = new Set(lines.map((line) => (JSON.parse(line) as ArchivedLog).id));
+      lines.push(...rows.filter((r) => !archivedIds.has(r.id)).map((r) => JSON.stringify(r)));
+
+      const { error: uploadError } = await admin.storage
+        .from(LOG_ARCHIVE_BUCKET)
+        .upload(fileName, gzipSync(lines.join('\n') + '\n'), { contentType: 'application/gzip', upsert: true });
+      if (uploadError) return NextResponse.json({ error: `${fileName} 저장 실패: ${uploadError.message}` }, { status: 500 });
+
+      // 파일에 들어간 것만 지운다
+      const ids = rows.map((r) => r.id);
+      for (let i = 0; i < ids.length; i += DELETE_CHUNK) {
+        const { error } = await admin.from('activity_logs').delete().in('id', ids.slice(i, i + DELETE_CHUNK));
+        if (error) return NextResponse.json({ error: `${month} 삭제 실패 (파일은 저장됨): ${error.message}` }, { status: 500 });
+      }
+      done.push({ month, count: rows.length });
+    }
+    start = end;
+  }
+
+  const archived = done.reduce((sum, m) => sum + m.count, 0);
+  await logServerActivity(admin, userId, {
+    action: '활동 로그 보관',
+    action_type: 'archive',
+    target_type: 'activity_log',
+    detail: `${months}개월 지난 로그 ${archived}건 → ${done.map((m) => m.month).join(', ')}`,
+  });
+
+  return NextResponse.json({ retention_months: months, archived, months: done });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { fetchPlanReport } from '@/lib/planReport';
+import { UUID_RE } from '@/lib/planCheck';
+import { renderPlanPdf } from '@/lib/planPdf';
+
+// PDF 렌더링은 Node 런타임에서만 동작
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ studentId: string }> };
+
+// 학습플랜 전체보기를 인쇄용 PDF 로 내려준다
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { studentId } = await params;
+  if (!UUID_RE.test(studentId)) return NextResponse.json({ error: 'Invalid student id' }, { status: 400 });
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const report = await fetchPlanReport(supabase, studentId);
+  if (!report) return NextResponse.json({ error: 'Student not found' }, { status: 404 });
+
+  const pdf = await renderPlanPdf(report);
+  const filename = encodeURIComponent(`${report.student.name}_학습플랜.pdf`);
+  return new NextResponse(new Uint8Array(pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename*=UTF-8''${filename}`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { newPlanErrors } from '@/lib/planValidation';
+import { PLAN_SEMESTER_SELECT, fromPlanPayload, fromPlanRows, type PlanSemesterRow, type PlanSnapshot } from '@/lib/planStore';
+import { UUID_RE, checkPlan, fetchPlanCheckContext } from '@/lib/planCheck';
+
+type Params = { params: Promise<{ studentId: string }> };
+
+interface SaveBody {
+  semesters: PlanSnapshot;
+  expected_revision: number;
+}
+
+function isSaveBody(body: unknown): body is SaveBody {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return false;
+  const { semesters, expected_revision } = body as SaveBody;
+  return Number.isInteger(expected_revision)
+    && Array.isArray(semesters)
+    && semesters.every((s) => typeof s === 'object' && s !== null
+      && Number.isInteger(s.client_id) && typeof s.year === 'string' && Number.isInteger(s.term)
+      && Array.isArray(s.subjects) && s.subjects.every((sub) => typeof sub === 'object' && sub !== null && Number.isInteger(sub.subject_id)));
+}
+
+// 플랜 저장 — planValidation 규칙을 검사한 뒤 save_student_plan(service role 전용)으로 저장
+// 저장된 플랜에 이미 있던 위반은 막지 않고, 이번 변경으로 생긴 오류만 422 로 돌려준다
+export async function POST(req: NextRequest, { params }: Params) {
+  const { studentId } = await params;
+  if (!UUID_RE.test(studentId)) return NextResponse.json({ error: 'Invalid student id' }, { status: 400 });
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  const { data: profile } = await supabase.from('profiles').select('active').eq('id', user.id).single();
+  if (!profile?.active) return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+
+  const body: unknown = await req.json().catch(() => null);
+  if (!isSaveBody(body)) return NextResponse.json({ error: 'semesters, expected_revision are required' }, { status: 400 });
+
+  // 볼 수 있는 학생인지는 세션 클라이언트(RLS)로 확인된다
+  const [context, savedRes] = await Promise.all([
+    fetchPlanCheckContext(supabase, studentId),
+    supabase.from('plan_semesters').select(PLAN_SEMESTER_SELECT).eq('student_id', studentId).order('sort_order'),
+  ]);
+  if (!context) return NextResponse.json({ error: 'Student not found' }, { status: 404 });
+
+  const saved = fromPlanRows((savedRes.data ?? []) as unknown as PlanSemesterRow[]);
+  const next = fromPlanPayload(body.semesters);
+  const violations = newPlanErrors(checkPlan(context, saved), checkPlan(context, next));
+  if (violations.length > 0) return NextResponse.json({ error: 'plan_invalid', violations }, { status: 422 });
+
+  const admin = createAdminClient();
+  if (!admin) return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY not configured' }, { status: 500 });
+  const { data, error } = await admin.rpc('save_student_plan', {
+    p_student_id: studentId,
+    p_semesters: body.semesters,
+    p_expected_revision: body.expected_revision,
+    p_user_id: user.id,
+  });
+  if (error) {
+    if (error.message.includes('plan_conflict')) {
+      return NextResponse.json({ error: 'plan_conflict', revision: Number(error.details) }, { status: 409 });
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  return NextResponse.json({ revision: data as number });
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import type { ValidationSemester } from '@/lib/planValidation';
+import { PLAN_SEMESTER_SELECT, fromPlanRows, type PlanSemesterRow } from '@/lib/planStore';
+import { UUID_RE, checkPlan, fetchPlanCheckContext } from '@/lib/planCheck';
+
+type Params = { params: Promise<{ studentId: string }> };
+
+interface PlanBody {
+  semesters?: ValidationSemester[];
+  semester_subjects?: Record<number, number[]>;
+}
+
+function isPlanBody(body: unknown): body is PlanBody {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) return false;
+  const { semesters, semester_subjects } = body as PlanBody;
+  return Array.isArray(semesters)
+    && semesters.every((s) => typeof s === 'object' && s !== null && typeof s.id === 'number')
+    && typeof semester_subjects === 'object' && semester_subjects !== null
+    && Object.values(semester_subjects).every((ids) => Array.isArray(ids) && ids.every((id) => typeof id === 'number'));
+}
+
+// 저장된 플랜(GET) 또는 요청 본문의 플랜(POST)을 검증
+async function runValidation(studentId: string, body: PlanBody | null) {
+  if (!UUID_RE.test(studentId)) return NextResponse.json({ error: 'Invalid student id' }, { status: 400 });
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const [context, planRes] = await Promise.all([
+    fetchPlanCheckContext(supabase, studentId),
+    body ? Promise.resolve({ data: null }) : supabase.from('plan_semesters').select(PLAN_SEMESTER_SELECT).eq('student_id', studentId).order('sort_order'),
+  ]);
+  if (!context) return NextResponse.json({ error: 'Student not found' }, { status: 404 });
+
+  let plan: PlanBody = body ?? {};
+  if (!body) {
+    const saved = fromPlanRows((planRes.data ?? []) as unknown as PlanSemesterRow[]);
+    plan = { semesters: saved.semesters, semester_subjects: saved.semesterSubjects };
+  }
+  const violations = checkPlan(context, { semesters: plan.semesters ?? [], semesterSubjects: plan.semester_subjects ?? {} });
+
+  return NextResponse.json({
+    valid: !violations.some((v) => v.severity === 'error'),
+    violations,
+  });
+}
+
+export async function GET(_req: NextRequest, { params }: Params) {
+  const { studentId } = await params;
+  return runValidation(studentId, null);
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+  const { studentId } = await params;
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  if (!isPlanBody(body)) {
+    return NextResponse.json({ error: 'semesters, semester_subjects are required' }, { status: 400 });
+  }
+  return runValidation(studentId, body);
+}
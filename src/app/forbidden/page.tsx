@@ -0,0 +1,66 @@
+import Link from 'next/link';
+
+// 권한이 없는 경로 — proxy 가 403 상태로 이 페이지를 보여준다 (주소는 그대로)
+export default function ForbiddenPage() {
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        backgroundColor: '#F2F4F6',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: '#FFFFFF',
+          borderRadius: '16px',
+          padding: '48px 40px',
+          textAlign: 'center',
+          maxWidth: '400px',
+          width: '100%',
+        }}
+      >
+        <div style={{ fontSize: '48px', marginBottom: '16px' }}>⛔</div>
+        <h1
+          style={{
+            fontSize: '20px',
+            fontWeight: '700',
+            color: '#191F28',
+            marginBottom: '12px',
+          }}
+        >
+          접근 권한이 없습니다
+        </h1>
+        <p
+          style={{
+            fontSize: '14px',
+            color: '#8B95A1',
+            lineHeight: '1.6',
+            marginBottom: '24px',
+          }}
+        >
+          이 페이지를 볼 수 있는 권한이 없습니다.
+          <br />
+          필요하면 최상위관리자에게 문의해 주세요.
+        </p>
+        <Link
+          href="/students"
+          style={{
+            display: 'inline-block',
+            padding: '10px 20px',
+            borderRadius: '10px',
+            backgroundColor: '#3182F6',
+            color: '#FFFFFF',
+            fontSize: '14px',
+            fontWeight: '600',
+            textDecoration: 'none',
+          }}
+        >
+          학생관리로 이동
+        </Link>
+      </div>
+    </div>
+  );
+}
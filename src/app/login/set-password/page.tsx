@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import { createClient } from '@/lib/supabase/client';
+import styles from '../page.module.css';
+
+const MIN_PASSWORD = 8;
+
+// 초대 · 비밀번호 재설정 메일의 링크가 열리는 페이지
+// 링크는 #access_token=...&refresh_token=... 으로 돌아오므로 세션을 직접 설정한다
+export default function SetPasswordPage() {
+  const router = useRouter();
+  const [status, setStatus] = useState<'checking' | 'ready' | 'invalid'>('checking');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const supabase = createClient();
+      const hash = new URLSearchParams(window.location.hash.slice(1));
+      const accessToken = hash.get('access_token');
+      const refreshToken = hash.get('refresh_token');
+      if (accessToken && refreshToken) {
+        const { error: sessionError } = await supabase.auth.setSession({ access_token: accessToken, refresh_token: refreshToken });
+        window.history.replaceState(null, '', window.location.pathname);
+        setStatus(sessionError ? 'invalid' : 'ready');
+        return;
+      }
+      // 이미 로그인한 상태에서 들어온 경우 (본인 비밀번호 변경)
+      const { data: { user } } = await supabase.auth.getUser();
+      setStatus(user ? 'ready' : 'invalid');
+    })();
+  }, []);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    if (password.length < MIN_PASSWORD) { setError(`비밀번호는 ${MIN_PASSWORD}자 이상이어야 합니다.`); return; }
+    if (password !== confirmPassword) { setError('비밀번호가 일치하지 않습니다.'); return; }
+    setLoading(true);
+
+    const supabase = createClient();
+    const { error: updateError } = await supabase.auth.updateUser({ password });
+    if (updateError) {
+      setError(updateError.code === 'same_password' ? '이전과 다른 비밀번호를 입력해주세요.' : `저장 실패: ${updateError.message}`);
+      setLoading(false);
+      return;
+    }
+
+    router.push('/students');
+    router.refresh();
+  }
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.logo_area}>
+        <Image src="/logo.png" alt="로고" width={30} height={30} className={styles.logo_img} priority />
+        <h1 className={styles.logo_title}>비밀번호 설정</h1>
+      </div>
+
+      {status === 'invalid' ? (
+        <div className={styles.card}>
+          <div className={styles.error_msg}>링크가 만료되었거나 올바르지 않습니다. 관리자에게 메일 재발송을 요청해주세요.</div>
+          <button className={styles.submit_btn} type="button" onClick={() => router.push('/login')}>
+            로그인으로 이동
+          </button>
+        </div>
+      ) : (
+        <form className={styles.card} onSubmit={handleSubmit}>
+          <input
+            className={styles.input}
+            type="password"
+            placeholder={`새 비밀번호 (${MIN_PASSWORD}자 이상)`}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+            required
+          />
+          <input
+            className={styles.input}
+            type="password"
+            placeholder="새 비밀번호 확인"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            autoComplete="new-password"
+            required
+          />
+
+          {error && <div className={styles.error_msg}>{error}</div>}
+
+          <button
+            className={styles.submit_btn}
+            type="submit"
+            disabled={loading || status === 'checking'}
+          >
+            {status === 'checking' ? '확인 중...' : loading ? '저장 중...' : '비밀번호 저장'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { logActivity } from '@/lib/logger';
+import { ACTION_TYPES, LOG_CATEGORIES, LOG_SOURCES, logCategory } from '@/lib/activityLog';
+import {
+  DEFAULT_LOG_QUERY, LOG_PAGE_SIZE, categoryCounts, fetchAllLogs, fetchLogSummary, searchLogs,
+  type LogArchive, type LogQuery, type LogSummary,
+} from '@/lib/logQuery';
+import { downloadLogs, type LogExportFormat } from '@/lib/logExport';
+import LogChanges from '@/components/LogChanges';
+import type { ActivityAction, ActivityLog, ActivitySource } from '@/types';
+import styles from './ActivityLogViewer.module.css';
+
+// 활동 로그 화면 — 관리자 > 활동 로그, 학생관리 > 활동로그 탭 (슈퍼관리자)
+// 검색 · 필터 · 페이지는 서버에서, 내보내기는 조건에 걸린 로그 전체
+
+const STAT_ACTION_TYPES: ActivityAction[] = ['create', 'update', 'delete', 'save'];
+
+function formatTime(str: string) {
+  return new Date(str).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+function formatDateGroup(str: string) {
+  const d = new Date(str);
+  const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(today.getDate() - 1);
+
+  const dStr = d.toDateString();
+  if (dStr === today.toDateString()) return '오늘';
+  if (dStr === yesterday.toDateString()) return '어제';
+  return d.toLocaleDateString('ko-KR', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))}KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+export default function ActivityLogViewer() {
+  const supabase = useMemo(() => createClient(), []);
+  const [query, setQuery] = useState<LogQuery>(DEFAULT_LOG_QUERY);
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(1);
+  const [logs, setLogs] = useState<ActivityLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<LogSummary | null>(null);
+  const [archives, setArchives] = useState<LogArchive[]>([]);
+  const [exporting, setExporting] = useState<LogExportFormat | null>(null);
+  const [archiving, setArchiving] = useState(false);
+  const listRequest = useRef(0);
+
+  const updateQuery = useCallback((patch: Partial<LogQuery>) => {
+    setQuery((q) => ({ ...q, ...patch }));
+    setPage(1);
+  }, []);
+
+  // 검색어는 입력이 멈춘 뒤 반영
+  useEffect(() => {
+    if (searchInput === query.search) return;
+    const timer = setTimeout(() => updateQuery({ search: searchInput }), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, query.search, updateQuery]);
+
+  const fetchLogs = useCallback(async () => {
+    const requestId = ++listRequest.current;
+    setLoading(true);
+    const res = await searchLogs(supabase, query, { limit: LOG_PAGE_SIZE, offset: (page - 1) * LOG_PAGE_SIZE });
+    if (requestId !== listRequest.current) return;   // 더 최근 조건의 응답이 우선
+    setLoadError(res.error);
+    setLogs(res.rows);
+    setTotal(res.total);
+    setLoading(false);
+  }, [supabase, query, page]);
+
+  const fetchArchives = useCallback(async () => {
+    const res = await fetch('/api/admin/log-archives');
+    const json = await res.json().catch(() => ({}));
+    setArchives(res.ok ? json.archives ?? [] : []);
+  }, []);
+
+  useEffect(() => { fetchLogs(); }, [fetchLogs]);
+
+  useEffect(() => {
+    fetchLogSummary(supabase).then(setSummary);
+    fetchArchives();
+  }, [supabase, fetchArchives]);
+
+  const counts = useMemo(() => (summary ? categoryCounts(summary) : {}), [summary]);
+  const totalPages = Math.ceil(total / LOG_PAGE_SIZE);
+  const filtered = (Object.keys(DEFAULT_LOG_QUERY) as (keyof LogQuery)[]).some((key) => key !== 'category' && query[key] !== '');
+
+  // 날짜별 그룹 (현재 페이지 안에서)
+  const grouped = useMemo(() => {
+    const groups: { dateKey: string; dateLabel: string; logs: ActivityLog[] }[] = [];
+    for (const log of logs) {
+      const key = new Date(log.created_at).toDateString();
+      const last = groups[groups.length - 1];
+      if (last && last.dateKey === key) {
+        last.logs.push(log);
+      } else {
+        groups.push({ dateKey: key, dateLabel: formatDateGroup(log.created_at), logs: [log] });
+      }
+    }
+    return groups;
+  }, [logs]);
+
+  function resetFilters() {
+    setSearchInput('');
+    setQuery(DEFAULT_LOG_QUERY);
+    setPage(1);
+  }
+
+  async function handleExport(format: LogExportFormat) {
+    if (exporting || total === 0) return;
+    setExporting(format);
+    const { rows, error } = await fetchAllLogs(supabase, query);
+    if (error) {
+      setExporting(null);
+      alert(`로그 조회 실패: ${error}`);
+      return;
+    }
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      await downloadLogs(rows, format, `활동로그_${today}`);
+      logActivity({ action: '활동 로그 다운로드', action_type: 'export', target_type: 'activity_log', detail: `${rows.length}건 (${format})` });
+    } catch {
+      alert('활동 로그 다운로드 중 오류가 발생했습니다.');
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  async function handleArchive() {
+    if (archiving || !confirm('보관 기간이 지난 로그를 월별 파일로 옮기고 목록에서 지웁니다. 진행할까요?')) return;
+    setArchiving(true);
+    const res = await fetch('/api/cron/log-retention', { method: 'POST' });
+    const json = await res.json().catch(() => ({}));
+    setArchiving(false);
+    if (!res.ok) { alert(`로그 보관 실패: ${json.error ?? res.status}`); return; }
+    alert(json.archived ? `${json.archived}건 보관 (${json.retention_months}개월 지난 로그)` : `${json.retention_months}개월 지난 로그가 없습니다.`);
+    fetchLogSummary(supabase).then(setSummary);
+    fetchArchives();
+    fetchLogs();
+  }
+
+  return (
+    <div className={styles.layout}>
+      {/* ── 왼쪽: 로그 목록 ── */}
+      <div className={styles.main}>
+        <div className={styles.category_tabs}>
+          {[{ label: '전체' as const, color: '', bg: '' }, ...LOG_CATEGORIES].map((cat) => {
+            const isActive = (query.category || '전체') === cat.label;
+            const colored = isActive && cat.color;
+            return (
+              <button
+                key={cat.label}
+                className={`${styles.cat_tab} ${isActive ? styles.cat_tab_active : ''}`}
+                style={colored ? { borderColor: cat.color, color: cat.color, background: cat.bg } : {}}
+                onClick={() => updateQuery({ category: cat.label === '전체' ? '' : cat.label })}
+              >
+                <span>{cat.label}</span>
+                <span className={styles.cat_tab_count} style={colored ? { background: cat.color, color: '#fff' } : {}}>
+                  {counts[cat.label] ?? 0}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className={styles.filters}>
+          <div className={styles.search_row}>
+            <div className={styles.search_wrap}>
+              <svg width="13" height="13" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" className={styles.search_icon}>
+                <circle cx="11" cy="11" r="8"/><path d="m21 21-4.35-4.35"/>
+              </svg>
+              <input
+                className={styles.search}
+                placeholder="작업 · 대상 · 상세 검색 (띄어쓰기로 여러 단어)"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+            </div>
+            <button className={styles.reset_btn} onClick={resetFilters} disabled={!filtered && !query.category}>초기화</button>
+          </div>
+          <div className={styles.filter_row}>
+            <div className={styles.filter_group}>
+              <label className={styles.filter_label}>작업</label>
+              <select className={styles.filter_select} value={query.actionType} onChange={(e) => updateQuery({ actionType: e.target.value as ActivityAction | '' })}>
+                <option value="">전체</option>
+                {(Object.keys(ACTION_TYPES) as ActivityAction[]).map((t) => (
+                  <option key={t} value={t}>{ACTION_TYPES[t].label}</option>
+                ))}
+              </select>
+            </div>
+            <div className={styles.filter_group}>
+              <label className={styles.filter_label}>관리자</label>
+              <select className={styles.filter_select} value={query.user} onChange={(e) => updateQuery({ user: e.target.value })}>
+                <option value="">전체</option>
+                {(summary?.users ?? []).map((u) => <option key={u.name} value={u.name}>{u.name}</option>)}
+              </select>
+            </div>
+            <div className={styles.filter_group}>
+              <label className={styles.filter_label}>기록</label>
+              <select className={styles.filter_select} value={query.source} onChange={(e) => updateQuery({ source: e.target.value as ActivitySource | '' })}>
+                <option value="">전체</option>
+                {(Object.keys(LOG_SOURCES) as ActivitySource[]).map((s) => <option key={s} value={s}>{LOG_SOURCES[s]}</option>)}
+              </select>
+            </div>
+            <div className={styles.filter_group}>
+              <label className={styles.filter_label}>시작일</label>
+              <input type="date" className={styles.filter_date} value={query.from} max={query.to || undefined} onChange={(e) => updateQuery({ from: e.target.value })} />
+            </div>
+            <div className={styles.filter_group}>
+              <label className={styles.filter_label}>종료일</label>
+              <input type="date" className={styles.filter_date} value={query.to} min={query.from || undefined} onChange={(e) => updateQuery({ to: e.target.value })} />
+            </div>
+            <div className={styles.export_group}>
+              <button className={styles.export_btn} disabled={!!exporting || total === 0} onClick={() => handleExport('csv')}>
+                {exporting === 'csv' ? '내보내는 중...' : 'CSV'}
+              </button>
+              <button className={styles.export_btn} disabled={!!exporting || total === 0} onClick={() => handleExport('xlsx')}>
+                {exporting === 'xlsx' ? '내보내는 중...' : '엑셀'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className={styles.result_count}>
+          {query.category || filtered ? `검색 결과 ${total.toLocaleString()}건` : `전체 ${total.toLocaleString()}건`}
+          {totalPages > 1 && ` (${page}/${totalPages} 페이지)`}
+        </div>
+
+        {loading && logs.length === 0 ? (
+          <div className={styles.empty}>불러오는 중...</div>
+        ) : loadError ? (
+          <div className={`${styles.empty} ${styles.empty_error}`}>로그를 불러오지 못했습니다: {loadError}</div>
+        ) : logs.length === 0 ? (
+          <div className={styles.empty}>활동 내역이 없습니다.</div>
+        ) : (
+          <>
+            <div className={styles.log_wrap} style={loading ? { opacity: 0.5 } : undefined}>
+              {grouped.map((group) => (
+                <div key={group.dateKey} className={styles.date_group}>
+                  <div className={styles.date_label}>{group.dateLabel}</div>
+                  <div className={styles.log_list}>
+                    {group.logs.map((log) => {
+                      const cat = logCategory(log);
+                      const atype = ACTION_TYPES[log.action_type] ?? ACTION_TYPES.other;
+                      return (
+                        <div key={log.id} className={styles.log_row}>
+                          <div className={styles.log_bar} style={{ background: cat.color }} />
+                          <div className={styles.log_body}>
+                            <div className={styles.log_top}>
+                              <span className={styles.badge} style={{ color: cat.color, background: cat.bg }}>{cat.label}</span>
+                              <span className={styles.badge} style={{ color: atype.color, background: atype.bg }}>{atype.label}</span>
+                              <span className={styles.log_action}>{log.action}</span>
+                              {log.source === 'trigger' && <span className={styles.source_badge}>{LOG_SOURCES.trigger}</span>}
+                            </div>
+                            {(log.target_name || log.detail) && (
+                              <div className={styles.log_mid}>
+                                {log.target_name && (
+                                  <span className={styles.log_target}>
+                                    <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" style={{ flexShrink: 0 }}>
+                                      <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"/><circle cx="12" cy="7" r="4"/>
+                                    </svg>
+                                    {log.target_name}
+                                  </span>
+                                )}
+                                {log.detail && <span className={styles.log_detail}>{log.detail}</span>}
+                              </div>
+                            )}
+                            <LogChanges log={log} />
+                          </div>
+                          <div className={styles.log_right}>
+                            <span className={styles.log_user}>{log.user_name}</span>
+                            <span className={styles.log_time}>{formatTime(log.created_at)}</span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {totalPages > 1 && (
+              <div className={styles.pagination}>
+                <button className={styles.page_btn} disabled={page === 1} onClick={() => setPage(page - 1)}>이전</button>
+                {Array.from({ length: totalPages }, (_, i) => i + 1)
+                  .filter((p) => p === 1 || p === totalPages || Math.abs(p - page) <= 2)
+                  .reduce<(number | '...')[]>((acc, p, idx, arr) => {
+                    if (idx > 0 && p - (arr[idx - 1] as number) > 1) acc.push('...');
+                    acc.push(p); return acc;
+                  }, [])
+                  .map((p, i) => p === '...' ? (
+                    <span key={`el-${i}`} className={styles.page_ellipsis}>…</span>
+                  ) : (
+                    <button key={p} className={`${styles.page_btn} ${page === p ? styles.page_btn_active : ''}`} onClick={() => setPage(p as number)}>{p}</button>
+                  ))}
+                <button className={styles.page_btn} disabled={page === totalPages} onClick={() => setPage(page + 1)}>다음</button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* ── 오른쪽: 통계 · 보관 ── */}
+      <div className={styles.sidebar}>
+        <div className={styles.stat_section}>
+          <div className={styles.stat_section_title}>활동 통계</div>
+          <div className={styles.stat_grid}>
+            <div className={styles.stat_today}>
+              <div className={styles.stat_label}>오늘 활동</div>
+              <div className={styles.stat_value}>{summary?.today ?? 0}</div>
+            </div>
+            <div className={styles.stat_week}>
+              <div className={styles.stat_label}>최근 7일</div>
+              <div className={styles.stat_value}>{summary?.week ?? 0}</div>
+            </div>
+          </div>
+        </div>
+
+        <div className={styles.stat_section}>
+          <div className={styles.stat_section_title}>작업별 통계</div>
+          <div className={styles.type_stats}>
+            {STAT_ACTION_TYPES.map((t) => (
+              <div key={t} className={styles.type_stat_row} style={{ background: ACTION_TYPES[t].bg }}>
+                <span className={styles.type_stat_dot} style={{ background: ACTION_TYPES[t].color }} />
+                <span className={styles.type_stat_label}>{ACTION_TYPES[t].label}</span>
+                <span className={styles.type_stat_count} style={{ color: ACTION_TYPES[t].color }}>{summary?.action_types[t] ?? 0}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className={styles.stat_section}>
+          <div className={styles.stat_section_title}>관리자별 활동</div>
+          <div className={styles.user_stats}>
+            {(summary?.users ?? []).map((u) => (
+              <div key={u.name} className={styles.user_stat_row}>
+                <span className={styles.user_stat_name}>{u.name}</span>
+                <span className={styles.user_stat_count}>{u.count.toLocaleString()}회</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className={styles.stat_section}>
+          <div className={styles.archive_header}>
+            <span className={styles.stat_section_title}>보관 파일</span>
+            <button className={styles.archive_btn} disabled={archiving} onClick={handleArchive}>
+              {archiving ? '보관 중...' : '지금 보관'}
+            </button>
+          </div>
+          {archives.length === 0 ? (
+            <div className={styles.archive_empty}>보관된 로그가 없습니다</div>
+          ) : (
+            <div className={styles.user_stats}>
+              {archives.map((a) => (
+                <div key={a.month} className={styles.user_stat_row}>
+                  {a.url
+                    ? <a className={styles.archive_link} href={a.url} download>{a.month}</a>
+                    : <span className={styles.user_stat_name}>{a.month}</span>}
+                  <span className={styles.archive_size}>{formatFileSize(a.size)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
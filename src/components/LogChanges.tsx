@@ -0,0 +1,22 @@
+import { logChanges } from '@/lib/activityLog';
+import type { ActivityLog } from '@/types';
+import styles from './LogChanges.module.css';
+
+// 활동 로그의 필드별 변경 전 → 후 (추가는 후, 삭제는 전만)
+export default function LogChanges({ log }: { log: Pick<ActivityLog, 'before_data' | 'after_data'> }) {
+  const changes = logChanges(log);
+  if (changes.length === 0) return null;
+
+  return (
+    <div className={styles.changes}>
+      {changes.map((c) => (
+        <div key={c.field} className={styles.change_row}>
+          <span className={styles.change_label}>{c.label}</span>
+          {c.before !== null && <span className={c.after !== null ? styles.change_before : styles.change_value}>{c.before}</span>}
+          {c.before !== null && c.after !== null && <span className={styles.change_arrow}>→</span>}
+          {c.after !== null && <span className={c.before !== null ? styles.change_after : styles.change_value}>{c.after}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
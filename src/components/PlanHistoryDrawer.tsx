@@ -0,0 +1,93 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { diffPlanSnapshots, type PlanVersion } from '@/lib/planHistory';
+import type { PlanSnapshot } from '@/lib/planStore';
+import styles from './PlanHistoryDrawer.module.css';
+
+interface Props {
+  studentId: string;
+  open: boolean;
+  refreshKey: number;                    // 자동 저장마다 증가 → 열린 상태면 목록 새로고침
+  subjectName: (subjectId: number) => string;
+  onRestore: (snapshot: PlanSnapshot, version: PlanVersion) => void;
+  onClose: () => void;
+}
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  return `${d.getFullYear()}.${String(d.getMonth() + 1).padStart(2, '0')}.${String(d.getDate()).padStart(2, '0')} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
+
+export default function PlanHistoryDrawer({ studentId, open, refreshKey, subjectName, onRestore, onClose }: Props) {
+  const [versions, setVersions] = useState<PlanVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const supabase = createClient();
+    supabase
+      .from('plan_versions')
+      .select('*')
+      .eq('student_id', studentId)
+      .order('updated_at', { ascending: false })
+      .limit(50)
+      .then(({ data }) => {
+        if (cancelled) return;
+        setVersions((data ?? []) as PlanVersion[]);
+        setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [open, studentId, refreshKey]);
+
+  if (!open) return null;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <aside className={styles.drawer} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <span className={styles.title}>플랜 변경 이력</span>
+          <button className={styles.close} onClick={onClose} aria-label="닫기">✕</button>
+        </div>
+        <div className={styles.body}>
+          {loading ? (
+            <div className={styles.empty}>불러오는 중...</div>
+          ) : versions.length === 0 ? (
+            <div className={styles.empty}>저장된 이력이 없습니다.</div>
+          ) : versions.map((v, i) => {
+            const older = versions[i + 1];
+            const changes = older ? diffPlanSnapshots(older.snapshot, v.snapshot, subjectName) : [];
+            return (
+              <div key={v.id} className={styles.version}>
+                <div className={styles.version_head}>
+                  <div>
+                    <div className={styles.version_user}>{v.user_name || '알 수 없음'}</div>
+                    <div className={styles.version_time}>{formatDateTime(v.updated_at)}</div>
+                  </div>
+                  {i === 0 ? (
+                    <span className={styles.current_badge}>현재</span>
+                  ) : (
+                    <button className={styles.restore_btn} onClick={() => onRestore(v.snapshot, v)}>이 버전으로 복원</button>
+                  )}
+                </div>
+                {!older ? (
+                  <div className={styles.change_none}>첫 버전 · 학기 {v.snapshot.length}개, 과목 {v.snapshot.reduce((n, s) => n + s.subjects.length, 0)}개</div>
+                ) : changes.length === 0 ? (
+                  <div className={styles.change_none}>변경 내용 없음</div>
+                ) : (
+                  <ul className={styles.changes}>
+                    {changes.map((c, j) => (
+                      <li key={j} className={styles[`change_${c.kind}`]}>{c.text}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </aside>
+    </div>
+  );
+}
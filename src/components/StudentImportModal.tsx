@@ -0,0 +1,162 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import type { Course, Manager, StudentFormData } from '@/types';
+import { IMPORT_TEMPLATE_HEADERS, parseImportSheet, type ImportRow } from '@/lib/studentImport';
+import { formatCohort } from '@/lib/studentRelations';
+import styles from './StudentImportModal.module.css';
+
+interface Props {
+  courses: Course[];
+  managers: Manager[];
+  existingPhones: Set<string>;
+  onClose: () => void;
+  onSubmit: (rows: StudentFormData[], fileName: string, skipped: number) => Promise<void>;
+}
+
+export default function StudentImportModal({ courses, managers, existingPhones, onClose, onSubmit }: Props) {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [missingColumns, setMissingColumns] = useState<string[]>([]);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [parsing, setParsing] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const validRows = rows.filter((r) => r.errors.length === 0);
+  const errorCount = rows.length - validRows.length;
+  const visibleRows = errorsOnly ? rows.filter((r) => r.errors.length > 0) : rows;
+
+  async function handleFile(file: File) {
+    setParsing(true);
+    try {
+      const XLSX = await import('xlsx');
+      const wb = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+      const sheet = wb.Sheets[wb.SheetNames[0]];
+      const data = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: true });
+      const parsed = parseImportSheet(data, { courses, managers, existingPhones });
+      setFileName(file.name);
+      setRows(parsed.rows);
+      setMissingColumns(parsed.missingColumns);
+      setErrorsOnly(false);
+    } catch {
+      alert('파일을 읽을 수 없습니다. xlsx 또는 csv 파일인지 확인해주세요.');
+    } finally {
+      setParsing(false);
+    }
+  }
+
+  async function handleTemplateDownload() {
+    const XLSX = await import('xlsx');
+    const ws = XLSX.utils.aoa_to_sheet([
+      IMPORT_TEMPLATE_HEADERS,
+      ['홍길동', '010-1234-5678', '2년제졸업', '사회복지학과', '학사', '등록', courses[0]?.name ?? '', managers.find((m) => m.active)?.name ?? '', '1200000', '2025년 1학기 1기', '2026-02-28', '한평생교육', 'X', ''],
+    ]);
+    ws['!cols'] = IMPORT_TEMPLATE_HEADERS.map(() => ({ wch: 16 }));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, '학생등록');
+    XLSX.writeFile(wb, '학생_일괄등록_양식.xlsx');
+  }
+
+  async function handleSubmit() {
+    if (validRows.length === 0) return;
+    if (errorCount > 0 && !confirm(`오류가 있는 ${errorCount}행은 제외하고 ${validRows.length}명을 등록합니다.`)) return;
+    setLoading(true);
+    try {
+      await onSubmit(validRows.map((r) => r.form), fileName, errorCount);
+      onClose();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className={styles.overlay} onClick={(e) => e.target === e.currentTarget && onClose()}>
+      <div className={styles.modal}>
+        <div className={styles.modal_header}>
+          <h2 className={styles.modal_title}>학생 일괄 등록</h2>
+          <button className={styles.modal_close} onClick={onClose}>✕</button>
+        </div>
+
+        <div className={styles.modal_body}>
+          <div className={styles.upload_row}>
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className={styles.file_input}
+              onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); e.target.value = ''; }}
+            />
+            <button className={styles.upload_btn} onClick={() => fileRef.current?.click()} disabled={parsing}>
+              {parsing ? '읽는 중...' : fileName ? '다른 파일 선택' : '파일 선택 (xlsx, csv)'}
+            </button>
+            {fileName && <span className={styles.file_name}>{fileName}</span>}
+            <button className={styles.template_btn} onClick={handleTemplateDownload}>양식 다운로드</button>
+          </div>
+
+          {missingColumns.length > 0 && (
+            <div className={styles.missing}>필수 열을 찾을 수 없습니다: {missingColumns.join(', ')}</div>
+          )}
+
+          {fileName && (
+            <>
+              <div className={styles.summary}>
+                <span>전체 {rows.length}행</span>
+                <span className={styles.summary_ok}>등록 가능 {validRows.length}</span>
+                <span className={styles.summary_error}>오류 {errorCount}</span>
+                <label className={styles.errors_only}>
+                  <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+                  오류 행만 보기
+                </label>
+              </div>
+
+              <div className={styles.table_wrap}>
+                <table className={styles.table}>
+                  <thead>
+                    <tr>
+                      <th>행</th>
+                      <th>이름</th>
+                      <th>연락처</th>
+                      <th>최종학력</th>
+                      <th>과정</th>
+                      <th>담당자</th>
+                      <th>개강반</th>
+                      <th>확인</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.length === 0 ? (
+                      <tr><td colSpan={8} className={styles.empty}>표시할 행이 없습니다.</td></tr>
+                    ) : visibleRows.map((r) => (
+                      <tr key={r.rowNumber} className={r.errors.length > 0 ? styles.row_error : ''}>
+                        <td className={styles.row_num}>{r.rowNumber}</td>
+                        <td>{r.form.name || '-'}</td>
+                        <td>{r.form.phone || '-'}</td>
+                        <td>{r.form.education_level || '-'}</td>
+                        <td>{r.courseName || '-'}</td>
+                        <td>{r.managerName || '-'}</td>
+                        <td>{r.form.cohorts.length > 0 ? r.form.cohorts.map(formatCohort).join(', ') : '-'}</td>
+                        <td>
+                          {r.errors.length === 0 && r.warnings.length === 0 && <span className={styles.ok}>정상</span>}
+                          {r.errors.map((m) => <div key={m} className={styles.msg_error}>{m}</div>)}
+                          {r.warnings.map((m) => <div key={m} className={styles.msg_warning}>{m}</div>)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className={styles.modal_footer}>
+          <button type="button" className={styles.cancel_btn} onClick={onClose}>취소</button>
+          <button className={styles.submit_btn} onClick={handleSubmit} disabled={loading || validRows.length === 0}>
+            {loading ? '등록 중...' : `${validRows.length}명 등록`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
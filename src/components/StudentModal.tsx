@@ -1,10 +1,13 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import type { Student, Course, EducationCenter, StudentFormData, EducationLevel, DesiredDegree } from '@/types';
+import type { Student, Course, EducationCenter, StudentFormData, EducationLevel, DesiredDegree, CohortSchedule, Manager } from '@/types';
 import styles from './StudentModal.module.css';
 import ModalSelect from './ModalSelect';
 import { createClient } from '@/lib/supabase/client';
+import { findDuplicateStudents, phoneDigits } from '@/lib/studentDuplicates';
+import { formatCohort, parseCohort, sameCohort, studentCenterNames, studentCohorts } from '@/lib/studentRelations';
+import { fetchCohortSchedules, formatScheduleDate, isRegistrationOpen } from '@/lib/cohortCalendar';
 
 const EDUCATION_LEVELS: EducationLevel[] = [
   '고졸', '2년제중퇴', '2년제졸업', '3년제중퇴', '3년제졸업', '4년제중퇴', '4년제졸업',
@@ -34,7 +37,8 @@ interface Props {
   student?: Student | null;
   courses: Course[];
   centers: EducationCenter[];
-  managers?: string[];
+  managers?: Manager[];
+  students?: Pick<Student, 'id' | 'name' | 'phone'>[];   // 중복 확인용 기존 학생 목록
   onClose: () => void;
   onSubmit: (data: StudentFormData) => Promise<void>;
 }
@@ -47,19 +51,20 @@ const EMPTY_FORM: StudentFormData = {
   desired_degree: '',
   status: '등록',
   course_id: '',
-  manager_name: '',
+  manager_id: '',
   cost: '',
-  class_start: '',
+  cohorts: [],
   target_completion_date: '',
-  education_center_name: '',
+  centers: [],
   all_care: false,
   notes: '',
 };
 
-export default function StudentModal({ student, courses, centers, managers = [], onClose, onSubmit }: Props) {
+export default function StudentModal({ student, courses, centers, managers = [], students = [], onClose, onSubmit }: Props) {
   const [form, setForm] = useState<StudentFormData>(EMPTY_FORM);
   const [loading, setLoading] = useState(false);
   const [classStartInput, setClassStartInput] = useState('');
+  const [schedules, setSchedules] = useState<CohortSchedule[]>([]);
   const [bachelorSuggestions, setBachelorSuggestions] = useState<string[]>([]);
   const [associateSuggestions, setAssociateSuggestions] = useState<string[]>([]);
   const [majorOpen, setMajorOpen] = useState(false);
@@ -98,6 +103,7 @@ export default function StudentModal({ student, courses, centers, managers = [],
         setBachelorSuggestions(toSortedList('bachelor_major'));
         setAssociateSuggestions(toSortedList('associate_major'));
       });
+    fetchCohortSchedules(supabase).then(setSchedules);
   }, []);
 
   useEffect(() => {
@@ -110,6 +116,8 @@ export default function StudentModal({ student, courses, centers, managers = [],
   }, []);
 
   // 이름 + 전화번호 변경 시 올케어 DB 실시간 조회 (디바운스 800ms)
+  // 수정 중이면 학생 id 도 넘겨 조회 기록이 학생 변경이력에 남게 한다
+  const studentId = student?.id;
   useEffect(() => {
     const name = form.name.trim();
     const phone = form.phone.trim();
@@ -121,8 +129,14 @@ export default function StudentModal({ student, courses, centers, managers = [],
     setAllcareStatus((prev) => ({ ...prev, loading: true }));
     allcareTimer.current = setTimeout(async () => {
       try {
-        const res = await fetch(`/api/allcare-check?name=${encodeURIComponent(name)}&phone=${encodeURIComponent(phone)}`);
+        const params = new URLSearchParams({ name, phone, ...(studentId && { student_id: studentId }) });
+        const res = await fetch(`/api/allcare-check?${params}`);
         const data = await res.json();
+        // 인증 만료 · 요청 제한 등 — 체크박스는 그대로 두고 상태만 비운다
+        if (!res.ok) {
+          setAllcareStatus({ loading: false, subscribed: null, found: null });
+          return;
+        }
         setAllcareStatus({ loading: false, subscribed: data.subscribed, found: data.found, plan: data.plan, status: data.status });
         if (data.subscribed === true) set('all_care', true);
         if (data.subscribed === false) set('all_care', false);
@@ -131,7 +145,7 @@ export default function StudentModal({ student, courses, centers, managers = [],
       }
     }, 800);
     return () => { if (allcareTimer.current) clearTimeout(allcareTimer.current); };
-  }, [form.name, form.phone]);
+  }, [form.name, form.phone, studentId]);
 
   const courseList = courses.length > 0 ? courses : DEFAULT_COURSES;
   const centerSuggestions = centers.length > 0 ? centers.map((c) => c.name) : DEFAULT_CENTERS;
@@ -146,11 +160,11 @@ export default function StudentModal({ student, courses, centers, managers = [],
         desired_degree: student.desired_degree ?? '',
         status: student.status,
         course_id: student.course_id ?? '',
-        manager_name: student.manager_name ?? '',
+        manager_id: student.manager_id ?? '',
         cost: student.cost?.toString() ?? '',
-        class_start: student.class_start ?? '',
+        cohorts: studentCohorts(student),
         target_completion_date: student.target_completion_date ?? '',
-        education_center_name: student.education_center_name ?? '',
+        centers: studentCenterNames(student),
         all_care: student.all_care,
         notes: student.notes ?? '',
       });
@@ -186,21 +200,45 @@ export default function StudentModal({ student, courses, centers, managers = [],
     ? bachelorSuggestions
     : associateSuggestions;
 
+  // 비활성 담당자는 새로 고를 수 없지만, 이미 배정된 학생에서는 보여준다
+  const managerOptions = managers
+    .filter((m) => m.active || m.id === student?.manager_id)
+    .map((m) => ({ value: String(m.id), label: m.active ? m.name : `${m.name} (비활성)` }));
   const selectedCourseName = courseList.find((c) => c.id === Number(form.course_id))?.name ?? '';
   const isRehabCourse = selectedCourseName.includes('실습');
   const degreeOptions = isRehabCourse ? [] : getDesiredDegreeOptions(form.education_level);
   const showDesiredDegree = degreeOptions.length > 0;
 
   // 등록 교육원 태그 관련
-  const centerTags = form.education_center_name.split(',').map(s => s.trim()).filter(Boolean);
+  const centerTags = form.centers;
 
   function addCenter(val: string) {
     if (!val || centerTags.includes(val)) return;
-    set('education_center_name', [...centerTags, val].join(','));
+    set('centers', [...centerTags, val]);
   }
 
   function removeCenter(idx: number) {
-    set('education_center_name', centerTags.filter((_, i) => i !== idx).join(','));
+    set('centers', centerTags.filter((_, i) => i !== idx));
+  }
+
+  // 기수 일정에서 고를 수 있는 기수 — 선택한 교육원 일정만, 종강 전인 기수만
+  const today = new Date().toISOString().slice(0, 10);
+  const selectedCenterIds = centers.filter((c) => form.centers.includes(c.name)).map((c) => c.id);
+  const cohortOptions = schedules
+    .filter((sc) => (selectedCenterIds.length === 0 || selectedCenterIds.includes(sc.center_id)) && (!sc.class_end || sc.class_end >= today))
+    .filter((sc, i, arr) => arr.findIndex((x) => sameCohort(x, sc)) === i)
+    .filter((sc) => !form.cohorts.some((c) => sameCohort(c, sc)))
+    .sort((a, b) => a.year - b.year || a.term - b.term || a.batch - b.batch)
+    .slice(0, 8);
+
+  // 개강반 태그 — "2025년 1학기 1기" 형식만 추가
+  function addCohort() {
+    const val = classStartInput.trim();
+    if (!val) return;
+    const cohort = parseCohort(val);
+    if (!cohort) { alert('개강반은 "2025년 1학기 1기" 형식으로 입력해주세요.'); return; }
+    if (!form.cohorts.some((c) => sameCohort(c, cohort))) set('cohorts', [...form.cohorts, cohort]);
+    setClassStartInput('');
   }
 
   async function handleSubmit(e: React.FormEvent) {
@@ -208,7 +246,16 @@ export default function StudentModal({ student, courses, centers, managers = [],
     if (!form.phone.trim()) { alert('전화번호를 입력해주세요.'); return; }
     if (!form.education_level) { alert('최종학력을 선택해주세요.'); return; }
     if (!form.course_id) { alert('희망자격증과정을 선택해주세요.'); return; }
-    if (!form.manager_name) { alert('담당자를 선택해주세요.'); return; }
+    if (!form.manager_id) { alert('담당자를 선택해주세요.'); return; }
+    // 이름/연락처가 바뀔 때만 중복 확인 (연락처는 숫자만, 이름은 한 글자 차이까지)
+    const identityChanged = !student || student.name !== form.name || phoneDigits(student.phone) !== phoneDigits(form.phone);
+    const duplicates = identityChanged ? findDuplicateStudents(form, students, student?.id) : [];
+    if (duplicates.length > 0) {
+      const list = duplicates.slice(0, 5)
+        .map((d) => `· ${d.student.name} (${d.student.phone ?? '연락처 없음'}) — ${d.reasons.join(', ')}`)
+        .join('\n');
+      if (!confirm(`중복으로 보이는 학생이 있습니다.\n${list}\n\n그래도 저장하시겠습니까?`)) return;
+    }
     setLoading(true);
     try {
       await onSubmit(form);
@@ -347,10 +394,10 @@ export default function StudentModal({ student, courses, centers, managers = [],
               <div className={styles.form_field}>
                 <label className={styles.form_label}>담당자<span className={styles.form_required}>*</span></label>
                 <ModalSelect
-                  value={form.manager_name}
+                  value={form.manager_id !== '' ? String(form.manager_id) : ''}
                   placeholder="선택"
-                  options={managers.map((m) => ({ value: m, label: m }))}
-                  onChange={(val) => set('manager_name', val)}
+                  options={managerOptions}
+                  onChange={(val) => set('manager_id', val ? Number(val) : '')}
                 />
               </div>
 
@@ -428,14 +475,11 @@ export default function StudentModal({ student, courses, centers, managers = [],
               <div className={styles.form_field}>
                 <label className={styles.form_label}>개강반 (기수)</label>
                 <div className={styles.class_start_wrap}>
-                  {form.class_start.split(',').filter(Boolean).map((tag, i) => (
+                  {form.cohorts.map((cohort, i) => (
                     <span key={i} className={styles.class_start_tag}>
-                      {tag}
+                      {formatCohort(cohort)}
                       <button type="button" className={styles.class_start_tag_remove}
-                        onClick={() => {
-                          const tags = form.class_start.split(',').filter(Boolean);
-                          set('class_start', tags.filter((_, idx) => idx !== i).join(','));
-                        }}>✕</button>
+                        onClick={() => set('cohorts', form.cohorts.filter((_, idx) => idx !== i))}>✕</button>
                     </span>
                   ))}
                   <input
@@ -458,23 +502,28 @@ export default function StudentModal({ student, courses, centers, managers = [],
                     onKeyDown={(e) => {
                       if (e.key === 'Enter') {
                         e.preventDefault();
-                        const val = classStartInput.trim();
-                        const tags = form.class_start.split(',').filter(Boolean);
-                        if (val && !tags.includes(val)) set('class_start', [...tags, val].join(','));
-                        setClassStartInput('');
+                        addCohort();
                       }
                     }}
                   />
                   {classStartInput.trim() && (
                     <button type="button" className={styles.class_start_add_btn}
-                      onClick={() => {
-                        const val = classStartInput.trim();
-                        const tags = form.class_start.split(',').filter(Boolean);
-                        if (val && !tags.includes(val)) set('class_start', [...tags, val].join(','));
-                        setClassStartInput('');
-                      }}>+</button>
+                      onClick={addCohort}>+</button>
                   )}
                 </div>
+                {cohortOptions.length > 0 && (
+                  <div className={styles.cohort_options}>
+                    {cohortOptions.map((sc) => (
+                      <button key={sc.id} type="button" className={styles.cohort_option}
+                        onClick={() => set('cohorts', [...form.cohorts, { year: sc.year, term: sc.term, batch: sc.batch }])}>
+                        {formatCohort(sc)}
+                        <span className={styles.cohort_option_date}>
+                          {formatScheduleDate(sc.class_start)} 개강{isRegistrationOpen(sc) ? ' · 모집 중' : ''}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* 비용 */}
@@ -0,0 +1,203 @@
+import type { ActivityAction, ActivityLog, ActivitySource, Cohort, Course, LogSnapshot, Manager, Student } from '@/types';
+import { formatCohort, studentCenterNames, studentCohorts } from '@/lib/studentRelations';
+
+// 활동 로그 — 기록할 행 만들기 · 작업 종류 / 분류 표시 · 변경 전후 비교
+
+export interface ActivityLogInput {
+  action: string;                   // 화면에 보이는 문구 (예: "학생 수정")
+  action_type: ActivityAction;
+  target_type?: string;
+  target_id?: string | number | null;
+  target_name?: string;
+  student_id?: string | null;       // 학생에 관한 기록이면 학생 id (상세 변경이력)
+  detail?: string;
+  before?: LogSnapshot | null;      // 바뀐 필드만 — diffSnapshots 로 만든다
+  after?: LogSnapshot | null;
+}
+
+/** log_activity 함수에 넘길 값 (기록자는 DB 가 세션에서 정한다) */
+export function toActivityLogRow(params: ActivityLogInput) {
+  return {
+    action: params.action,
+    action_type: params.action_type,
+    target_type: params.target_type ?? null,
+    target_id: params.target_id != null ? String(params.target_id) : null,
+    target_name: params.target_name ?? null,
+    student_id: params.student_id ?? null,
+    detail: params.detail ?? null,
+    before_data: params.before ?? null,
+    after_data: params.after ?? null,
+  };
+}
+
+// ── 작업 종류 · 분류 ───────────────────────────────────────────
+
+export const ACTION_TYPES: Record<ActivityAction, { label: string; color: string; bg: string }> = {
+  create:  { label: '추가',     color: '#059669', bg: '#ECFDF5' },
+  update:  { label: '수정',     color: '#3182F6', bg: '#EEF5FF' },
+  delete:  { label: '삭제',     color: '#EF4444', bg: '#FFF5F5' },
+  restore: { label: '복구',     color: '#D97706', bg: '#FFFBEB' },
+  save:    { label: '저장',     color: '#7C3AED', bg: '#F5F3FF' },
+  import:  { label: '일괄 등록', color: '#059669', bg: '#ECFDF5' },
+  export:  { label: '다운로드', color: '#107C41', bg: '#F0FAF4' },
+  sync:    { label: '동기화',   color: '#0891B2', bg: '#ECFEFF' },
+  view:    { label: '조회',     color: '#6B7684', bg: '#F2F4F6' },
+  send:    { label: '발송',     color: '#7C3AED', bg: '#F5F3FF' },
+  access:  { label: '접근 거부', color: '#DC2626', bg: '#FEF2F2' },
+  archive: { label: '보관',     color: '#4E5968', bg: '#F2F4F6' },
+  other:   { label: '기타',     color: '#6B7684', bg: '#F2F4F6' },
+};
+
+export const LOG_SOURCES: Record<ActivitySource, string> = {
+  app: '화면 기록',
+  trigger: 'DB 변경',
+};
+
+export type LogCategory = '학생관리' | '과목관리' | '수강계획' | '이수인정' | '시스템';
+
+// 분류는 target_type 으로 정한다 (목록에 없으면 시스템)
+export const LOG_CATEGORIES: { label: LogCategory; color: string; bg: string; targetTypes: string[] }[] = [
+  { label: '학생관리', color: '#3182F6', bg: '#EEF5FF', targetTypes: ['student', 'allcare'] },
+  { label: '과목관리', color: '#059669', bg: '#ECFDF5', targetTypes: ['course', 'subject_preset'] },
+  { label: '수강계획', color: '#7C3AED', bg: '#F5F3FF', targetTypes: ['plan', 'subject', 'plan_rule', 'cohort'] },
+  { label: '이수인정', color: '#D97706', bg: '#FFFBEB', targetTypes: ['prev_subject', 'cert', 'dokaksa', 'credit_history', 'transcript', 'document'] },
+  { label: '시스템',   color: '#6B7684', bg: '#F2F4F6', targetTypes: [] },
+];
+
+export function logCategory(log: Pick<ActivityLog, 'target_type'>) {
+  return LOG_CATEGORIES.find((c) => c.targetTypes.includes(log.target_type ?? ''))
+    ?? LOG_CATEGORIES[LOG_CATEGORIES.length - 1];
+}
+
+// ── 변경 전후 ─────────────────────────────────────────────────
+
+export const LOG_FIELD_LABELS: Record<string, string> = {
+  name: '이름',
+  phone: '연락처',
+  email: '이메일',
+  education_level: '최종학력',
+  major: '전공',
+  desired_degree: '희망학위',
+  status: '상태',
+  course: '과정',
+  manager: '담당자',
+  cost: '비용',
+  target_completion_date: '목표취득일',
+  all_care: '올케어',
+  notes: '메모',
+  cohorts: '개강반',
+  centers: '등록교육원',
+  role: '역할',
+  active: '활성',
+  account: '연결 계정',
+  category: '분류',
+  credits: '학점',
+  type: '유형',
+  subject_type: '구분',
+  sort_order: '순서',
+  total_target: '총 목표학점',
+  targets: '영역별 목표',
+  // DB 변경 기록은 컬럼 이름 그대로
+  student_id: '학생 ID',
+  course_id: '과정 ID',
+  manager_id: '담당자 ID',
+  course_type: '과정 구분',
+  subject_name: '과목명',
+  file_name: '파일명',
+  file_path: '파일 경로',
+  file_size: '파일 크기',
+  doc_type: '문서 종류',
+  revision: '플랜 버전',
+  allcare_status: '올케어 구독',
+  allcare_plan: '올케어 상품',
+  allcare_next_billing_date: '올케어 다음 결제일',
+  credit_type: '인정 구분',
+  acquired_date: '취득일',
+  stage: '단계',
+  condition: '적용 조건',
+  registration: '모집',
+  class_period: '개강 · 종강',
+  exam_date: '시험일',
+};
+
+export function formatLogValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'O' : 'X';
+  if (Array.isArray(value)) return value.length ? value.map(formatLogValue).join(', ') : '-';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** 두 스냅샷에서 값이 다른 필드만 남긴다 (바뀐 게 없으면 null) */
+export function diffSnapshots(before: LogSnapshot, after: LogSnapshot): { before: LogSnapshot; after: LogSnapshot } | null {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter((k) => !sameValue(before[k], after[k]));
+  if (keys.length === 0) return null;
+  return {
+    before: Object.fromEntries(keys.map((k) => [k, before[k] ?? null])),
+    after: Object.fromEntries(keys.map((k) => [k, after[k] ?? null])),
+  };
+}
+
+/** 추가 · 삭제 로그용 — 빈 값을 뺀 스냅샷 */
+export function compactSnapshot(snapshot: LogSnapshot): LogSnapshot {
+  return Object.fromEntries(Object.entries(snapshot).filter(([, v]) => v !== null && v !== '' && !(Array.isArray(v) && v.length === 0)));
+}
+
+/** 화면 표시용 필드별 변경 목록 (필드 순서는 after → before) */
+export function logChanges(log: Pick<ActivityLog, 'before_data' | 'after_data'>) {
+  const before = log.before_data ?? {};
+  const after = log.after_data ?? {};
+  return [...new Set([...Object.keys(after), ...Object.keys(before)])].map((field) => ({
+    field,
+    label: LOG_FIELD_LABELS[field] ?? field,
+    before: field in before ? formatLogValue(before[field]) : null,
+    after: field in after ? formatLogValue(after[field]) : null,
+  }));
+}
+
+// ── 학생 스냅샷 ───────────────────────────────────────────────
+
+export interface StudentLogInput {
+  name: string;
+  phone: string | null;
+  education_level: string | null;
+  major: string | null;
+  desired_degree: string | null;
+  status: string;
+  course_id: number | null;
+  manager_id: number | null;
+  cost: number | null;
+  target_completion_date: string | null;
+  all_care: boolean;
+  notes: string | null;
+  cohorts: Cohort[];
+  centers: string[];
+}
+
+/** 학생 로그용 스냅샷 — id 대신 과정 · 담당자 이름을 남긴다 */
+export function studentSnapshot(s: StudentLogInput, lookups: { courses: Course[]; managers: Manager[] }): LogSnapshot {
+  return {
+    name: s.name,
+    phone: s.phone,
+    education_level: s.education_level,
+    major: s.major,
+    desired_degree: s.desired_degree,
+    status: s.status,
+    course: lookups.courses.find((c) => c.id === s.course_id)?.name ?? null,
+    manager: lookups.managers.find((m) => m.id === s.manager_id)?.name ?? null,
+    cost: s.cost,
+    target_completion_date: s.target_completion_date,
+    all_care: s.all_care,
+    notes: s.notes,
+    cohorts: s.cohorts.map(formatCohort),
+    centers: s.centers,
+  };
+}
+
+/** 저장된 학생 → 스냅샷 입력 */
+export function studentLogInput(student: Student): StudentLogInput {
+  return { ...student, cohorts: studentCohorts(student), centers: studentCenterNames(student) };
+}
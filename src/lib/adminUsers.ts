@@ -0,0 +1,58 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { ROLE_LABELS, isUserRole } from '@/lib/userRoles';
+import type { LogSnapshot, UserRole } from '@/types';
+
+// /api/admin/users 라우트 공용 — 요청 본문 검증 · 에러 메시지 · 로그 스냅샷
+
+export const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface UserProfileInput {
+  name?: string;
+  role?: UserRole;
+  manager_id?: number | null;
+}
+
+/** 본문의 name / role / manager_id 중 들어온 것만 검증해서 돌려준다 */
+export function parseUserProfileInput(body: Record<string, unknown>): { input: UserProfileInput; error: string | null } {
+  const input: UserProfileInput = {};
+  if ('name' in body) {
+    const name = String(body.name ?? '').trim();
+    if (!name) return { input, error: '이름을 입력해주세요.' };
+    input.name = name;
+  }
+  if ('role' in body) {
+    if (!isUserRole(body.role)) return { input, error: '알 수 없는 역할입니다.' };
+    input.role = body.role;
+  }
+  if ('manager_id' in body) {
+    const id = body.manager_id === null || body.manager_id === '' ? null : Number(body.manager_id);
+    if (id !== null && !Number.isInteger(id)) return { input, error: '담당자가 올바르지 않습니다.' };
+    input.manager_id = id;
+  }
+  return { input, error: null };
+}
+
+export function profileErrorMessage(error: PostgrestError) {
+  if (error.code === '23505') return '이미 다른 계정에 연결된 담당자입니다.';
+  if (error.code === '23503') return '존재하지 않는 담당자입니다.';
+  return error.message;
+}
+
+/** 초대 · 재설정 메일의 링크가 열릴 페이지 */
+export const setPasswordUrl = (origin: string) => `${origin}/login/set-password`;
+
+/** 계정 로그용 스냅샷 — 역할은 표시 이름, 담당자는 id 대신 이름 */
+export async function userSnapshot(
+  admin: SupabaseClient,
+  profile: { name: string; role: UserRole; manager_id: number | null; active?: boolean },
+): Promise<LogSnapshot> {
+  const { data: manager } = profile.manager_id !== null
+    ? await admin.from('managers').select('name').eq('id', profile.manager_id).maybeSingle()
+    : { data: null };
+  return {
+    name: profile.name,
+    role: ROLE_LABELS[profile.role],
+    manager: manager?.name ?? null,
+    ...(profile.active !== undefined ? { active: profile.active } : {}),
+  };
+}
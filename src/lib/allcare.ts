@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AllcareStatus, Student } from '@/types';
+import { normalizePhone } from '@/lib/studentImport';
+
+// 올케어 구독 조회 — 올케어 DB 의 users(name, phone) · subscriptions(user_id, status, plan, next_billing_date)
+
+export const ALLCARE_STATUS_LABELS: Record<AllcareStatus, string> = {
+  active: '구독 중',
+  cancel_scheduled: '해지 예정',
+  none: '미구독',
+  not_found: '회원 아님',
+};
+
+/** 목록 필터 값 (search_students 의 p_allcare) */
+export const ALLCARE_FILTERS = [
+  { value: 'subscribed', label: '올케어 구독' },
+  { value: 'not_subscribed', label: '올케어 미구독' },
+  { value: 'mismatch', label: '올케어 불일치' },
+  { value: 'unchecked', label: '올케어 미확인' },
+];
+
+export const isAllcareSubscribed = (status: AllcareStatus | null) =>
+  status === 'active' || status === 'cancel_scheduled';
+
+/** 수동 체크(all_care)와 동기화된 구독 상태가 다른지 (확인 전이면 false) */
+export function allcareMismatch(student: Pick<Student, 'all_care' | 'allcare_status'>) {
+  return student.allcare_status !== null && student.all_care !== isAllcareSubscribed(student.allcare_status);
+}
+
+export interface AllcareResult {
+  status: AllcareStatus;
+  plan: string | null;
+  next_billing_date: string | null;
+}
+
+/** 조회 결과 맵의 키 — 이름 + 숫자만 남긴 전화번호 */
+export function allcareKey(name: string, phone: string) {
+  return `${name.trim()}|${phone.replace(/\D/g, '')}`;
+}
+
+// URL 길이 제한 — in() 한 번에 넘기는 값 수
+const LOOKUP_CHUNK = 200;
+
+/**
+ * 이름 + 전화번호로 올케어 구독 상태를 한꺼번에 조회한다.
+ * 전화번호가 올바르지 않거나 회원이 없으면 not_found. 키는 allcareKey(name, 정규화한 번호)
+ */
+export async function lookupAllcare(
+  allcare: SupabaseClient,
+  people: { name: string; phone: string | null }[],
+): Promise<{ results: Map<string, AllcareResult>; error: string | null }> {
+  const results = new Map<string, AllcareResult>();
+
+  // 올케어 DB 에는 하이픈 있는/없는 형식이 섞여 있다
+  const wanted = new Map<string, string>();   // 키 → 정규화한 번호
+  people.forEach((p) => {
+    const phone = p.phone ? normalizePhone(p.phone) : null;
+    if (phone && p.name.trim()) wanted.set(allcareKey(p.name, phone), phone);
+  });
+  const phones = [...new Set(wanted.values())].flatMap((phone) => [phone, phone.replace(/-/g, '')]);
+
+  const users: { id: string; name: string; phone: string }[] = [];
+  for (let i = 0; i < phones.length; i += LOOKUP_CHUNK) {
+    const { data, error } = await allcare
+      .from('users')
+      .select('id, name, phone')
+      .in('phone', phones.slice(i, i + LOOKUP_CHUNK));
+    if (error) return { results, error: error.message };
+    users.push(...(data ?? []));
+  }
+
+  // 사용자별 최신 활성 구독
+  const subscriptions = new Map<string, { status: AllcareStatus; plan: string | null; next_billing_date: string | null }>();
+  const userIds = users.map((u) => u.id);
+  for (let i = 0; i < userIds.length; i += LOOKUP_CHUNK) {
+    const { data, error } = await allcare
+      .from('subscriptions')
+      .select('user_id, status, plan, next_billing_date')
+      .in('user_id', userIds.slice(i, i + LOOKUP_CHUNK))
+      .in('status', ['active', 'cancel_scheduled'])
+      .order('created_at', { ascending: false });
+    if (error) return { results, error: error.message };
+    (data ?? []).forEach((s) => {
+      if (!subscriptions.has(s.user_id)) subscriptions.set(s.user_id, s);
+    });
+  }
+
+  users.forEach((u) => {
+    const key = allcareKey(u.name, u.phone);
+    if (!wanted.has(key)) return;
+    const sub = subscriptions.get(u.id);
+    const result: AllcareResult = sub
+      ? { status: sub.status, plan: sub.plan, next_billing_date: sub.next_billing_date }
+      : { status: 'none', plan: null, next_billing_date: null };
+    // 같은 사람이 여러 계정이면 구독 중인 쪽을 따른다
+    if (!isAllcareSubscribed(results.get(key)?.status ?? null)) results.set(key, result);
+  });
+  wanted.forEach((_, key) => {
+    if (!results.has(key)) results.set(key, { status: 'not_found', plan: null, next_billing_date: null });
+  });
+
+  return { results, error: null };
+}
+
+/** lookupAllcare 결과에서 한 사람 찾기 (전화번호가 올바르지 않으면 not_found) */
+export function findAllcareResult(results: Map<string, AllcareResult>, person: { name: string; phone: string | null }): AllcareResult {
+  const phone = person.phone ? normalizePhone(person.phone) : null;
+  return (phone && results.get(allcareKey(person.name, phone)))
+    || { status: 'not_found', plan: null, next_billing_date: null };
+}
@@ -0,0 +1,181 @@
+import type { PlanConfig, PracticeRequirement, SubjectCategory } from '@/types';
+import { MAX_PER_SEMESTER, MAX_PER_YEAR } from '@/lib/planValidation';
+
+// 자동 플랜 — 남은 학점을 채울 과목을 고르고 학기/연간 과목 수 제한 안에서 가장 빠른 학기부터 배정
+
+export interface AutoPlanSubject {
+  id: number;
+  category: SubjectCategory;
+  credits: number;
+  subject_type?: '필수' | '선택' | null;
+}
+
+export interface AutoPlanSemester {
+  id: number;
+  year: string;
+  term: number;
+  class_number: number;
+}
+
+export interface AutoPlanInput {
+  config: PlanConfig;
+  subjects: AutoPlanSubject[];
+  semesters: AutoPlanSemester[];
+  semesterSubjects: Record<number, number[]>;
+  currentCredits: Partial<Record<SubjectCategory, number>>; // 배정 과목 + 전적대·자격증·독학사
+  practiceDone: PracticeRequirement | null;                 // 현재 이수(예정) 필수/선택 과목 수
+  targetCompletionDate: string | null;
+  today?: Date;
+}
+
+export interface AutoPlanResult {
+  semesters: AutoPlanSemester[];           // 기존 + 새로 만든 학기
+  addedSemesterIds: number[];
+  semesterSubjects: Record<number, number[]>;
+  addedSubjectIds: number[];
+  shortfall: { label: string; credits: number }[];  // 과목이 모자라 채우지 못한 학점
+  finishTerm: { year: string; term: number } | null;
+  meetsTargetDate: boolean | null;          // 목표취득일이 없으면 null
+}
+
+/** 학기 기본 기간 — 1학기: 전년 11/15 ~ 5/5, 2학기: 5/15 ~ 11/5 */
+export function getDefaultSemesterDates(year: string, term: number): { start: string; end: string } {
+  const y = parseInt(year);
+  if (term === 1) return { start: `${y - 1}-11-15`, end: `${y}-05-05` };
+  return { start: `${y}-05-15`, end: `${y}-11-05` };
+}
+
+/** 오늘 날짜가 속한 학기 (기본 기간 기준) */
+export function getCurrentTerm(today: Date): { year: string; term: number } {
+  const y = today.getFullYear();
+  const md = (today.getMonth() + 1) * 100 + today.getDate();
+  if (md >= 1115) return { year: String(y + 1), term: 1 };
+  if (md >= 515) return { year: String(y), term: 2 };
+  return { year: String(y), term: 1 };
+}
+
+const termOrder = (year: string, term: number) => parseInt(year) * 10 + term;
+
+const nextTerm = (year: string, term: number) =>
+  term === 1 ? { year, term: 2 } : { year: String(parseInt(year) + 1), term: 1 };
+
+// 필수 과목 먼저, 같은 구분이면 학점이 큰 과목 먼저 (과목 수를 줄여 학기 수 최소화)
+function byPriority(a: AutoPlanSubject, b: AutoPlanSubject) {
+  const rank = (s: AutoPlanSubject) => (s.subject_type === '필수' ? 0 : 1);
+  return rank(a) - rank(b) || b.credits - a.credits || a.id - b.id;
+}
+
+export function autoPlan(input: AutoPlanInput): AutoPlanResult {
+  const { config } = input;
+  const assigned = new Set(Object.values(input.semesterSubjects).flat());
+  const pool = input.subjects.filter((s) => !assigned.has(s.id)).sort(byPriority);
+  const credits: Partial<Record<SubjectCategory, number>> = { ...input.currentCredits };
+  const picked: AutoPlanSubject[] = [];
+
+  const sumOf = (categories: SubjectCategory[]) => categories.reduce((sum, c) => sum + (credits[c] ?? 0), 0);
+  const take = (s: AutoPlanSubject) => {
+    picked.push(s);
+    pool.splice(pool.indexOf(s), 1);
+    credits[s.category] = (credits[s.category] ?? 0) + s.credits;
+  };
+
+  // 1. 실습 요건 (필수/선택 과목 수)
+  if (config.practice) {
+    const done = input.practiceDone ?? { required: 0, elective: 0 };
+    const needs: [('필수' | '선택'), number][] = [
+      ['필수', config.practice.required - done.required],
+      ['선택', config.practice.elective - done.elective],
+    ];
+    needs.forEach(([type, need]) => {
+      pool.filter((s) => s.subject_type === type).slice(0, Math.max(need, 0)).forEach(take);
+    });
+  }
+
+  // 2. 영역별 목표 학점
+  config.targets.forEach((t) => {
+    while (sumOf(t.categories) < t.target) {
+      const next = pool.find((s) => t.categories.includes(s.category));
+      if (!next) break;
+      take(next);
+    }
+  });
+
+  // 3. 총 목표 학점 (영역 목표 합이 총 목표보다 작은 경우)
+  const allowed = new Set(config.targets.flatMap((t) => t.categories));
+  const totalNow = () => Object.values(credits).reduce((a, b) => a + (b ?? 0), 0);
+  while (totalNow() < config.totalTarget) {
+    const next = pool.find((s) => allowed.size === 0 || allowed.has(s.category));
+    if (!next) break;
+    take(next);
+  }
+
+  const shortfall = config.targets
+    .map((t) => ({ label: t.label, credits: t.target - sumOf(t.categories) }))
+    .filter((s) => s.credits > 0);
+  const totalShort = config.totalTarget - totalNow();
+  if (totalShort > 0 && shortfall.reduce((a, b) => a + b.credits, 0) < totalShort) {
+    shortfall.push({ label: '총 학점', credits: totalShort });
+  }
+
+  // ── 학기 배정 ──
+  const semesters = [...input.semesters];
+  const semesterSubjects: Record<number, number[]> = Object.fromEntries(
+    Object.entries(input.semesterSubjects).map(([k, v]) => [k, [...v]]),
+  );
+  const groupCount = new Map<string, number>();
+  const yearCount = new Map<string, number>();
+  semesters.forEach((s) => {
+    const n = (semesterSubjects[s.id] ?? []).length;
+    groupCount.set(`${s.year}-${s.term}`, (groupCount.get(`${s.year}-${s.term}`) ?? 0) + n);
+    yearCount.set(s.year, (yearCount.get(s.year) ?? 0) + n);
+  });
+
+  // 이번 학기부터 한 학기씩 — 있는 학기는 남은 자리를 채우고, 빈 학기(기존 학기 사이 포함)는 새로 만든다
+  // 지나간 학기에는 배정하지 않는다
+  const addedSemesterIds: number[] = [];
+  let nextId = semesters.reduce((max, s) => Math.max(max, s.id), -1) + 1;
+  let cursor = getCurrentTerm(input.today ?? new Date());
+  const queue = [...picked];
+  let finishTerm: AutoPlanResult['finishTerm'] = null;
+
+  for (; queue.length > 0; cursor = nextTerm(cursor.year, cursor.term)) {
+    const group = cursor;
+    const key = `${group.year}-${group.term}`;
+    const cap = Math.min(
+      MAX_PER_SEMESTER - (groupCount.get(key) ?? 0),
+      MAX_PER_YEAR - (yearCount.get(group.year) ?? 0),
+    );
+    if (cap <= 0) continue;
+    // 같은 학기에 기수가 여러 개면 첫 기수에 배정
+    let target = semesters
+      .filter((s) => s.year === group.year && s.term === group.term)
+      .sort((a, b) => a.class_number - b.class_number)[0];
+    if (!target) {
+      target = { id: nextId++, year: group.year, term: group.term, class_number: 1 };
+      // 학기 순서가 유지되도록 더 늦은 학기 앞에 넣는다
+      const order = termOrder(group.year, group.term);
+      const at = semesters.findIndex((s) => termOrder(s.year, s.term) > order);
+      semesters.splice(at === -1 ? semesters.length : at, 0, target);
+      addedSemesterIds.push(target.id);
+    }
+    const batch = queue.splice(0, cap);
+    semesterSubjects[target.id] = [...(semesterSubjects[target.id] ?? []), ...batch.map((s) => s.id)];
+    groupCount.set(key, (groupCount.get(key) ?? 0) + batch.length);
+    yearCount.set(group.year, (yearCount.get(group.year) ?? 0) + batch.length);
+    finishTerm = { year: group.year, term: group.term };
+  }
+
+  const meetsTargetDate = input.targetCompletionDate && finishTerm
+    ? getDefaultSemesterDates(finishTerm.year, finishTerm.term).end <= input.targetCompletionDate
+    : null;
+
+  return {
+    semesters,
+    addedSemesterIds,
+    semesterSubjects,
+    addedSubjectIds: picked.map((s) => s.id),
+    shortfall,
+    finishTerm,
+    meetsTargetDate,
+  };
+}
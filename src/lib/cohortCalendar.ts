@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Cohort, CohortSchedule } from '@/types';
+import { sameCohort } from './studentRelations';
+
+// 기수 일정 (cohorts) — 플랜 학기 날짜 · 개강반 선택 · 기수 필터에서 공통 사용
+
+export async function fetchCohortSchedules(supabase: SupabaseClient): Promise<CohortSchedule[]> {
+  const { data } = await supabase
+    .from('cohorts')
+    .select('*')
+    .order('year', { ascending: false })
+    .order('term', { ascending: false })
+    .order('batch');
+  return (data ?? []) as CohortSchedule[];
+}
+
+/**
+ * 학생에게 적용되는 기수 일정 — 등록교육원 순서대로 처음 일치하는 것
+ * (DB 트리거 link_plan_semester_cohort 와 같은 규칙)
+ */
+export function findCohortSchedule(schedules: CohortSchedule[], centerIds: number[], cohort: Cohort) {
+  for (const centerId of centerIds) {
+    const found = schedules.find((s) => s.center_id === centerId && sameCohort(s, cohort));
+    if (found) return found;
+  }
+  return null;
+}
+
+/** 교육원과 무관하게 가장 이른 개강일 (기수 필터 표시용) */
+export function earliestClassStart(schedules: CohortSchedule[], cohort: Cohort) {
+  return schedules
+    .filter((s) => sameCohort(s, cohort) && s.class_start)
+    .map((s) => s.class_start!)
+    .sort()[0] ?? null;
+}
+
+/** 플랜 학기 기간 — 개강 · 종강일이 모두 있어야 사용 */
+export function scheduleDates(schedule: CohortSchedule | null): { start: string; end: string } | null {
+  if (!schedule?.class_start || !schedule.class_end) return null;
+  return { start: schedule.class_start, end: schedule.class_end };
+}
+
+/** 오늘이 모집 기간인지 (기간이 비어 있으면 false) */
+export function isRegistrationOpen(schedule: CohortSchedule, today = new Date().toISOString().slice(0, 10)) {
+  if (!schedule.registration_open || !schedule.registration_close) return false;
+  return schedule.registration_open <= today && today <= schedule.registration_close;
+}
+
+/** "2025-11-15" → "2025.11.15" */
+export function formatScheduleDate(date: string | null) {
+  return date ? date.replace(/-/g, '.') : '-';
+}
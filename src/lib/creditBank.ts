@@ -0,0 +1,71 @@
+import type { SubjectCategory } from '@/types';
+
+// 학점은행(cb.or.kr) 과목 검색 결과 파싱 — 사이트 호출은 creditBankClient (서버 전용)
+
+export const CB_BASE = 'https://www.cb.or.kr';
+
+/** 학위 과정(m_szGrId) · 전공(m_szMajorId) — 기본은 학사 사회복지학 */
+export const DEFAULT_CB_MAJOR = { grade: 'A', major: 'AGAE' };
+
+/** 전공 · 과정 코드 형식 (폼 값에 그대로 들어가므로 영문 대문자 · 숫자만) */
+export const CB_CODE_RE = /^[A-Z0-9]{1,10}$/;
+
+export interface CbSubject {
+  id: string;                         // 학점은행 과목 코드 (예: 00001538)
+  name: string;
+  category: SubjectCategory | null;   // 전공필수 · 전공선택 → 전공
+  category_detail: string | null;     // 사이트 표기 그대로
+  credits: number | null;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' };
+
+function cellText(html: string) {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, e: string) => ENTITIES[e])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toCategory(text: string): SubjectCategory | null {
+  if (text.startsWith('전공')) return '전공';
+  if (text.startsWith('교양')) return '교양';
+  if (text.startsWith('일반')) return '일반';
+  return null;
+}
+
+/**
+ * 검색 결과 HTML → 과목 목록.
+ * 결과 표의 행마다 fnReturnData('코드', '과목명', ...) 링크가 있고, 같은 행의 칸에서
+ * 이수구분(전공필수 · 교양 …)과 학점을 찾는다. 칸 순서가 바뀌어도 값 모양으로 찾으며,
+ * 표 없이 링크만 있는 응답은 코드 · 이름만 돌려준다.
+ */
+export function parseCbSubjectSearch(html: string): CbSubject[] {
+  const subjects = new Map<string, CbSubject>();
+  const rows = html.match(/<tr[\s>][\s\S]*?<\/tr>/gi)
+    ?? [...html.matchAll(/fnReturnData\s*\([^)]*\)/g)].map((m) => m[0]);
+
+  rows.forEach((row) => {
+    const link = row.replace(/&#39;|&quot;/g, "'").match(/fnReturnData\s*\(\s*['"]([^'"]+)['"]\s*,\s*['"]([^'"]+)['"]/);
+    if (!link) return;
+    const id = link[1].trim();
+    const cells = [...row.matchAll(/<td[^>]*>([\s\S]*?)<\/td>/gi)].map((m) => cellText(m[1]));
+
+    // 과목명 칸(예: 일반사회학)과 헷갈리지 않도록 이수구분 표기만
+    const categoryText = cells.find((c) => /^(전공|교양|일반)(필수|선택)?$/.test(c)) ?? null;
+    // 맨 앞 칸은 보통 순번이므로 숫자 칸 중 마지막을 학점으로 본다
+    const creditsText = cells.filter((c) => /^\d{1,2}(\s*학점)?$/.test(c)).pop();
+
+    if (subjects.has(id)) return;
+    subjects.set(id, {
+      id,
+      name: cellText(link[2]),
+      category: categoryText ? toCategory(categoryText) : null,
+      category_detail: categoryText,
+      credits: creditsText ? parseInt(creditsText, 10) : null,
+    });
+  });
+
+  return [...subjects.values()];
+}
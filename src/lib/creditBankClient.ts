@@ -0,0 +1,198 @@
+import { CB_BASE, DEFAULT_CB_MAJOR, parseCbSubjectSearch, type CbSubject } from '@/lib/creditBank';
+
+// 학점은행(cb.or.kr) 호출 — 서버 라우트 전용
+// 세션 쿠키는 재사용하다가 만료 응답이 오면 새로 받고, 요청마다 제한 시간 · 재시도 횟수를 둔다.
+// 연속으로 실패하면 일정 시간 호출을 멈춘다(서킷 브레이커). 상태는 서버 인스턴스마다 따로 유지된다.
+
+const SESSION_URL = `${CB_BASE}/creditbank/stuHelp/nStuHelp7_1.do`;
+const SEARCH_URL = `${CB_BASE}/cmmn/popup/nEtcGrMajorYomokSearch.do`;
+const USER_AGENT = 'Mozilla/5.0 (compatible)';
+
+const SESSION_TTL = 1000 * 60 * 10;        // 만료 응답이 없어도 10분마다 새 세션
+const REQUEST_TIMEOUT = 5000;
+const RETRY_DELAYS = [300, 1000];          // 최대 2회 재시도
+const BREAKER_THRESHOLD = 5;               // 연속 실패 횟수
+const BREAKER_COOLDOWN = 1000 * 60;        // 이후 1분간 호출하지 않음
+
+export type CbError = 'circuit_open' | 'timeout' | 'session' | 'upstream' | 'network';
+
+export const CB_ERROR_MESSAGES: Record<CbError, string> = {
+  circuit_open: '학점은행 검색 일시 불가 (잠시 후 다시 시도)',
+  timeout: '학점은행 응답 지연',
+  session: '학점은행 세션을 만들 수 없음',
+  upstream: '학점은행 서버 오류',
+  network: '학점은행에 연결할 수 없음',
+};
+
+export interface CbHealth {
+  status: 'ok' | 'degraded' | 'down';    // degraded: 최근 실패가 있지만 호출 중
+  consecutive_failures: number;
+  last_error: CbError | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  retry_at: string | null;               // 서킷이 열려 있으면 다시 시도하는 시각
+}
+
+const session = { cookie: '', fetchedAt: 0 };
+
+const breaker = {
+  failures: 0,
+  openUntil: 0,
+  lastError: null as CbError | null,
+  lastSuccessAt: 0,
+  lastFailureAt: 0,
+};
+
+// 실패를 분류해서 던진다 — 모듈 밖으로는 { error } 로만 나간다
+type Failure = { error: CbError; retry: boolean };
+
+function fail(error: CbError, retry: boolean): Failure {
+  return { error, retry };
+}
+
+function isFailure(e: unknown): e is Failure {
+  return typeof e === 'object' && e !== null && 'error' in e && 'retry' in e;
+}
+
+async function request(url: string, init: Omit<RequestInit, 'headers'> & { headers?: Record<string, string> } = {}): Promise<Response> {
+  try {
+    const res = await fetch(url, {
+      ...init,
+      headers: { 'User-Agent': USER_AGENT, ...init.headers },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+    if (res.status >= 500) throw fail('upstream', true);
+    return res;
+  } catch (e) {
+    if (isFailure(e)) throw e;
+    if (e instanceof DOMException && e.name === 'TimeoutError') throw fail('timeout', true);
+    throw fail('network', true);
+  }
+}
+
+async function getSessionCookie(refresh: boolean): Promise<string> {
+  if (!refresh && session.cookie && Date.now() - session.fetchedAt < SESSION_TTL) return session.cookie;
+
+  const res = await request(SESSION_URL);
+  const setCookies =
+    (res.headers as Headers & { getSetCookie?: () => string[] }).getSetCookie?.() ??
+    [res.headers.get('set-cookie') ?? ''].filter(Boolean);
+  const cookie = setCookies.map((c) => c.split(';')[0]).join('; ');
+  if (!cookie) throw fail('session', true);
+
+  session.cookie = cookie;
+  session.fetchedAt = Date.now();
+  return cookie;
+}
+
+// 세션이 끊기면 결과 화면 대신 로그인 · 안내 페이지(또는 alert 스크립트)가 온다
+function isSessionExpired(res: Response, html: string) {
+  if (res.status === 401 || res.status === 403) return true;
+  if (res.redirected && !res.url.startsWith(SEARCH_URL)) return true;
+  return !/<table|fnReturnData/i.test(html);
+}
+
+async function searchOnce(query: string, grade: string, major: string, refreshSession: boolean) {
+  const cookie = await getSessionCookie(refreshSession);
+  const body = new URLSearchParams({
+    m_szGrId: grade,
+    m_szMajorId: major,
+    m_szGrIdOri: grade,
+    m_szMajorIdOri: major,
+    m_szEtcYomokNm: query,
+  });
+  const res = await request(SEARCH_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Referer': SESSION_URL,
+      'Cookie': cookie,
+    },
+    body: body.toString(),
+  });
+  const html = await res.text();
+  return { expired: isSessionExpired(res, html), html };
+}
+
+function recordSuccess() {
+  breaker.failures = 0;
+  breaker.openUntil = 0;
+  breaker.lastError = null;
+  breaker.lastSuccessAt = Date.now();
+}
+
+function recordFailure(error: CbError) {
+  breaker.failures += 1;
+  breaker.lastError = error;
+  breaker.lastFailureAt = Date.now();
+  if (breaker.failures >= BREAKER_THRESHOLD) breaker.openUntil = Date.now() + BREAKER_COOLDOWN;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 학점은행 사이트에서 과목명으로 검색한다.
+ * 세션 만료 응답이면 세션을 새로 받아 한 번 더, 시간 초과 · 5xx · 연결 오류는 RETRY_DELAYS 만큼 재시도.
+ * 서킷이 열려 있으면 호출하지 않고 circuit_open
+ */
+export async function searchCreditBank(
+  query: string,
+  { grade, major } = DEFAULT_CB_MAJOR,
+): Promise<{ subjects: CbSubject[]; error: CbError | null }> {
+  // 쿨다운이 끝나면 한 번은 통과시킨다 (실패하면 다시 열림)
+  if (Date.now() < breaker.openUntil) return { subjects: [], error: 'circuit_open' };
+
+  let refreshSession = false;
+  let lastError: CbError = 'network';
+  for (let attempt = 0; attempt <= RETRY_DELAYS.length; attempt++) {
+    try {
+      const { expired, html } = await searchOnce(query, grade, major, refreshSession);
+      if (expired) {
+        if (refreshSession) throw fail('session', false);   // 새 세션으로도 만료 — 재시도해도 같다
+        refreshSession = true;
+        attempt--;                                           // 세션 갱신은 재시도 횟수에 넣지 않는다
+        continue;
+      }
+      recordSuccess();
+      return { subjects: parseCbSubjectSearch(html), error: null };
+    } catch (e) {
+      const failure = isFailure(e) ? e : fail('network', false);
+      lastError = failure.error;
+      if (!failure.retry || attempt === RETRY_DELAYS.length) break;
+      await sleep(RETRY_DELAYS[attempt]);
+    }
+  }
+
+  recordFailure(lastError);
+  return { subjects: [], error: lastError };
+}
+
+const PROBE_INTERVAL = 1000 * 60 * 5;
+
+/** 최근 5분간 호출이 없었으면 세션 페이지로 연결을 확인한다 (결과는 서킷 상태에 반영) */
+export async function probeCreditBank() {
+  const lastActivity = Math.max(breaker.lastSuccessAt, breaker.lastFailureAt);
+  if (Date.now() < breaker.openUntil || Date.now() - lastActivity < PROBE_INTERVAL) return;
+  try {
+    await getSessionCookie(true);
+    recordSuccess();
+  } catch (e) {
+    recordFailure(isFailure(e) ? e.error : 'network');
+  }
+}
+
+const iso = (ms: number) => (ms ? new Date(ms).toISOString() : null);
+
+/** 최근 호출 결과로 본 학점은행 상태 */
+export function creditBankHealth(): CbHealth {
+  const open = Date.now() < breaker.openUntil;
+  return {
+    status: open ? 'down' : breaker.failures > 0 ? 'degraded' : 'ok',
+    consecutive_failures: breaker.failures,
+    last_error: breaker.lastError,
+    last_success_at: iso(breaker.lastSuccessAt),
+    last_failure_at: iso(breaker.lastFailureAt),
+    retry_at: open ? iso(breaker.openUntil) : null,
+  };
+}
@@ -0,0 +1,44 @@
+import type { ActivityLog } from '@/types';
+import { ACTION_TYPES, LOG_SOURCES, logCategory, logChanges } from '@/lib/activityLog';
+
+// 활동 로그 내보내기 — 검색 조건에 걸린 로그 전체를 CSV / 엑셀로
+
+export type LogExportFormat = 'csv' | 'xlsx';
+
+const HEADER = ['시각', '관리자', '분류', '작업', '문구', '대상 종류', '대상 ID', '대상', '학생 ID', '상세', '변경 내역', '기록'];
+
+function formatDateTime(str: string) {
+  return new Date(str).toLocaleString('ko-KR', {
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false,
+  });
+}
+
+function logRow(log: ActivityLog) {
+  const changes = logChanges(log).map((c) =>
+    c.before !== null && c.after !== null ? `${c.label}: ${c.before} → ${c.after}` : `${c.label}: ${c.after ?? c.before}`,
+  );
+  return [
+    formatDateTime(log.created_at),
+    log.user_name,
+    logCategory(log).label,
+    (ACTION_TYPES[log.action_type] ?? ACTION_TYPES.other).label,
+    log.action,
+    log.target_type ?? '',
+    log.target_id ?? '',
+    log.target_name ?? '',
+    log.student_id ?? '',
+    log.detail ?? '',
+    changes.join('\n'),
+    LOG_SOURCES[log.source] ?? log.source,
+  ];
+}
+
+/** CSV 는 엑셀에서 한글이 깨지지 않도록 BOM 을 붙여 저장된다 */
+export async function downloadLogs(logs: ActivityLog[], format: LogExportFormat, filename: string) {
+  const XLSX = await import('xlsx');
+  const ws = XLSX.utils.aoa_to_sheet([HEADER, ...logs.map(logRow)]);
+  ws['!cols'] = [{ wch: 20 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 20 }, { wch: 14 }, { wch: 12 }, { wch: 16 }, { wch: 12 }, { wch: 30 }, { wch: 40 }, { wch: 10 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, '활동로그');
+  XLSX.writeFile(wb, `${filename}.${format}`, { bookType: format });
+}
@@ -0,0 +1,117 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ActivityAction, ActivityLog, ActivitySource } from '@/types';
+import { LOG_CATEGORIES, type LogCategory } from '@/lib/activityLog';
+
+// 활동 로그 조회 조건 — search_activity_logs RPC 로 서버에서 검색 · 페이지 나눔
+
+export interface LogQuery {
+  search: string;             // 문구 · 대상 · 상세 전문 검색
+  category: LogCategory | '';
+  actionType: ActivityAction | '';
+  user: string;               // user_name
+  source: ActivitySource | '';
+  from: string;               // YYYY-MM-DD (한국 시간)
+  to: string;
+}
+
+export const DEFAULT_LOG_QUERY: LogQuery = {
+  search: '',
+  category: '',
+  actionType: '',
+  user: '',
+  source: '',
+  from: '',
+  to: '',
+};
+
+export const LOG_PAGE_SIZE = 20;
+const EXPORT_CHUNK = 1000;
+
+// 분류 → target_type 포함 목록, 시스템은 다른 분류의 target_type 을 뺀 나머지
+function categoryParams(category: LogQuery['category']) {
+  if (!category) return { p_target_types: null, p_exclude_target_types: null };
+  const cfg = LOG_CATEGORIES.find((c) => c.label === category);
+  if (cfg && cfg.targetTypes.length > 0) return { p_target_types: cfg.targetTypes, p_exclude_target_types: null };
+  return { p_target_types: null, p_exclude_target_types: LOG_CATEGORIES.flatMap((c) => c.targetTypes) };
+}
+
+function toParams(query: LogQuery) {
+  return {
+    p_search: query.search.trim() || null,
+    p_action_type: query.actionType || null,
+    ...categoryParams(query.category),
+    p_user_name: query.user || null,
+    p_source: query.source || null,
+    p_from: query.from || null,
+    p_to: query.to || null,
+  };
+}
+
+/** 조건에 맞는 로그 (최신순, limit 이 null 이면 전체) */
+export async function searchLogs(
+  supabase: SupabaseClient,
+  query: LogQuery,
+  options: { limit: number | null; offset?: number },
+): Promise<{ rows: ActivityLog[]; total: number; error: string | null }> {
+  const { data, error } = await supabase.rpc('search_activity_logs', {
+    ...toParams(query),
+    p_limit: options.limit,
+    p_offset: options.offset ?? 0,
+  });
+  if (error) return { rows: [], total: 0, error: error.message };
+  return { rows: (data?.rows ?? []) as ActivityLog[], total: data?.total ?? 0, error: null };
+}
+
+/** 내보내기용 — 조건에 맞는 로그 전체를 나눠서 받는다 */
+export async function fetchAllLogs(
+  supabase: SupabaseClient,
+  query: LogQuery,
+): Promise<{ rows: ActivityLog[]; error: string | null }> {
+  const rows: ActivityLog[] = [];
+  for (let offset = 0; ; offset += EXPORT_CHUNK) {
+    const { rows: chunk, total, error } = await searchLogs(supabase, query, { limit: EXPORT_CHUNK, offset });
+    if (error) return { rows: [], error };
+    rows.push(...chunk);
+    if (chunk.length < EXPORT_CHUNK || rows.length >= total) break;
+  }
+  return { rows, error: null };
+}
+
+export interface LogSummary {
+  total: number;
+  today: number;
+  week: number;                                   // 최근 7일
+  action_types: Partial<Record<ActivityAction, number>>;
+  target_types: { target_type: string | null; count: number }[];
+  users: { name: string; count: number }[];       // 많은 순
+}
+
+const EMPTY_SUMMARY: LogSummary = { total: 0, today: 0, week: 0, action_types: {}, target_types: [], users: [] };
+
+export async function fetchLogSummary(supabase: SupabaseClient): Promise<LogSummary> {
+  const { data } = await supabase.rpc('activity_log_summary');
+  return (data as LogSummary | null) ?? EMPTY_SUMMARY;
+}
+
+/** 분류 탭 건수 (전체 포함) */
+export function categoryCounts(summary: LogSummary): Record<string, number> {
+  const counts: Record<string, number> = { 전체: summary.total };
+  LOG_CATEGORIES.forEach((c) => { counts[c.label] = 0; });
+  const system = LOG_CATEGORIES[LOG_CATEGORIES.length - 1].label;
+  summary.target_types.forEach(({ target_type, count }) => {
+    const cat = LOG_CATEGORIES.find((c) => c.targetTypes.includes(target_type ?? ''))?.label ?? system;
+    counts[cat] += count;
+  });
+  return counts;
+}
+
+// ── 보관 파일 ─────────────────────────────────────────────────
+
+export const LOG_ARCHIVE_BUCKET = 'activity-log-archive';
+
+export interface LogArchive {
+  month: string;              // YYYY-MM
+  size: number;
+  updated_at: string | null;
+  url: string | null;         // 5분짜리 다운로드 링크
+}
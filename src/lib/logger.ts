@@ -1,31 +1,14 @@
-import { createClient } from './supabase/client';
+import type { ActivityLogInput } from './activityLog';
 
 /**
- * 관리자 활동 로그를 Supabase activity_logs 테이블에 기록한다.
+ * 관리자 활동 로그를 /api/activity-log 로 보내 기록한다 (log_activity 는 서버 전용).
+ * 기록자는 서버가 세션에서 정하고, 학생 id 는 볼 수 있는 학생일 때만 받아준다.
  * fire-and-forget 방식으로 호출해도 무방하며, 로그 실패가 메인 플로우를 막지 않는다.
  */
-export async function logActivity(params: {
-  action: string;
-  target_type?: string;
-  target_name?: string;
-  detail?: string;
-}) {
-  const supabase = createClient();
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) return;
-
-  const { data: profile } = await supabase
-    .from('profiles')
-    .select('name')
-    .eq('id', user.id)
-    .single();
-
-  await supabase.from('activity_logs').insert({
-    user_id: user.id,
-    user_name: profile?.name ?? user.email ?? '알 수 없음',
-    action: params.action,
-    target_type: params.target_type ?? null,
-    target_name: params.target_name ?? null,
-    detail: params.detail ?? null,
-  });
+export async function logActivity(params: ActivityLogInput) {
+  await fetch('/api/activity-log', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  }).catch(() => undefined);
 }
@@ -0,0 +1,50 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { validatePlan, type PlanValidationInput, type PlanViolation } from '@/lib/planValidation';
+import { studentCenterNames } from '@/lib/studentRelations';
+import type { Student } from '@/types';
+
+// /api/plans/[studentId] 라우트 공용 — 학생 데이터를 읽어 validatePlan 입력을 만든다
+
+/** 학생 id 는 필터 문자열에 그대로 들어가므로 uuid 만 받는다 */
+export const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** 플랜을 뺀 검증 입력 — otherCredits 는 전적대 · 자격증 · 독학사 학점 합 */
+export type PlanCheckContext = Omit<PlanValidationInput, 'semesters' | 'semesterSubjects' | 'totalCredits'> & {
+  otherCredits: number;
+};
+
+/** 세션 클라이언트로 읽는다 — 볼 수 없는 학생이면 null */
+export async function fetchPlanCheckContext(supabase: SupabaseClient, studentId: string): Promise<PlanCheckContext | null> {
+  const [studentRes, subjectsRes, prevRes, certsRes, dokaksaRes] = await Promise.all([
+    supabase.from('students').select('education_level, desired_degree, student_centers(sort_order, education_centers(name))').eq('id', studentId).maybeSingle(),
+    supabase.from('subjects').select('id, name, credits').or(`student_id.is.null,student_id.eq.${studentId}`),
+    supabase.from('student_prev_subjects').select('credits').eq('student_id', studentId),
+    supabase.from('student_credit_certs').select('id, credit_type, credits').eq('student_id', studentId).order('created_at'),
+    supabase.from('student_dokaksa').select('credits').eq('student_id', studentId),
+  ]);
+  if (!studentRes.data) return null;
+
+  const certs = certsRes.data ?? [];
+  return {
+    subjects: subjectsRes.data ?? [],
+    certs,
+    educationLevel: studentRes.data.education_level,
+    desiredDegree: studentRes.data.desired_degree,
+    centerNames: studentCenterNames(studentRes.data as unknown as Pick<Student, 'student_centers'>),
+    otherCredits: (prevRes.data ?? []).reduce((sum, s) => sum + s.credits, 0)
+      + certs.reduce((sum, c) => sum + c.credits, 0)
+      + (dokaksaRes.data ?? []).reduce((sum, d) => sum + d.credits, 0),
+  };
+}
+
+export function checkPlan(
+  context: PlanCheckContext,
+  plan: Pick<PlanValidationInput, 'semesters' | 'semesterSubjects'>,
+): PlanViolation[] {
+  const { otherCredits, ...input } = context;
+  const subjectCredits = new Map(input.subjects.map((s) => [s.id, s.credits]));
+  const assignedCredits = plan.semesters
+    .flatMap((s) => plan.semesterSubjects[s.id] ?? [])
+    .reduce((sum, sid) => sum + (subjectCredits.get(sid) ?? 0), 0);
+  return validatePlan({ ...input, ...plan, totalCredits: assignedCredits + otherCredits });
+}
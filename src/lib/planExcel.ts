@@ -0,0 +1,127 @@
+import { FV_COLUMNS, type PlanReport } from './planReport';
+
+// 학습플랜 엑셀 내보내기 — 학생 1명(시트 1개) / 여러 학생 일괄(요약 · 과목 · 기타학점 시트)
+
+type XLSXModule = typeof import('xlsx');
+type Cell = string | number;
+
+const EXTRA_KINDS = [
+  { label: '전적대', key: 'prevSubjects' },
+  { label: '자격증', key: 'certs' },
+  { label: '독학사', key: 'dokaksa' },
+] as const;
+
+const sumCredits = (items: { credits: number }[]) => items.reduce((sum, x) => sum + x.credits, 0);
+
+function studentInfoRows(report: PlanReport): Cell[][] {
+  const { student } = report;
+  return [
+    ['이름', student.name],
+    ['연락처', student.phone ?? ''],
+    ['과정', student.courses?.name ?? ''],
+    ['최종학력', student.education_level ?? ''],
+    ['희망학위', student.desired_degree ?? ''],
+    ['담당자', student.managers?.name ?? ''],
+    ['목표취득일', student.target_completion_date ?? ''],
+    ['교육원', report.centers.map((c) => c.name).join(', ')],
+  ];
+}
+
+type Group = PlanReport['groups'][number];
+type Semester = Group['semesters'][number];
+
+/** 과목 1행 (학기 · 기수 · 기간 · 과목 · 영역 · 전공/교양/실습) */
+function subjectRow(g: Group, sem: Semester, subj: Semester['subjects'][number]): Cell[] {
+  return [
+    `${g.ordinalLabel} (${g.year}년 ${g.term}학기)`, `${sem.classNumber}기`, sem.monthRange,
+    subj.name, subj.category, ...FV_COLUMNS.map((c) => subj.columns[c]),
+  ];
+}
+
+function subjectRows(report: PlanReport): Cell[][] {
+  return report.groups.flatMap((g) => g.semesters.flatMap((sem) => sem.subjects.map((subj) => subjectRow(g, sem, subj))));
+}
+
+function extraRows(report: PlanReport): Cell[][] {
+  return EXTRA_KINDS.flatMap(({ label, key }) =>
+    report[key].map((x) => [label, x.name, x.credit_type, x.credits]),
+  );
+}
+
+/** 학생 1명의 학습플랜 시트 */
+function buildPlanSheet(XLSX: XLSXModule, report: PlanReport) {
+  const data: Cell[][] = [
+    ['학습플랜'],
+    ...studentInfoRows(report),
+    [],
+    ['학기', '기수', '기간', '과목', '영역', ...FV_COLUMNS],
+  ];
+  report.groups.forEach((g) => g.semesters.forEach((sem) => {
+    sem.subjects.forEach((subj) => data.push(subjectRow(g, sem, subj)));
+    data.push(['', '', '', '이수학점', '', ...FV_COLUMNS.map((c) => sem.subtotal[c])]);
+  }));
+  data.push(['총 학점합계', '', '', '', '', ...FV_COLUMNS.map((c) => report.totals[c])]);
+
+  const extras = extraRows(report);
+  if (extras.length > 0) {
+    data.push([], ['기타 인정 학점'], ['구분', '이름', '학점유형', '학점'], ...extras);
+  }
+
+  data.push([], ['이수 현황'], ['영역', '이수', '목표']);
+  report.targets.forEach((t) => data.push([t.label, t.earned, t.target]));
+  data.push(['합계', report.totalCredits, report.config.totalTarget]);
+
+  const ws = XLSX.utils.aoa_to_sheet(data);
+  ws['!cols'] = [{ wch: 24 }, { wch: 16 }, { wch: 12 }, { wch: 28 }, { wch: 8 }, { wch: 8 }, { wch: 8 }, { wch: 8 }];
+  return ws;
+}
+
+/** 학생 1명의 학습플랜을 엑셀로 저장 */
+export async function downloadPlanExcel(report: PlanReport) {
+  const XLSX = await import('xlsx');
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, buildPlanSheet(XLSX, report), '학습플랜');
+  XLSX.writeFile(wb, `${report.student.name}_학습플랜.xlsx`);
+}
+
+/** 여러 학생의 학습플랜을 한 파일로 저장 — 요약 / 과목 / 기타학점 시트 */
+export async function downloadPlansExcel(reports: PlanReport[], filename: string) {
+  const XLSX = await import('xlsx');
+  const who = (r: PlanReport): Cell[] => [r.student.name, r.student.phone ?? ''];
+
+  const summary: Cell[][] = [
+    ['이름', '연락처', '과정', '담당자', '교육원', '학기 수', ...FV_COLUMNS, ...EXTRA_KINDS.map((k) => k.label), '총 이수', '목표 학점', '달성률'],
+    ...reports.map((r) => [
+      ...who(r),
+      r.student.courses?.name ?? '',
+      r.student.managers?.name ?? '',
+      r.centers.map((c) => c.name).join(', '),
+      r.groups.length,
+      ...FV_COLUMNS.map((c) => r.totals[c]),
+      ...EXTRA_KINDS.map(({ key }) => sumCredits(r[key])),
+      r.totalCredits,
+      r.config.totalTarget,
+      r.config.totalTarget > 0 ? `${Math.round((r.totalCredits / r.config.totalTarget) * 100)}%` : '',
+    ]),
+  ];
+  const subjects: Cell[][] = [
+    ['이름', '연락처', '학기', '기수', '기간', '과목', '영역', ...FV_COLUMNS],
+    ...reports.flatMap((r) => subjectRows(r).map((row) => [...who(r), ...row])),
+  ];
+  const extras: Cell[][] = [
+    ['이름', '연락처', '구분', '과목/자격증', '학점유형', '학점'],
+    ...reports.flatMap((r) => extraRows(r).map((row) => [...who(r), ...row])),
+  ];
+
+  const wb = XLSX.utils.book_new();
+  const summarySheet = XLSX.utils.aoa_to_sheet(summary);
+  summarySheet['!cols'] = [{ wch: 12 }, { wch: 16 }, { wch: 16 }, { wch: 10 }, { wch: 24 }, ...Array(summary[0].length - 5).fill({ wch: 9 })];
+  const subjectSheet = XLSX.utils.aoa_to_sheet(subjects);
+  subjectSheet['!cols'] = [{ wch: 12 }, { wch: 16 }, { wch: 24 }, { wch: 8 }, { wch: 12 }, { wch: 28 }, { wch: 8 }, { wch: 8 }, { wch: 8 }, { wch: 8 }];
+  const extraSheet = XLSX.utils.aoa_to_sheet(extras);
+  extraSheet['!cols'] = [{ wch: 12 }, { wch: 16 }, { wch: 8 }, { wch: 28 }, { wch: 10 }, { wch: 8 }];
+  XLSX.utils.book_append_sheet(wb, summarySheet, '요약');
+  XLSX.utils.book_append_sheet(wb, subjectSheet, '과목');
+  XLSX.utils.book_append_sheet(wb, extraSheet, '기타학점');
+  XLSX.writeFile(wb, filename);
+}
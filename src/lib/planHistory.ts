@@ -0,0 +1,168 @@
+import { createClient } from './supabase/client';
+import type { PlanSnapshot, PlanSnapshotSemester } from './planStore';
+
+// 학습플랜 버전 이력 — 편집 세션마다 스냅샷 1개를 유지하고, 버전 간 변경 내용을 계산
+
+export interface PlanVersion {
+  id: number;
+  student_id: string;
+  session_id: string;
+  snapshot: PlanSnapshot;
+  user_id: string | null;
+  user_name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlanChange {
+  kind: 'add' | 'remove' | 'change';
+  text: string;
+}
+
+/**
+ * 현재 편집 세션의 버전을 save_plan_version 함수로 저장한다 (student_id + session_id 기준 upsert).
+ * 기록자는 DB 가 세션에서 채운다. 자동 저장 직후 호출하며, 실패해도 플랜 저장 자체는 막지 않는다.
+ */
+export async function savePlanVersion(studentId: string, sessionId: string, snapshot: PlanSnapshot) {
+  const supabase = createClient();
+  await supabase.rpc('save_plan_version', { p_student_id: studentId, p_session_id: sessionId, p_snapshot: snapshot });
+}
+
+const semLabel = (s: PlanSnapshotSemester) => `${s.year}년 ${s.term}학기 ${s.class_number}기`;
+
+/** 이전 버전 → 다음 버전 사이의 학기 · 과목 · 기간 · 점수 변경 목록 */
+export function diffPlanSnapshots(
+  prev: PlanSnapshot,
+  next: PlanSnapshot,
+  subjectName: (subjectId: number) => string,
+): PlanChange[] {
+  const changes: PlanChange[] = [];
+  const prevSems = new Map(prev.map((s) => [s.client_id, s]));
+  const nextSems = new Map(next.map((s) => [s.client_id, s]));
+
+  next.forEach((s) => {
+    if (!prevSems.has(s.client_id)) changes.push({ kind: 'add', text: `${semLabel(s)} 추가` });
+  });
+  prev.forEach((s) => {
+    if (!nextSems.has(s.client_id)) changes.push({ kind: 'remove', text: `${semLabel(s)} 삭제` });
+  });
+
+  // 과목 위치 (subject_id → 학기)
+  const locate = (snapshot: PlanSnapshot) => {
+    const map = new Map<number, { sem: PlanSnapshotSemester; score: number | null }>();
+    snapshot.forEach((sem) => sem.subjects.forEach((sub) => map.set(sub.subject_id, { sem, score: sub.score })));
+    return map;
+  };
+  const prevSubs = locate(prev);
+  const nextSubs = locate(next);
+
+  nextSubs.forEach(({ sem, score }, sid) => {
+    const before = prevSubs.get(sid);
+    if (!before) {
+      changes.push({ kind: 'add', text: `${subjectName(sid)} 추가 (${semLabel(sem)})` });
+      return;
+    }
+    if (before.sem.client_id !== sem.client_id) {
+      changes.push({ kind: 'change', text: `${subjectName(sid)} 이동 (${semLabel(before.sem)} → ${semLabel(sem)})` });
+    }
+    if ((before.score ?? null) !== (score ?? null)) {
+      changes.push({ kind: 'change', text: `${subjectName(sid)} 점수 ${before.score ?? '-'} → ${score ?? '-'}` });
+    }
+  });
+  prevSubs.forEach(({ sem }, sid) => {
+    if (!nextSubs.has(sid)) changes.push({ kind: 'remove', text: `${subjectName(sid)} 삭제 (${semLabel(sem)})` });
+  });
+
+  next.forEach((s) => {
+    const before = prevSems.get(s.client_id);
+    if (!before) return;
+    if ((before.start_date ?? '') !== (s.start_date ?? '') || (before.end_date ?? '') !== (s.end_date ?? '')) {
+      changes.push({
+        kind: 'change',
+        text: `${semLabel(s)} 기간 ${before.start_date ?? '-'} ~ ${before.end_date ?? '-'} → ${s.start_date ?? '-'} ~ ${s.end_date ?? '-'}`,
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * 3-way 병합 — 저장 충돌 시 base(마지막으로 맞춰진 플랜) 기준으로
+ * 내 변경과 다른 사용자의 변경을 합친다. 같은 항목을 양쪽이 바꿨으면 내 변경을 우선한다.
+ */
+export function mergePlanSnapshots(base: PlanSnapshot, mine: PlanSnapshot, theirs: PlanSnapshot): PlanSnapshot {
+  const key = (s: PlanSnapshotSemester) => `${s.year}-${s.term}-${s.class_number}`;
+  const baseSems = new Map(base.map((s) => [s.client_id, s]));
+  const mineSems = new Map(mine.map((s) => [s.client_id, s]));
+  const theirSems = new Map(theirs.map((s) => [s.client_id, s]));
+  const changed = (a: PlanSnapshotSemester | undefined, b: PlanSnapshotSemester | undefined) =>
+    JSON.stringify(a ?? null) !== JSON.stringify(b ?? null);
+
+  // 1. 학기 목록 — 다른 사용자 기준으로 시작해 내 추가/삭제/수정을 반영
+  const merged = new Map<number, PlanSnapshotSemester>();
+  theirs.forEach((s) => {
+    const b = baseSems.get(s.client_id);
+    // 내가 삭제했고 상대는 손대지 않은 학기 → 삭제
+    if (b && !mineSems.has(s.client_id) && !changed(b, s)) return;
+    merged.set(s.client_id, { ...s, subjects: [] });
+  });
+  let nextId = Math.max(-1, ...mine.map((s) => s.client_id), ...theirs.map((s) => s.client_id)) + 1;
+  const idMap = new Map<number, number>(); // 내 학기 id → 병합 결과 학기 id
+  mine.forEach((s) => {
+    const b = baseSems.get(s.client_id);
+    const t = theirSems.get(s.client_id);
+    if (!b) {
+      // 내가 추가한 학기 — 상대도 같은 번호로 다른 학기를 추가했으면 번호를 새로 붙인다
+      const same = theirs.find((x) => key(x) === key(s));
+      if (same && !baseSems.has(same.client_id)) { idMap.set(s.client_id, same.client_id); return; }
+      const id = t ? nextId++ : s.client_id;
+      idMap.set(s.client_id, id);
+      merged.set(id, { ...s, client_id: id, subjects: [] });
+      return;
+    }
+    idMap.set(s.client_id, s.client_id);
+    if (!t) {
+      // 상대가 삭제한 학기 — 내가 바꿨으면 되살린다
+      if (changed(b, s)) merged.set(s.client_id, { ...s, subjects: [] });
+      return;
+    }
+    const datesMine = s.start_date !== b.start_date || s.end_date !== b.end_date;
+    if (datesMine) merged.set(s.client_id, { ...merged.get(s.client_id)!, start_date: s.start_date, end_date: s.end_date });
+  });
+
+  // 2. 과목 배치 — 과목별로 내가 바꿨으면 내 위치, 아니면 상대 위치
+  const locate = (snapshot: PlanSnapshot) => {
+    const map = new Map<number, { semId: number; score: number | null }>();
+    snapshot.forEach((sem) => sem.subjects.forEach((sub) => map.set(sub.subject_id, { semId: sem.client_id, score: sub.score })));
+    return map;
+  };
+  const baseSubs = locate(base);
+  const mineSubs = locate(mine);
+  const theirSubs = locate(theirs);
+  const subjectIds = new Set([...mineSubs.keys(), ...theirSubs.keys(), ...baseSubs.keys()]);
+  const sameLoc = (a?: { semId: number; score: number | null }, b?: { semId: number; score: number | null }) =>
+    (a?.semId ?? null) === (b?.semId ?? null) && (a?.score ?? null) === (b?.score ?? null);
+
+  subjectIds.forEach((sid) => {
+    const b = baseSubs.get(sid);
+    const m = mineSubs.get(sid);
+    const t = theirSubs.get(sid);
+    let semId: number | undefined;
+    let score: number | null = null;
+    if (!sameLoc(m, b)) {
+      if (!m) return;
+      semId = idMap.get(m.semId) ?? m.semId;
+      score = m.score;
+    } else {
+      if (!t) return;
+      semId = t.semId;
+      score = t.score;
+    }
+    const sem = merged.get(semId);
+    if (sem && !sem.subjects.some((x) => x.subject_id === sid)) sem.subjects.push({ subject_id: sid, score });
+  });
+
+  // 순서: 상대 순서 유지, 내가 새로 추가한 학기는 뒤에
+  return [...merged.values()];
+}
@@ -0,0 +1,217 @@
+import path from 'node:path';
+import { Document, Page, View, Text, Image, StyleSheet, Font, renderToBuffer } from '@react-pdf/renderer';
+import { FV_COLUMNS, type PlanReport } from './planReport';
+
+// 학습플랜 PDF (서버 전용) — 전체보기 표 + 학생 정보 · 학점 현황 · 상담자 서명란
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+
+// 한글 출력용 폰트 (Pretendard, OFL-1.1)
+Font.register({
+  family: 'Pretendard',
+  fonts: [
+    { src: path.join(PUBLIC_DIR, 'fonts/Pretendard-Regular.ttf') },
+    { src: path.join(PUBLIC_DIR, 'fonts/Pretendard-Bold.ttf'), fontWeight: 'bold' },
+  ],
+});
+// 한글은 음절 단위로 줄바꿈되지 않도록 하이픈 처리 끔
+Font.registerHyphenationCallback((word) => [word]);
+
+const SEM_COLORS = ['#EFF6FF', '#ECFDF5', '#FFFBEB', '#F5F3FF', '#FEF2F2'];
+
+const s = StyleSheet.create({
+  page: { fontFamily: 'Pretendard', fontSize: 9, color: '#191F28', padding: 36, paddingBottom: 48 },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 },
+  logo: { height: 28, objectFit: 'contain' },
+  title: { fontSize: 16, fontWeight: 'bold' },
+  issued: { fontSize: 8, color: '#8B95A1', textAlign: 'right' },
+  section: { marginBottom: 12 },
+  sectionTitle: { fontSize: 10, fontWeight: 'bold', marginBottom: 6 },
+  infoGrid: { flexDirection: 'row', flexWrap: 'wrap', borderTop: '1 solid #E5E8EB', borderLeft: '1 solid #E5E8EB' },
+  infoCell: { width: '50%', flexDirection: 'row', borderRight: '1 solid #E5E8EB', borderBottom: '1 solid #E5E8EB' },
+  infoLabel: { width: 70, padding: 5, backgroundColor: '#F8F9FA', color: '#4E5968' },
+  infoValue: { flex: 1, padding: 5 },
+  progressRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 4 },
+  progressLabel: { width: 70 },
+  progressBarWrap: { flex: 1, height: 6, backgroundColor: '#F2F4F6', borderRadius: 3, marginHorizontal: 6 },
+  progressBar: { height: 6, borderRadius: 3 },
+  progressValue: { width: 70, textAlign: 'right' },
+  table: { borderTop: '1 solid #D1D6DB', borderLeft: '1 solid #D1D6DB' },
+  row: { flexDirection: 'row' },
+  th: { padding: 5, backgroundColor: '#F2F4F6', fontWeight: 'bold', textAlign: 'center', borderRight: '1 solid #D1D6DB', borderBottom: '1 solid #D1D6DB' },
+  td: { padding: 4, borderRight: '1 solid #D1D6DB', borderBottom: '1 solid #D1D6DB' },
+  semCol: { width: 90 },
+  nameCol: { flex: 1 },
+  creditCol: { width: 44, textAlign: 'center' },
+  semCell: { width: 90, padding: 6, borderRight: '1 solid #D1D6DB', borderBottom: '1 solid #D1D6DB', justifyContent: 'center' },
+  semLabel: { fontWeight: 'bold', fontSize: 10 },
+  semMeta: { fontSize: 8, color: '#4E5968', marginTop: 2 },
+  kisuRow: { padding: 4, backgroundColor: '#FAFBFC', color: '#4E5968', borderRight: '1 solid #D1D6DB', borderBottom: '1 solid #D1D6DB' },
+  summaryRow: { backgroundColor: '#F8F9FA' },
+  totalRow: { backgroundColor: '#EFF6FF', fontWeight: 'bold' },
+  empty: { color: '#8B95A1', textAlign: 'center' },
+  extraWrap: { flexDirection: 'row', gap: 8 },
+  extraBox: { flex: 1, border: '1 solid #E5E8EB', borderRadius: 4, padding: 6 },
+  extraTitle: { fontWeight: 'bold', marginBottom: 4 },
+  extraItem: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 2 },
+  sign: { flexDirection: 'row', justifyContent: 'flex-end', gap: 24, marginTop: 24 },
+  signField: { flexDirection: 'row', alignItems: 'flex-end' },
+  signLine: { width: 110, borderBottom: '1 solid #191F28', marginLeft: 6, paddingBottom: 2, textAlign: 'center' },
+  footer: { position: 'absolute', bottom: 20, left: 36, right: 36, fontSize: 7, color: '#B0B8C1', flexDirection: 'row', justifyContent: 'space-between' },
+});
+
+function formatDate(d: Date) {
+  return `${d.getFullYear()}.${String(d.getMonth() + 1).padStart(2, '0')}.${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function PlanPdf({ report, issuedAt }: { report: PlanReport; issuedAt: Date }) {
+  const { student, config } = report;
+  const info: [string, string][] = [
+    ['성명', student.name],
+    ['연락처', student.phone ?? '-'],
+    ['과정', student.courses?.name ?? '-'],
+    ['최종학력', student.education_level ?? '-'],
+    ['희망학위', student.desired_degree ?? '-'],
+    ['담당자', student.managers?.name ?? '-'],
+    ['목표취득일', student.target_completion_date ?? '-'],
+    ['교육원', report.centers.length
+      ? report.centers.map((c) => c.limit !== null ? `${c.name} (${c.used}/${c.limit})` : c.name).join(', ')
+      : '-'],
+  ];
+  const extras = [
+    { title: '전적대 이수', items: report.prevSubjects },
+    { title: '학점인정 자격증', items: report.certs },
+    { title: '독학사', items: report.dokaksa },
+  ].filter((e) => e.items.length > 0);
+
+  return (
+    <Document title={`${student.name} 학습플랜`} author="EducationSystem">
+      <Page size="A4" style={s.page}>
+        <View style={s.header}>
+          {/* eslint-disable-next-line jsx-a11y/alt-text -- react-pdf Image 에는 alt 가 없다 */}
+          <Image style={s.logo} src={path.join(PUBLIC_DIR, 'logo.png')} />
+          <Text style={s.title}>학습플랜</Text>
+          <Text style={s.issued}>발행일 {formatDate(issuedAt)}</Text>
+        </View>
+
+        {/* 학생 정보 */}
+        <View style={s.section}>
+          <View style={s.infoGrid}>
+            {info.map(([label, value]) => (
+              <View key={label} style={s.infoCell}>
+                <Text style={s.infoLabel}>{label}</Text>
+                <Text style={s.infoValue}>{value}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* 목표 대비 진행률 */}
+        <View style={s.section} wrap={false}>
+          <Text style={s.sectionTitle}>이수 현황 · 총 {report.totalCredits} / {config.totalTarget}학점</Text>
+          {report.targets.map((t) => (
+            <View key={t.label} style={s.progressRow}>
+              <Text style={s.progressLabel}>{t.label}</Text>
+              <View style={s.progressBarWrap}>
+                <View style={[s.progressBar, { width: `${Math.min(100, Math.round((t.earned / Math.max(t.target, 1)) * 100))}%`, backgroundColor: t.color }]} />
+              </View>
+              <Text style={s.progressValue}>{t.earned} / {t.target}학점</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* 학기별 수강 계획 */}
+        <View style={s.section}>
+          <Text style={s.sectionTitle}>학기별 수강 계획</Text>
+          <View style={s.table}>
+            <View style={s.row} fixed>
+              <Text style={[s.th, s.semCol]}>온라인수업 일정</Text>
+              <Text style={[s.th, s.nameCol]}>과목</Text>
+              {FV_COLUMNS.map((c) => <Text key={c} style={[s.th, s.creditCol]}>{c}</Text>)}
+            </View>
+            {report.groups.map((g, gi) => (
+              <View key={`${g.year}-${g.term}`} style={s.row} wrap={false}>
+                <View style={[s.semCell, { backgroundColor: SEM_COLORS[gi % SEM_COLORS.length] }]}>
+                  <Text style={s.semLabel}>{g.ordinalLabel}</Text>
+                  <Text style={s.semMeta}>{g.year}년도 {g.term}학기</Text>
+                </View>
+                <View style={{ flex: 1 }}>
+                  {g.semesters.map((sem) => (
+                    <View key={sem.id}>
+                      {(g.semesters.length > 1 || sem.monthRange) && (
+                        <Text style={s.kisuRow}>
+                          {g.semesters.length > 1 ? `${sem.classNumber}기` : ''}
+                          {g.semesters.length > 1 && sem.monthRange ? ' · ' : ''}
+                          {sem.monthRange}
+                        </Text>
+                      )}
+                      {sem.subjects.length === 0 ? (
+                        <Text style={[s.td, s.empty]}>등록된 과목이 없습니다</Text>
+                      ) : sem.subjects.map((subj) => (
+                        <View key={subj.id} style={s.row}>
+                          <Text style={[s.td, s.nameCol]}>{subj.name}</Text>
+                          {FV_COLUMNS.map((c) => <Text key={c} style={[s.td, s.creditCol]}>{subj.columns[c]}</Text>)}
+                        </View>
+                      ))}
+                      <View style={[s.row, s.summaryRow]}>
+                        <Text style={[s.td, s.nameCol]}>이수학점</Text>
+                        {FV_COLUMNS.map((c) => <Text key={c} style={[s.td, s.creditCol]}>{sem.subtotal[c]}</Text>)}
+                      </View>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            ))}
+            <View style={[s.row, s.totalRow]}>
+              <Text style={[s.td, s.semCol]}>총 학점합계</Text>
+              <Text style={[s.td, s.nameCol]} />
+              {FV_COLUMNS.map((c) => <Text key={c} style={[s.td, s.creditCol]}>{report.totals[c]}</Text>)}
+            </View>
+          </View>
+        </View>
+
+        {/* 전적대 · 자격증 · 독학사 */}
+        {extras.length > 0 && (
+          <View style={s.section} wrap={false}>
+            <Text style={s.sectionTitle}>기타 인정 학점</Text>
+            <View style={s.extraWrap}>
+              {extras.map((e) => (
+                <View key={e.title} style={s.extraBox}>
+                  <Text style={s.extraTitle}>{e.title} · {e.items.reduce((sum, x) => sum + x.credits, 0)}학점</Text>
+                  {e.items.map((x, i) => (
+                    <View key={i} style={s.extraItem}>
+                      <Text>{x.name} ({x.credit_type})</Text>
+                      <Text>{x.credits}학점</Text>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* 상담자 서명 */}
+        <View style={s.sign} wrap={false}>
+          <View style={s.signField}>
+            <Text>상담자</Text>
+            <Text style={s.signLine}>{student.managers?.name ?? ''}</Text>
+            <Text> (서명)</Text>
+          </View>
+          <View style={s.signField}>
+            <Text>날짜</Text>
+            <Text style={s.signLine}> </Text>
+          </View>
+        </View>
+
+        <View style={s.footer} fixed>
+          <Text>{student.name} 학습플랜</Text>
+          <Text render={({ pageNumber, totalPages }) => `${pageNumber} / ${totalPages}`} />
+        </View>
+      </Page>
+    </Document>
+  );
+}
+
+export function renderPlanPdf(report: PlanReport): Promise<Buffer> {
+  return renderToBuffer(<PlanPdf report={report} issuedAt={new Date()} />);
+}
@@ -0,0 +1,204 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PlanConfig, PlanRuleSet, Student, SubjectCategory } from '@/types';
+import { getPlanConfig } from './planRules';
+import { getCenterCreditLimit } from './planValidation';
+import { PLAN_SEMESTER_SELECT, fromPlanRows, type PlanSemesterRow, type PlanState } from './planStore';
+import { STUDENT_RELATIONS, studentCenterNames } from './studentRelations';
+
+// 학습플랜 출력용 데이터 — 전체보기 · PDF · 엑셀 내보내기에서 같은 계산을 사용
+
+export const FV_COLUMNS = ['전공', '교양', '실습'] as const;
+export type FvColumn = typeof FV_COLUMNS[number];
+
+export const ORDINALS_KR = ['첫', '두번째', '세번째', '네번째', '다섯번째', '여섯번째', '일곱번째', '여덟번째', '아홉번째', '열번째'];
+
+export interface ReportSubject {
+  id: number;
+  category: SubjectCategory;
+  name: string;
+  credits: number;
+  type: '이론' | '실습';
+}
+
+export interface ReportExtraCredit {
+  name: string;
+  credits: number;
+  credit_type: string;
+}
+
+export interface PlanReportSemester {
+  id: number;
+  classNumber: number;
+  monthRange: string;
+  subjects: (ReportSubject & { columns: Record<FvColumn, number> })[];
+  subtotal: Record<FvColumn, number>;
+}
+
+export interface PlanReportGroup {
+  year: string;
+  term: number;
+  ordinalLabel: string;
+  semesters: PlanReportSemester[];
+}
+
+export interface PlanReport {
+  student: Student;
+  config: PlanConfig;
+  groups: PlanReportGroup[];
+  totals: Record<FvColumn, number>;
+  centers: { name: string; used: number; limit: number | null }[];
+  prevSubjects: ReportExtraCredit[];
+  certs: ReportExtraCredit[];
+  dokaksa: ReportExtraCredit[];
+  totalCredits: number;
+  targets: { label: string; color: string; target: number; earned: number }[];
+}
+
+/** 학기 기간 → "11월~5월" */
+export function getMonthRange(dates: { start: string; end: string } | undefined) {
+  if (!dates?.start && !dates?.end) return '';
+  const fmt = (s: string) => `${new Date(s).getMonth() + 1}월`;
+  if (dates.start && dates.end) return `${fmt(dates.start)}~${fmt(dates.end)}`;
+  return dates.start ? `${fmt(dates.start)}~` : '';
+}
+
+/** 과목이 전체보기 열(전공/교양/실습)에 몇 학점으로 잡히는지 */
+export function getColumnCredits(subject: Pick<ReportSubject, 'category' | 'type' | 'credits'>, col: FvColumn) {
+  if (col === '전공') return subject.category === '전공' ? subject.credits : 0;
+  if (col === '교양') return subject.category === '교양' ? subject.credits : 0;
+  return subject.type === '실습' ? subject.credits : 0;
+}
+
+const emptyColumns = (): Record<FvColumn, number> => ({ 전공: 0, 교양: 0, 실습: 0 });
+
+export function buildPlanReport(params: {
+  student: Student;
+  rules: PlanRuleSet[];
+  subjects: ReportSubject[];
+  plan: PlanState;
+  prevSubjects: (ReportExtraCredit & { category: SubjectCategory })[];
+  certs: ReportExtraCredit[];
+  dokaksa: ReportExtraCredit[];
+}): PlanReport {
+  const { student, plan } = params;
+  const subjectMap = new Map(params.subjects.map((s) => [s.id, s]));
+  const config = getPlanConfig(params.rules, student.education_level, student.courses?.name, student.desired_degree);
+
+  // 같은 year+term 끼리 그룹 (순서 유지)
+  const groups: PlanReportGroup[] = [];
+  plan.semesters.forEach((sem) => {
+    let group = groups.find((g) => g.year === sem.year && g.term === sem.term);
+    if (!group) {
+      const idx = groups.length;
+      group = { year: sem.year, term: sem.term, ordinalLabel: `${ORDINALS_KR[idx] ?? `${idx + 1}번째`}학기`, semesters: [] };
+      groups.push(group);
+    }
+    const subjects = (plan.semesterSubjects[sem.id] ?? [])
+      .map((sid) => subjectMap.get(sid))
+      .filter((s): s is ReportSubject => !!s)
+      .map((s) => ({
+        ...s,
+        columns: Object.fromEntries(FV_COLUMNS.map((c) => [c, getColumnCredits(s, c)])) as Record<FvColumn, number>,
+      }));
+    const subtotal = emptyColumns();
+    subjects.forEach((s) => FV_COLUMNS.forEach((c) => { subtotal[c] += s.columns[c]; }));
+    group.semesters.push({
+      id: sem.id,
+      classNumber: sem.class_number,
+      monthRange: getMonthRange(plan.semesterDates[sem.id]),
+      subjects,
+      subtotal,
+    });
+  });
+
+  const totals = emptyColumns();
+  groups.forEach((g) => g.semesters.forEach((s) => FV_COLUMNS.forEach((c) => { totals[c] += s.subtotal[c]; })));
+
+  // 영역별 이수 학점 — 배정 과목 + 전적대 + 독학사 + 자격증
+  const byCategory: Record<string, number> = {};
+  Object.values(plan.semesterSubjects).flat().forEach((sid) => {
+    const s = subjectMap.get(sid);
+    if (s) byCategory[s.category] = (byCategory[s.category] ?? 0) + s.credits;
+  });
+  params.prevSubjects.forEach((s) => { byCategory[s.category] = (byCategory[s.category] ?? 0) + s.credits; });
+  params.dokaksa.forEach((d) => { byCategory[d.credit_type] = (byCategory[d.credit_type] ?? 0) + d.credits; });
+  params.certs.forEach((c) => { byCategory[c.credit_type] = (byCategory[c.credit_type] ?? 0) + c.credits; });
+  const totalCredits = Object.values(byCategory).reduce((a, b) => a + b, 0);
+
+  // 교육원별 학점 분배 (앞 교육원부터 한도까지 채움)
+  const limit = getCenterCreditLimit(student.education_level);
+  let remaining = totalCredits;
+  const centers = studentCenterNames(student).map((name) => {
+    const used = limit !== null ? Math.min(remaining, limit) : remaining;
+    remaining = limit !== null ? Math.max(0, remaining - limit) : 0;
+    return { name, used, limit };
+  });
+
+  return {
+    student,
+    config,
+    groups,
+    totals,
+    centers,
+    prevSubjects: params.prevSubjects,
+    certs: params.certs,
+    dokaksa: params.dokaksa,
+    totalCredits,
+    targets: config.targets.map((t) => ({
+      label: t.label,
+      color: t.color,
+      target: t.target,
+      earned: t.categories.reduce((sum, c) => sum + (byCategory[c] ?? 0), 0),
+    })),
+  };
+}
+
+/** 학생 한 명의 플랜 출력 데이터를 불러온다 (없는 학생이면 null) */
+export async function fetchPlanReport(supabase: SupabaseClient, studentId: string): Promise<PlanReport | null> {
+  const [report] = await fetchPlanReports(supabase, [studentId]);
+  return report ?? null;
+}
+
+// 일괄 조회 시 한 번에 in() 으로 묶는 학생 수 (URL 길이 · 행 수 제한)
+const FETCH_CHUNK = 50;
+
+/** 여러 학생의 플랜 출력 데이터를 묶어서 불러온다 (입력 순서 유지, 없는 학생은 제외) */
+export async function fetchPlanReports(supabase: SupabaseClient, studentIds: string[]): Promise<PlanReport[]> {
+  if (studentIds.length === 0) return [];
+  const { data: rules } = await supabase.from('plan_rule_sets').select('*').order('sort_order');
+
+  const reports: PlanReport[] = [];
+  for (let i = 0; i < studentIds.length; i += FETCH_CHUNK) {
+    const ids = studentIds.slice(i, i + FETCH_CHUNK);
+    const [studentsRes, subjectsRes, planRes, prevRes, certsRes, dokaksaRes] = await Promise.all([
+      supabase.from('students').select(`*, courses(*), ${STUDENT_RELATIONS}`).in('id', ids),
+      supabase.from('subjects').select('id, category, name, credits, type, student_id').or(`student_id.is.null,student_id.in.(${ids.join(',')})`),
+      supabase.from('plan_semesters').select(`student_id, ${PLAN_SEMESTER_SELECT}`).in('student_id', ids).order('sort_order'),
+      supabase.from('student_prev_subjects').select('student_id, name, credits, category').in('student_id', ids).order('created_at'),
+      supabase.from('student_credit_certs').select('student_id, name, credits, credit_type').in('student_id', ids).order('created_at'),
+      supabase.from('student_dokaksa').select('student_id, subject_name, credits, credit_type').in('student_id', ids).order('created_at'),
+    ]);
+
+    const students = new Map(((studentsRes.data ?? []) as Student[]).map((s) => [s.id, s]));
+    const subjects = (subjectsRes.data ?? []) as (ReportSubject & { student_id: string | null })[];
+    const planRows = (planRes.data ?? []) as unknown as (PlanSemesterRow & { student_id: string })[];
+
+    ids.forEach((id) => {
+      const student = students.get(id);
+      if (!student) return;
+      reports.push(buildPlanReport({
+        student,
+        rules: (rules ?? []) as PlanRuleSet[],
+        subjects: subjects.filter((s) => s.student_id === null || s.student_id === id),
+        plan: fromPlanRows(planRows.filter((r) => r.student_id === id)),
+        prevSubjects: (prevRes.data ?? []).filter((p) => p.student_id === id)
+          .map((p) => ({ name: p.name, credits: p.credits, credit_type: p.category, category: p.category })),
+        certs: (certsRes.data ?? []).filter((c) => c.student_id === id)
+          .map((c) => ({ name: c.name, credits: c.credits, credit_type: c.credit_type })),
+        dokaksa: (dokaksaRes.data ?? []).filter((d) => d.student_id === id)
+          .map((d) => ({ name: d.subject_name, credits: d.credits, credit_type: d.credit_type })),
+      }));
+    });
+  }
+  return reports;
+}
@@ -0,0 +1,62 @@
+import type { PlanConfig, PlanRuleSet } from '@/types';
+
+/** 일치하는 규칙이 하나도 없을 때 사용하는 기본 플랜 (전공 51학점) */
+export const DEFAULT_PLAN_CONFIG: PlanConfig = {
+  isHighSchool: false,
+  totalTarget: 51,
+  subjectTarget: 8,
+  targets: [
+    { label: '전공', categories: ['전공'], target: 51, color: '#3182F6' },
+  ],
+};
+
+/**
+ * 학생의 학력 · 과정명 · 희망학위가 규칙 조건에 맞는지 검사한다.
+ * 빈 조건(빈 배열, null 키워드)은 "전체"로 취급한다.
+ */
+export function matchesPlanRule(
+  rule: PlanRuleSet,
+  educationLevel: string | null,
+  courseName?: string | null,
+  desiredDegree?: string | null,
+): boolean {
+  if (rule.education_levels.length > 0 && !(rule.education_levels as string[]).includes(educationLevel ?? '')) return false;
+  if (rule.course_keyword && !courseName?.includes(rule.course_keyword)) return false;
+  if (rule.desired_degrees.length > 0 && !(rule.desired_degrees as string[]).includes(desiredDegree ?? '')) return false;
+  return true;
+}
+
+/** sort_order 순으로 검사해 처음 일치하는 규칙을 돌려준다. */
+export function findPlanRule(
+  rules: PlanRuleSet[],
+  educationLevel: string | null,
+  courseName?: string | null,
+  desiredDegree?: string | null,
+): PlanRuleSet | null {
+  const ordered = [...rules].sort((a, b) => a.sort_order - b.sort_order);
+  return ordered.find((r) => matchesPlanRule(r, educationLevel, courseName, desiredDegree)) ?? null;
+}
+
+export function toPlanConfig(rule: PlanRuleSet): PlanConfig {
+  const hasPractice = rule.practice_required !== null || rule.practice_elective !== null;
+  return {
+    isHighSchool: rule.is_high_school,
+    totalTarget: rule.total_target,
+    subjectTarget: rule.subject_target,
+    targets: rule.targets,
+    practice: hasPractice
+      ? { required: rule.practice_required ?? 0, elective: rule.practice_elective ?? 0 }
+      : undefined,
+    showPrevSubjects: rule.show_prev_subjects,
+  };
+}
+
+export function getPlanConfig(
+  rules: PlanRuleSet[],
+  educationLevel: string | null,
+  courseName?: string | null,
+  desiredDegree?: string | null,
+): PlanConfig {
+  const rule = findPlanRule(rules, educationLevel, courseName, desiredDegree);
+  return rule ? toPlanConfig(rule) : DEFAULT_PLAN_CONFIG;
+}
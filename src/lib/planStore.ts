@@ -0,0 +1,80 @@
+// 학습플랜 저장 형식 변환 — plan_semesters / plan_semester_subjects 행 ↔ 플랜 화면 상태
+
+export const PLAN_SEMESTER_SELECT =
+  'client_id, year, term, class_number, start_date, end_date, plan_semester_subjects(subject_id, score, sort_order)';
+
+export interface PlanSemesterRow {
+  client_id: number;
+  year: string;
+  term: number;
+  class_number: number;
+  start_date: string | null;
+  end_date: string | null;
+  plan_semester_subjects: { subject_id: number; score: number | null; sort_order: number }[];
+}
+
+export interface PlanState {
+  semesters: { id: number; year: string; term: number; class_number: number }[];
+  semesterSubjects: Record<number, number[]>;
+  semesterDates: Record<number, { start: string; end: string }>;
+  semesterScores: Record<number, Record<number, number>>;
+}
+
+/** DB 행(sort_order 순) → 화면 상태. 학기 id는 client_id를 그대로 사용 */
+export function fromPlanRows(rows: PlanSemesterRow[]): PlanState {
+  const state: PlanState = { semesters: [], semesterSubjects: {}, semesterDates: {}, semesterScores: {} };
+  rows.forEach((r) => {
+    const semId = r.client_id;
+    state.semesters.push({ id: semId, year: r.year, term: r.term, class_number: r.class_number ?? 1 });
+    const subjects = [...(r.plan_semester_subjects ?? [])].sort((a, b) => a.sort_order - b.sort_order);
+    if (subjects.length) state.semesterSubjects[semId] = subjects.map((s) => s.subject_id);
+    if (r.start_date || r.end_date) state.semesterDates[semId] = { start: r.start_date ?? '', end: r.end_date ?? '' };
+    subjects.forEach((s) => {
+      if (s.score == null) return;
+      state.semesterScores[semId] = { ...state.semesterScores[semId], [s.subject_id]: Number(s.score) };
+    });
+  });
+  return state;
+}
+
+export interface PlanSnapshotSemester {
+  client_id: number;
+  year: string;
+  term: number;
+  class_number: number;
+  start_date: string | null;
+  end_date: string | null;
+  subjects: { subject_id: number; score: number | null }[];
+}
+
+/** save_student_plan 인자 · plan_versions.snapshot 공통 형식 */
+export type PlanSnapshot = PlanSnapshotSemester[];
+
+/** 화면 상태 → save_student_plan RPC 인자 (p_semesters) */
+export function toPlanPayload(state: PlanState): PlanSnapshot {
+  return state.semesters.map((s) => ({
+    client_id: s.id,
+    year: s.year,
+    term: s.term,
+    class_number: s.class_number,
+    start_date: state.semesterDates[s.id]?.start || null,
+    end_date: state.semesterDates[s.id]?.end || null,
+    subjects: (state.semesterSubjects[s.id] ?? []).map((subjectId) => ({
+      subject_id: subjectId,
+      score: state.semesterScores[s.id]?.[subjectId] ?? null,
+    })),
+  }));
+}
+
+/** 스냅샷 → 화면 상태 (버전 복원용) */
+export function fromPlanPayload(snapshot: PlanSnapshot): PlanState {
+  return fromPlanRows(snapshot.map((s) => ({
+    client_id: s.client_id,
+    year: s.year,
+    term: s.term,
+    class_number: s.class_number,
+    start_date: s.start_date,
+    end_date: s.end_date,
+    plan_semester_subjects: s.subjects.map((sub, j) => ({ subject_id: sub.subject_id, score: sub.score, sort_order: j })),
+  })));
+}
@@ -0,0 +1,192 @@
+// 학습플랜 검증 — 플랜 화면과 /api/plans/[studentId]/validate · save 에서 같이 사용 (규칙은 여기 한 곳에만)
+
+export const MAX_PER_SEMESTER     = 8;   // 학기당 최대 과목 수 (기수 합산)
+export const MAX_PER_YEAR         = 14;  // 연간 최대 과목 수 (1학기+2학기 합산)
+export const CENTER_ADD_THRESHOLD = 60;  // 교육원 추가 안내 기준 학점
+
+export type ViolationSeverity = 'error' | 'warning';
+
+export type ViolationCode =
+  | 'semester_subject_limit'
+  | 'year_subject_limit'
+  | 'duplicate_subject'
+  | 'unknown_subject'
+  | 'cert_total_limit'
+  | 'cert_ilban_limit'
+  | 'center_credit_limit';
+
+export interface PlanViolation {
+  code: ViolationCode;
+  severity: ViolationSeverity;
+  message: string;
+  semesterKey?: string;   // `${year}-${term}` (기수 합산 학기 그룹)
+  semesterId?: number;
+  year?: string;
+  subjectId?: number;
+  certId?: string;
+  count?: number;         // 과목 수 제한 — 학기 그룹 · 연도의 과목 수
+}
+
+export interface ValidationSemester {
+  id: number;
+  year: string;
+  term: number;
+}
+
+export interface ValidationSubject {
+  id: number;
+  name: string;
+  credits: number;
+}
+
+export interface ValidationCert {
+  id: string;
+  credit_type: '전공' | '일반';
+}
+
+export interface PlanValidationInput {
+  semesters: ValidationSemester[];
+  semesterSubjects: Record<number, number[]>;
+  subjects: ValidationSubject[];
+  certs: ValidationCert[];
+  educationLevel: string | null;
+  desiredDegree: string | null;
+  centerNames: string[];
+  totalCredits: number;        // 전적대·자격증·독학사 포함 총 학점
+}
+
+/** 학력별 교육원 1곳당 인정 학점 한도 (없으면 null) */
+export function getCenterCreditLimit(educationLevel: string | null | undefined): number | null {
+  if (!educationLevel) return null;
+  if (educationLevel.startsWith('4년제')) return 105;
+  if (educationLevel.startsWith('3년제')) return 90;
+  if (educationLevel.startsWith('2년제')) return 60;
+  return null;
+}
+
+/** 희망학위별 학점인정 자격증 최대 개수 (학사 3개, 그 외 2개) */
+export function getMaxCerts(desiredDegree: string | null | undefined): number {
+  return desiredDegree === '학사' ? 3 : 2;
+}
+
+export function validatePlan(input: PlanValidationInput): PlanViolation[] {
+  const violations: PlanViolation[] = [];
+  const { semesters, semesterSubjects, subjects } = input;
+  const subjectMap = new Map(subjects.map((s) => [s.id, s]));
+
+  // 학기 그룹(year+term) · 연도별 과목 수
+  const groups = new Map<string, ValidationSemester[]>();
+  const years = new Map<string, number>();
+  semesters.forEach((s) => {
+    const key = `${s.year}-${s.term}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(s);
+    years.set(s.year, (years.get(s.year) ?? 0) + (semesterSubjects[s.id] ?? []).length);
+  });
+
+  groups.forEach((groupSems, key) => {
+    const count = groupSems.reduce((sum, s) => sum + (semesterSubjects[s.id] ?? []).length, 0);
+    if (count > MAX_PER_SEMESTER) {
+      const rep = groupSems[0];
+      violations.push({
+        code: 'semester_subject_limit',
+        severity: 'error',
+        message: `${rep.year}년 ${rep.term}학기 ${count}과목 — 학기당 최대 ${MAX_PER_SEMESTER}과목까지 수강 가능합니다. (기수 합산 기준)`,
+        semesterKey: key,
+        semesterId: rep.id,
+        year: rep.year,
+        count,
+      });
+    }
+  });
+
+  years.forEach((count, year) => {
+    if (count > MAX_PER_YEAR) {
+      violations.push({
+        code: 'year_subject_limit',
+        severity: 'error',
+        message: `${year}년도 ${count}과목 — 연간 최대 ${MAX_PER_YEAR}과목까지 수강 가능합니다. (1학기+2학기 합산 기준)`,
+        year,
+        count,
+      });
+    }
+  });
+
+  // 과목 중복 배정 / 존재하지 않는 과목
+  const seen = new Set<number>();
+  semesters.forEach((sem) => {
+    (semesterSubjects[sem.id] ?? []).forEach((sid) => {
+      const subj = subjectMap.get(sid);
+      if (!subj) {
+        violations.push({
+          code: 'unknown_subject',
+          severity: 'error',
+          message: `${sem.year}년 ${sem.term}학기에 존재하지 않는 과목(#${sid})이 배정되어 있습니다.`,
+          semesterKey: `${sem.year}-${sem.term}`,
+          semesterId: sem.id,
+          subjectId: sid,
+        });
+        return;
+      }
+      if (seen.has(sid)) {
+        violations.push({
+          code: 'duplicate_subject',
+          severity: 'error',
+          message: `"${subj.name}" 과목이 여러 학기에 중복 배정되어 있습니다.`,
+          semesterKey: `${sem.year}-${sem.term}`,
+          semesterId: sem.id,
+          subjectId: sid,
+        });
+      }
+      seen.add(sid);
+    });
+  });
+
+  // 학점인정 자격증 개수
+  const maxCerts = getMaxCerts(input.desiredDegree);
+  if (input.certs.length > maxCerts) {
+    violations.push({
+      code: 'cert_total_limit',
+      severity: 'error',
+      message: `학점인정 자격증은 최대 ${maxCerts}개까지 추가할 수 있습니다. (${input.desiredDegree === '학사' ? '일반학사' : '전문학사'} 기준)`,
+      certId: input.certs[input.certs.length - 1].id,
+    });
+  }
+  const ilbanCerts = input.certs.filter((c) => c.credit_type === '일반');
+  if (ilbanCerts.length > 1) {
+    violations.push({
+      code: 'cert_ilban_limit',
+      severity: 'error',
+      message: '일반 학점 자격증은 최대 1개까지만 추가할 수 있습니다.',
+      certId: ilbanCerts[ilbanCerts.length - 1].id,
+    });
+  }
+
+  // 교육원 학점 한도
+  const centerLimit = getCenterCreditLimit(input.educationLevel);
+  const centerCount = Math.max(input.centerNames.length, 1);
+  if (centerLimit !== null && input.totalCredits > centerLimit * centerCount) {
+    violations.push({
+      code: 'center_credit_limit',
+      severity: 'warning',
+      message: `총 ${input.totalCredits}학점이 교육원 ${centerCount}곳의 인정 한도(${centerLimit * centerCount}학점)를 넘었습니다. 교육원을 추가해 주세요.`,
+    });
+  }
+
+  return violations;
+}
+
+const violationKey = (v: PlanViolation) => [v.code, v.semesterKey ?? v.year ?? '', v.subjectId ?? '', v.certId ?? ''].join('|');
+
+/**
+ * 저장 전 플랜(before)에 없던 오류만 — 이미 있던 위반(이전 데이터 등)이 관계없는 수정까지 막지 않도록.
+ * 과목 수 제한은 같은 학기 · 연도라도 과목 수가 늘었으면 새 오류로 본다
+ */
+export function newPlanErrors(before: PlanViolation[], after: PlanViolation[]): PlanViolation[] {
+  const existing = new Map(before.filter((v) => v.severity === 'error').map((v) => [violationKey(v), v]));
+  return after.filter((v) => {
+    if (v.severity !== 'error') return false;
+    const prev = existing.get(violationKey(v));
+    return !prev || (v.count ?? 0) > (prev.count ?? 0);
+  });
+}
@@ -0,0 +1,20 @@
+import type { UserRole } from '@/types';
+
+// 경로별 필요 권한 — proxy 가 요청마다 확인하고, 메뉴 표시에도 같은 표를 쓴다
+// 목록에 없는 경로는 로그인만 하면 접근 가능
+
+export const ROUTE_ROLES: { prefix: string; roles: UserRole[] }[] = [
+  { prefix: '/admin',     roles: ['super_admin'] },
+  { prefix: '/api/admin', roles: ['super_admin'] },
+];
+
+/** 경로에 필요한 역할 (제한이 없으면 null) */
+export function requiredRoles(pathname: string): UserRole[] | null {
+  const rule = ROUTE_ROLES.find((r) => pathname === r.prefix || pathname.startsWith(`${r.prefix}/`));
+  return rule?.roles ?? null;
+}
+
+export function canAccessRoute(role: UserRole | null | undefined, pathname: string) {
+  const roles = requiredRoles(pathname);
+  return !roles || (!!role && roles.includes(role));
+}
@@ -0,0 +1,10 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toActivityLogRow, type ActivityLogInput } from '@/lib/activityLog';
+
+/**
+ * 서버(라우트 핸들러 · proxy)에서 활동 로그를 기록한다. 실패해도 응답을 막지 않는다.
+ * log_activity 는 service role 전용 — createAdminClient() 로 부르고 기록자는 userId (null 이면 시스템 기록)
+ */
+export async function logServerActivity(supabase: SupabaseClient, userId: string | null, params: ActivityLogInput) {
+  await supabase.rpc('log_activity', { p_log: toActivityLogRow(params), p_user_id: userId });
+}
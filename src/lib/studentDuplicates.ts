@@ -0,0 +1,106 @@
+import type { Student } from '@/types';
+
+// 중복 학생 후보 찾기 — 연락처(숫자만 비교) + 이름 유사도
+
+type DuplicateTarget = Pick<Student, 'id' | 'name' | 'phone'>;
+
+export interface DuplicateMatch<T extends DuplicateTarget = DuplicateTarget> {
+  student: T;
+  reasons: string[];
+  score: number;            // 높을수록 같은 사람일 가능성이 큼
+}
+
+/** 010-1234-5678 / 01012345678 / 1012345678 → 01012345678 */
+export function phoneDigits(phone: string | null | undefined) {
+  const d = (phone ?? '').replace(/\D/g, '');
+  return d.length === 10 && d.startsWith('10') ? `0${d}` : d;
+}
+
+const normalizeName = (name: string) => name.replace(/\s/g, '').toLowerCase();
+
+/** 두 문자열의 편집 거리 (Levenshtein) */
+export function editDistance(a: string, b: string) {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+/** 두 학생이 같은 사람일 가능성 — 아니면 null */
+export function matchStudents(a: Pick<Student, 'name' | 'phone'>, b: Pick<Student, 'name' | 'phone'>) {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const pa = phoneDigits(a.phone);
+  const pb = phoneDigits(b.phone);
+  if (pa.length >= 10 && pa === pb) { reasons.push('연락처 일치'); score += 3; }
+  else if (pa.length >= 10 && pb.length >= 10 && pa.slice(-4) === pb.slice(-4) && editDistance(pa, pb) <= 1) {
+    reasons.push('연락처 한 자리 차이'); score += 2;
+  }
+
+  const na = normalizeName(a.name);
+  const nb = normalizeName(b.name);
+  if (na && na === nb) { reasons.push('이름 일치'); score += 2; }
+  else if (na.length >= 2 && nb.length >= 2 && editDistance(na, nb) === 1) { reasons.push('이름 유사'); score += 1; }
+
+  // 이름만 같은 경우는 동명이인일 수 있으므로 연락처 근거가 있거나 이름이 완전히 같을 때만 후보로
+  if (score < 2) return null;
+  return { reasons, score };
+}
+
+/** 저장하려는 학생과 중복으로 보이는 기존 학생 (점수 높은 순) */
+export function findDuplicateStudents<T extends DuplicateTarget>(
+  target: Pick<Student, 'name' | 'phone'>,
+  students: T[],
+  excludeId?: string,
+): DuplicateMatch<T>[] {
+  return students
+    .filter((s) => s.id !== excludeId)
+    .map((s) => {
+      const m = matchStudents(target, s);
+      return m ? { student: s, ...m } : null;
+    })
+    .filter((m): m is DuplicateMatch<T> => m !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 전체 학생 중 중복 후보 쌍 (병합 화면용)
+ * 후보가 되려면 연락처 뒷자리나 이름이 같아야 하므로, 그 기준으로 묶은 뒤 묶음 안에서만 비교
+ */
+export function findDuplicatePairs<T extends DuplicateTarget>(students: T[]) {
+  const buckets = new Map<string, T[]>();
+  const add = (key: string, s: T) => {
+    const group = buckets.get(key);
+    if (group) group.push(s); else buckets.set(key, [s]);
+  };
+  students.forEach((s) => {
+    const digits = phoneDigits(s.phone);
+    if (digits.length >= 10) add(`p:${digits.slice(-4)}`, s);
+    const name = normalizeName(s.name);
+    if (name) add(`n:${name}`, s);
+  });
+
+  const seen = new Set<string>();
+  const pairs: { a: T; b: T; reasons: string[]; score: number }[] = [];
+  buckets.forEach((group) => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const [a, b] = group[i].id < group[j].id ? [group[i], group[j]] : [group[j], group[i]];
+        const key = `${a.id}:${b.id}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const m = matchStudents(a, b);
+        if (m) pairs.push({ a, b, ...m });
+      }
+    }
+  });
+  return pairs.sort((x, y) => y.score - x.score);
+}
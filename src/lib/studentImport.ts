@@ -0,0 +1,192 @@
+import type { Cohort, Course, DesiredDegree, EducationLevel, Manager, StudentFormData, StudentStatus } from '@/types';
+import { sameCohort } from '@/lib/studentRelations';
+
+// 학생 일괄 등록 — 교육원에서 받은 xlsx/csv 행을 StudentFormData 로 변환하고 검증
+
+export const EDUCATION_LEVELS: EducationLevel[] = ['고졸', '2년제중퇴', '2년제졸업', '3년제중퇴', '3년제졸업', '4년제중퇴', '4년제졸업'];
+export const DESIRED_DEGREES: DesiredDegree[] = ['없음', '전문학사', '학사'];
+export const STUDENT_STATUSES: StudentStatus[] = ['등록', '사회복지사-실습예정', '수료', '환불', '삭제예정'];
+
+type ImportField = keyof StudentFormData;
+
+/** 엑셀 헤더 → 필드 (공백 · 괄호 · * 제거 후 비교) */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name:                   ['이름', '성명', '학생명'],
+  phone:                  ['연락처', '전화번호', '휴대폰', '핸드폰', '휴대폰번호'],
+  education_level:        ['최종학력', '학력'],
+  major:                  ['학과', '전공', '학과전공'],
+  desired_degree:         ['희망학위', '희망학위과정', '학위'],
+  status:                 ['상태'],
+  course_id:              ['과정', '희망자격증과정', '자격증과정', '희망과정'],
+  manager_id:             ['담당자', '담당'],
+  cost:                   ['비용', '금액', '결제금액'],
+  cohorts:                ['개강반', '기수', '개강반기수'],
+  target_completion_date: ['목표취득예정일', '목표취득일', '취득예정일'],
+  centers:                ['교육원', '등록교육원'],
+  all_care:               ['올케어', '올케어가입여부', '올케어가입'],
+  notes:                  ['메모', '특이사항', '특이사항메모', '비고'],
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['name', 'phone', 'education_level', 'course_id', 'manager_id'];
+
+/** 양식 다운로드용 헤더 (필드별 첫 번째 이름) */
+export const IMPORT_TEMPLATE_HEADERS = (Object.keys(HEADER_ALIASES) as ImportField[]).map((f) => HEADER_ALIASES[f][0]);
+
+const normalizeHeader = (h: unknown) => String(h ?? '').replace(/[\s()*（）]/g, '');
+
+/** 헤더 행에서 필드별 열 위치를 찾는다 */
+export function mapImportHeaders(headers: unknown[]): Partial<Record<ImportField, number>> {
+  const map: Partial<Record<ImportField, number>> = {};
+  headers.forEach((h, idx) => {
+    const key = normalizeHeader(h);
+    const field = (Object.keys(HEADER_ALIASES) as ImportField[]).find((f) => HEADER_ALIASES[f].includes(key));
+    if (field && map[field] === undefined) map[field] = idx;
+  });
+  return map;
+}
+
+/** 01012345678 / 010-1234-5678 / 10 1234 5678 → 010-1234-5678 (형식이 아니면 null) */
+export function normalizePhone(raw: string): string | null {
+  let d = raw.replace(/\D/g, '');
+  if (d.length === 10 && d.startsWith('10')) d = `0${d}`; // 엑셀이 앞자리 0을 지운 경우
+  if (!/^01\d{8,9}$/.test(d)) return null;
+  return d.length === 11 ? `${d.slice(0, 3)}-${d.slice(3, 7)}-${d.slice(7)}` : `${d.slice(0, 3)}-${d.slice(3, 6)}-${d.slice(6)}`;
+}
+
+/**
+ * 개강반 문자열 → 개강반 목록 (여러 개면 콤마 · 슬래시 · 줄바꿈으로 구분)
+ * "2025년 1학기 1기", "2025-1-1", "2025.1.1", "202511" 형식을 받는다.
+ */
+export function parseImportCohorts(raw: string): { cohorts: Cohort[]; invalid: string[] } {
+  const parts = raw.split(/[,/\n]/).map((p) => p.trim()).filter(Boolean);
+  const cohorts: Cohort[] = [];
+  const invalid: string[] = [];
+  parts.forEach((p) => {
+    const m = p.match(/^(\d{4})\s*년?\s*[-.]?\s*([12])\s*학기\s*[-.]?\s*(\d{1,2})\s*기$/)
+      ?? p.match(/^(\d{4})\s*[-.]\s*([12])\s*[-.]\s*(\d{1,2})$/)
+      ?? p.match(/^(\d{4})([12])(\d{1,2})$/);
+    if (!m || Number(m[3]) < 1) { invalid.push(p); return; }
+    const cohort = { year: Number(m[1]), term: Number(m[2]), batch: Number(m[3]) };
+    if (!cohorts.some((c) => sameCohort(c, cohort))) cohorts.push(cohort);
+  });
+  return { cohorts, invalid };
+}
+
+/** 엑셀 날짜(Date) · "2026.02.28" · "2026-2-28" → "2026-02-28" */
+export function parseImportDate(raw: unknown): string | null {
+  if (raw instanceof Date && !isNaN(raw.getTime())) {
+    return `${raw.getFullYear()}-${String(raw.getMonth() + 1).padStart(2, '0')}-${String(raw.getDate()).padStart(2, '0')}`;
+  }
+  const m = String(raw ?? '').trim().match(/^(\d{4})[-./년\s]+(\d{1,2})[-./월\s]+(\d{1,2})일?$/);
+  if (!m) return null;
+  return `${m[1]}-${m[2].padStart(2, '0')}-${m[3].padStart(2, '0')}`;
+}
+
+export interface ImportContext {
+  courses: Course[];
+  managers: Manager[];
+  existingPhones: Set<string>;
+}
+
+export interface ImportRow {
+  rowNumber: number;          // 엑셀 행 번호 (헤더 = 1)
+  form: StudentFormData;
+  courseName: string;
+  managerName: string;
+  errors: string[];
+  warnings: string[];
+}
+
+const cellText = (v: unknown) => (v instanceof Date ? parseImportDate(v) ?? '' : String(v ?? '').trim());
+
+/** 시트(헤더 포함 2차원 배열) → 검증된 행 목록 */
+export function parseImportSheet(sheet: unknown[][], ctx: ImportContext): { rows: ImportRow[]; missingColumns: string[] } {
+  const [headers = [], ...body] = sheet;
+  const columns = mapImportHeaders(headers);
+  const missingColumns = REQUIRED_IMPORT_FIELDS.filter((f) => columns[f] === undefined).map((f) => HEADER_ALIASES[f][0]);
+  const courseByName = new Map(ctx.courses.map((c) => [c.name.replace(/\s/g, ''), c]));
+  const managerByName = new Map(ctx.managers.map((m) => [m.name.replace(/\s/g, ''), m]));
+  const seenPhones = new Set<string>();
+
+  const rows: ImportRow[] = [];
+  body.forEach((cells, i) => {
+    const get = (f: ImportField) => (columns[f] !== undefined ? cells[columns[f]!] : '');
+    const text = (f: ImportField) => cellText(get(f));
+    if ((Object.keys(columns) as ImportField[]).every((f) => !text(f))) return; // 빈 행
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const name = text('name');
+    if (!name) errors.push('이름 없음');
+
+    const rawPhone = text('phone');
+    const phone = rawPhone ? normalizePhone(rawPhone) : null;
+    if (!rawPhone) errors.push('연락처 없음');
+    else if (!phone) errors.push(`연락처 형식 오류 (${rawPhone})`);
+    else if (seenPhones.has(phone)) errors.push('파일 내 중복 연락처');
+    else if (ctx.existingPhones.has(phone)) warnings.push('이미 등록된 연락처');
+    if (phone) seenPhones.add(phone);
+
+    const level = text('education_level').replace(/\s/g, '');
+    if (!level) errors.push('최종학력 없음');
+    else if (!EDUCATION_LEVELS.includes(level as EducationLevel)) errors.push(`알 수 없는 최종학력 (${level})`);
+
+    const degree = text('desired_degree').replace(/\s/g, '');
+    if (degree && !DESIRED_DEGREES.includes(degree as DesiredDegree)) errors.push(`알 수 없는 희망학위 (${degree})`);
+    if (degree && level === '4년제졸업') warnings.push('4년제졸업은 희망학위를 저장하지 않음');
+
+    const status = text('status').replace(/\s/g, '') || '등록';
+    if (!STUDENT_STATUSES.includes(status as StudentStatus)) errors.push(`알 수 없는 상태 (${status})`);
+
+    const courseName = text('course_id');
+    const course = courseByName.get(courseName.replace(/\s/g, ''));
+    if (!courseName) errors.push('과정 없음');
+    else if (!course) errors.push(`등록되지 않은 과정 (${courseName})`);
+
+    const managerName = text('manager_id');
+    const manager = managerByName.get(managerName.replace(/\s/g, ''));
+    if (!managerName) errors.push('담당자 없음');
+    else if (!manager) errors.push(`등록되지 않은 담당자 (${managerName})`);
+    else if (!manager.active) errors.push(`비활성 담당자 (${managerName})`);
+
+    const cohorts = parseImportCohorts(text('cohorts'));
+    if (cohorts.invalid.length > 0) errors.push(`개강반 형식 오류 (${cohorts.invalid.join(', ')})`);
+
+    const rawTarget = get('target_completion_date');
+    const target = cellText(rawTarget) ? parseImportDate(rawTarget) : '';
+    if (target === null) errors.push(`목표취득예정일 형식 오류 (${cellText(rawTarget)})`);
+
+    const rawCost = text('cost');
+    const cost = rawCost.replace(/[,원\s]/g, '');
+    if (cost && !/^\d+$/.test(cost)) errors.push(`비용 형식 오류 (${rawCost})`);
+
+    const centers = Array.from(new Set(text('centers').split(/[,/]/).map((c) => c.trim()).filter(Boolean)));
+
+    rows.push({
+      rowNumber: i + 2,
+      courseName: course?.name ?? courseName,
+      managerName: manager?.name ?? managerName,
+      errors,
+      warnings,
+      form: {
+        name,
+        phone: phone ?? rawPhone,
+        education_level: level as EducationLevel,
+        major: text('major'),
+        desired_degree: level === '4년제졸업' ? '' : (degree as DesiredDegree | ''),
+        status: status as StudentStatus,
+        course_id: course?.id ?? '',
+        manager_id: manager?.id ?? '',
+        cost,
+        cohorts: cohorts.cohorts,
+        target_completion_date: target ?? '',
+        centers,
+        all_care: /^(o|y|yes|예|가입|true|1)$/i.test(text('all_care')),
+        notes: text('notes'),
+      },
+    });
+  });
+
+  return { rows, missingColumns };
+}
@@ -0,0 +1,133 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Cohort, MonthlyEnrollment, Student } from '@/types';
+import { parseCohortKey } from '@/lib/studentRelations';
+
+// 학생 목록 조회 조건 — URL 쿼리와 search_students RPC 사이 변환
+
+export type StudentSort = 'registered_at' | 'name' | 'manager_name' | 'status';
+export type StudentScope = 'active' | 'refund' | 'deleted';
+
+export interface StudentQuery {
+  search: string;
+  status: string;
+  center: string;             // education_centers.id
+  cohort: string;             // cohortKey — "2025-1-3"
+  manager: string;            // managers.id
+  course: string;
+  allcare: string;            // ALLCARE_FILTERS 값
+  sort: StudentSort;
+  desc: boolean;
+  page: number;
+}
+
+export const STUDENT_SORTS: StudentSort[] = ['registered_at', 'name', 'manager_name', 'status'];
+
+export const DEFAULT_STUDENT_QUERY: StudentQuery = {
+  search: '',
+  status: '',
+  center: '',
+  cohort: '',
+  manager: '',
+  course: '',
+  allcare: '',
+  sort: 'registered_at',
+  desc: true,
+  page: 1,
+};
+
+// URL 키 (짧게)
+const PARAM_KEYS: Record<Exclude<keyof StudentQuery, 'desc'>, string> = {
+  search: 'q',
+  status: 'status',
+  center: 'center',
+  cohort: 'cohort',
+  manager: 'manager',
+  course: 'course',
+  allcare: 'allcare',
+  sort: 'sort',
+  page: 'page',
+};
+
+export function parseStudentQuery(params: URLSearchParams): StudentQuery {
+  const get = (key: keyof typeof PARAM_KEYS) => params.get(PARAM_KEYS[key]) ?? '';
+  const sort = get('sort') as StudentSort;
+  const page = Number(get('page'));
+  return {
+    search: get('search'),
+    status: get('status'),
+    center: get('center'),
+    cohort: get('cohort'),
+    manager: get('manager'),
+    course: get('course'),
+    allcare: get('allcare'),
+    sort: STUDENT_SORTS.includes(sort) ? sort : DEFAULT_STUDENT_QUERY.sort,
+    desc: params.has('asc') ? false : DEFAULT_STUDENT_QUERY.desc,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+/** 기본값과 다른 항목만 쿼리 문자열로 */
+export function studentQueryToString(query: StudentQuery) {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_KEYS) as (keyof typeof PARAM_KEYS)[]).forEach((key) => {
+    if (query[key] !== DEFAULT_STUDENT_QUERY[key] && query[key] !== '') params.set(PARAM_KEYS[key], String(query[key]));
+  });
+  if (!query.desc) params.set('asc', '1');
+  return params.toString();
+}
+
+/** 조건에 맞는 학생 (limit 이 null 이면 전체) */
+export async function searchStudents(
+  supabase: SupabaseClient,
+  query: StudentQuery,
+  options: { scope?: StudentScope; limit: number | null; offset?: number },
+): Promise<{ rows: Student[]; total: number; error: string | null }> {
+  const cohort = parseCohortKey(query.cohort);
+  const { data, error } = await supabase.rpc('search_students', {
+    p_search: query.search.trim() || null,
+    p_status: query.status || null,
+    p_center: query.center ? Number(query.center) : null,
+    p_cohort_year: cohort?.year ?? null,
+    p_cohort_term: cohort?.term ?? null,
+    p_cohort_batch: cohort?.batch ?? null,
+    p_manager: query.manager ? Number(query.manager) : null,
+    p_course: query.course ? Number(query.course) : null,
+    p_allcare: query.allcare || null,
+    p_scope: options.scope ?? 'active',
+    p_sort: query.sort,
+    p_desc: query.desc,
+    p_limit: options.limit,
+    p_offset: options.offset ?? 0,
+  });
+  if (error) return { rows: [], total: 0, error: error.message };
+  return { rows: (data?.rows ?? []) as Student[], total: data?.total ?? 0, error: null };
+}
+
+export interface StudentSummary {
+  total: number;
+  enrolled: number;
+  completed: number;
+  refund: number;
+  deleted: number;
+  allcare_mismatch: number;           // 수동 체크와 올케어 구독 상태가 다른 학생
+  allcare_synced_at: string | null;   // 마지막 올케어 동기화
+  monthly: MonthlyEnrollment[];
+  managers: { id: number; name: string; active: boolean }[];   // 담당자 순서대로
+  centers: { id: number; name: string }[];
+  cohorts: Cohort[];          // 최신 개강반부터
+}
+
+const EMPTY_SUMMARY: StudentSummary = {
+  total: 0, enrolled: 0, completed: 0, refund: 0, deleted: 0, allcare_mismatch: 0, allcare_synced_at: null, monthly: [], managers: [], centers: [], cohorts: [],
+};
+
+export async function fetchStudentSummary(supabase: SupabaseClient): Promise<StudentSummary> {
+  const { data } = await supabase.rpc('student_summary');
+  if (!data) return EMPTY_SUMMARY;
+  const byKo = (a: string, b: string) => a.localeCompare(b, 'ko', { numeric: true });
+  const summary = data as StudentSummary;
+  return {
+    ...summary,
+    centers: [...summary.centers].sort((a, b) => byKo(a.name, b.name)),
+  };
+}
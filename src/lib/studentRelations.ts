@@ -0,0 +1,64 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Cohort, Student } from '@/types';
+
+// 학생 담당자(managers) · 개강반(student_cohorts) · 등록교육원(student_centers) 읽기/쓰기
+
+/** students 조회 시 함께 불러올 관계 */
+export const STUDENT_RELATIONS = 'managers(*), student_cohorts(*), student_centers(*, education_centers(*))';
+
+/** (2025, 1, 3) → "2025년 1학기 3기" */
+export function formatCohort(c: Cohort) {
+  return `${c.year}년 ${c.term}학기 ${c.batch}기`;
+}
+
+/** "2025년 1학기 3기" → { year, term, batch } (형식이 다르면 null) */
+export function parseCohort(label: string): Cohort | null {
+  const m = label.trim().match(/^(\d{4})년\s*(\d+)학기\s*(\d+)기$/);
+  if (!m || Number(m[2]) < 1 || Number(m[3]) < 1) return null;
+  return { year: Number(m[1]), term: Number(m[2]), batch: Number(m[3]) };
+}
+
+export const sameCohort = (a: Cohort, b: Cohort) => a.year === b.year && a.term === b.term && a.batch === b.batch;
+
+/** URL 필터 값 — "2025-1-3" */
+export const cohortKey = (c: Cohort) => `${c.year}-${c.term}-${c.batch}`;
+
+export function parseCohortKey(key: string): Cohort | null {
+  const m = key.match(/^(\d{4})-(\d+)-(\d+)$/);
+  return m ? { year: Number(m[1]), term: Number(m[2]), batch: Number(m[3]) } : null;
+}
+
+/** 학생의 개강반 (등록 순서) */
+export function studentCohorts(student: Pick<Student, 'student_cohorts'> | null | undefined): Cohort[] {
+  return [...(student?.student_cohorts ?? [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(({ year, term, batch }) => ({ year, term, batch }));
+}
+
+/** 학생의 등록교육원 이름 (학점을 채우는 순서) */
+export function studentCenterNames(student: Pick<Student, 'student_centers'> | null | undefined): string[] {
+  return [...(student?.student_centers ?? [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((c) => c.education_centers?.name ?? '')
+    .filter(Boolean);
+}
+
+/** 학생의 등록교육원 id (같은 순서) */
+export function studentCenterIds(student: Pick<Student, 'student_centers'> | null | undefined): number[] {
+  return [...(student?.student_centers ?? [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((c) => c.center_id);
+}
+
+export interface StudentRelationsInput {
+  student_id: string;
+  cohorts?: Cohort[];       // 있으면 통째로 교체
+  centers?: string[];       // 교육원 이름 — 있으면 통째로 교체
+}
+
+/** 여러 학생의 개강반 · 등록교육원을 한 번에 저장 (실패 시 에러 메시지) */
+export async function saveStudentRelations(supabase: SupabaseClient, rows: StudentRelationsInput[]) {
+  if (rows.length === 0) return null;
+  const { error } = await supabase.rpc('save_student_relations', { p_rows: rows });
+  return error?.message ?? null;
+}
@@ -0,0 +1,43 @@
+import type { ActivityLog, StudentContact, StudentMemo } from '@/types';
+
+// 학생 상세 변경이력 — 메모 · 연락기록 · 활동 로그를 한 줄로 (최근 것이 위)
+
+export type TimelineKind = 'memo' | 'contact' | 'status' | 'plan' | 'credit' | 'upload' | 'info';
+
+export const TIMELINE_KINDS: Record<TimelineKind, { label: string; color: string; bg: string }> = {
+  memo:    { label: '메모',      color: '#3182F6', bg: '#EEF5FF' },
+  contact: { label: '연락',      color: '#059669', bg: '#ECFDF5' },
+  status:  { label: '상태 변경', color: '#DC2626', bg: '#FEF2F2' },
+  plan:    { label: '플랜',      color: '#7C3AED', bg: '#F5F3FF' },
+  credit:  { label: '이수인정',  color: '#D97706', bg: '#FFFBEB' },
+  upload:  { label: '업로드',    color: '#0891B2', bg: '#ECFEFF' },
+  info:    { label: '정보 수정', color: '#6B7684', bg: '#F2F4F6' },
+};
+
+export type TimelineItem =
+  | { kind: 'memo'; at: string; memo: StudentMemo }
+  | { kind: 'contact'; at: string; contact: StudentContact }
+  | { kind: Exclude<TimelineKind, 'memo' | 'contact'>; at: string; log: ActivityLog };
+
+const PLAN_TARGETS = ['plan', 'subject'];
+const CREDIT_TARGETS = ['cert', 'dokaksa', 'prev_subject'];
+const UPLOAD_TARGETS = ['credit_history', 'transcript', 'document'];
+
+export function logTimelineKind(log: ActivityLog): Exclude<TimelineKind, 'memo' | 'contact'> {
+  const target = log.target_type ?? '';
+  if (UPLOAD_TARGETS.includes(target)) return 'upload';
+  if (PLAN_TARGETS.includes(target)) return 'plan';
+  if (CREDIT_TARGETS.includes(target)) return 'credit';
+  if (log.before_data?.status !== undefined || log.after_data?.status !== undefined) return 'status';
+  return 'info';
+}
+
+export function buildStudentTimeline(memos: StudentMemo[], contacts: StudentContact[], logs: ActivityLog[]): TimelineItem[] {
+  const items: TimelineItem[] = [
+    ...memos.map((memo) => ({ kind: 'memo' as const, at: memo.created_at, memo })),
+    // 연락은 실제 연락한 날 기준 (같은 날이면 기록한 순서)
+    ...contacts.map((contact) => ({ kind: 'contact' as const, at: `${contact.contacted_at}T${contact.created_at.slice(11)}`, contact })),
+    ...logs.map((log) => ({ kind: logTimelineKind(log), at: log.created_at, log })),
+  ];
+  return items.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+}
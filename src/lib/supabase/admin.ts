@@ -0,0 +1,26 @@
+import { createClient as createSupabaseClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from './server';
+
+/** service role 클라이언트 — 서버 라우트 전용 (RLS 를 타지 않음). 키가 없으면 null */
+export function createAdminClient(): SupabaseClient | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) return null;
+  return createSupabaseClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+}
+
+/** 요청한 사용자가 활성 슈퍼관리자인지 확인하고 service role 클라이언트를 돌려준다 */
+export async function requireSuperAdmin(): Promise<
+  { admin: SupabaseClient; userId: string; error?: never } | { error: string; status: number }
+> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: 'Unauthorized', status: 401 };
+
+  const { data: profile } = await supabase.from('profiles').select('role, active').eq('id', user.id).single();
+  if (profile?.role !== 'super_admin' || !profile.active) return { error: 'Forbidden', status: 403 };
+
+  const admin = createAdminClient();
+  if (!admin) return { error: 'SUPABASE_SERVICE_ROLE_KEY not configured', status: 500 };
+  return { admin, userId: user.id };
+}
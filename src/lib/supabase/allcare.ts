@@ -0,0 +1,9 @@
+import { createClient as createSupabaseClient, type SupabaseClient } from '@supabase/supabase-js';
+
+/** 올케어(별도 서비스) DB 의 service role 클라이언트 — 서버 라우트 전용. 키가 없으면 null */
+export function createAllcareClient(): SupabaseClient | null {
+  const url = process.env.ALLCARE_SUPABASE_URL;
+  const key = process.env.ALLCARE_SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) return null;
+  return createSupabaseClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+}
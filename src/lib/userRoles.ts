@@ -0,0 +1,13 @@
+import type { UserRole } from '@/types';
+
+// 계정 역할 — 목록 순서는 권한이 넓은 순
+
+export const USER_ROLES: UserRole[] = ['super_admin', 'admin', 'counselor'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  super_admin: '최상위관리자',
+  admin: '관리자',
+  counselor: '상담사',
+};
+
+export const isUserRole = (v: unknown): v is UserRole => USER_ROLES.includes(v as UserRole);
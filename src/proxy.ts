@@ -1,5 +1,10 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
+import { requiredRoles } from '@/lib/routeAccess';
+import { ROLE_LABELS } from '@/lib/userRoles';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { logServerActivity } from '@/lib/serverLogger';
+import type { UserRole } from '@/types';
 
 export async function proxy(request: NextRequest) {
   let supabaseResponse = NextResponse.next({ request });
@@ -25,9 +30,10 @@ export async function proxy(request: NextRequest) {
     }
   );
 
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
+  // 역할은 access token 클레임(custom_access_token_hook)에서 읽는다
+  const { data } = await supabase.auth.getClaims();
+  const claims = data?.claims;
+  const userId = claims?.sub;
 
   const isMaintenancePage = request.nextUrl.pathname.startsWith('/maintenance');
 
@@ -38,22 +44,60 @@ export async function proxy(request: NextRequest) {
   }
 
   const isLoginPage = request.nextUrl.pathname.startsWith('/login');
+  // 초대 · 재설정 링크로 들어온 경우 로그인 상태여도 머문다
+  const isSetPasswordPage = request.nextUrl.pathname.startsWith('/login/set-password');
 
-  if (!user && !isLoginPage) {
+  // 예약 작업은 세션 없이 들어오며, 라우트가 CRON_SECRET 으로 직접 확인한다
+  const isCronRoute = request.nextUrl.pathname.startsWith('/api/cron/');
+
+  if (!userId && !isLoginPage && !isCronRoute) {
     const url = request.nextUrl.clone();
     url.pathname = '/login';
     return NextResponse.redirect(url);
   }
 
-  if (user && isLoginPage) {
+  if (userId && isLoginPage && !isSetPasswordPage) {
     const url = request.nextUrl.clone();
     url.pathname = '/students';
     return NextResponse.redirect(url);
   }
 
+  const roles = userId ? requiredRoles(request.nextUrl.pathname) : null;
+  if (userId && roles) {
+    let role = claims?.user_role as UserRole | undefined;
+    let active = claims?.user_active as boolean | undefined;
+    if (!role) {
+      // 훅을 설정하지 않은 프로젝트 — profiles 에서 직접 조회
+      const { data: profile } = await supabase.from('profiles').select('role, active').eq('id', userId).single();
+      role = profile?.role;
+      active = profile?.active;
+    }
+    if (!role || active === false || !roles.includes(role)) {
+      const admin = createAdminClient();
+      if (admin) await logServerActivity(admin, userId, {
+        action: '접근 거부',
+        action_type: 'access',
+        target_type: 'route',
+        target_name: `${request.method} ${request.nextUrl.pathname}`,
+        detail: `필요 권한: ${roles.map((r) => ROLE_LABELS[r]).join(', ')} / 현재: ${role ? ROLE_LABELS[role] : '없음'}`,
+      });
+      return forbiddenResponse(request, supabaseResponse);
+    }
+  }
+
   return supabaseResponse;
 }
 
+// API 는 JSON, 페이지는 주소를 유지한 채 /forbidden 을 403 으로 보여준다
+function forbiddenResponse(request: NextRequest, supabaseResponse: NextResponse) {
+  const response = request.nextUrl.pathname.startsWith('/api/')
+    ? NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    : NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 });
+  // 갱신된 세션 쿠키 유지
+  supabaseResponse.cookies.getAll().forEach((cookie) => response.cookies.set(cookie));
+  return response;
+}
+
 export const config = {
   matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)'],
 };
@@ -1,4 +1,4 @@
-export type UserRole = 'super_admin' | 'admin';
+export type UserRole = 'super_admin' | 'admin' | 'counselor';
 export type StudentStatus = '등록' | '사회복지사-실습예정' | '수료' | '환불' | '삭제예정';
 export type EducationLevel = '고졸' | '2년제중퇴' | '2년제졸업' | '3년제중퇴' | '3년제졸업' | '4년제중퇴' | '4년제졸업';
 export type DesiredDegree = '없음' | '전문학사' | '학사';
@@ -7,6 +7,24 @@ export interface Profile {
   id: string;
   name: string;
   role: UserRole;
+  manager_id: number | null;    // 상담사: 연결된 담당자 (이 담당자의 학생만 접근)
+  active: boolean;              // 비활성 계정은 로그인 · 학생 접근 차단
+  created_at: string;
+}
+
+// /admin/users 목록 (profiles + auth.users)
+export interface AdminUser extends Profile {
+  email: string;
+  last_sign_in_at: string | null;
+  invited_at: string | null;
+  confirmed: boolean;           // 초대 메일로 비밀번호를 설정했는지
+}
+
+export interface Manager {
+  id: number;
+  name: string;
+  sort_order: number;
+  active: boolean;              // 비활성: 기존 학생은 유지, 새 배정 불가
   created_at: string;
 }
 
@@ -22,6 +40,9 @@ export interface Course {
   created_at: string;
 }
 
+// 올케어 구독 상태 — active / cancel_scheduled: 구독 중, none: 회원(구독 없음), not_found: 회원 아님
+export type AllcareStatus = 'active' | 'cancel_scheduled' | 'none' | 'not_found';
+
 export interface Student {
   id: string;
   name: string;
@@ -31,17 +52,59 @@ export interface Student {
   desired_degree: DesiredDegree | null;
   status: StudentStatus;
   course_id: number | null;
-  manager_name: string | null;
+  manager_id: number | null;
   cost: number | null;
-  class_start: string | null;
   target_completion_date: string | null;
-  education_center_name: string | null;
   all_care: boolean;
+  allcare_status: AllcareStatus | null;            // 올케어 DB 동기화 결과 (null: 확인 전)
+  allcare_plan: string | null;
+  allcare_next_billing_date: string | null;
+  allcare_checked_at: string | null;
   notes: string | null;
   registered_at: string;
   created_at: string;
   updated_at: string;
   courses?: Course | null;
+  managers?: Manager | null;
+  student_cohorts?: StudentCohort[];
+  student_centers?: StudentCenter[];
+}
+
+// 개강반 (예: 2025년 1학기 3기 → year 2025, term 1, batch 3)
+export interface Cohort {
+  year: number;
+  term: number;
+  batch: number;
+}
+
+export interface StudentCohort extends Cohort {
+  id: string;
+  student_id: string;
+  sort_order: number;
+  created_at: string;
+}
+
+// 기수 일정 — 교육원별 공식 모집 · 개강 · 종강 · 시험일
+export interface CohortSchedule extends Cohort {
+  id: number;
+  center_id: number;
+  registration_open: string | null;
+  registration_close: string | null;
+  class_start: string | null;
+  class_end: string | null;
+  exam_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// 등록교육원 — sort_order 순서로 학점을 채운다
+export interface StudentCenter {
+  id: string;
+  student_id: string;
+  center_id: number;
+  sort_order: number;
+  created_at: string;
+  education_centers?: EducationCenter | null;
 }
 
 export interface StudentFormData {
@@ -52,16 +115,104 @@ export interface StudentFormData {
   desired_degree: DesiredDegree | '';
   status: StudentStatus;
   course_id: number | '';
-  manager_name: string;
+  manager_id: number | '';
   cost: string;
-  class_start: string;
+  cohorts: Cohort[];
   target_completion_date: string;
-  education_center_name: string;
+  centers: string[];          // 교육원 이름 (처음 보는 이름은 저장 시 education_centers 에 추가)
   all_care: boolean;
   notes: string;
 }
 
+export interface StudentMemo {
+  id: string;
+  student_id: string;
+  content: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface StudentContact {
+  id: string;
+  student_id: string;
+  contact_type: string;
+  content: string;
+  contacted_at: string;
+  created_by: string;
+  created_at: string;
+}
+
 export interface MonthlyEnrollment {
   month: string;
   count: number;
 }
+
+// ── 학습플랜 규칙 ─────────────────────────────────────────────
+
+export type SubjectCategory = '전공' | '교양' | '일반';
+
+export interface PlanTarget {
+  label: string;
+  categories: SubjectCategory[];
+  target: number;
+  color: string;
+}
+
+export interface PracticeRequirement {
+  required: number; // 필수 최소 이수 과목 수
+  elective: number; // 선택 최소 이수 과목 수
+}
+
+export interface PlanConfig {
+  isHighSchool: boolean;
+  totalTarget: number;
+  subjectTarget: number | null;
+  targets: PlanTarget[];
+  practice?: PracticeRequirement;
+  showPrevSubjects?: boolean;
+}
+
+export interface PlanRuleSet {
+  id: number;
+  name: string;
+  sort_order: number;
+  education_levels: EducationLevel[]; // 비어 있으면 모든 학력
+  course_keyword: string | null;      // 과정명에 포함된 문자열 (예: 신법, 구법, 실습)
+  desired_degrees: DesiredDegree[];   // 비어 있으면 모든 희망학위
+  is_high_school: boolean;
+  total_target: number;
+  subject_target: number | null;
+  targets: PlanTarget[];
+  practice_required: number | null;
+  practice_elective: number | null;
+  show_prev_subjects: boolean;
+  created_at: string;
+}
+
+// ── 활동 로그 ─────────────────────────────────────────────────
+
+export type ActivityAction =
+  | 'create' | 'update' | 'delete' | 'restore' | 'save' | 'import' | 'export' | 'sync' | 'view' | 'send' | 'access' | 'archive' | 'other';
+
+/** app: 화면 · 서버 라우트 기록, trigger: 테이블 변경을 DB 가 직접 남긴 기록 */
+export type ActivitySource = 'app' | 'trigger';
+
+/** 변경 전후 값 — 바뀐 필드만 */
+export type LogSnapshot = Record<string, unknown>;
+
+export interface ActivityLog {
+  id: string;
+  user_id: string | null;
+  user_name: string;
+  action: string;                   // 화면에 보이는 문구 (예: "학생 수정")
+  action_type: ActivityAction;
+  target_type: string | null;
+  target_id: string | null;
+  target_name: string | null;
+  student_id: string | null;
+  detail: string | null;
+  before_data: LogSnapshot | null;
+  after_data: LogSnapshot | null;
+  source: ActivitySource;
+  created_at: string;
+}
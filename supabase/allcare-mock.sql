@@ -0,0 +1,46 @@
+-- ============================
+-- 올케어 DB 목업 (로컬 테스트용)
+-- ============================
+-- 학생관리 DB 가 아닌 별도 Supabase 프로젝트(로컬이면 `supabase start` 를 다른 폴더에서)에 실행하고,
+-- .env.local 의 ALLCARE_SUPABASE_URL / ALLCARE_SUPABASE_SERVICE_ROLE_KEY 를 그 프로젝트로 지정한다.
+-- 실제 올케어 DB 중 이 시스템이 읽는 컬럼만 만든다 (users · subscriptions)
+
+create table public.users (
+  id uuid default gen_random_uuid() primary key,
+  name text not null,
+  phone text,                      -- 하이픈 있는/없는 형식이 섞여 있다
+  created_at timestamptz default now()
+);
+
+create table public.subscriptions (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.users(id) on delete cascade not null,
+  status text not null check (status in ('active', 'cancel_scheduled', 'canceled', 'expired')),
+  plan text,
+  next_billing_date date,
+  created_at timestamptz default now()
+);
+
+create index subscriptions_user_idx on public.subscriptions (user_id, created_at desc);
+
+-- service role 로만 읽는다
+alter table public.users enable row level security;
+alter table public.subscriptions enable row level security;
+
+-- 예시 데이터: 학생관리 DB 에 같은 이름 · 번호의 학생을 만들어 확인한다
+with u as (
+  insert into public.users (name, phone) values
+    ('김구독', '010-1111-2222'),       -- 구독 중
+    ('이해지', '01033334444'),         -- 해지 예정 (하이픈 없는 번호)
+    ('박만료', '010-5555-6666'),       -- 회원이지만 구독 만료
+    ('최회원', '010-7777-8888')        -- 구독 이력 없음
+  returning id, name
+)
+insert into public.subscriptions (user_id, status, plan, next_billing_date, created_at)
+select u.id, v.status, v.plan, v.next_billing_date, v.created_at
+  from u
+  join (values
+    ('김구독', 'active',           'monthly', current_date + 20, now()),
+    ('이해지', 'cancel_scheduled', 'yearly',  current_date + 5,  now()),
+    ('박만료', 'expired',          'monthly', null::date,        now() - interval '60 days')
+  ) as v(name, status, plan, next_billing_date, created_at) on v.name = u.name;
@@ -558,3 +558,2509 @@ alter table public.student_contacts enable row level security;
 
 create policy "인증된 유저 연락기록 전체" on public.student_contacts
   for all to authenticated using (true) with check (true);
+
+-- ============================
+-- 학습플랜 규칙 (학력 · 과정 · 희망학위별 목표 학점)
+-- ============================
+
+create table public.plan_rule_sets (
+  id serial primary key,
+  name text not null,
+  sort_order integer not null default 0,      -- 낮은 순서부터 검사, 처음 일치하는 규칙 적용
+  education_levels text[] not null default '{}', -- 비어 있으면 모든 학력
+  course_keyword text,                         -- 과정명 포함 문자열 (신법, 구법, 실습 ...)
+  desired_degrees text[] not null default '{}',  -- 비어 있으면 모든 희망학위
+  is_high_school boolean not null default false, -- 학위과정 (자격증/독학사 섹션 표시)
+  total_target integer not null,
+  subject_target integer,
+  targets jsonb not null default '[]',         -- [{ label, categories, target, color }]
+  practice_required integer,
+  practice_elective integer,
+  show_prev_subjects boolean not null default false,
+  created_at timestamptz default now()
+);
+
+alter table public.plan_rule_sets enable row level security;
+
+create policy "인증된 유저 플랜규칙 조회" on public.plan_rule_sets
+  for select to authenticated using (true);
+
+create policy "슈퍼관리자 플랜규칙 수정" on public.plan_rule_sets
+  for all using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'super_admin')
+  );
+
+-- 기존 getPlanConfig 분기를 그대로 옮긴 초기 규칙
+insert into public.plan_rule_sets
+  (name, sort_order, education_levels, course_keyword, desired_degrees, is_high_school, total_target, subject_target, targets, practice_required, practice_elective, show_prev_subjects)
+values
+  ('실습 과정', 1, '{}', '실습', '{}', false, 6, 6,
+    '[{"label":"전공","categories":["전공"],"target":6,"color":"#3182F6"}]', 4, 2, false),
+  ('중퇴군 + 학사', 2, '{고졸,2년제중퇴,3년제중퇴,4년제중퇴}', null, '{학사}', true, 140, null,
+    '[{"label":"전공","categories":["전공"],"target":60,"color":"#3182F6"},{"label":"교양","categories":["교양"],"target":30,"color":"#059669"},{"label":"일반","categories":["일반"],"target":50,"color":"#D97706"}]', null, null, false),
+  ('중퇴군 (없음/전문학사)', 3, '{고졸,2년제중퇴,3년제중퇴,4년제중퇴}', null, '{}', true, 80, null,
+    '[{"label":"전공","categories":["전공"],"target":45,"color":"#3182F6"},{"label":"교양","categories":["교양"],"target":15,"color":"#059669"},{"label":"일반","categories":["일반"],"target":20,"color":"#D97706"}]', null, null, false),
+  ('2·3년제 졸업 + 학사', 4, '{2년제졸업,3년제졸업}', null, '{학사}', true, 140, null,
+    '[{"label":"전공","categories":["전공"],"target":60,"color":"#3182F6"},{"label":"교양","categories":["교양"],"target":30,"color":"#059669"},{"label":"일반","categories":["일반"],"target":50,"color":"#D97706"}]', null, null, false),
+  ('2년제졸업 + 구법', 5, '{2년제졸업}', '구법', '{}', false, 42, 8,
+    '[{"label":"전공","categories":["전공"],"target":42,"color":"#3182F6"}]', null, null, true),
+  ('2년제졸업 + 신법', 6, '{2년제졸업}', '신법', '{}', false, 51, 8,
+    '[{"label":"전공","categories":["전공"],"target":51,"color":"#3182F6"}]', null, null, true),
+  ('4년제졸업 + 신법', 7, '{4년제졸업}', '신법', '{}', false, 51, 8,
+    '[{"label":"전공","categories":["전공"],"target":51,"color":"#3182F6"}]', null, null, true),
+  ('졸업군', 8, '{2년제졸업,3년제졸업,4년제졸업}', null, '{}', false, 51, 8,
+    '[{"label":"전공","categories":["전공"],"target":51,"color":"#3182F6"}]', null, null, false);
+
+-- ============================
+-- 학습플랜 (학기 · 학기별 과목)
+-- ============================
+
+create table public.plan_semesters (
+  id bigserial primary key,
+  student_id uuid references public.students(id) on delete cascade not null,
+  client_id integer not null,                 -- 플랜 화면에서 쓰는 학기 번호 (학생별 고유)
+  year text not null,
+  term integer not null check (term in (1, 2)),
+  class_number integer not null default 1,    -- 기수
+  start_date date,
+  end_date date,
+  sort_order integer not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (student_id, client_id)
+);
+
+create table public.plan_semester_subjects (
+  id bigserial primary key,
+  semester_id bigint references public.plan_semesters(id) on delete cascade not null,
+  student_id uuid references public.students(id) on delete cascade not null,
+  subject_id bigint references public.subjects(id) on delete cascade not null,
+  score numeric check (score between 0 and 100),
+  sort_order integer not null default 0,
+  created_at timestamptz default now(),
+  unique (semester_id, subject_id)
+);
+
+create index plan_semesters_year_term_idx on public.plan_semesters (year, term);
+create index plan_semester_subjects_student_idx on public.plan_semester_subjects (student_id);
+create index plan_semester_subjects_subject_idx on public.plan_semester_subjects (subject_id);
+
+alter table public.plan_semesters enable row level security;
+alter table public.plan_semester_subjects enable row level security;
+
+create policy "인증된 유저 플랜학기 전체" on public.plan_semesters
+  for all to authenticated using (true) with check (true);
+
+create policy "인증된 유저 플랜과목 전체" on public.plan_semester_subjects
+  for all to authenticated using (true) with check (true);
+
+-- 플랜 저장 (학기 upsert → 빠진 학기 삭제 → 과목 재작성을 한 트랜잭션으로)
+-- p_semesters: [{ client_id, year, term, class_number, start_date, end_date, subjects: [{ subject_id, score }] }]
+create or replace function public.save_student_plan(p_student_id uuid, p_semesters jsonb)
+returns void as $$
+begin
+  delete from public.plan_semesters
+   where student_id = p_student_id
+     and client_id not in (select (s->>'client_id')::integer from jsonb_array_elements(p_semesters) s);
+
+  insert into public.plan_semesters (student_id, client_id, year, term, class_number, start_date, end_date, sort_order)
+  select p_student_id, (s->>'client_id')::integer, s->>'year', (s->>'term')::integer,
+         coalesce((s->>'class_number')::integer, 1),
+         nullif(s->>'start_date', '')::date, nullif(s->>'end_date', '')::date, ord::integer
+    from jsonb_array_elements(p_semesters) with ordinality as e(s, ord)
+  on conflict (student_id, client_id) do update set
+    year = excluded.year,
+    term = excluded.term,
+    class_number = excluded.class_number,
+    start_date = excluded.start_date,
+    end_date = excluded.end_date,
+    sort_order = excluded.sort_order,
+    updated_at = now();
+
+  delete from public.plan_semester_subjects where student_id = p_student_id;
+
+  insert into public.plan_semester_subjects (semester_id, student_id, subject_id, score, sort_order)
+  select ps.id, p_student_id, (x.sub->>'subject_id')::bigint, (x.sub->>'score')::numeric, x.ord::integer
+    from jsonb_array_elements(p_semesters) s
+    join public.plan_semesters ps on ps.student_id = p_student_id and ps.client_id = (s->>'client_id')::integer
+    cross join jsonb_array_elements(coalesce(s->'subjects', '[]')) with ordinality as x(sub, ord)
+  on conflict (semester_id, subject_id) do nothing;
+end;
+$$ language plpgsql;
+
+-- 기존 student_plans JSON → 새 테이블 이관 (JSON 컬럼은 확인 후 삭제)
+insert into public.plan_semesters (student_id, client_id, year, term, class_number, start_date, end_date, sort_order)
+select sp.student_id,
+       (s->>'id')::integer,
+       s->>'year',
+       (s->>'term')::integer,
+       coalesce((s->>'class_number')::integer, 1),
+       nullif(sp.semester_dates::jsonb -> (s->>'id') ->> 'start', '')::date,
+       nullif(sp.semester_dates::jsonb -> (s->>'id') ->> 'end', '')::date,
+       ord::integer
+  from public.student_plans sp
+ cross join jsonb_array_elements(coalesce(sp.semesters::jsonb, '[]')) with ordinality as e(s, ord)
+on conflict (student_id, client_id) do nothing;
+
+insert into public.plan_semester_subjects (semester_id, student_id, subject_id, score, sort_order)
+select ps.id,
+       ps.student_id,
+       x.subject_id::bigint,
+       (sp.semester_scores::jsonb -> ps.client_id::text ->> x.subject_id)::numeric,
+       x.ord::integer
+  from public.student_plans sp
+  join public.plan_semesters ps on ps.student_id = sp.student_id
+ cross join jsonb_array_elements_text(coalesce(sp.semester_subjects::jsonb -> ps.client_id::text, '[]')) with ordinality as x(subject_id, ord)
+ where exists (select 1 from public.subjects sub where sub.id = x.subject_id::bigint)
+on conflict (semester_id, subject_id) do nothing;
+
+-- ============================
+-- 학습플랜 버전 이력 (편집 세션 단위 스냅샷)
+-- ============================
+
+create table public.plan_versions (
+  id bigserial primary key,
+  student_id uuid references public.students(id) on delete cascade not null,
+  session_id uuid not null,                   -- 같은 편집 세션의 자동 저장은 한 버전으로 합침
+  snapshot jsonb not null,                    -- save_student_plan 의 p_semesters 와 같은 형식
+  user_id uuid references auth.users(id) on delete set null,
+  user_name text not null default '',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (student_id, session_id)
+);
+
+create index plan_versions_student_idx on public.plan_versions (student_id, updated_at desc);
+
+alter table public.plan_versions enable row level security;
+
+create policy "인증된 유저 플랜버전 전체" on public.plan_versions
+  for all to authenticated using (true) with check (true);
+
+-- 현재 플랜을 첫 버전으로 저장
+insert into public.plan_versions (student_id, session_id, snapshot, user_name)
+select ps.student_id,
+       gen_random_uuid(),
+       jsonb_agg(jsonb_build_object(
+         'client_id', ps.client_id,
+         'year', ps.year,
+         'term', ps.term,
+         'class_number', ps.class_number,
+         'start_date', ps.start_date,
+         'end_date', ps.end_date,
+         'subjects', coalesce((
+           select jsonb_agg(jsonb_build_object('subject_id', pss.subject_id, 'score', pss.score) order by pss.sort_order)
+             from public.plan_semester_subjects pss
+            where pss.semester_id = ps.id
+         ), '[]'::jsonb)
+       ) order by ps.sort_order),
+       '기존 플랜'
+  from public.plan_semesters ps
+ group by ps.student_id;
+
+-- ============================
+-- 학습플랜 동시 편집 보호 (낙관적 잠금)
+-- ============================
+
+-- student_plans 행을 학생별 플랜 헤더로 사용: revision 이 저장할 때마다 1씩 증가
+alter table public.student_plans add column if not exists revision integer not null default 0;
+alter table public.student_plans add column if not exists updated_by uuid references auth.users(id) on delete set null;
+
+drop function if exists public.save_student_plan(uuid, jsonb);
+
+-- p_expected_revision 이 현재 revision 과 다르면 'plan_conflict' 예외 (detail = 현재 revision)
+-- 성공하면 새 revision 을 돌려준다
+create or replace function public.save_student_plan(p_student_id uuid, p_semesters jsonb, p_expected_revision integer)
+returns integer as $$
+declare
+  v_revision integer;
+begin
+  insert into public.student_plans (student_id, semesters, semester_subjects, semester_dates, semester_scores)
+  values (p_student_id, '[]', '{}', '{}', '{}')
+  on conflict (student_id) do nothing;
+
+  select revision into v_revision from public.student_plans where student_id = p_student_id for update;
+  if v_revision <> p_expected_revision then
+    raise exception 'plan_conflict' using detail = v_revision::text;
+  end if;
+
+  delete from public.plan_semesters
+   where student_id = p_student_id
+     and client_id not in (select (s->>'client_id')::integer from jsonb_array_elements(p_semesters) s);
+
+  insert into public.plan_semesters (student_id, client_id, year, term, class_number, start_date, end_date, sort_order)
+  select p_student_id, (s->>'client_id')::integer, s->>'year', (s->>'term')::integer,
+         coalesce((s->>'class_number')::integer, 1),
+         nullif(s->>'start_date', '')::date, nullif(s->>'end_date', '')::date, ord::integer
+    from jsonb_array_elements(p_semesters) with ordinality as e(s, ord)
+  on conflict (student_id, client_id) do update set
+    year = excluded.year,
+    term = excluded.term,
+    class_number = excluded.class_number,
+    start_date = excluded.start_date,
+    end_date = excluded.end_date,
+    sort_order = excluded.sort_order,
+    updated_at = now();
+
+  delete from public.plan_semester_subjects where student_id = p_student_id;
+
+  insert into public.plan_semester_subjects (semester_id, student_id, subject_id, score, sort_order)
+  select ps.id, p_student_id, (x.sub->>'subject_id')::bigint, (x.sub->>'score')::numeric, x.ord::integer
+    from jsonb_array_elements(p_semesters) s
+    join public.plan_semesters ps on ps.student_id = p_student_id and ps.client_id = (s->>'client_id')::integer
+    cross join jsonb_array_elements(coalesce(s->'subjects', '[]')) with ordinality as x(sub, ord)
+  on conflict (semester_id, subject_id) do nothing;
+
+  update public.student_plans
+     set revision = revision + 1, updated_at = now(), updated_by = auth.uid()
+   where student_id = p_student_id
+  returning revision into v_revision;
+
+  return v_revision;
+end;
+$$ language plpgsql;
+
+-- ============================
+-- 중복 학생 병합
+-- ============================
+
+-- p_merge 학생의 메모 · 연락기록 · 자격증 · 독학사 · 전적대 · 문서 · 플랜을 p_keep 으로 옮기고 p_merge 를 삭제
+-- 플랜: 같은 학기(연도 · 학기 · 기수)는 합치고, 없는 학기는 뒤에 붙인다. 이미 있는 과목은 건너뜀
+-- 옮긴 건수를 jsonb 로 돌려준다 (슈퍼관리자 전용)
+create or replace function public.merge_students(p_keep uuid, p_merge uuid)
+returns jsonb as $$
+declare
+  v_counts jsonb := '{}';
+  v_n integer;
+  v_plan integer;
+  v_client_offset integer;
+  v_sort_offset integer;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'super_admin') then
+    raise exception 'forbidden';
+  end if;
+  if p_keep = p_merge then
+    raise exception 'same_student';
+  end if;
+  perform 1 from public.students where id in (p_keep, p_merge) for update;
+
+  update public.student_memos set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('memos', v_n);
+  update public.student_contacts set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('contacts', v_n);
+  update public.student_credit_certs set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('certs', v_n);
+  update public.student_dokaksa set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('dokaksa', v_n);
+  update public.student_prev_subjects set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('prev_subjects', v_n);
+  update public.student_documents set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('documents', v_n);
+  update public.student_credit_history set student_id = p_keep where student_id = p_merge;
+  -- 학생 전용 과목 (플랜에서 직접 추가한 과목)
+  update public.subjects set student_id = p_keep where student_id = p_merge;
+
+  -- 플랜: 이미 남길 학생 플랜에 있는 과목은 버린다
+  delete from public.plan_semester_subjects pss
+   where pss.student_id = p_merge
+     and exists (select 1 from public.plan_semester_subjects x where x.student_id = p_keep and x.subject_id = pss.subject_id);
+
+  -- 같은 학기가 있으면 그 학기로 과목만 옮긴다
+  update public.plan_semester_subjects pss
+     set semester_id = k.id, student_id = p_keep
+    from public.plan_semesters m
+    join public.plan_semesters k
+      on k.student_id = p_keep and k.year = m.year and k.term = m.term and k.class_number = m.class_number
+   where pss.semester_id = m.id and m.student_id = p_merge;
+  get diagnostics v_plan = row_count;
+
+  delete from public.plan_semesters m
+   where m.student_id = p_merge
+     and exists (select 1 from public.plan_semesters k
+                  where k.student_id = p_keep and k.year = m.year and k.term = m.term and k.class_number = m.class_number);
+
+  -- 나머지 학기는 번호를 뒤로 밀어서 옮긴다
+  select coalesce(max(client_id) + 1, 0), coalesce(max(sort_order), 0)
+    into v_client_offset, v_sort_offset
+    from public.plan_semesters where student_id = p_keep;
+  update public.plan_semesters
+     set student_id = p_keep, client_id = client_id + v_client_offset, sort_order = sort_order + v_sort_offset, updated_at = now()
+   where student_id = p_merge;
+  update public.plan_semester_subjects set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('plan_subjects', v_plan + v_n);
+
+  -- 편집 중인 화면이 다시 불러오도록 revision 증가
+  update public.student_plans set revision = revision + 1, updated_at = now(), updated_by = auth.uid()
+   where student_id = p_keep;
+
+  delete from public.students where id = p_merge;
+  return v_counts;
+end;
+$$ language plpgsql security definer;
+
+-- ============================
+-- 학생 목록 검색 · 요약 (서버 측 필터 / 정렬 / 페이지)
+-- ============================
+
+create index if not exists students_status_registered_idx on public.students (status, registered_at desc);
+
+-- p_scope: 'active' (환불 · 삭제예정 제외) | 'refund' | 'deleted'
+-- p_limit 이 null 이면 전체. { total, rows: [학생 + courses] } 를 돌려준다
+create or replace function public.search_students(
+  p_search text default null,
+  p_status text default null,
+  p_center text default null,
+  p_batch text default null,
+  p_manager text default null,
+  p_course integer default null,
+  p_scope text default 'active',
+  p_sort text default 'registered_at',
+  p_desc boolean default true,
+  p_limit integer default 10,
+  p_offset integer default 0
+)
+returns jsonb as $$
+  with filtered as (
+    select s.*
+      from public.students s
+     where case p_scope
+             when 'refund' then s.status = '환불'
+             when 'deleted' then s.status = '삭제예정'
+             else s.status not in ('환불', '삭제예정')
+           end
+       and (coalesce(p_search, '') = ''
+            or s.name ilike '%' || p_search || '%'
+            or regexp_replace(coalesce(s.phone, ''), '\D', '', 'g') like '%' || nullif(regexp_replace(p_search, '\D', '', 'g'), '') || '%')
+       and (p_status is null or s.status = p_status)
+       and (p_center is null or p_center in (select trim(x) from unnest(string_to_array(s.education_center_name, ',')) x))
+       and (p_batch is null or p_batch in (select trim(x) from unnest(string_to_array(s.class_start, ',')) x))
+       and (p_manager is null or s.manager_name = p_manager)
+       and (p_course is null or s.course_id = p_course)
+  ),
+  paged as (
+    select f.*,
+           row_number() over (order by
+             case when p_sort = 'name' and not p_desc then f.name end asc,
+             case when p_sort = 'name' and p_desc then f.name end desc,
+             case when p_sort = 'manager_name' and not p_desc then f.manager_name end asc nulls last,
+             case when p_sort = 'manager_name' and p_desc then f.manager_name end desc nulls last,
+             case when p_sort = 'status' and not p_desc then f.status end asc,
+             case when p_sort = 'status' and p_desc then f.status end desc,
+             case when not p_desc then f.registered_at end asc,
+             f.registered_at desc,
+             f.id
+           ) as rn
+      from filtered f
+     order by rn
+     limit p_limit offset p_offset
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from filtered),
+    'rows', coalesce((
+      select jsonb_agg((to_jsonb(p) - 'rn') || jsonb_build_object('courses', to_jsonb(c)) order by p.rn)
+        from paged p
+        left join public.courses c on c.id = p.course_id
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- 상단 요약 카드 · 월별 등록 현황 · 필터 선택지
+create or replace function public.student_summary()
+returns jsonb as $$
+  select jsonb_build_object(
+    'total',     (select count(*) from public.students where status not in ('환불', '삭제예정')),
+    'enrolled',  (select count(*) from public.students where status = '등록'),
+    'completed', (select count(*) from public.students where status = '수료'),
+    'refund',    (select count(*) from public.students where status = '환불'),
+    'deleted',   (select count(*) from public.students where status = '삭제예정'),
+    'monthly', coalesce((
+      select jsonb_agg(jsonb_build_object('month', m.month, 'count', m.count) order by m.month desc)
+        from (
+          select to_char(registered_at at time zone 'Asia/Seoul', 'YYYY"년" MM"월"') as month, count(*) as count
+            from public.students
+           group by 1
+        ) m
+    ), '[]'::jsonb),
+    'managers', coalesce((
+      select jsonb_agg(distinct manager_name) from public.students where coalesce(manager_name, '') <> ''
+    ), '[]'::jsonb),
+    'centers', coalesce((
+      select jsonb_agg(distinct trim(x))
+        from public.students s, unnest(string_to_array(s.education_center_name, ',')) x
+       where trim(x) <> ''
+    ), '[]'::jsonb),
+    'batches', coalesce((
+      select jsonb_agg(distinct trim(x))
+        from public.students s, unnest(string_to_array(s.class_start, ',')) x
+       where trim(x) <> ''
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- ============================
+-- 개강반 · 등록교육원 정규화 (students.class_start / education_center_name 쉼표 문자열 → 테이블)
+-- ============================
+
+-- 개강반: 2025년 1학기 3기 → (2025, 1, 3)
+create table public.student_cohorts (
+  id uuid default gen_random_uuid() primary key,
+  student_id uuid references public.students(id) on delete cascade not null,
+  year integer not null,
+  term integer not null check (term > 0),
+  batch integer not null check (batch > 0),
+  sort_order integer not null default 0,
+  created_at timestamptz default now(),
+  unique (student_id, year, term, batch)
+);
+
+create index student_cohorts_key_idx on public.student_cohorts (year, term, batch);
+
+-- 등록교육원: 순서대로 학점을 채우므로 sort_order 유지
+create table public.student_centers (
+  id uuid default gen_random_uuid() primary key,
+  student_id uuid references public.students(id) on delete cascade not null,
+  center_id integer references public.education_centers(id) not null,
+  sort_order integer not null default 0,
+  created_at timestamptz default now(),
+  unique (student_id, center_id)
+);
+
+create index student_centers_center_idx on public.student_centers (center_id);
+
+alter table public.student_cohorts enable row level security;
+alter table public.student_centers enable row level security;
+
+create policy "인증된 유저 개강반 전체" on public.student_cohorts
+  for all to authenticated using (true) with check (true);
+
+create policy "인증된 유저 등록교육원 전체" on public.student_centers
+  for all to authenticated using (true) with check (true);
+
+-- 기존 문자열 이관: 목록에 없는 교육원 이름은 education_centers 에 추가
+insert into public.education_centers (name)
+select distinct trim(x)
+  from public.students s, unnest(string_to_array(s.education_center_name, ',')) x
+ where trim(x) <> ''
+   and not exists (select 1 from public.education_centers c where c.name = trim(x));
+
+insert into public.student_centers (student_id, center_id, sort_order)
+select t.student_id, (select min(c.id) from public.education_centers c where c.name = t.name), min(t.ord) - 1
+  from (
+    select s.id as student_id, trim(x.name) as name, x.ord
+      from public.students s, unnest(string_to_array(s.education_center_name, ',')) with ordinality as x(name, ord)
+  ) t
+ where t.name <> ''
+ group by t.student_id, t.name
+on conflict (student_id, center_id) do nothing;
+
+insert into public.student_cohorts (student_id, year, term, batch, sort_order)
+select t.student_id, t.m[1]::int, t.m[2]::int, t.m[3]::int, min(t.ord) - 1
+  from (
+    select s.id as student_id, regexp_match(trim(x.label), '^(\d{4})년\s*(\d+)학기\s*(\d+)기$') as m, x.ord
+      from public.students s, unnest(string_to_array(s.class_start, ',')) with ordinality as x(label, ord)
+  ) t
+ where t.m is not null
+ group by t.student_id, t.m[1]::int, t.m[2]::int, t.m[3]::int
+on conflict (student_id, year, term, batch) do nothing;
+
+-- 형식이 맞지 않아 옮기지 못한 개강반은 메모에 남긴다
+update public.students s
+   set notes = concat_ws(E'\n', nullif(s.notes, ''), '개강반(이관 전): ' || s.class_start)
+ where exists (
+   select 1 from unnest(string_to_array(s.class_start, ',')) x(label)
+    where trim(x.label) <> '' and trim(x.label) !~ '^(\d{4})년\s*(\d+)학기\s*(\d+)기$'
+ );
+
+alter table public.students drop column class_start;
+alter table public.students drop column education_center_name;
+
+-- 학생별 개강반 · 등록교육원 일괄 저장 (학생 등록 · 수정 · 일괄 등록 · 병합 · 학습플랜)
+-- p_rows: [{ student_id, cohorts?: [{ year, term, batch }], centers?: [교육원 이름] }]
+-- 키가 있는 항목만 통째로 교체한다. 처음 보는 교육원 이름은 education_centers 에 추가
+create or replace function public.save_student_relations(p_rows jsonb)
+returns void as $$
+declare
+  v_row jsonb;
+  v_student uuid;
+  v_name text;
+  v_ord integer;
+  v_center integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  for v_row in select * from jsonb_array_elements(p_rows) loop
+    v_student := (v_row->>'student_id')::uuid;
+
+    if v_row ? 'cohorts' then
+      delete from public.student_cohorts where student_id = v_student;
+      insert into public.student_cohorts (student_id, year, term, batch, sort_order)
+      select v_student, (c->>'year')::int, (c->>'term')::int, (c->>'batch')::int, (t.ord - 1)::int
+        from jsonb_array_elements(v_row->'cohorts') with ordinality as t(c, ord)
+      on conflict (student_id, year, term, batch) do nothing;
+    end if;
+
+    if v_row ? 'centers' then
+      delete from public.student_centers where student_id = v_student;
+      for v_name, v_ord in
+        select trim(t.name), (t.ord - 1)::int
+          from jsonb_array_elements_text(v_row->'centers') with ordinality as t(name, ord)
+      loop
+        continue when v_name = '';
+        select id into v_center from public.education_centers where name = v_name order by id limit 1;
+        if v_center is null then
+          insert into public.education_centers (name) values (v_name) returning id into v_center;
+        end if;
+        insert into public.student_centers (student_id, center_id, sort_order)
+        values (v_student, v_center, v_ord)
+        on conflict (student_id, center_id) do nothing;
+      end loop;
+    end if;
+  end loop;
+end;
+$$ language plpgsql security definer;
+
+-- 목록 검색: 교육원은 education_centers.id, 개강반은 (연도, 학기, 기수) 로 거른다
+-- 행마다 student_cohorts / student_centers(+ education_centers) 를 함께 돌려준다
+drop function if exists public.search_students(text, text, text, text, text, integer, text, text, boolean, integer, integer);
+
+create or replace function public.search_students(
+  p_search text default null,
+  p_status text default null,
+  p_center integer default null,
+  p_cohort_year integer default null,
+  p_cohort_term integer default null,
+  p_cohort_batch integer default null,
+  p_manager text default null,
+  p_course integer default null,
+  p_scope text default 'active',
+  p_sort text default 'registered_at',
+  p_desc boolean default true,
+  p_limit integer default 10,
+  p_offset integer default 0
+)
+returns jsonb as $$
+  with filtered as (
+    select s.*
+      from public.students s
+     where case p_scope
+             when 'refund' then s.status = '환불'
+             when 'deleted' then s.status = '삭제예정'
+             else s.status not in ('환불', '삭제예정')
+           end
+       and (coalesce(p_search, '') = ''
+            or s.name ilike '%' || p_search || '%'
+            or regexp_replace(coalesce(s.phone, ''), '\D', '', 'g') like '%' || nullif(regexp_replace(p_search, '\D', '', 'g'), '') || '%')
+       and (p_status is null or s.status = p_status)
+       and (p_center is null or exists (
+             select 1 from public.student_centers sc where sc.student_id = s.id and sc.center_id = p_center))
+       and (p_cohort_year is null or exists (
+             select 1 from public.student_cohorts sc
+              where sc.student_id = s.id and sc.year = p_cohort_year and sc.term = p_cohort_term and sc.batch = p_cohort_batch))
+       and (p_manager is null or s.manager_name = p_manager)
+       and (p_course is null or s.course_id = p_course)
+  ),
+  paged as (
+    select f.*,
+           row_number() over (order by
+             case when p_sort = 'name' and not p_desc then f.name end asc,
+             case when p_sort = 'name' and p_desc then f.name end desc,
+             case when p_sort = 'manager_name' and not p_desc then f.manager_name end asc nulls last,
+             case when p_sort = 'manager_name' and p_desc then f.manager_name end desc nulls last,
+             case when p_sort = 'status' and not p_desc then f.status end asc,
+             case when p_sort = 'status' and p_desc then f.status end desc,
+             case when not p_desc then f.registered_at end asc,
+             f.registered_at desc,
+             f.id
+           ) as rn
+      from filtered f
+     order by rn
+     limit p_limit offset p_offset
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from filtered),
+    'rows', coalesce((
+      select jsonb_agg((to_jsonb(p) - 'rn') || jsonb_build_object(
+               'courses', to_jsonb(c),
+               'student_cohorts', coalesce((
+                 select jsonb_agg(to_jsonb(sc) order by sc.sort_order)
+                   from public.student_cohorts sc where sc.student_id = p.id
+               ), '[]'::jsonb),
+               'student_centers', coalesce((
+                 select jsonb_agg(to_jsonb(sc) || jsonb_build_object('education_centers', to_jsonb(ec)) order by sc.sort_order)
+                   from public.student_centers sc
+                   join public.education_centers ec on ec.id = sc.center_id
+                  where sc.student_id = p.id
+               ), '[]'::jsonb)
+             ) order by p.rn)
+        from paged p
+        left join public.courses c on c.id = p.course_id
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- 요약: 필터 선택지의 교육원 · 개강반을 키와 함께 돌려준다
+create or replace function public.student_summary()
+returns jsonb as $$
+  select jsonb_build_object(
+    'total',     (select count(*) from public.students where status not in ('환불', '삭제예정')),
+    'enrolled',  (select count(*) from public.students where status = '등록'),
+    'completed', (select count(*) from public.students where status = '수료'),
+    'refund',    (select count(*) from public.students where status = '환불'),
+    'deleted',   (select count(*) from public.students where status = '삭제예정'),
+    'monthly', coalesce((
+      select jsonb_agg(jsonb_build_object('month', m.month, 'count', m.count) order by m.month desc)
+        from (
+          select to_char(registered_at at time zone 'Asia/Seoul', 'YYYY"년" MM"월"') as month, count(*) as count
+            from public.students
+           group by 1
+        ) m
+    ), '[]'::jsonb),
+    'managers', coalesce((
+      select jsonb_agg(distinct manager_name) from public.students where coalesce(manager_name, '') <> ''
+    ), '[]'::jsonb),
+    'centers', coalesce((
+      select jsonb_agg(jsonb_build_object('id', ec.id, 'name', ec.name) order by ec.name)
+        from public.education_centers ec
+       where exists (select 1 from public.student_centers sc where sc.center_id = ec.id)
+    ), '[]'::jsonb),
+    'cohorts', coalesce((
+      select jsonb_agg(jsonb_build_object('year', k.year, 'term', k.term, 'batch', k.batch)
+                       order by k.year desc, k.term desc, k.batch desc)
+        from (select distinct year, term, batch from public.student_cohorts) k
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- ============================
+-- 기수 일정 (교육원별 공식 개강 · 종강 · 시험 일정)
+-- ============================
+
+create table public.cohorts (
+  id serial primary key,
+  center_id integer references public.education_centers(id) on delete cascade not null,
+  year integer not null,
+  term integer not null check (term in (1, 2)),
+  batch integer not null check (batch > 0),
+  registration_open date,
+  registration_close date,
+  class_start date,
+  class_end date,
+  exam_date date,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (center_id, year, term, batch)
+);
+
+alter table public.cohorts enable row level security;
+
+create policy "인증된 유저 기수 조회" on public.cohorts
+  for select to authenticated using (true);
+
+create policy "슈퍼관리자 기수 수정" on public.cohorts
+  for all using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'super_admin')
+  );
+
+-- 플랜 학기 ↔ 기수 일정 연결 (학생 등록교육원 순서대로 처음 일치하는 기수)
+alter table public.plan_semesters add column if not exists cohort_id integer references public.cohorts(id) on delete set null;
+create index if not exists plan_semesters_cohort_idx on public.plan_semesters (cohort_id);
+
+-- 학기를 저장할 때마다 기수를 다시 찾고, 연결되면 공식 일정으로 날짜를 맞춘다
+create or replace function public.link_plan_semester_cohort()
+returns trigger as $$
+declare
+  v_cohort public.cohorts%rowtype;
+begin
+  new.cohort_id := null;
+  if new.year ~ '^\d{4}$' then
+    select c.* into v_cohort
+      from public.cohorts c
+      join public.student_centers sc on sc.center_id = c.center_id
+     where sc.student_id = new.student_id
+       and c.year = new.year::integer and c.term = new.term and c.batch = new.class_number
+     order by sc.sort_order
+     limit 1;
+    if found then
+      new.cohort_id := v_cohort.id;
+      new.start_date := coalesce(v_cohort.class_start, new.start_date);
+      new.end_date := coalesce(v_cohort.class_end, new.end_date);
+    end if;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger plan_semesters_link_cohort
+  before insert or update on public.plan_semesters
+  for each row execute function public.link_plan_semester_cohort();
+
+-- 기수 일정을 추가 · 수정하면 해당 기수를 쓰는 플랜 학기를 다시 연결하고,
+-- 편집 중인 화면이 새 날짜를 불러오도록 플랜 revision 을 올린다
+create or replace function public.sync_cohort_plans()
+returns trigger as $$
+begin
+  with touched as (
+    update public.plan_semesters ps
+       set updated_at = now()
+     where ps.cohort_id = new.id
+        or (ps.year = new.year::text and ps.term = new.term and ps.class_number = new.batch
+            and exists (select 1 from public.student_centers sc
+                         where sc.student_id = ps.student_id and sc.center_id = new.center_id))
+    returning ps.student_id
+  )
+  update public.student_plans sp
+     set revision = revision + 1, updated_at = now(), updated_by = auth.uid()
+   where sp.student_id in (select student_id from touched);
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger cohorts_sync_plans
+  after insert or update on public.cohorts
+  for each row execute function public.sync_cohort_plans();
+
+-- ============================
+-- 상담사 권한 (담당 학생만 조회 · 수정)
+-- ============================
+
+-- 상담사(counselor)는 managers 한 명과 연결되고, 그 담당자의 학생만 보고 고칠 수 있다
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles add constraint profiles_role_check check (role in ('super_admin', 'admin', 'counselor'));
+alter table public.profiles add column if not exists manager_id integer references public.managers(id) on delete set null;
+
+-- 학생 담당자를 id 로도 보관 (manager_name 은 표시용으로 함께 유지)
+alter table public.students add column if not exists manager_id integer references public.managers(id) on delete set null;
+create index if not exists students_manager_idx on public.students (manager_id);
+
+update public.students s
+   set manager_id = (select m.id from public.managers m where m.name = s.manager_name order by m.id limit 1)
+ where s.manager_id is null and coalesce(s.manager_name, '') <> '';
+
+-- manager_id 를 바꾸면 이름을 맞추고, 이름만 바꾸면 id 를 찾아 맞춘다
+create or replace function public.sync_student_manager()
+returns trigger as $$
+begin
+  if (tg_op = 'UPDATE' and new.manager_id is distinct from old.manager_id)
+     or (tg_op = 'INSERT' and new.manager_id is not null) then
+    new.manager_name := (select m.name from public.managers m where m.id = new.manager_id);
+  elsif tg_op = 'INSERT' or new.manager_name is distinct from old.manager_name then
+    new.manager_id := (select m.id from public.managers m
+                        where m.name = nullif(trim(new.manager_name), '') order by m.id limit 1);
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger students_sync_manager
+  before insert or update on public.students
+  for each row execute function public.sync_student_manager();
+
+-- 현재 사용자가 해당 담당자의 학생에 접근할 수 있는지 (상담사가 아니면 항상 true)
+-- RLS 정책 안에서 profiles / students 정책을 다시 타지 않도록 security definer
+create or replace function public.can_access_manager(p_manager_id integer)
+returns boolean as $$
+  select coalesce((
+    select p.role <> 'counselor' or p.manager_id = p_manager_id
+      from public.profiles p
+     where p.id = auth.uid()
+  ), false);
+$$ language sql stable security definer;
+
+create or replace function public.can_access_student(p_student_id uuid)
+returns boolean as $$
+  select public.can_access_manager((select s.manager_id from public.students s where s.id = p_student_id));
+$$ language sql stable security definer;
+
+-- 기존 정책(인증된 유저 전체 허용)은 그대로 두고, 제한 정책(as restrictive)을 AND 로 더한다
+create policy "담당 학생만" on public.students
+  as restrictive for all to authenticated
+  using (public.can_access_manager(manager_id))
+  with check (public.can_access_manager(manager_id));
+
+-- 담당자 목록도 본인 것만 (학생 등록 · 수정 화면의 담당자 선택지)
+create policy "본인 담당자만" on public.managers
+  as restrictive for select to authenticated
+  using (public.can_access_manager(id));
+
+-- 학생에 딸린 테이블 (schema.sql 밖에서 만든 테이블은 있을 때만)
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'student_memos', 'student_contacts', 'student_credit_history', 'student_documents',
+    'student_credit_certs', 'student_dokaksa', 'student_prev_subjects',
+    'student_plans', 'plan_semesters', 'plan_semester_subjects', 'plan_versions',
+    'student_cohorts', 'student_centers'
+  ] loop
+    continue when to_regclass('public.' || t) is null;
+    execute format(
+      'create policy "담당 학생만" on public.%I as restrictive for all to authenticated
+         using (public.can_access_student(student_id)) with check (public.can_access_student(student_id))', t);
+  end loop;
+
+  -- 학생 전용 과목 (student_id 가 없으면 공용 과목)
+  if to_regclass('public.subjects') is not null then
+    create policy "담당 학생만" on public.subjects
+      as restrictive for all to authenticated
+      using (student_id is null or public.can_access_student(student_id))
+      with check (student_id is null or public.can_access_student(student_id));
+  end if;
+end $$;
+
+-- 성적 증명서 파일: 경로가 "{student_id}/..." 인 student-documents 버킷
+create policy "담당 학생 문서만" on storage.objects
+  as restrictive for all to authenticated
+  using (
+    bucket_id <> 'student-documents'
+    or coalesce((storage.foldername(name))[1] ~ '^[0-9a-f-]{36}$', false)
+       and public.can_access_student(((storage.foldername(name))[1])::uuid)
+  )
+  with check (
+    bucket_id <> 'student-documents'
+    or coalesce((storage.foldername(name))[1] ~ '^[0-9a-f-]{36}$', false)
+       and public.can_access_student(((storage.foldername(name))[1])::uuid)
+  );
+
+-- security definer 라 RLS 를 타지 않으므로 학생마다 권한을 직접 확인
+create or replace function public.save_student_relations(p_rows jsonb)
+returns void as $$
+declare
+  v_row jsonb;
+  v_student uuid;
+  v_name text;
+  v_ord integer;
+  v_center integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  for v_row in select * from jsonb_array_elements(p_rows) loop
+    v_student := (v_row->>'student_id')::uuid;
+    if not public.can_access_student(v_student) then
+      raise exception 'forbidden';
+    end if;
+
+    if v_row ? 'cohorts' then
+      delete from public.student_cohorts where student_id = v_student;
+      insert into public.student_cohorts (student_id, year, term, batch, sort_order)
+      select v_student, (c->>'year')::int, (c->>'term')::int, (c->>'batch')::int, (t.ord - 1)::int
+        from jsonb_array_elements(v_row->'cohorts') with ordinality as t(c, ord)
+      on conflict (student_id, year, term, batch) do nothing;
+    end if;
+
+    if v_row ? 'centers' then
+      delete from public.student_centers where student_id = v_student;
+      for v_name, v_ord in
+        select trim(t.name), (t.ord - 1)::int
+          from jsonb_array_elements_text(v_row->'centers') with ordinality as t(name, ord)
+      loop
+        continue when v_name = '';
+        select id into v_center from public.education_centers where name = v_name order by id limit 1;
+        if v_center is null then
+          insert into public.education_centers (name) values (v_name) returning id into v_center;
+        end if;
+        insert into public.student_centers (student_id, center_id, sort_order)
+        values (v_student, v_center, v_ord)
+        on conflict (student_id, center_id) do nothing;
+      end loop;
+    end if;
+  end loop;
+end;
+$$ language plpgsql security definer;
+
+-- 학생 담당자 일괄 변경 (슈퍼관리자 전용). 실제로 바뀐 학생 수를 돌려준다
+create or replace function public.reassign_students(p_student_ids uuid[], p_manager_id integer)
+returns integer as $$
+declare
+  v_n integer;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'super_admin') then
+    raise exception 'forbidden';
+  end if;
+  if p_manager_id is not null and not exists (select 1 from public.managers where id = p_manager_id) then
+    raise exception 'manager_not_found';
+  end if;
+
+  update public.students
+     set manager_id = p_manager_id, updated_at = now()
+   where id = any(p_student_ids)
+     and manager_id is distinct from p_manager_id;
+  get diagnostics v_n = row_count;
+  return v_n;
+end;
+$$ language plpgsql security definer;
+
+-- ============================
+-- 담당자 ↔ 계정 연결 · 학생 담당자 FK 이관
+-- ============================
+
+-- 비활성 담당자: 기존 학생은 그대로 두고, 새 배정 · 일괄 등록 선택지에서 빠진다
+alter table public.managers add column if not exists active boolean not null default true;
+
+-- 계정 하나에 담당자 하나 (profiles.manager_id)
+create unique index if not exists profiles_manager_idx on public.profiles (manager_id) where manager_id is not null;
+
+-- 이름이 같은 계정이 하나뿐이면 자동 연결
+update public.profiles p
+   set manager_id = m.id
+  from (select distinct on (name) id, name from public.managers order by name, id) m
+ where p.manager_id is null
+   and p.name = m.name
+   and not exists (select 1 from public.profiles x where x.manager_id = m.id)
+   and (select count(*) from public.profiles y where y.name = p.name) = 1;
+
+-- 목록에 없는 담당자 이름은 비활성 담당자로 추가한 뒤 id 로 연결
+insert into public.managers (name, sort_order, active)
+select t.name,
+       (select coalesce(max(sort_order), 0) from public.managers) + row_number() over (order by t.name),
+       false
+  from (select distinct trim(manager_name) as name from public.students
+         where coalesce(trim(manager_name), '') <> '') t
+ where not exists (select 1 from public.managers m where m.name = t.name);
+
+update public.students s
+   set manager_id = (select m.id from public.managers m where m.name = trim(s.manager_name) order by m.id limit 1)
+ where s.manager_id is null and coalesce(trim(s.manager_name), '') <> '';
+
+drop trigger if exists students_sync_manager on public.students;
+drop function if exists public.sync_student_manager();
+alter table public.students drop column manager_name;
+
+-- 학생이 있는 담당자는 삭제하지 않고 비활성화한다
+alter table public.students drop constraint if exists students_manager_id_fkey;
+alter table public.students add constraint students_manager_id_fkey
+  foreign key (manager_id) references public.managers(id) on delete restrict;
+
+-- 비활성 담당자에 연결된 상담사는 학생에 접근할 수 없다
+create or replace function public.can_access_manager(p_manager_id integer)
+returns boolean as $$
+  select coalesce((
+    select p.role <> 'counselor'
+           or (p.manager_id = p_manager_id
+               and exists (select 1 from public.managers m where m.id = p.manager_id and m.active))
+      from public.profiles p
+     where p.id = auth.uid()
+  ), false);
+$$ language sql stable security definer;
+
+-- 담당자에 계정 연결 (슈퍼관리자 전용). p_profile_id 가 null 이면 연결 해제
+create or replace function public.link_manager_profile(p_manager_id integer, p_profile_id uuid)
+returns void as $$
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'super_admin') then
+    raise exception 'forbidden';
+  end if;
+  update public.profiles set manager_id = null
+   where manager_id = p_manager_id and id is distinct from p_profile_id;
+  if p_profile_id is not null then
+    update public.profiles set manager_id = p_manager_id where id = p_profile_id;
+  end if;
+end;
+$$ language plpgsql security definer;
+
+-- 일괄 변경 대상도 활성 담당자만
+create or replace function public.reassign_students(p_student_ids uuid[], p_manager_id integer)
+returns integer as $$
+declare
+  v_n integer;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'super_admin') then
+    raise exception 'forbidden';
+  end if;
+  if p_manager_id is not null and not exists (select 1 from public.managers where id = p_manager_id) then
+    raise exception 'manager_not_found';
+  end if;
+  if p_manager_id is not null and not exists (select 1 from public.managers where id = p_manager_id and active) then
+    raise exception 'manager_inactive';
+  end if;
+
+  update public.students
+     set manager_id = p_manager_id, updated_at = now()
+   where id = any(p_student_ids)
+     and manager_id is distinct from p_manager_id;
+  get diagnostics v_n = row_count;
+  return v_n;
+end;
+$$ language plpgsql security definer;
+
+-- 목록 검색: 담당자는 managers.id 로 거르고, 담당자 정렬은 현재 이름 기준
+-- 행마다 managers 를 함께 돌려준다
+drop function if exists public.search_students(text, text, integer, integer, integer, integer, text, integer, text, text, boolean, integer, integer);
+
+create or replace function public.search_students(
+  p_search text default null,
+  p_status text default null,
+  p_center integer default null,
+  p_cohort_year integer default null,
+  p_cohort_term integer default null,
+  p_cohort_batch integer default null,
+  p_manager integer default null,
+  p_course integer default null,
+  p_scope text default 'active',
+  p_sort text default 'registered_at',
+  p_desc boolean default true,
+  p_limit integer default 10,
+  p_offset integer default 0
+)
+returns jsonb as $$
+  with filtered as (
+    select s.*, m.name as manager_sort
+      from public.students s
+      left join public.managers m on m.id = s.manager_id
+     where case p_scope
+             when 'refund' then s.status = '환불'
+             when 'deleted' then s.status = '삭제예정'
+             else s.status not in ('환불', '삭제예정')
+           end
+       and (coalesce(p_search, '') = ''
+            or s.name ilike '%' || p_search || '%'
+            or regexp_replace(coalesce(s.phone, ''), '\D', '', 'g') like '%' || nullif(regexp_replace(p_search, '\D', '', 'g'), '') || '%')
+       and (p_status is null or s.status = p_status)
+       and (p_center is null or exists (
+             select 1 from public.student_centers sc where sc.student_id = s.id and sc.center_id = p_center))
+       and (p_cohort_year is null or exists (
+             select 1 from public.student_cohorts sc
+              where sc.student_id = s.id and sc.year = p_cohort_year and sc.term = p_cohort_term and sc.batch = p_cohort_batch))
+       and (p_manager is null or s.manager_id = p_manager)
+       and (p_course is null or s.course_id = p_course)
+  ),
+  paged as (
+    select f.*,
+           row_number() over (order by
+             case when p_sort = 'name' and not p_desc then f.name end asc,
+             case when p_sort = 'name' and p_desc then f.name end desc,
+             case when p_sort = 'manager_name' and not p_desc then f.manager_sort end asc nulls last,
+             case when p_sort = 'manager_name' and p_desc then f.manager_sort end desc nulls last,
+             case when p_sort = 'status' and not p_desc then f.status end asc,
+             case when p_sort = 'status' and p_desc then f.status end desc,
+             case when not p_desc then f.registered_at end asc,
+             f.registered_at desc,
+             f.id
+           ) as rn
+      from filtered f
+     order by rn
+     limit p_limit offset p_offset
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from filtered),
+    'rows', coalesce((
+      select jsonb_agg((to_jsonb(p) - 'rn' - 'manager_sort') || jsonb_build_object(
+               'courses', to_jsonb(c),
+               'managers', to_jsonb(m),
+               'student_cohorts', coalesce((
+                 select jsonb_agg(to_jsonb(sc) order by sc.sort_order)
+                   from public.student_cohorts sc where sc.student_id = p.id
+               ), '[]'::jsonb),
+               'student_centers', coalesce((
+                 select jsonb_agg(to_jsonb(sc) || jsonb_build_object('education_centers', to_jsonb(ec)) order by sc.sort_order)
+                   from public.student_centers sc
+                   join public.education_centers ec on ec.id = sc.center_id
+                  where sc.student_id = p.id
+               ), '[]'::jsonb)
+             ) order by p.rn)
+        from paged p
+        left join public.courses c on c.id = p.course_id
+        left join public.managers m on m.id = p.manager_id
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- 요약: 담당자 필터 선택지를 id · 활성 여부와 함께 (담당 학생이 있는 담당자만)
+create or replace function public.student_summary()
+returns jsonb as $$
+  select jsonb_build_object(
+    'total',     (select count(*) from public.students where status not in ('환불', '삭제예정')),
+    'enrolled',  (select count(*) from public.students where status = '등록'),
+    'completed', (select count(*) from public.students where status = '수료'),
+    'refund',    (select count(*) from public.students where status = '환불'),
+    'deleted',   (select count(*) from public.students where status = '삭제예정'),
+    'monthly', coalesce((
+      select jsonb_agg(jsonb_build_object('month', m.month, 'count', m.count) order by m.month desc)
+        from (
+          select to_char(registered_at at time zone 'Asia/Seoul', 'YYYY"년" MM"월"') as month, count(*) as count
+            from public.students
+           group by 1
+        ) m
+    ), '[]'::jsonb),
+    'managers', coalesce((
+      select jsonb_agg(jsonb_build_object('id', m.id, 'name', m.name, 'active', m.active) order by m.sort_order, m.id)
+        from public.managers m
+       where exists (select 1 from public.students s where s.manager_id = m.id)
+    ), '[]'::jsonb),
+    'centers', coalesce((
+      select jsonb_agg(jsonb_build_object('id', ec.id, 'name', ec.name) order by ec.name)
+        from public.education_centers ec
+       where exists (select 1 from public.student_centers sc where sc.center_id = ec.id)
+    ), '[]'::jsonb),
+    'cohorts', coalesce((
+      select jsonb_agg(jsonb_build_object('year', k.year, 'term', k.term, 'batch', k.batch)
+                       order by k.year desc, k.term desc, k.batch desc)
+        from (select distinct year, term, batch from public.student_cohorts) k
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- ============================
+-- 계정 관리 (/admin/users — 서버 라우트가 service role 로 처리)
+-- ============================
+
+-- 비활성 계정: auth 쪽 로그인 차단(ban)과 함께 표시 · RLS 용으로 보관
+alter table public.profiles add column if not exists active boolean not null default true;
+
+-- 역할은 더 이상 user_metadata(가입자가 직접 넣을 수 있음)에서 읽지 않는다
+-- app_metadata 는 service role 로만 쓸 수 있으며, 없으면 권한이 가장 좁은 상담사로 만든다
+-- (초대 라우트가 생성 직후 이름 · 역할 · 담당자를 다시 저장한다)
+create or replace function public.handle_new_user()
+returns trigger as $$
+begin
+  insert into public.profiles (id, name, role)
+  values (
+    new.id,
+    coalesce(new.raw_user_meta_data->>'name', new.email),
+    coalesce(new.raw_app_meta_data->>'role', 'counselor')
+  );
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- 비활성 계정은 학생에 접근할 수 없다
+create or replace function public.can_access_manager(p_manager_id integer)
+returns boolean as $$
+  select coalesce((
+    select p.active
+           and (p.role <> 'counselor'
+                or (p.manager_id = p_manager_id
+                    and exists (select 1 from public.managers m where m.id = p.manager_id and m.active)))
+      from public.profiles p
+     where p.id = auth.uid()
+  ), false);
+$$ language sql stable security definer;
+
+-- ============================
+-- JWT 에 역할 넣기 (proxy 경로 권한 확인용)
+-- ============================
+
+-- Supabase 대시보드 Authentication → Hooks → Custom Access Token 에 이 함수를 지정한다
+-- 토큰을 발급 · 갱신할 때마다 user_role / user_active 클레임을 넣으므로,
+-- 역할 변경은 다음 토큰 갱신(최대 1시간)부터 반영된다. 훅이 없으면 proxy 가 profiles 를 직접 조회
+create or replace function public.custom_access_token_hook(event jsonb)
+returns jsonb as $$
+declare
+  v_claims jsonb := event->'claims';
+  v_role text;
+  v_active boolean;
+begin
+  select p.role, p.active into v_role, v_active
+    from public.profiles p
+   where p.id = (event->>'user_id')::uuid;
+  if found then
+    v_claims := v_claims || jsonb_build_object('user_role', v_role, 'user_active', v_active);
+  end if;
+  return jsonb_set(event, '{claims}', v_claims);
+end;
+$$ language plpgsql stable;
+
+grant usage on schema public to supabase_auth_admin;
+grant execute on function public.custom_access_token_hook(jsonb) to supabase_auth_admin;
+revoke execute on function public.custom_access_token_hook(jsonb) from authenticated, anon, public;
+grant select on table public.profiles to supabase_auth_admin;
+
+create policy "인증 서버 프로필 조회" on public.profiles
+  for select to supabase_auth_admin using (true);
+
+-- ============================
+-- 사용자별 요청 제한 (서버 라우트용)
+-- ============================
+
+create table public.rate_limit_hits (
+  id bigserial primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  bucket text not null,
+  hit_at timestamptz not null default now()
+);
+
+create index rate_limit_hits_user_idx on public.rate_limit_hits (user_id, bucket, hit_at desc);
+
+-- 정책 없음: hit_rate_limit 으로만 접근
+alter table public.rate_limit_hits enable row level security;
+
+-- 창(p_window_seconds) 안의 요청이 p_limit 미만이면 기록하고 true, 넘으면 false
+create or replace function public.hit_rate_limit(p_bucket text, p_limit integer, p_window_seconds integer)
+returns boolean as $$
+declare
+  v_count integer;
+begin
+  if auth.uid() is null then
+    return false;
+  end if;
+  -- 같은 사용자 · 버킷의 동시 요청은 줄을 세운다
+  perform pg_advisory_xact_lock(hashtext(auth.uid()::text || ':' || p_bucket));
+
+  delete from public.rate_limit_hits
+   where user_id = auth.uid() and bucket = p_bucket
+     and hit_at < now() - make_interval(secs => p_window_seconds);
+  select count(*) into v_count
+    from public.rate_limit_hits
+   where user_id = auth.uid() and bucket = p_bucket;
+  if v_count >= p_limit then
+    return false;
+  end if;
+
+  insert into public.rate_limit_hits (user_id, bucket) values (auth.uid(), p_bucket);
+  return true;
+end;
+$$ language plpgsql security definer;
+
+-- ============================
+-- 올케어 구독 동기화 (/api/cron/allcare-sync)
+-- ============================
+
+-- 올케어 DB 에서 확인한 구독 상태. all_care(수동 체크)와는 따로 보관하고 목록에서 불일치를 표시한다
+--   active / cancel_scheduled: 구독 중 · none: 회원이지만 구독 없음 · not_found: 회원 아님 · null: 확인 전
+alter table public.students
+  add column allcare_status text check (allcare_status in ('active', 'cancel_scheduled', 'none', 'not_found')),
+  add column allcare_plan text,
+  add column allcare_next_billing_date date,
+  add column allcare_checked_at timestamptz;
+
+-- 동기화 결과 저장 (service role 전용). 저장한 학생 수를 돌려준다
+-- p_rows: [{ id, status, plan, next_billing_date }]
+create or replace function public.save_allcare_sync(p_rows jsonb)
+returns integer as $$
+declare
+  v_count integer;
+begin
+  update public.students s
+     set allcare_status = r.status,
+         allcare_plan = r.plan,
+         allcare_next_billing_date = r.next_billing_date,
+         allcare_checked_at = now()
+    from jsonb_to_recordset(p_rows) as r(id uuid, status text, plan text, next_billing_date date)
+   where s.id = r.id;
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$ language plpgsql security definer;
+
+revoke execute on function public.save_allcare_sync(jsonb) from public, anon, authenticated;
+grant execute on function public.save_allcare_sync(jsonb) to service_role;
+
+-- 목록 검색: 올케어 필터 (subscribed / not_subscribed / unchecked / mismatch)
+drop function if exists public.search_students(text, text, integer, integer, integer, integer, integer, integer, text, text, boolean, integer, integer);
+
+create or replace function public.search_students(
+  p_search text default null,
+  p_status text default null,
+  p_center integer default null,
+  p_cohort_year integer default null,
+  p_cohort_term integer default null,
+  p_cohort_batch integer default null,
+  p_manager integer default null,
+  p_course integer default null,
+  p_allcare text default null,
+  p_scope text default 'active',
+  p_sort text default 'registered_at',
+  p_desc boolean default true,
+  p_limit integer default 10,
+  p_offset integer default 0
+)
+returns jsonb as $$
+  with filtered as (
+    select s.*, m.name as manager_sort
+      from public.students s
+      left join public.managers m on m.id = s.manager_id
+     where case p_scope
+             when 'refund' then s.status = '환불'
+             when 'deleted' then s.status = '삭제예정'
+             else s.status not in ('환불', '삭제예정')
+           end
+       and (coalesce(p_search, '') = ''
+            or s.name ilike '%' || p_search || '%'
+            or regexp_replace(coalesce(s.phone, ''), '\D', '', 'g') like '%' || nullif(regexp_replace(p_search, '\D', '', 'g'), '') || '%')
+       and (p_status is null or s.status = p_status)
+       and (p_center is null or exists (
+             select 1 from public.student_centers sc where sc.student_id = s.id and sc.center_id = p_center))
+       and (p_cohort_year is null or exists (
+             select 1 from public.student_cohorts sc
+              where sc.student_id = s.id and sc.year = p_cohort_year and sc.term = p_cohort_term and sc.batch = p_cohort_batch))
+       and (p_manager is null or s.manager_id = p_manager)
+       and (p_course is null or s.course_id = p_course)
+       and case p_allcare
+             when 'subscribed' then s.allcare_status in ('active', 'cancel_scheduled')
+             when 'not_subscribed' then s.allcare_status in ('none', 'not_found')
+             when 'unchecked' then s.allcare_status is null
+             when 'mismatch' then s.allcare_status is not null
+                              and s.all_care <> (s.allcare_status in ('active', 'cancel_scheduled'))
+             else true
+           end
+  ),
+  paged as (
+    select f.*,
+           row_number() over (order by
+             case when p_sort = 'name' and not p_desc then f.name end asc,
+             case when p_sort = 'name' and p_desc then f.name end desc,
+             case when p_sort = 'manager_name' and not p_desc then f.manager_sort end asc nulls last,
+             case when p_sort = 'manager_name' and p_desc then f.manager_sort end desc nulls last,
+             case when p_sort = 'status' and not p_desc then f.status end asc,
+             case when p_sort = 'status' and p_desc then f.status end desc,
+             case when not p_desc then f.registered_at end asc,
+             f.registered_at desc,
+             f.id
+           ) as rn
+      from filtered f
+     order by rn
+     limit p_limit offset p_offset
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from filtered),
+    'rows', coalesce((
+      select jsonb_agg((to_jsonb(p) - 'rn' - 'manager_sort') || jsonb_build_object(
+               'courses', to_jsonb(c),
+               'managers', to_jsonb(m),
+               'student_cohorts', coalesce((
+                 select jsonb_agg(to_jsonb(sc) order by sc.sort_order)
+                   from public.student_cohorts sc where sc.student_id = p.id
+               ), '[]'::jsonb),
+               'student_centers', coalesce((
+                 select jsonb_agg(to_jsonb(sc) || jsonb_build_object('education_centers', to_jsonb(ec)) order by sc.sort_order)
+                   from public.student_centers sc
+                   join public.education_centers ec on ec.id = sc.center_id
+                  where sc.student_id = p.id
+               ), '[]'::jsonb)
+             ) order by p.rn)
+        from paged p
+        left join public.courses c on c.id = p.course_id
+        left join public.managers m on m.id = p.manager_id
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- 요약: 올케어 불일치 학생 수 · 마지막 동기화 시각
+create or replace function public.student_summary()
+returns jsonb as $$
+  select jsonb_build_object(
+    'total',     (select count(*) from public.students where status not in ('환불', '삭제예정')),
+    'enrolled',  (select count(*) from public.students where status = '등록'),
+    'completed', (select count(*) from public.students where status = '수료'),
+    'refund',    (select count(*) from public.students where status = '환불'),
+    'deleted',   (select count(*) from public.students where status = '삭제예정'),
+    'allcare_mismatch', (
+      select count(*) from public.students
+       where status not in ('환불', '삭제예정')
+         and allcare_status is not null
+         and all_care <> (allcare_status in ('active', 'cancel_scheduled'))),
+    'allcare_synced_at', (select max(allcare_checked_at) from public.students),
+    'monthly', coalesce((
+      select jsonb_agg(jsonb_build_object('month', m.month, 'count', m.count) order by m.month desc)
+        from (
+          select to_char(registered_at at time zone 'Asia/Seoul', 'YYYY"년" MM"월"') as month, count(*) as count
+            from public.students
+           group by 1
+        ) m
+    ), '[]'::jsonb),
+    'managers', coalesce((
+      select jsonb_agg(jsonb_build_object('id', m.id, 'name', m.name, 'active', m.active) order by m.sort_order, m.id)
+        from public.managers m
+       where exists (select 1 from public.students s where s.manager_id = m.id)
+    ), '[]'::jsonb),
+    'centers', coalesce((
+      select jsonb_agg(jsonb_build_object('id', ec.id, 'name', ec.name) order by ec.name)
+        from public.education_centers ec
+       where exists (select 1 from public.student_centers sc where sc.center_id = ec.id)
+    ), '[]'::jsonb),
+    'cohorts', coalesce((
+      select jsonb_agg(jsonb_build_object('year', k.year, 'term', k.term, 'batch', k.batch)
+                       order by k.year desc, k.term desc, k.batch desc)
+        from (select distinct year, term, batch from public.student_cohorts) k
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- ============================
+-- 학점은행 과목 카탈로그 (/api/cb-subjects 검색 캐시)
+-- ============================
+
+-- 학점은행 검색 결과로 채워지는 과목 목록. 같은 과목도 전공에 따라 이수구분이 다르므로 전공별로 보관
+create table public.cb_subjects (
+  grade_id text not null,                 -- 학위 과정 (A: 학사)
+  major_id text not null,                 -- 전공 코드 (AGAE: 사회복지학)
+  subject_id text not null,               -- 학점은행 과목 코드
+  name text not null,
+  category text check (category in ('전공', '교양', '일반')),
+  category_detail text,                   -- 사이트 표기 (전공필수 · 전공선택 …)
+  credits integer,
+  fetched_at timestamptz not null default now(),
+  primary key (grade_id, major_id, subject_id)
+);
+
+-- 이미 사이트에서 검색한 검색어. "사회" 를 검색했다면 "사회복지" 결과도 캐시에 모두 있다
+create table public.cb_subject_searches (
+  grade_id text not null,
+  major_id text not null,
+  query text not null,
+  result_count integer not null,
+  searched_at timestamptz not null default now(),
+  primary key (grade_id, major_id, query)
+);
+
+alter table public.cb_subjects enable row level security;
+alter table public.cb_subject_searches enable row level security;
+
+create policy "인증된 유저 학점은행 과목 조회" on public.cb_subjects
+  for select to authenticated using (true);
+
+create policy "인증된 유저 학점은행 검색어 조회" on public.cb_subject_searches
+  for select to authenticated using (true);
+
+-- 캐시 검색: 검색어를 포함하는 더 짧은 검색어가 p_max_age 안에 있었다면 cached = true
+create or replace function public.search_cb_subjects(
+  p_grade text,
+  p_major text,
+  p_query text,
+  p_max_age interval default interval '30 days'
+)
+returns jsonb as $$
+  select jsonb_build_object(
+    'cached', exists (
+      select 1 from public.cb_subject_searches cs
+       where cs.grade_id = p_grade and cs.major_id = p_major
+         and position(cs.query in p_query) > 0
+         and cs.searched_at > now() - p_max_age
+    ),
+    'subjects', coalesce((
+      select jsonb_agg(jsonb_build_object(
+               'id', s.subject_id, 'name', s.name, 'category', s.category,
+               'category_detail', s.category_detail, 'credits', s.credits
+             ) order by s.name)
+        from public.cb_subjects s
+       where s.grade_id = p_grade and s.major_id = p_major
+         and s.name ilike '%' || p_query || '%'
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- 사이트 검색 결과 저장 (과목은 최신 값으로 덮어쓴다)
+-- p_rows: [{ id, name, category, category_detail, credits }]
+create or replace function public.save_cb_subjects(p_grade text, p_major text, p_query text, p_rows jsonb)
+returns void as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  insert into public.cb_subjects (grade_id, major_id, subject_id, name, category, category_detail, credits, fetched_at)
+  select p_grade, p_major, r.id, r.name, r.category, r.category_detail, r.credits, now()
+    from jsonb_to_recordset(p_rows) as r(id text, name text, category text, category_detail text, credits integer)
+  on conflict (grade_id, major_id, subject_id) do update
+    set name = excluded.name,
+        category = coalesce(excluded.category, cb_subjects.category),
+        category_detail = coalesce(excluded.category_detail, cb_subjects.category_detail),
+        credits = coalesce(excluded.credits, cb_subjects.credits),
+        fetched_at = excluded.fetched_at;
+
+  insert into public.cb_subject_searches (grade_id, major_id, query, result_count)
+  values (p_grade, p_major, p_query, jsonb_array_length(p_rows))
+  on conflict (grade_id, major_id, query) do update
+    set result_count = excluded.result_count, searched_at = now();
+end;
+$$ language plpgsql security definer;
+
+-- ============================
+-- 활동 로그 구조화 (작업 종류 · 대상 id · 변경 전후 값)
+-- ============================
+
+create type public.activity_action as enum (
+  'create', 'update', 'delete', 'restore', 'save', 'import', 'export', 'sync', 'view', 'send', 'access', 'other'
+);
+
+-- before_data / after_data: 바뀐 필드만 { 필드: 값 } (추가는 after 만, 삭제는 before 만)
+alter table public.activity_logs
+  add column action_type public.activity_action,
+  add column target_id text,
+  add column before_data jsonb,
+  add column after_data jsonb;
+
+-- 기존 로그는 액션 문구로 작업 종류를 채운다
+update public.activity_logs
+   set action_type = case
+     when action like '%접근 거부%' then 'access'
+     when action like '%복구%' or action like '%복원%' then 'restore'
+     when action like '%삭제%' then 'delete'
+     when action like '%일괄 등록%' then 'import'
+     when action like '%다운로드%' then 'export'
+     when action like '%동기화%' then 'sync'
+     when action like '%조회%' then 'view'
+     when action like '%발송%' then 'send'
+     when action like '%수정%' or action like '%변경%' or action like '%활성화%' or action like '%연결%'
+       or action like '%적용%' or action like '%병합%' then 'update'
+     when action like '%추가%' or action like '%등록%' or action like '%초대%' or action like '%업로드%' then 'create'
+     when action like '%저장%' or action like '%해결%' then 'save'
+     else 'other'
+   end::public.activity_action
+ where action_type is null;
+
+alter table public.activity_logs
+  alter column action_type set default 'other',
+  alter column action_type set not null;
+
+create index activity_logs_target_idx on public.activity_logs (target_type, target_id, created_at desc);
+
+-- ============================
+-- DB 감사 기록 (트리거)
+-- ============================
+
+-- source: app = 화면 · 서버 라우트에서 남긴 기록, trigger = 테이블 변경을 DB 가 직접 남긴 기록
+alter table public.activity_logs
+  add column source text not null default 'app' check (source in ('app', 'trigger'));
+
+-- 기록자 이름 — 세션이 없으면(service role · 예약 작업) 시스템
+create or replace function public.activity_actor_name(p_user_id uuid)
+returns text as $$
+  select case when p_user_id is null then '시스템' else coalesce(
+    (select name from public.profiles where id = p_user_id),
+    (select email from auth.users where id = p_user_id),
+    '알 수 없음'
+  ) end;
+$$ language sql stable security definer set search_path = public;
+
+revoke execute on function public.activity_actor_name(uuid) from public, anon, authenticated;
+
+-- 행 변경 → activity_logs (인자: target_type, 화면 표기 이름)
+-- 수정은 바뀐 컬럼만, 추가 · 삭제는 값이 있는 컬럼만 남긴다. 매번 바뀌는 컬럼은 비교하지 않는다
+create or replace function public.audit_row_change()
+returns trigger as $$
+declare
+  v_ignore text[] := array['id', 'created_at', 'updated_at', 'updated_by', 'allcare_checked_at'];
+  v_old jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  v_new jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  v_row jsonb := coalesce(v_new, v_old);
+  v_before jsonb;
+  v_after jsonb;
+  v_student text;
+begin
+  if tg_op = 'UPDATE' then
+    select jsonb_object_agg(key, v_old->key), jsonb_object_agg(key, value)
+      into v_before, v_after
+      from jsonb_each(v_new)
+     where key <> all(v_ignore) and value is distinct from v_old->key;
+    if v_after is null then return null; end if;
+  elsif tg_op = 'INSERT' then
+    select jsonb_object_agg(key, value) into v_after
+      from jsonb_each(v_new) where key <> all(v_ignore) and value <> 'null'::jsonb;
+  else
+    select jsonb_object_agg(key, value) into v_before
+      from jsonb_each(v_old) where key <> all(v_ignore) and value <> 'null'::jsonb;
+  end if;
+
+  -- 학생에 딸린 행은 학생 이름을 detail 에 (학생 삭제로 함께 지워질 때는 없음)
+  if v_row ? 'student_id' then
+    select name into v_student from public.students where id = (v_row->>'student_id')::uuid;
+  end if;
+
+  insert into public.activity_logs
+    (user_id, user_name, action, action_type, target_type, target_id, target_name, detail, before_data, after_data, source)
+  values (
+    auth.uid(),
+    public.activity_actor_name(auth.uid()),
+    tg_argv[1] || ' ' || case tg_op when 'INSERT' then '추가' when 'UPDATE' then '수정' else '삭제' end,
+    (case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'update' else 'delete' end)::public.activity_action,
+    coalesce(v_row->>'doc_type', tg_argv[0]),
+    coalesce(v_row->>'id', v_row->>'student_id'),
+    coalesce(v_row->>'name', v_row->>'subject_name', v_row->>'file_name', v_student),
+    v_student,
+    v_before,
+    v_after,
+    'trigger'
+  );
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- schema.sql 밖에서 만든 테이블은 있을 때만
+do $$
+declare
+  t record;
+begin
+  for t in select * from (values
+    ('students',              'student',        '학생'),
+    ('student_plans',         'plan',           '플랜'),
+    ('student_credit_certs',  'cert',           '자격증'),
+    ('student_dokaksa',       'dokaksa',        '독학사'),
+    ('student_prev_subjects', 'prev_subject',   '전적대 과목'),
+    ('student_documents',     'document',       '문서'),
+    ('managers',              'manager',        '담당자'),
+    ('courses',               'course',         '과정'),
+    ('subject_presets',       'subject_preset', '과목 프리셋')
+  ) as v(table_name, target_type, label) loop
+    continue when to_regclass('public.' || t.table_name) is null;
+    execute format('drop trigger if exists audit_row_change on public.%I', t.table_name);
+    execute format(
+      'create trigger audit_row_change after insert or update or delete on public.%I
+         for each row execute procedure public.audit_row_change(%L, %L)',
+      t.table_name, t.target_type, t.label);
+  end loop;
+end $$;
+
+-- 로그는 트리거와 아래 함수로만 쓴다 — 브라우저에서 직접 insert · 수정 · 삭제 불가
+drop policy "인증된 유저 로그 등록" on public.activity_logs;
+revoke insert, update, delete on public.activity_logs from anon, authenticated;
+
+-- 화면 · 서버 라우트의 작업 기록 (다운로드 · 발송 · 접근 거부 등 행 변경이 아닌 것)
+-- 기록자는 세션에서 정한다. p_user_id 는 service role 호출(예약 작업 · 관리자 API)에서만 쓴다
+create or replace function public.log_activity(p_log jsonb, p_user_id uuid default null)
+returns void as $$
+declare
+  v_uid uuid := case when auth.role() = 'service_role' then p_user_id else auth.uid() end;
+begin
+  if v_uid is null and auth.role() <> 'service_role' then
+    raise exception 'not_authenticated';
+  end if;
+
+  insert into public.activity_logs
+    (user_id, user_name, action, action_type, target_type, target_id, target_name, detail, before_data, after_data, source)
+  values (
+    v_uid,
+    public.activity_actor_name(v_uid),
+    p_log->>'action',
+    coalesce((p_log->>'action_type')::public.activity_action, 'other'),
+    p_log->>'target_type',
+    p_log->>'target_id',
+    p_log->>'target_name',
+    p_log->>'detail',
+    nullif(p_log->'before_data', 'null'::jsonb),
+    nullif(p_log->'after_data', 'null'::jsonb),
+    'app'
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function public.log_activity(jsonb, uuid) from public, anon;
+grant execute on function public.log_activity(jsonb, uuid) to authenticated, service_role;
+
+-- ============================
+-- 활동 로그 학생 id (학생 상세 변경이력)
+-- ============================
+
+-- 학생에 관한 기록(학생 · 플랜 · 자격증 · 독학사 · 전적대 · 문서)은 학생 id 를 함께 남긴다
+-- 학생을 완전삭제한 기록도 남아야 하므로 외래키는 걸지 않는다
+alter table public.activity_logs add column student_id uuid;
+
+create index activity_logs_student_idx on public.activity_logs (student_id, created_at desc);
+
+-- 학생 상세 변경이력 — 담당 학생의 기록은 슈퍼관리자가 아니어도 조회
+create policy "담당 학생 로그 조회" on public.activity_logs
+  for select to authenticated
+  using (student_id is not null and public.can_access_student(student_id));
+
+-- 기존 로그 — id 가 있으면 id 로
+update public.activity_logs
+   set student_id = target_id::uuid
+ where target_type in ('student', 'plan')
+   and target_id ~ '^[0-9a-f-]{36}$';
+
+update public.activity_logs
+   set student_id = coalesce(after_data->>'student_id', before_data->>'student_id')::uuid
+ where source = 'trigger' and student_id is null
+   and coalesce(after_data->>'student_id', before_data->>'student_id') is not null;
+
+-- id 가 없던 예전 로그는 이름으로 (같은 이름의 학생이 한 명뿐일 때만)
+-- 학생 · 플랜은 target_name, 이수인정 · 문서는 detail 끝("… / 이름")이 학생 이름
+with unique_names as (
+  select name, (array_agg(id))[1] as id from public.students group by name having count(*) = 1
+)
+update public.activity_logs l
+   set student_id = u.id
+  from unique_names u
+ where l.student_id is null
+   and l.source = 'app'
+   and u.name = case
+     when l.target_type in ('student', 'plan') then l.target_name
+     when l.target_type in ('subject', 'prev_subject', 'cert', 'dokaksa', 'credit_history', 'transcript')
+       then regexp_replace(l.detail, '^.* / ', '')
+   end;
+
+-- 트리거: 학생 행은 자기 id, 딸린 행은 student_id
+create or replace function public.audit_row_change()
+returns trigger as $$
+declare
+  v_ignore text[] := array['id', 'created_at', 'updated_at', 'updated_by', 'allcare_checked_at'];
+  v_old jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  v_new jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  v_row jsonb := coalesce(v_new, v_old);
+  v_before jsonb;
+  v_after jsonb;
+  v_student_id uuid := (case when tg_table_name = 'students' then v_row->>'id' else v_row->>'student_id' end)::uuid;
+  v_student text;
+begin
+  if tg_op = 'UPDATE' then
+    select jsonb_object_agg(key, v_old->key), jsonb_object_agg(key, value)
+      into v_before, v_after
+      from jsonb_each(v_new)
+     where key <> all(v_ignore) and value is distinct from v_old->key;
+    if v_after is null then return null; end if;
+  elsif tg_op = 'INSERT' then
+    select jsonb_object_agg(key, value) into v_after
+      from jsonb_each(v_new) where key <> all(v_ignore) and value <> 'null'::jsonb;
+  else
+    select jsonb_object_agg(key, value) into v_before
+      from jsonb_each(v_old) where key <> all(v_ignore) and value <> 'null'::jsonb;
+  end if;
+
+  -- 학생에 딸린 행은 학생 이름을 detail 에 (학생 삭제로 함께 지워질 때는 없음)
+  if tg_table_name <> 'students' and v_student_id is not null then
+    select name into v_student from public.students where id = v_student_id;
+  end if;
+
+  insert into public.activity_logs
+    (user_id, user_name, action, action_type, target_type, target_id, target_name, detail, before_data, after_data, source, student_id)
+  values (
+    auth.uid(),
+    public.activity_actor_name(auth.uid()),
+    tg_argv[1] || ' ' || case tg_op when 'INSERT' then '추가' when 'UPDATE' then '수정' else '삭제' end,
+    (case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'update' else 'delete' end)::public.activity_action,
+    coalesce(v_row->>'doc_type', tg_argv[0]),
+    coalesce(v_row->>'id', v_row->>'student_id'),
+    coalesce(v_row->>'name', v_row->>'subject_name', v_row->>'file_name', v_student),
+    v_student,
+    v_before,
+    v_after,
+    'trigger',
+    v_student_id
+  );
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create or replace function public.log_activity(p_log jsonb, p_user_id uuid default null)
+returns void as $$
+declare
+  v_uid uuid := case when auth.role() = 'service_role' then p_user_id else auth.uid() end;
+begin
+  if v_uid is null and auth.role() <> 'service_role' then
+    raise exception 'not_authenticated';
+  end if;
+
+  insert into public.activity_logs
+    (user_id, user_name, action, action_type, target_type, target_id, target_name, detail, before_data, after_data, source, student_id)
+  values (
+    v_uid,
+    public.activity_actor_name(v_uid),
+    p_log->>'action',
+    coalesce((p_log->>'action_type')::public.activity_action, 'other'),
+    p_log->>'target_type',
+    p_log->>'target_id',
+    p_log->>'target_name',
+    p_log->>'detail',
+    nullif(p_log->'before_data', 'null'::jsonb),
+    nullif(p_log->'after_data', 'null'::jsonb),
+    'app',
+    (p_log->>'student_id')::uuid
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- ============================
+-- 활동 로그 검색 · 보관
+-- ============================
+
+-- archive: 오래된 로그를 월별 파일로 옮긴 기록
+alter type public.activity_action add value if not exists 'archive';
+
+-- 문구 · 대상 · 상세 전문 검색 (한글은 형태소 분석 없이 띄어쓰기 단위 + 앞부분 일치)
+alter table public.activity_logs
+  add column search_tsv tsvector generated always as (
+    to_tsvector('simple', coalesce(action, '') || ' ' || coalesce(target_name, '') || ' ' || coalesce(detail, ''))
+  ) stored;
+
+create index activity_logs_search_idx on public.activity_logs using gin (search_tsv);
+create index activity_logs_created_idx on public.activity_logs (created_at desc, id);
+
+-- 검색어 → 단어마다 앞부분 일치, 모두 포함 ("홍길 수정" → '홍길':* & '수정':*)
+create or replace function public.log_search_query(p_search text)
+returns tsquery as $$
+  select string_agg('''' || replace(replace(lexeme, '\', '\\'), '''', '''''') || ''':*', ' & ')::tsquery
+    from unnest(to_tsvector('simple', coalesce(p_search, '')));
+$$ language sql immutable;
+
+-- 조건에 맞는 로그 (RLS 그대로 — 호출한 사용자가 볼 수 있는 로그만)
+-- 분류는 target_type 목록으로 받는다: 포함 목록 또는 제외 목록(시스템 = 다른 분류가 아닌 것)
+-- 날짜는 한국 시간 기준, p_to 당일 포함
+create or replace function public.activity_logs_filtered(
+  p_search text default null,
+  p_action_type text default null,
+  p_target_types text[] default null,
+  p_exclude_target_types text[] default null,
+  p_user_name text default null,
+  p_source text default null,
+  p_from date default null,
+  p_to date default null
+)
+returns setof public.activity_logs as $$
+  select l.*
+    from public.activity_logs l
+   where (coalesce(p_search, '') = '' or l.search_tsv @@ public.log_search_query(p_search))
+     and (p_action_type is null or l.action_type::text = p_action_type)
+     and (p_target_types is null or l.target_type = any(p_target_types))
+     and (p_exclude_target_types is null or coalesce(l.target_type, '') <> all(p_exclude_target_types))
+     and (p_user_name is null or l.user_name = p_user_name)
+     and (p_source is null or l.source = p_source)
+     and (p_from is null or l.created_at >= p_from::timestamp at time zone 'Asia/Seoul')
+     and (p_to is null or l.created_at < (p_to + 1)::timestamp at time zone 'Asia/Seoul');
+$$ language sql stable;
+
+-- 로그 목록 한 페이지 + 전체 건수 (p_limit 이 null 이면 전체)
+create or replace function public.search_activity_logs(
+  p_search text default null,
+  p_action_type text default null,
+  p_target_types text[] default null,
+  p_exclude_target_types text[] default null,
+  p_user_name text default null,
+  p_source text default null,
+  p_from date default null,
+  p_to date default null,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns jsonb as $$
+  with filtered as (
+    select * from public.activity_logs_filtered(
+      p_search, p_action_type, p_target_types, p_exclude_target_types, p_user_name, p_source, p_from, p_to)
+  ),
+  paged as (
+    select f.* from filtered f
+     order by f.created_at desc, f.id
+     limit p_limit offset p_offset
+  )
+  select jsonb_build_object(
+    'total', (select count(*) from filtered),
+    'rows', coalesce((
+      select jsonb_agg(to_jsonb(p) - 'search_tsv' order by p.created_at desc, p.id) from paged p
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- 통계 · 분류 탭 건수 · 관리자 선택지
+create or replace function public.activity_log_summary()
+returns jsonb as $$
+  select jsonb_build_object(
+    'total', (select count(*) from public.activity_logs),
+    'today', (select count(*) from public.activity_logs
+               where created_at >= (now() at time zone 'Asia/Seoul')::date::timestamp at time zone 'Asia/Seoul'),
+    'week',  (select count(*) from public.activity_logs where created_at >= now() - interval '7 days'),
+    'action_types', coalesce((
+      select jsonb_object_agg(action_type, count)
+        from (select action_type, count(*) as count from public.activity_logs group by 1) a
+    ), '{}'::jsonb),
+    'target_types', coalesce((
+      select jsonb_agg(jsonb_build_object('target_type', target_type, 'count', count))
+        from (select target_type, count(*) as count from public.activity_logs group by 1) t
+    ), '[]'::jsonb),
+    'users', coalesce((
+      select jsonb_agg(jsonb_build_object('name', user_name, 'count', count) order by count desc, user_name)
+        from (select user_name, count(*) as count from public.activity_logs group by 1) u
+    ), '[]'::jsonb)
+  );
+$$ language sql stable;
+
+-- 보관 파일 (YYYY-MM.jsonl.gz) — 정책이 없으므로 service role(보관 작업 · 관리자 API)만 접근
+insert into storage.buckets (id, name, public)
+values ('activity-log-archive', 'activity-log-archive', false)
+on conflict (id) do nothing;
+
+-- ============================
+-- 학점은행 과목 캐시 저장 권한
+-- ============================
+
+-- 공용 과목 목록을 덮어쓰므로 서버 라우트(service role)에서만 호출한다
+create or replace function public.save_cb_subjects(p_grade text, p_major text, p_query text, p_rows jsonb)
+returns void as $$
+begin
+  insert into public.cb_subjects (grade_id, major_id, subject_id, name, category, category_detail, credits, fetched_at)
+  select p_grade, p_major, r.id, r.name, r.category, r.category_detail, r.credits, now()
+    from jsonb_to_recordset(p_rows) as r(id text, name text, category text, category_detail text, credits integer)
+  on conflict (grade_id, major_id, subject_id) do update
+    set name = excluded.name,
+        category = coalesce(excluded.category, cb_subjects.category),
+        category_detail = coalesce(excluded.category_detail, cb_subjects.category_detail),
+        credits = coalesce(excluded.credits, cb_subjects.credits),
+        fetched_at = excluded.fetched_at;
+
+  insert into public.cb_subject_searches (grade_id, major_id, query, result_count)
+  values (p_grade, p_major, p_query, jsonb_array_length(p_rows))
+  on conflict (grade_id, major_id, query) do update
+    set result_count = excluded.result_count, searched_at = now();
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function public.save_cb_subjects(text, text, text, jsonb) from public, anon, authenticated;
+grant execute on function public.save_cb_subjects(text, text, text, jsonb) to service_role;
+
+-- ============================
+-- 플랜 저장 시 규칙 검사
+-- ============================
+
+-- planValidation.ts 의 오류(error) 규칙 중 플랜 자체에 대한 것 — 화면을 거치지 않은 저장도 막는다
+-- 학기당 최대 8과목(기수 합산) · 연간 최대 14과목 · 과목 중복 배정 · 없는 과목
+-- p_semesters 는 save_student_plan 과 같은 형식. 위반 문구 목록을 돌려준다 (없으면 빈 배열)
+create or replace function public.plan_violations(p_student_id uuid, p_semesters jsonb)
+returns text[] as $$
+  with assigned as (
+    select s->>'year' as year, (s->>'term')::integer as term, (x.sub->>'subject_id')::bigint as subject_id
+      from jsonb_array_elements(p_semesters) s
+      cross join jsonb_array_elements(coalesce(s->'subjects', '[]')) as x(sub)
+  )
+  select coalesce(array_agg(message), '{}') from (
+    select format('%s년 %s학기 %s과목 — 학기당 최대 8과목까지 수강 가능합니다. (기수 합산 기준)', year, term, count(*)) as message
+      from assigned group by year, term having count(*) > 8
+    union all
+    select format('%s년도 %s과목 — 연간 최대 14과목까지 수강 가능합니다. (1학기+2학기 합산 기준)', year, count(*))
+      from assigned group by year having count(*) > 14
+    union all
+    select format('"%s" 과목이 여러 학기에 중복 배정되어 있습니다.', coalesce(sub.name, a.subject_id::text))
+      from assigned a left join public.subjects sub on sub.id = a.subject_id
+     group by a.subject_id, sub.name having count(*) > 1
+    union all
+    select format('%s년 %s학기에 존재하지 않는 과목(#%s)이 배정되어 있습니다.', a.year, a.term, a.subject_id)
+      from assigned a
+     where not exists (
+       select 1 from public.subjects sub
+        where sub.id = a.subject_id and (sub.student_id is null or sub.student_id = p_student_id))
+  ) v;
+$$ language sql stable;
+
+-- 규칙을 어기면 'plan_invalid' 예외 (detail = 위반 문구, 줄바꿈으로 구분)
+create or replace function public.save_student_plan(p_student_id uuid, p_semesters jsonb, p_expected_revision integer)
+returns integer as $$
+declare
+  v_revision integer;
+  v_errors text[];
+begin
+  insert into public.student_plans (student_id, semesters, semester_subjects, semester_dates, semester_scores)
+  values (p_student_id, '[]', '{}', '{}', '{}')
+  on conflict (student_id) do nothing;
+
+  select revision into v_revision from public.student_plans where student_id = p_student_id for update;
+  if v_revision <> p_expected_revision then
+    raise exception 'plan_conflict' using detail = v_revision::text;
+  end if;
+
+  v_errors := public.plan_violations(p_student_id, p_semesters);
+  if cardinality(v_errors) > 0 then
+    raise exception 'plan_invalid' using detail = array_to_string(v_errors, E'\n');
+  end if;
+
+  delete from public.plan_semesters
+   where student_id = p_student_id
+     and client_id not in (select (s->>'client_id')::integer from jsonb_array_elements(p_semesters) s);
+
+  insert into public.plan_semesters (student_id, client_id, year, term, class_number, start_date, end_date, sort_order)
+  select p_student_id, (s->>'client_id')::integer, s->>'year', (s->>'term')::integer,
+         coalesce((s->>'class_number')::integer, 1),
+         nullif(s->>'start_date', '')::date, nullif(s->>'end_date', '')::date, ord::integer
+    from jsonb_array_elements(p_semesters) with ordinality as e(s, ord)
+  on conflict (student_id, client_id) do update set
+    year = excluded.year,
+    term = excluded.term,
+    class_number = excluded.class_number,
+    start_date = excluded.start_date,
+    end_date = excluded.end_date,
+    sort_order = excluded.sort_order,
+    updated_at = now();
+
+  delete from public.plan_semester_subjects where student_id = p_student_id;
+
+  insert into public.plan_semester_subjects (semester_id, student_id, subject_id, score, sort_order)
+  select ps.id, p_student_id, (x.sub->>'subject_id')::bigint, (x.sub->>'score')::numeric, x.ord::integer
+    from jsonb_array_elements(p_semesters) s
+    join public.plan_semesters ps on ps.student_id = p_student_id and ps.client_id = (s->>'client_id')::integer
+    cross join jsonb_array_elements(coalesce(s->'subjects', '[]')) with ordinality as x(sub, ord)
+  on conflict (semester_id, subject_id) do nothing;
+
+  update public.student_plans
+     set revision = revision + 1, updated_at = now(), updated_by = auth.uid()
+   where student_id = p_student_id
+  returning revision into v_revision;
+
+  return v_revision;
+end;
+$$ language plpgsql;
+
+-- ============================
+-- 기수 공식 일정 날짜 적용 기준
+-- ============================
+
+-- 개강 · 종강일이 모두 있을 때만 공식 일정으로 덮어쓴다 (하나만 있으면 상담사가 입력한 날짜 유지)
+-- 플랜 화면의 scheduleDates() 와 같은 기준 — 둘 다 있을 때만 날짜 입력을 잠근다
+create or replace function public.link_plan_semester_cohort()
+returns trigger as $$
+declare
+  v_cohort public.cohorts%rowtype;
+begin
+  new.cohort_id := null;
+  if new.year ~ '^\d{4}$' then
+    select c.* into v_cohort
+      from public.cohorts c
+      join public.student_centers sc on sc.center_id = c.center_id
+     where sc.student_id = new.student_id
+       and c.year = new.year::integer and c.term = new.term and c.batch = new.class_number
+     order by sc.sort_order
+     limit 1;
+    if found then
+      new.cohort_id := v_cohort.id;
+      if v_cohort.class_start is not null and v_cohort.class_end is not null then
+        new.start_date := v_cohort.class_start;
+        new.end_date := v_cohort.class_end;
+      end if;
+    end if;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- ============================
+-- 활동 로그 기록 권한 · 플랜 학기 변경 기록
+-- ============================
+
+-- log_activity 는 서버(service role)에서만 — 화면의 기록은 /api/activity-log 를 거친다
+-- (브라우저에서 직접 부르면 다른 학생 id · 작업 종류로 기록을 꾸밀 수 있다)
+revoke execute on function public.log_activity(jsonb, uuid) from authenticated;
+
+-- 플랜 학기 · 과목(target_type 'plan'), 개강반 · 등록교육원(target_type 'student') 행도 기록한다
+-- student_id 로 학생 변경이력에 붙는다. 순서 · 내부 번호 · 기수 연결 · 플랜 revision 은 비교하지 않고,
+-- 과목 · 교육원 행은 이름으로, 개강반 행은 "2025년 1학기 3기" 로 표시한다
+create or replace function public.audit_row_change()
+returns trigger as $$
+declare
+  v_ignore text[] := array['id', 'created_at', 'updated_at', 'updated_by', 'allcare_checked_at',
+                           'sort_order', 'client_id', 'semester_id', 'cohort_id', 'revision'];
+  v_old jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  v_new jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  v_row jsonb := coalesce(v_new, v_old);
+  v_before jsonb;
+  v_after jsonb;
+  v_student_id uuid := (case when tg_table_name = 'students' then v_row->>'id' else v_row->>'student_id' end)::uuid;
+  v_student text;
+  v_label text;
+begin
+  if tg_op = 'UPDATE' then
+    select jsonb_object_agg(key, v_old->key), jsonb_object_agg(key, value)
+      into v_before, v_after
+      from jsonb_each(v_new)
+     where key <> all(v_ignore) and value is distinct from v_old->key;
+    if v_after is null then return null; end if;
+  elsif tg_op = 'INSERT' then
+    select jsonb_object_agg(key, value) into v_after
+      from jsonb_each(v_new) where key <> all(v_ignore) and value <> 'null'::jsonb;
+  else
+    select jsonb_object_agg(key, value) into v_before
+      from jsonb_each(v_old) where key <> all(v_ignore) and value <> 'null'::jsonb;
+  end if;
+
+  -- 학생에 딸린 행은 학생 이름을 detail 에 (학생 삭제로 함께 지워질 때는 없음)
+  if tg_table_name <> 'students' and v_student_id is not null then
+    select name into v_student from public.students where id = v_student_id;
+  end if;
+  if v_row ? 'subject_id' then
+    select name into v_label from public.subjects where id = (v_row->>'subject_id')::bigint;
+  elsif v_row ? 'center_id' then
+    select name into v_label from public.education_centers where id = (v_row->>'center_id')::integer;
+  elsif tg_table_name = 'student_cohorts' then
+    v_label := format('%s년 %s학기 %s기', v_row->>'year', v_row->>'term', v_row->>'batch');
+  end if;
+
+  insert into public.activity_logs
+    (user_id, user_name, action, action_type, target_type, target_id, target_name, detail, before_data, after_data, source, student_id)
+  values (
+    auth.uid(),
+    public.activity_actor_name(auth.uid()),
+    tg_argv[1] || ' ' || case tg_op when 'INSERT' then '추가' when 'UPDATE' then '수정' else '삭제' end,
+    (case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'update' else 'delete' end)::public.activity_action,
+    coalesce(v_row->>'doc_type', tg_argv[0]),
+    coalesce(v_row->>'id', v_row->>'student_id'),
+    coalesce(v_row->>'name', v_row->>'subject_name', v_label, v_row->>'file_name', v_student),
+    v_student,
+    v_before,
+    v_after,
+    'trigger',
+    v_student_id
+  );
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+do $$
+declare
+  t record;
+begin
+  for t in select * from (values
+    ('plan_semesters',         'plan',    '플랜 학기'),
+    ('plan_semester_subjects', 'plan',    '플랜 과목'),
+    ('student_cohorts',        'student', '개강반'),
+    ('student_centers',        'student', '등록교육원')
+  ) as v(table_name, target_type, label) loop
+    execute format('drop trigger if exists audit_row_change on public.%I', t.table_name);
+    execute format(
+      'create trigger audit_row_change after insert or update or delete on public.%I
+         for each row execute procedure public.audit_row_change(%L, %L)',
+      t.table_name, t.target_type, t.label);
+  end loop;
+end $$;
+
+-- 개강반 · 등록교육원도 매번 지우고 다시 넣지 않고, 빠진 행만 지운 뒤 순서만 고친다
+-- (그 외에는 위 '상담사 권한' 의 save_student_relations 와 같다)
+create or replace function public.save_student_relations(p_rows jsonb)
+returns void as $$
+declare
+  v_row jsonb;
+  v_student uuid;
+  v_name text;
+  v_ord integer;
+  v_center integer;
+  v_centers integer[];
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  for v_row in select * from jsonb_array_elements(p_rows) loop
+    v_student := (v_row->>'student_id')::uuid;
+    if not public.can_access_student(v_student) then
+      raise exception 'forbidden';
+    end if;
+
+    if v_row ? 'cohorts' then
+      with new_cohorts as (
+        select (c->>'year')::int as year, (c->>'term')::int as term, (c->>'batch')::int as batch, min(t.ord - 1)::int as sort_order
+          from jsonb_array_elements(v_row->'cohorts') with ordinality as t(c, ord)
+         group by 1, 2, 3
+      ), removed as (
+        delete from public.student_cohorts sc
+         where sc.student_id = v_student
+           and not exists (select 1 from new_cohorts n where n.year = sc.year and n.term = sc.term and n.batch = sc.batch)
+      )
+      insert into public.student_cohorts (student_id, year, term, batch, sort_order)
+      select v_student, year, term, batch, sort_order from new_cohorts
+      on conflict (student_id, year, term, batch) do update set sort_order = excluded.sort_order;
+    end if;
+
+    if v_row ? 'centers' then
+      v_centers := '{}';
+      for v_name, v_ord in
+        select trim(t.name), (t.ord - 1)::int
+          from jsonb_array_elements_text(v_row->'centers') with ordinality as t(name, ord)
+      loop
+        continue when v_name = '';
+        select id into v_center from public.education_centers where name = v_name order by id limit 1;
+        if v_center is null then
+          insert into public.education_centers (name) values (v_name) returning id into v_center;
+        end if;
+        continue when v_center = any(v_centers);
+        v_centers := v_centers || v_center;
+        insert into public.student_centers (student_id, center_id, sort_order)
+        values (v_student, v_center, v_ord)
+        on conflict (student_id, center_id) do update set sort_order = excluded.sort_order;
+      end loop;
+      delete from public.student_centers where student_id = v_student and center_id <> all(v_centers);
+    end if;
+  end loop;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- 과목 행을 매번 지우고 다시 넣으면 저장할 때마다 모든 과목이 삭제 · 추가로 기록되므로
+-- 빠진 과목만 지우고 나머지는 점수 · 순서만 고친다 (나머지는 위 '플랜 저장 시 규칙 검사' 와 같다)
+create or replace function public.save_student_plan(p_student_id uuid, p_semesters jsonb, p_expected_revision integer)
+returns integer as $$
+declare
+  v_revision integer;
+  v_errors text[];
+begin
+  insert into public.student_plans (student_id, semesters, semester_subjects, semester_dates, semester_scores)
+  values (p_student_id, '[]', '{}', '{}', '{}')
+  on conflict (student_id) do nothing;
+
+  select revision into v_revision from public.student_plans where student_id = p_student_id for update;
+  if v_revision <> p_expected_revision then
+    raise exception 'plan_conflict' using detail = v_revision::text;
+  end if;
+
+  v_errors := public.plan_violations(p_student_id, p_semesters);
+  if cardinality(v_errors) > 0 then
+    raise exception 'plan_invalid' using detail = array_to_string(v_errors, E'\n');
+  end if;
+
+  delete from public.plan_semesters
+   where student_id = p_student_id
+     and client_id not in (select (s->>'client_id')::integer from jsonb_array_elements(p_semesters) s);
+
+  insert into public.plan_semesters (student_id, client_id, year, term, class_number, start_date, end_date, sort_order)
+  select p_student_id, (s->>'client_id')::integer, s->>'year', (s->>'term')::integer,
+         coalesce((s->>'class_number')::integer, 1),
+         nullif(s->>'start_date', '')::date, nullif(s->>'end_date', '')::date, ord::integer
+    from jsonb_array_elements(p_semesters) with ordinality as e(s, ord)
+  on conflict (student_id, client_id) do update set
+    year = excluded.year,
+    term = excluded.term,
+    class_number = excluded.class_number,
+    start_date = excluded.start_date,
+    end_date = excluded.end_date,
+    sort_order = excluded.sort_order,
+    updated_at = now();
+
+  with new_subjects as (
+    select ps.id as semester_id, (x.sub->>'subject_id')::bigint as subject_id,
+           (x.sub->>'score')::numeric as score, x.ord::integer as sort_order
+      from jsonb_array_elements(p_semesters) s
+      join public.plan_semesters ps on ps.student_id = p_student_id and ps.client_id = (s->>'client_id')::integer
+      cross join jsonb_array_elements(coalesce(s->'subjects', '[]')) with ordinality as x(sub, ord)
+  ), removed as (
+    delete from public.plan_semester_subjects pss
+     where pss.student_id = p_student_id
+       and not exists (select 1 from new_subjects n where n.semester_id = pss.semester_id and n.subject_id = pss.subject_id)
+  )
+  insert into public.plan_semester_subjects (semester_id, student_id, subject_id, score, sort_order)
+  select semester_id, p_student_id, subject_id, score, sort_order from new_subjects
+  on conflict (semester_id, subject_id) do update set
+    score = excluded.score,
+    sort_order = excluded.sort_order;
+
+  update public.student_plans
+     set revision = revision + 1, updated_at = now(), updated_by = auth.uid()
+   where student_id = p_student_id
+  returning revision into v_revision;
+
+  return v_revision;
+end;
+$$ language plpgsql;
+
+-- ============================
+-- 플랜 저장은 서버 라우트에서만
+-- ============================
+
+-- 규칙 검사는 planValidation.ts 한 곳 — /api/plans/[studentId]/save 가 검사한 뒤 service role 로 저장한다
+-- 화면에서 save_student_plan 이나 플랜 테이블에 직접 써서 검사를 건너뛰지 못하도록 막는다
+drop function if exists public.save_student_plan(uuid, jsonb, integer);
+drop function if exists public.plan_violations(uuid, jsonb);
+
+revoke insert, update, delete on public.plan_semesters, public.plan_semester_subjects from anon, authenticated;
+
+-- p_user_id: 저장을 요청한 사용자 — updated_by 와 변경 기록(트리거)의 기록자
+create or replace function public.save_student_plan(p_student_id uuid, p_semesters jsonb, p_expected_revision integer, p_user_id uuid)
+returns integer as $$
+declare
+  v_revision integer;
+begin
+  -- 이 트랜잭션 안에서 auth.uid() 가 요청한 사용자를 돌려주도록
+  perform set_config('request.jwt.claim.sub', p_user_id::text, true);
+
+  insert into public.student_plans (student_id, semesters, semester_subjects, semester_dates, semester_scores)
+  values (p_student_id, '[]', '{}', '{}', '{}')
+  on conflict (student_id) do nothing;
+
+  select revision into v_revision from public.student_plans where student_id = p_student_id for update;
+  if v_revision <> p_expected_revision then
+    raise exception 'plan_conflict' using detail = v_revision::text;
+  end if;
+
+  delete from public.plan_semesters
+   where student_id = p_student_id
+     and client_id not in (select (s->>'client_id')::integer from jsonb_array_elements(p_semesters) s);
+
+  insert into public.plan_semesters (student_id, client_id, year, term, class_number, start_date, end_date, sort_order)
+  select p_student_id, (s->>'client_id')::integer, s->>'year', (s->>'term')::integer,
+         coalesce((s->>'class_number')::integer, 1),
+         nullif(s->>'start_date', '')::date, nullif(s->>'end_date', '')::date, ord::integer
+    from jsonb_array_elements(p_semesters) with ordinality as e(s, ord)
+  on conflict (student_id, client_id) do update set
+    year = excluded.year,
+    term = excluded.term,
+    class_number = excluded.class_number,
+    start_date = excluded.start_date,
+    end_date = excluded.end_date,
+    sort_order = excluded.sort_order,
+    updated_at = now();
+
+  with new_subjects as (
+    select ps.id as semester_id, (x.sub->>'subject_id')::bigint as subject_id,
+           (x.sub->>'score')::numeric as score, x.ord::integer as sort_order
+      from jsonb_array_elements(p_semesters) s
+      join public.plan_semesters ps on ps.student_id = p_student_id and ps.client_id = (s->>'client_id')::integer
+      cross join jsonb_array_elements(coalesce(s->'subjects', '[]')) with ordinality as x(sub, ord)
+  ), removed as (
+    delete from public.plan_semester_subjects pss
+     where pss.student_id = p_student_id
+       and not exists (select 1 from new_subjects n where n.semester_id = pss.semester_id and n.subject_id = pss.subject_id)
+  )
+  insert into public.plan_semester_subjects (semester_id, student_id, subject_id, score, sort_order)
+  select semester_id, p_student_id, subject_id, score, sort_order from new_subjects
+  on conflict (semester_id, subject_id) do update set
+    score = excluded.score,
+    sort_order = excluded.sort_order;
+
+  update public.student_plans
+     set revision = revision + 1, updated_at = now(), updated_by = p_user_id
+   where student_id = p_student_id
+  returning revision into v_revision;
+
+  return v_revision;
+end;
+$$ language plpgsql set search_path = public;
+
+revoke execute on function public.save_student_plan(uuid, jsonb, integer, uuid) from public, anon, authenticated;
+grant execute on function public.save_student_plan(uuid, jsonb, integer, uuid) to service_role;
+
+-- ============================
+-- 플랜 버전 기록 권한
+-- ============================
+
+-- 버전 이력은 화면에서 직접 고치거나 지울 수 없다 — 조회만 허용하고 기록은 아래 함수로만
+-- (조회 범위는 '상담사 권한' 의 "담당 학생만" 제한 정책을 그대로 따른다)
+drop policy "인증된 유저 플랜버전 전체" on public.plan_versions;
+create policy "인증된 유저 플랜버전 조회" on public.plan_versions
+  for select to authenticated using (true);
+revoke insert, update, delete on public.plan_versions from anon, authenticated;
+
+-- 현재 편집 세션의 버전 저장 (student_id + session_id 기준 upsert)
+-- 기록자는 세션 사용자 — 다른 사용자의 세션 버전은 덮어쓰지 않는다
+create or replace function public.save_plan_version(p_student_id uuid, p_session_id uuid, p_snapshot jsonb)
+returns void as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+  if not public.can_access_student(p_student_id) then
+    raise exception 'forbidden';
+  end if;
+
+  insert into public.plan_versions (student_id, session_id, snapshot, user_id, user_name)
+  values (
+    p_student_id, p_session_id, p_snapshot, auth.uid(),
+    coalesce((select name from public.profiles where id = auth.uid()), '알 수 없음')
+  )
+  on conflict (student_id, session_id) do update set
+    snapshot = excluded.snapshot,
+    user_name = excluded.user_name,
+    updated_at = now()
+  where plan_versions.user_id = auth.uid();
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function public.save_plan_version(uuid, uuid, jsonb) from public, anon;
+grant execute on function public.save_plan_version(uuid, uuid, jsonb) to authenticated;
+
+-- ============================
+-- 학생 병합 — 개강반 · 등록교육원 · 플랜 버전
+-- ============================
+
+-- student_cohorts · student_centers · plan_versions 도 남길 학생으로 옮긴다 (중복은 건너뜀)
+-- 그 외에는 위 '중복 학생 병합' 의 merge_students 와 같다
+create or replace function public.merge_students(p_keep uuid, p_merge uuid)
+returns jsonb as $$
+declare
+  v_counts jsonb := '{}';
+  v_n integer;
+  v_plan integer;
+  v_client_offset integer;
+  v_sort_offset integer;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'super_admin') then
+    raise exception 'forbidden';
+  end if;
+  if p_keep = p_merge then
+    raise exception 'same_student';
+  end if;
+  perform 1 from public.students where id in (p_keep, p_merge) for update;
+
+  update public.student_memos set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('memos', v_n);
+  update public.student_contacts set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('contacts', v_n);
+  update public.student_credit_certs set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('certs', v_n);
+  update public.student_dokaksa set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('dokaksa', v_n);
+  update public.student_prev_subjects set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('prev_subjects', v_n);
+  update public.student_documents set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('documents', v_n);
+  update public.student_credit_history set student_id = p_keep where student_id = p_merge;
+  -- 학생 전용 과목 (플랜에서 직접 추가한 과목)
+  update public.subjects set student_id = p_keep where student_id = p_merge;
+
+  -- 개강반 · 등록교육원: 남길 학생에게 없는 것만 뒤에 붙인다 (나머지는 학생 삭제와 함께 지워진다)
+  insert into public.student_cohorts (student_id, year, term, batch, sort_order)
+  select p_keep, m.year, m.term, m.batch,
+         m.sort_order + 1 + coalesce((select max(sort_order) from public.student_cohorts where student_id = p_keep), -1)
+    from public.student_cohorts m
+   where m.student_id = p_merge
+  on conflict (student_id, year, term, batch) do nothing;
+  insert into public.student_centers (student_id, center_id, sort_order)
+  select p_keep, m.center_id,
+         m.sort_order + 1 + coalesce((select max(sort_order) from public.student_centers where student_id = p_keep), -1)
+    from public.student_centers m
+   where m.student_id = p_merge
+  on conflict (student_id, center_id) do nothing;
+
+  -- 플랜 버전 이력 (같은 편집 세션 번호가 이미 있으면 남길 학생 것을 유지)
+  update public.plan_versions m set student_id = p_keep
+   where m.student_id = p_merge
+     and not exists (select 1 from public.plan_versions k where k.student_id = p_keep and k.session_id = m.session_id);
+
+  -- 플랜: 이미 남길 학생 플랜에 있는 과목은 버린다
+  delete from public.plan_semester_subjects pss
+   where pss.student_id = p_merge
+     and exists (select 1 from public.plan_semester_subjects x where x.student_id = p_keep and x.subject_id = pss.subject_id);
+
+  -- 같은 학기가 있으면 그 학기로 과목만 옮긴다
+  update public.plan_semester_subjects pss
+     set semester_id = k.id, student_id = p_keep
+    from public.plan_semesters m
+    join public.plan_semesters k
+      on k.student_id = p_keep and k.year = m.year and k.term = m.term and k.class_number = m.class_number
+   where pss.semester_id = m.id and m.student_id = p_merge;
+  get diagnostics v_plan = row_count;
+
+  delete from public.plan_semesters m
+   where m.student_id = p_merge
+     and exists (select 1 from public.plan_semesters k
+                  where k.student_id = p_keep and k.year = m.year and k.term = m.term and k.class_number = m.class_number);
+
+  -- 나머지 학기는 번호를 뒤로 밀어서 옮긴다
+  select coalesce(max(client_id) + 1, 0), coalesce(max(sort_order), 0)
+    into v_client_offset, v_sort_offset
+    from public.plan_semesters where student_id = p_keep;
+  update public.plan_semesters
+     set student_id = p_keep, client_id = client_id + v_client_offset, sort_order = sort_order + v_sort_offset, updated_at = now()
+   where student_id = p_merge;
+  update public.plan_semester_subjects set student_id = p_keep where student_id = p_merge;
+  get diagnostics v_n = row_count; v_counts := v_counts || jsonb_build_object('plan_subjects', v_plan + v_n);
+
+  -- 편집 중인 화면이 다시 불러오도록 revision 증가
+  update public.student_plans set revision = revision + 1, updated_at = now(), updated_by = auth.uid()
+   where student_id = p_keep;
+
+  delete from public.students where id = p_merge;
+  return v_counts;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- ============================
+-- security definer 함수 search_path 고정
+-- ============================
+
+-- 호출자가 바꾼 search_path 로 다른 스키마의 같은 이름 테이블 · 함수를 끼워 넣지 못하도록
+-- (이후 create or replace 로 다시 만들 때는 정의에 set search_path = public 을 함께 적는다)
+alter function public.handle_new_user() set search_path = public;
+alter function public.can_access_manager(integer) set search_path = public;
+alter function public.can_access_student(uuid) set search_path = public;
+alter function public.save_student_relations(jsonb) set search_path = public;
+alter function public.reassign_students(uuid[], integer) set search_path = public;
+alter function public.link_manager_profile(integer, uuid) set search_path = public;
+alter function public.merge_students(uuid, uuid) set search_path = public;
+alter function public.link_plan_semester_cohort() set search_path = public;
+alter function public.sync_cohort_plans() set search_path = public;
+alter function public.hit_rate_limit(text, integer, integer) set search_path = public;
+alter function public.save_allcare_sync(jsonb) set search_path = public;